@@ -122,19 +122,7 @@ When creating PRDs:
 
 Output the PRD in markdown format following the template structure exactly.`;
 
-export function createPRDPrompt(input: string): string {
-  return `Based on the following input, create a comprehensive PRD following this template:
-
-${PRD_TEMPLATE}
-
----
-
-USER INPUT:
-${input}
-
----
-
-Generate a detailed PRD with:
+const DEFAULT_TEMPLATE_GUIDANCE = `Generate a detailed PRD with:
 1. **Problem statement**: Clear context, user pain points, why this matters now
 2. **Success metrics**: Quantifiable KPIs (e.g., "Increase conversion by 20%", "Reduce support tickets by 30%")
 3. **Competitive analysis**: How others solve this, what we can learn
@@ -147,7 +135,93 @@ Generate a detailed PRD with:
 6. **Analytics**: Specific events to track, funnels to measure
 7. **Timeline**: Realistic phases (Discovery, Design, Development, Testing, Launch)
 8. **Go-to-market**: Marketing channels, sales training needs, FAQs
-9. **Action items**: Concrete next steps for Product, Business, and Design teams
+9. **Action items**: Concrete next steps for Product, Business, and Design teams`;
+
+/**
+ * `##` section headings of a PRD template, in template order
+ */
+export function getTemplateHeadings(template: string): string[] {
+  return Array.from(template.matchAll(/^##\s+(.+?)\s*$/gm), (match) => match[1]);
+}
+
+/**
+ * `##` section headings of the built-in PRD template
+ */
+export const PRD_SECTION_HEADINGS: string[] = getTemplateHeadings(PRD_TEMPLATE);
+
+export function createPRDPrompt(input: string, template: string = PRD_TEMPLATE): string {
+  // Custom team templates get generic guidance built from their own sections
+  const guidance =
+    template === PRD_TEMPLATE
+      ? DEFAULT_TEMPLATE_GUIDANCE
+      : `Generate a detailed PRD that fills in every section of the template, in this order:
+${getTemplateHeadings(template)
+  .map((heading, i) => `${i + 1}. **${heading}**`)
+  .join('\n')}
+
+Follow any guidance in the template's placeholders and keep its "###" sub-headings.`;
+
+  return `Based on the following input, create a comprehensive PRD following this template:
+
+${template}
+
+---
+
+USER INPUT:
+${input}
+
+---
+
+${guidance}
 
 Output in markdown format following the exact template structure.`;
 }
+
+/**
+ * Get the template guidance for a single `##` section (heading, sub-headings and placeholders)
+ */
+export function getTemplateSection(heading: string, template: string = PRD_TEMPLATE): string {
+  const normalized = template.replace(/\r\n/g, '\n');
+  const start = normalized.search(new RegExp(`^##\\s+${escapeRegExp(heading)}\\s*$`, 'm'));
+  if (start === -1) {
+    return `## ${heading}`;
+  }
+  // A section ends at the next separator or the next `##` heading, whichever comes first
+  const rest = normalized.slice(start + 1);
+  const nextBoundary = rest.search(/^(---|##\s)/m);
+  return normalized.slice(start, nextBoundary === -1 ? undefined : start + 1 + nextBoundary).trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function createSectionPrompt(
+  prdMarkdown: string,
+  heading: string,
+  instruction?: string,
+  template: string = PRD_TEMPLATE
+): string {
+  return `Rewrite ONE section of the PRD below. Keep everything else in mind as context, but only output the rewritten section.
+
+SECTION TO REWRITE: "${heading}"
+
+Template for this section:
+${getTemplateSection(heading, template)}
+
+---
+
+FULL PRD (for context):
+${prdMarkdown}
+
+---
+${instruction ? `\nINSTRUCTION FROM THE PRODUCT MANAGER:\n${instruction}\n\n---\n` : ''}
+Rules:
+1. Start your output with the exact heading line "## ${heading}"
+2. Keep any "###" sub-headings from the template for this section
+3. Stay consistent with the problem, solution, and numbers used elsewhere in the PRD
+4. Do not output any other "##" sections, preamble, or closing remarks
+5. Do not wrap the output in a code block
+
+Output only the rewritten section in markdown.`;
+}
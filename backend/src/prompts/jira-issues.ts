@@ -0,0 +1,93 @@
+import { SchemaType, type JsonSchema } from '../services/llm/types';
+import type { PRDDocument } from '../../../shared/types/prd';
+
+export const JIRA_ISSUES_SYSTEM_PROMPT = `You are an experienced product manager and agile delivery lead.
+
+Your role is to:
+1. Break a PRD down into one Jira epic and the user stories needed to deliver it
+2. Write each story so an engineering team can pick it up without re-reading the whole PRD
+3. Give every story concrete, testable acceptance criteria
+4. Keep stories small enough to finish in a single sprint
+
+Only use information from the PRD. Do not invent features, metrics, or deadlines.`;
+
+function bulletList(items: string[]): string {
+  return items.length > 0 ? items.map((item) => `- ${item}`).join('\n') : '(none)';
+}
+
+export function createJiraIssuesPrompt(document: PRDDocument): string {
+  return `Propose a Jira epic and its child stories for the following PRD.
+
+PRD TITLE: ${document.title}
+
+PROBLEM:
+${document.problem || '(not specified)'}
+
+SOLUTION OVERVIEW:
+${document.solution.overview || '(not specified)'}
+
+USER STORIES:
+${bulletList(document.solution.userStories)}
+
+REQUIREMENTS:
+${bulletList(document.solution.requirements)}
+
+SUCCESS METRICS:
+${bulletList(document.successMetrics)}
+
+Rules:
+1. The epic summary names the feature in under 80 characters; its description states the problem and the goal in 2-4 sentences
+2. Create one story per user story or requirement; merge items only when they describe the same work, and split P0 requirements that are too large for one sprint
+3. Story summaries are short imperative phrases (e.g. "Add bulk export to the reports page")
+4. Story descriptions use "As a [user], I want [goal], so that [benefit]" where the PRD gives a user story
+5. Every story has 2-5 acceptance criteria, each a single testable statement
+6. Set "sourceRequirement" to the exact PRD user story or requirement the story was derived from
+7. Order stories by priority (P0 first)
+
+Return a structured JSON object with this exact format:
+{
+  "epic": {
+    "summary": "<epic title>",
+    "description": "<problem and goal>"
+  },
+  "stories": [
+    {
+      "summary": "<story title>",
+      "description": "<story description>",
+      "acceptanceCriteria": ["<testable criterion>", ...],
+      "sourceRequirement": "<PRD user story or requirement>"
+    }
+  ]
+}`;
+}
+
+/**
+ * JSON schema for the proposed epic and stories
+ */
+export const JIRA_ISSUES_SCHEMA: JsonSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    epic: {
+      type: SchemaType.OBJECT,
+      properties: {
+        summary: { type: SchemaType.STRING },
+        description: { type: SchemaType.STRING }
+      },
+      required: ['summary', 'description']
+    },
+    stories: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          summary: { type: SchemaType.STRING },
+          description: { type: SchemaType.STRING },
+          acceptanceCriteria: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+          sourceRequirement: { type: SchemaType.STRING }
+        },
+        required: ['summary', 'description', 'acceptanceCriteria']
+      }
+    }
+  },
+  required: ['epic', 'stories']
+};
@@ -1,4 +1,4 @@
-import { SchemaType } from '@google/generative-ai';
+import { SchemaType, type JsonSchema } from '../../services/llm/types';
 import type { ProblemEvaluation } from '../../../../shared/types/research';
 
 export const INTERVIEW_GENERATOR_SYSTEM_PROMPT = `You are an expert in qualitative user research and interview methodology.
@@ -130,7 +130,7 @@ Create a structured interview guide with the following components:
 Return a structured JSON object with the interview guide.`;
 }
 
-export const INTERVIEW_GUIDE_SCHEMA = {
+export const INTERVIEW_GUIDE_SCHEMA: JsonSchema = {
   type: SchemaType.OBJECT,
   properties: {
     openingScript: {
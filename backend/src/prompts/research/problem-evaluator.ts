@@ -1,4 +1,4 @@
-import { SchemaType } from '@google/generative-ai';
+import { SchemaType, type JsonSchema } from '../../services/llm/types';
 
 export const PROBLEM_EVALUATOR_SYSTEM_PROMPT = `You are a research methodology expert specializing in product discovery and user research.
 
@@ -65,7 +65,7 @@ Perform a comprehensive evaluation covering:
 Return your evaluation as a structured JSON object.`;
 }
 
-export const PROBLEM_EVALUATION_SCHEMA = {
+export const PROBLEM_EVALUATION_SCHEMA: JsonSchema = {
   type: SchemaType.OBJECT,
   properties: {
     clarityScore: {
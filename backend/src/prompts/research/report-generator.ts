@@ -61,7 +61,7 @@ ${
   researchType === 'survey'
     ? `
 ### Response Overview
-- Present high-level response distribution
+- Present high-level response distribution, using the counts and percentages in \`statistics\` exactly as given (they are computed from every response; don't calculate new figures)
 - Demographic breakdown if applicable
 - Completion rate and data quality notes
 
@@ -1,112 +1,171 @@
-import { SchemaType } from '@google/generative-ai';
-import type { SurveyQuestion, InterviewGuide } from '../../../../shared/types/research';
+import { SchemaType, type JsonSchema } from '../../services/llm/types';
+import type { OpenEndedAnswers } from '../../services/survey-stats';
+import type { TranscriptPart } from '../../services/research-batches';
+import type {
+  AnswerCount,
+  CrossTab,
+  InterviewGuide,
+  QuestionStatistics,
+  SurveyStatistics,
+} from '../../../../shared/types/research';
 
 // ==========  SURVEY ANALYSIS ==========
 
+/** What the LLM returns for a survey; the numbers in SurveyAnalysis are computed in code */
+export interface SurveyInterpretation {
+  keyTrends: string[];
+  openEndedPainPoints: Array<{ pain: string; responseIds: number[] }>;
+  insightClusters: Array<{ theme: string; insights: string[] }>;
+  recommendationSummary: string[];
+  decisionSignals: string[];
+}
+
+/** Open-ended themes extracted batch by batch, for surveys with too many answers to quote in one prompt */
+export interface ExtractedOpenEndedThemes {
+  answerCount: number;
+  themes: Array<{ pain: string; count: number }>;
+  insights: string[];
+}
+
 export const SURVEY_ANALYZER_SYSTEM_PROMPT = `You are a data analyst specializing in survey research and quantitative insights.
 
-Your role is to:
-1. Analyze survey response patterns and distributions
-2. Identify statistically significant trends and correlations
-3. Surface top pain points and user needs
-4. Segment responses to uncover differences
-5. Cluster insights into thematic groups
-6. Generate actionable product recommendations
+Your role is to interpret survey statistics that have already been computed exactly from every response:
+1. Explain what the answer distributions, averages and net scores mean for the product
+2. Compare segments in the cross-tabs and call out meaningful differences
+3. Group open-ended answers into pain-point themes, citing the responses behind each
+4. Cluster insights into thematic groups
+5. Generate actionable product recommendations
+
+Never compute, estimate or change numbers. Quote figures only as they appear in the statistics.`;
+
+function formatAnswerTable(distribution: AnswerCount[]): string {
+  return ['| Answer | Count | % |', '| --- | --- | --- |', ...distribution.map((a) => `| ${a.answer} | ${a.count} | ${a.percent}% |`)].join('\n');
+}
+
+function formatQuestionStatistics(stats: QuestionStatistics, index: number): string {
+  const lines = [`Q${index + 1} [${stats.type}] ${stats.questionText}`];
+
+  if (!stats.column) {
+    lines.push('(no uploaded column matched this question)');
+    return lines.join('\n');
+  }
+
+  lines.push(`${stats.responses} answered, ${stats.skipped} skipped${stats.unmatchedAnswers ? `, ${stats.unmatchedAnswers} answers outside the options` : ''}`);
+  if (stats.distribution.length) {
+    lines.push(formatAnswerTable(stats.distribution));
+  }
+  if (stats.mean !== undefined && stats.scale) {
+    lines.push(`Mean ${stats.mean}, median ${stats.median} (scale ${stats.scale.min}-${stats.scale.max})`);
+  }
+  if (stats.netScore) {
+    const { kind, promoters, passives, detractors, score } = stats.netScore;
+    lines.push(
+      kind === 'nps'
+        ? `NPS ${score} (${promoters} promoters, ${passives} passives, ${detractors} detractors)`
+        : `Net score ${score} (top-2-box ${promoters}, middle ${passives}, bottom-2-box ${detractors})`
+    );
+  }
+
+  return lines.join('\n');
+}
 
-Focus on finding patterns, anomalies, and insights that inform product decisions.`;
+function formatCrossTab(tab: CrossTab): string {
+  const answers = [...new Set(tab.segments.flatMap((segment) => segment.distribution.map((a) => a.answer)))];
+  const hasMean = tab.segments.some((segment) => segment.mean !== undefined);
+  const header = ['Segment', 'n', ...answers, ...(hasMean ? ['Mean'] : [])];
+
+  return [
+    `"${tab.questionText}" by "${tab.segmentQuestionText}" (% of each segment)`,
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...tab.segments.map((segment) => {
+      const byAnswer = new Map(segment.distribution.map((a) => [a.answer, a.percent]));
+      const cells = [
+        segment.segment,
+        String(segment.respondents),
+        ...answers.map((answer) => `${byAnswer.get(answer) ?? 0}%`),
+        ...(hasMean ? [segment.mean !== undefined ? String(segment.mean) : '-'] : []),
+      ];
+      return `| ${cells.join(' | ')} |`;
+    }),
+  ].join('\n');
+}
 
 export function createSurveyAnalysisPrompt(
-  questions: SurveyQuestion[],
-  responsesData: any[],
-  problemStatement: string
+  statistics: SurveyStatistics,
+  openEndedAnswers: OpenEndedAnswers[],
+  problemStatement: string,
+  extracted?: ExtractedOpenEndedThemes
 ): string {
-  return `Analyze the following survey data and generate comprehensive insights.
+  const openEnded = openEndedAnswers
+    .filter((question) => question.answers.length)
+    .map(
+      (question) =>
+        `${question.questionText} [objective: ${question.objective}] (showing ${question.answers.length} of ${question.total} answers)\n${question.answers.map((a) => `[R${a.responseId}] ${a.text}`).join('\n')}`
+    );
+
+  const openEndedSection = extracted
+    ? `OPEN-ENDED PAIN THEMES (extracted from all ${extracted.answerCount} open-ended answers; respondent counts are exact):
+${extracted.themes.length ? extracted.themes.map((t) => `- ${t.pain}: ${t.count} respondents`).join('\n') : 'none'}
+
+NOTES FROM THE OPEN-ENDED ANSWERS:
+${extracted.insights.length ? extracted.insights.map((insight) => `- ${insight}`).join('\n') : 'none'}`
+    : openEnded.length
+      ? `OPEN-ENDED ANSWERS (cite them by their [R#] number):\n${openEnded.join('\n\n')}`
+      : 'OPEN-ENDED ANSWERS: none';
+
+  const painPointInstructions = extracted
+    ? `2. **Open-Ended Pain Points**: Return an empty list. The pain themes above were already counted from every answer; refer to them with their counts in the trends and recommendations instead.`
+    : `2. **Open-Ended Pain Points**: Pain themes that recur in the open-ended answers. For each, list the [R#] numbers of every answer that mentions it (numbers only, e.g. 12). Frequencies are counted from these citations, so only cite answers that really mention the pain. Don't repeat pains that are already answer options of closed questions.`;
+
+  return `Interpret the following survey results and generate comprehensive insights.
 
 PROBLEM BEING RESEARCHED:
 ${problemStatement}
 
-SURVEY QUESTIONS:
-${questions.map((q, i) => `Q${i + 1}. [${q.type}] ${q.text}\n  Objective: ${q.objective}${q.options ? `\n  Options: ${q.options.join(', ')}` : ''}`).join('\n\n')}
-
-NUMBER OF RESPONSES: ${responsesData.length}
-
-RESPONSE DATA SUMMARY:
-${JSON.stringify(responsesData.slice(0, 10), null, 2)}
-${responsesData.length > 10 ? `\n... and ${responsesData.length - 10} more responses` : ''}
-
-Perform comprehensive analysis covering:
-
-1. **Response Distribution**:
-   - For each question, calculate distribution of answers
-   - Identify most common responses
-   - Note any surprising or unexpected patterns
-   - Calculate percentages and frequencies
-
-2. **Key Trends**:
-   - What patterns emerge across questions?
-   - Are there correlations between responses?
-   - What themes appear consistently?
-   - What insights stand out?
-
-3. **Top Pain Points**:
-   - Which problems are mentioned most frequently?
-   - What pain points have highest severity?
-   - Rank top 5-7 pain points by frequency
-   - Include direct quotes from open-ended responses
-
-4. **Segment Differences**:
-   - Are there meaningful differences between user groups?
-   - Do behaviors vary by demographic or usage patterns?
-   - What segments have unique needs?
-   - Any surprising segment-specific insights?
-
-5. **Insight Clusters**:
-   - Group related insights into themes
-   - For each theme, provide 2-3 specific insights
-   - Connect insights to product opportunities
-   - Highlight unexpected or counter-intuitive findings
-
-6. **Recommendation Summary**:
-   - Based on the data, what should the product team do?
-   - Prioritize 5-7 actionable recommendations
-   - Each recommendation should be specific and data-backed
-   - Include the "why" (insight) and "what" (action)
-
-7. **Decision Signals**:
-   - Clear yes/no signals from the data
-   - Validated or invalidated hypotheses
-   - Confidence levels for key assumptions
-   - Data that supports or contradicts the problem statement
+NUMBER OF RESPONDENTS: ${statistics.respondentCount}
+
+QUESTION STATISTICS (computed exactly from all responses):
+${statistics.questions.map(formatQuestionStatistics).join('\n\n')}
+
+${statistics.crossTabs.length ? `CROSS-TABS BY SCREENING ANSWERS:\n${statistics.crossTabs.map(formatCrossTab).join('\n\n')}` : 'CROSS-TABS: none (no screening question with 2-8 distinct answers)'}
+
+${openEndedSection}
+
+Provide:
+
+1. **Key Trends**: The patterns the statistics show, including segment differences from the cross-tabs. Quote the figures exactly as given.
+
+${painPointInstructions}
+
+3. **Insight Clusters**: Group related insights into themes, 2-3 specific insights each, connected to product opportunities.
+
+4. **Recommendation Summary**: 5-7 specific, prioritized actions, each backed by a figure or cited answers from above.
+
+5. **Decision Signals**: Clear signals from the data, hypotheses validated or invalidated, and how strongly the numbers support or contradict the problem statement.
 
 Return a structured JSON analysis.`;
 }
 
-export const SURVEY_ANALYSIS_SCHEMA = {
+export const SURVEY_INTERPRETATION_SCHEMA: JsonSchema = {
   type: SchemaType.OBJECT,
   properties: {
-    responseDistribution: {
-      type: SchemaType.OBJECT,
-      description: 'Distribution of responses for each question',
-    },
     keyTrends: {
       type: SchemaType.ARRAY,
       items: { type: SchemaType.STRING },
-      description: 'Major patterns and trends found in the data',
+      description: 'Major patterns and segment differences, quoting the computed figures',
     },
-    topPainPoints: {
+    openEndedPainPoints: {
       type: SchemaType.ARRAY,
       items: {
         type: SchemaType.OBJECT,
         properties: {
           pain: { type: SchemaType.STRING },
-          frequency: { type: SchemaType.NUMBER },
+          responseIds: { type: SchemaType.ARRAY, items: { type: SchemaType.INTEGER } },
         },
+        required: ['pain', 'responseIds'],
       },
-      description: 'Top pain points ranked by frequency',
-    },
-    segmentDifferences: {
-      type: SchemaType.OBJECT,
-      description: 'Meaningful differences between user segments',
+      description: 'Pain themes from open-ended answers with the [R#] numbers of the answers citing them',
     },
     insightClusters: {
       type: SchemaType.ARRAY,
@@ -130,15 +189,66 @@ export const SURVEY_ANALYSIS_SCHEMA = {
       description: 'Clear signals that inform decisions',
     },
   },
-  required: [
-    'responseDistribution',
-    'keyTrends',
-    'topPainPoints',
-    'segmentDifferences',
-    'insightClusters',
-    'recommendationSummary',
-    'decisionSignals',
-  ],
+  required: ['keyTrends', 'openEndedPainPoints', 'insightClusters', 'recommendationSummary', 'decisionSignals'],
+};
+
+// ========== BATCHED SURVEY ANALYSIS ==========
+
+/** Pain themes and notes from one batch of open-ended answers */
+export interface SurveyBatchFindings {
+  painPoints: Array<{ pain: string; responseIds: number[] }>;
+  insights: string[];
+}
+
+export function createSurveyBatchPrompt(
+  openEndedAnswers: OpenEndedAnswers[],
+  problemStatement: string,
+  batch: { index: number; total: number }
+): string {
+  return `Extract pain themes from batch ${batch.index + 1} of ${batch.total} of a survey's open-ended answers. The other batches are analyzed separately and merged afterwards.
+
+PROBLEM BEING RESEARCHED:
+${problemStatement}
+
+OPEN-ENDED ANSWERS (cite them by their [R#] number):
+${openEndedAnswers
+  .map(
+    (question) =>
+      `${question.questionText} [objective: ${question.objective}]\n${question.answers.map((a) => `[R${a.responseId}] ${a.text}`).join('\n')}`
+  )
+  .join('\n\n')}
+
+Provide:
+
+1. **Pain Points**: Pain themes that recur in these answers, named in a short, general way so the same theme can be recognized in other batches. For each, list the [R#] numbers of every answer that mentions it (numbers only, e.g. 12). Frequencies are counted from these citations, so only cite answers that really mention the pain.
+
+2. **Insights**: 3-5 short notes on what else stands out in these answers, such as workarounds, desired outcomes or strong emotions.
+
+Return a structured JSON object.`;
+}
+
+export const SURVEY_BATCH_SCHEMA: JsonSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    painPoints: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          pain: { type: SchemaType.STRING },
+          responseIds: { type: SchemaType.ARRAY, items: { type: SchemaType.INTEGER } },
+        },
+        required: ['pain', 'responseIds'],
+      },
+      description: 'Pain themes with the [R#] numbers of the answers citing them',
+    },
+    insights: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+      description: 'Other notable observations from these answers',
+    },
+  },
+  required: ['painPoints', 'insights'],
 };
 
 // ========== INTERVIEW ANALYSIS ==========
@@ -168,7 +278,7 @@ ${problemStatement}
 NUMBER OF INTERVIEWS: ${transcriptsData.length}
 
 INTERVIEW TRANSCRIPTS:
-${transcriptsData.map((transcript, i) => `\n=== Interview ${i + 1} ===\n${transcript.substring(0, 1000)}${transcript.length > 1000 ? '...' : ''}`).join('\n\n')}
+${transcriptsData.map((transcript, i) => `\n=== Interview ${i + 1} ===\n${transcript}`).join('\n\n')}
 
 Perform comprehensive qualitative analysis covering:
 
@@ -213,7 +323,7 @@ Perform comprehensive qualitative analysis covering:
 Return a structured JSON analysis with rich qualitative insights.`;
 }
 
-export const INTERVIEW_ANALYSIS_SCHEMA = {
+export const INTERVIEW_ANALYSIS_SCHEMA: JsonSchema = {
   type: SchemaType.OBJECT,
   properties: {
     themes: {
@@ -282,3 +392,153 @@ export const INTERVIEW_ANALYSIS_SCHEMA = {
     'productDecisionInputs',
   ],
 };
+
+// ========== BATCHED INTERVIEW ANALYSIS ==========
+
+/** Findings from one batch of transcripts, citing interviews by number so frequencies can be counted across batches */
+export interface InterviewBatchFindings {
+  themes: Array<{ theme: string; interviews: number[]; quotes: string[] }>;
+  quoteHighlights: Array<{ quote: string; speaker: string; context: string }>;
+  objections: Array<{ objection: string; interviews: number[] }>;
+  needs: Array<{ need: string; interviews: number[] }>;
+  opportunityAreas: string[];
+  productDecisionInputs: string[];
+}
+
+export function createInterviewBatchPrompt(
+  guide: InterviewGuide,
+  parts: TranscriptPart[],
+  problemStatement: string,
+  batch: { index: number; total: number; interviewCount: number }
+): string {
+  const interviews = [...new Set(parts.map((p) => p.interview))];
+
+  return `Analyze batch ${batch.index + 1} of ${batch.total} of a study's ${batch.interviewCount} interview transcripts. The other batches are analyzed separately and merged afterwards.
+
+PROBLEM BEING RESEARCHED:
+${problemStatement}
+
+INTERVIEW GUIDE QUESTIONS:
+${guide.questions.map((q) => `- ${q.question}`).join('\n')}
+
+INTERVIEW TRANSCRIPTS (interviews ${interviews.join(', ')}):
+${parts.map((p) => `\n=== Interview ${p.interview}${p.parts > 1 ? ` (part ${p.part} of ${p.parts})` : ''} ===\n${p.text}`).join('\n\n')}
+
+Extract:
+
+1. **Themes**: Recurring themes in these transcripts, named in a short, general way so the same theme can be recognized in other batches. For each, list the numbers of the interviews that mention it (numbers only, e.g. 3) and 1-3 representative quotes. Frequencies are counted from these interview numbers, so only list interviews that really mention the theme.
+
+2. **Quote Highlights**: 2-4 powerful, concrete quotes with speaker context (role, situation).
+
+3. **Objections**: Concerns or objections raised, with the numbers of the interviews that raised each.
+
+4. **Needs**: Needs that were stated or clearly implied, with the numbers of the interviews that mentioned each.
+
+5. **Opportunity Areas**: Product opportunities these transcripts point to.
+
+6. **Product Decision Inputs**: Specific features, workflows, integrations, decision criteria or deal-breakers mentioned.
+
+Return a structured JSON object.`;
+}
+
+export const INTERVIEW_BATCH_SCHEMA: JsonSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    themes: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          theme: { type: SchemaType.STRING },
+          interviews: { type: SchemaType.ARRAY, items: { type: SchemaType.INTEGER } },
+          quotes: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+        },
+        required: ['theme', 'interviews', 'quotes'],
+      },
+      description: 'Themes with the numbers of the interviews mentioning them',
+    },
+    quoteHighlights: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          quote: { type: SchemaType.STRING },
+          speaker: { type: SchemaType.STRING },
+          context: { type: SchemaType.STRING },
+        },
+      },
+      description: 'Representative quotes that illustrate key insights',
+    },
+    objections: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          objection: { type: SchemaType.STRING },
+          interviews: { type: SchemaType.ARRAY, items: { type: SchemaType.INTEGER } },
+        },
+        required: ['objection', 'interviews'],
+      },
+      description: 'Objections with the numbers of the interviews raising them',
+    },
+    needs: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          need: { type: SchemaType.STRING },
+          interviews: { type: SchemaType.ARRAY, items: { type: SchemaType.INTEGER } },
+        },
+        required: ['need', 'interviews'],
+      },
+      description: 'Needs with the numbers of the interviews mentioning them',
+    },
+    opportunityAreas: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+      description: 'Product opportunities identified',
+    },
+    productDecisionInputs: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+      description: 'Specific inputs for product decisions',
+    },
+  },
+  required: ['themes', 'quoteHighlights', 'objections', 'needs', 'opportunityAreas', 'productDecisionInputs'],
+};
+
+// ========== MERGING BATCH FINDINGS ==========
+
+export const LABEL_MERGE_SYSTEM_PROMPT = `You are a research analyst consolidating findings that were extracted from separate batches of the same study.
+
+Group labels that describe the same finding, even when worded differently. Keep labels that describe different findings apart, and never invent findings that aren't in the list.`;
+
+export function createLabelMergePrompt(category: string, labels: string[]): string {
+  return `The following ${category} were extracted from separate batches of the same study, so several may describe the same thing.
+
+${category.toUpperCase()}:
+${labels.map((label, i) => `[${i + 1}] ${label}`).join('\n')}
+
+Group the ${category} that mean the same thing. For each group, give a short, clear label and the [#] numbers of its members (numbers only, e.g. 4). Every number should appear in exactly one group; a ${category.replace(/s$/, '')} with no duplicates is a group of its own.
+
+Return a structured JSON object.`;
+}
+
+export const LABEL_MERGE_SCHEMA: JsonSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    groups: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          label: { type: SchemaType.STRING },
+          members: { type: SchemaType.ARRAY, items: { type: SchemaType.INTEGER } },
+        },
+        required: ['label', 'members'],
+      },
+      description: 'Labels grouped by meaning, with the [#] numbers of each group',
+    },
+  },
+  required: ['groups'],
+};
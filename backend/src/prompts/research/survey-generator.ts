@@ -1,4 +1,4 @@
-import { SchemaType } from '@google/generative-ai';
+import { SchemaType, type JsonSchema } from '../../services/llm/types';
 import type { ProblemEvaluation } from '../../../../shared/types/research';
 
 export const SURVEY_GENERATOR_SYSTEM_PROMPT = `You are a survey design expert specializing in product research and user feedback collection.
@@ -114,7 +114,7 @@ Each question should have one of these objectives:
 Return a JSON array of survey questions.`;
 }
 
-export const SURVEY_QUESTIONS_SCHEMA = {
+export const SURVEY_QUESTIONS_SCHEMA: JsonSchema = {
   type: SchemaType.OBJECT,
   properties: {
     questions: {
@@ -1,3 +1,98 @@
+import { SchemaType, type JsonSchema } from '../services/llm/types';
+import { PRD_SECTION_HEADINGS } from './creator';
+import type { ReviewRubric } from '../../../shared/types/review';
+
+// Bump whenever the review prompt or output schema changes, so stored review scores stay comparable
+export const REVIEW_PROMPT_VERSION = '2.0';
+
+/**
+ * Built-in review rubric, used until the org saves its own
+ */
+export const DEFAULT_REVIEW_RUBRIC: ReviewRubric = {
+  version: 0,
+  name: 'Default rubric',
+  severityThreshold: 'important',
+  categories: [
+    {
+      id: 'completeness',
+      name: 'Completeness',
+      weight: 2,
+      criteria: [
+        'Every required template section is present and filled in',
+        'The problem statement says who is affected and why it matters now',
+      ],
+    },
+    {
+      id: 'requirements',
+      name: 'Requirements clarity',
+      weight: 3,
+      criteria: [
+        'Requirements are prioritized as P0/P1/P2',
+        'Every P0 requirement has testable acceptance criteria',
+        'User stories follow "As a [user], I want [goal], so that [benefit]"',
+      ],
+    },
+    {
+      id: 'edge-cases',
+      name: 'Edge cases',
+      weight: 2,
+      criteria: [
+        'Error states and failure modes are described',
+        'Empty states, limits, and timeout or offline behavior are covered',
+      ],
+    },
+    {
+      id: 'security',
+      name: 'Security',
+      weight: 2,
+      criteria: [
+        'Authentication and authorization requirements are specified',
+        'Handling of sensitive data (encryption, access control) is described',
+      ],
+    },
+    {
+      id: 'accessibility',
+      name: 'Accessibility',
+      weight: 1,
+      criteria: ['Accessibility requirements (WCAG 2.1 AA) are stated for new UI'],
+    },
+    {
+      id: 'data-retention',
+      name: 'Data retention & privacy',
+      weight: 1,
+      criteria: [
+        'A retention and deletion policy is defined for any new data collected',
+        'Privacy obligations (GDPR/CCPA, consent) are addressed',
+      ],
+    },
+    {
+      id: 'metrics',
+      name: 'Metrics',
+      weight: 2,
+      criteria: [
+        'Success metrics have a baseline, a target, and a timeframe',
+        'The analytics events needed to measure the metrics are listed',
+      ],
+    },
+    {
+      id: 'go-to-market',
+      name: 'Go-to-market',
+      weight: 1,
+      criteria: [
+        'A rollout plan (phases, feature flags, rollback) is defined',
+        'Launch communication and sales/support enablement are planned',
+      ],
+    },
+  ],
+};
+
+/**
+ * Id the reviewer uses to report on a rubric criterion, e.g. "security.1"
+ */
+export function rubricCriterionId(categoryId: string, index: number): string {
+  return `${categoryId}.${index + 1}`;
+}
+
 export const SYSTEM_PROMPT = `You are a senior product reviewer specializing in comprehensive PRD (Product Requirements Document) reviews.
 
 Your role is to:
@@ -10,7 +105,33 @@ Your role is to:
 
 Be thorough, critical, and constructive. Your goal is to ensure the PRD is production-ready.`;
 
-export function createReviewPrompt(prdContent: string): string {
+export const REVISION_SYSTEM_PROMPT = `You are an expert product manager revising a PRD based on reviewer feedback.
+
+Your role is to:
+1. Address each selected review finding with a concrete edit to the PRD
+2. Keep the existing structure, headings, and everything the findings don't touch
+3. Make every change traceable back to the finding that motivated it
+
+Never invent findings, and never silently rewrite sections that weren't flagged.`;
+
+/**
+ * @param requiredSections `##` headings of the PRD's template; anything missing is reported in missingSections
+ * @param rubric Every criterion gets a pass/fail result; the overall score is computed from these in code
+ */
+export function createReviewPrompt(
+  prdContent: string,
+  requiredSections: string[] = PRD_SECTION_HEADINGS,
+  rubric: ReviewRubric = DEFAULT_REVIEW_RUBRIC
+): string {
+  const rubricChecks = rubric.categories
+    .map((category) => {
+      const criteria = category.criteria
+        .map((criterion, i) => `- [${rubricCriterionId(category.id, i)}] ${criterion}`)
+        .join('\n');
+      return `### ${category.name}\n${criteria}`;
+    })
+    .join('\n\n');
+
   return `Review the following PRD and provide comprehensive feedback.
 
 PRD TO REVIEW:
@@ -21,6 +142,9 @@ ${prdContent}
 Perform a thorough review covering:
 
 1. **Missing Sections**: Which required PRD sections are missing or empty?
+   Required sections (from the PRD template):
+${requiredSections.map((heading) => `   - ${heading}`).join('\n')}
+   Report missing sections using these exact headings
 
 2. **Unclear Requirements**: Identify vague, ambiguous, or untestable requirements
    - Flag requirements that lack acceptance criteria
@@ -74,10 +198,28 @@ For each issue found:
 - Rate severity: critical (blocks launch), important (should fix), or suggestion (nice to have)
 - Provide actionable recommendations
 
+RUBRIC CHECKS:
+Evaluate every criterion below against the PRD. Each criterion has an id in square brackets.
+- A criterion passes only if the PRD explicitly satisfies it; mark it failed if it is missing, vague, or contradicted
+- For failed criteria, rate severity: critical (blocks launch), important (should fix), or suggestion (nice to have)
+- In "note", cite the evidence for a pass, or say what is missing for a fail
+- Report every criterion exactly once, using its exact id
+
+${rubricChecks}
+
+Do not give an overall score; it is calculated from your rubric results.
+
 Return your review as a structured JSON object with this exact format:
 {
-  "overallScore": <number 0-100>,
   "summary": "<brief overall assessment>",
+  "criteriaResults": [
+    {
+      "criterionId": "<criterion id, e.g. ${rubricCriterionId(rubric.categories[0]?.id || 'security', 0)}>",
+      "passed": true|false,
+      "severity": "critical|important|suggestion",
+      "note": "<evidence or what is missing>"
+    }
+  ],
   "sections": {
     "missingSections": ["<section name>", ...],
     "unclearRequirements": [
@@ -110,3 +252,140 @@ Return your review as a structured JSON object with this exact format:
 
 Be specific, thorough, and constructive. Focus on helping make this PRD production-ready.`;
 }
+
+export function createRevisionPrompt(
+  prdContent: string,
+  findings: Array<{ id: string; category: string; text: string; section?: string; severity?: string }>
+): string {
+  const findingList = findings
+    .map((f) => {
+      const meta = [f.category, f.section && `section: ${f.section}`, f.severity].filter(Boolean).join(', ');
+      return `- [${f.id}] (${meta}) ${f.text}`;
+    })
+    .join('\n');
+
+  return `Revise the following PRD to address ONLY the review findings listed below.
+
+PRD TO REVISE:
+---
+${prdContent}
+---
+
+FINDINGS TO ADDRESS:
+${findingList}
+
+Rules:
+1. Return the COMPLETE revised PRD in markdown, not just the changed parts
+2. Keep all "##" section headings and their order; add a missing section only if a finding asks for it
+3. Make the smallest edit that fully resolves each finding (add acceptance criteria, quantify metrics, add edge-case handling, etc.)
+4. Leave text that no finding touches unchanged
+5. For every finding, add one entry to "changes" using its exact id in "findingId"
+
+Return a structured JSON object with this exact format:
+{
+  "revisedMarkdown": "<the complete revised PRD in markdown>",
+  "summary": "<1-2 sentence summary of the revision>",
+  "changes": [
+    {
+      "findingId": "<id of the finding, e.g. edgeCases-0>",
+      "section": "<PRD section that was edited>",
+      "description": "<what was changed to address the finding>"
+    }
+  ]
+}`;
+}
+
+/**
+ * JSON schema for structured review output
+ */
+export const REVIEW_SCHEMA: JsonSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    criteriaResults: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          criterionId: { type: SchemaType.STRING },
+          passed: { type: SchemaType.BOOLEAN },
+          severity: { type: SchemaType.STRING },
+          note: { type: SchemaType.STRING }
+        },
+        required: ['criterionId', 'passed']
+      }
+    },
+    sections: {
+      type: SchemaType.OBJECT,
+      properties: {
+        missingSections: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+        unclearRequirements: {
+          type: SchemaType.ARRAY,
+          items: {
+            type: SchemaType.OBJECT,
+            properties: {
+              section: { type: SchemaType.STRING },
+              issue: { type: SchemaType.STRING },
+              severity: { type: SchemaType.STRING }
+            },
+            required: ['section', 'issue', 'severity']
+          }
+        },
+        edgeCases: {
+          type: SchemaType.ARRAY,
+          items: {
+            type: SchemaType.OBJECT,
+            properties: {
+              scenario: { type: SchemaType.STRING },
+              concern: { type: SchemaType.STRING }
+            },
+            required: ['scenario', 'concern']
+          }
+        },
+        technicalRisks: {
+          type: SchemaType.ARRAY,
+          items: {
+            type: SchemaType.OBJECT,
+            properties: {
+              risk: { type: SchemaType.STRING },
+              impact: { type: SchemaType.STRING },
+              mitigation: { type: SchemaType.STRING }
+            },
+            required: ['risk', 'impact']
+          }
+        },
+        complianceGaps: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+        metricsGaps: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+        uxGaps: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+        goToMarketGaps: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } }
+      },
+      required: ['missingSections', 'unclearRequirements', 'edgeCases', 'technicalRisks', 'complianceGaps', 'metricsGaps', 'uxGaps', 'goToMarketGaps']
+    },
+    recommendations: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+    summary: { type: SchemaType.STRING }
+  },
+  required: ['criteriaResults', 'sections', 'recommendations', 'summary']
+};
+
+/**
+ * JSON schema for revise-from-review output
+ */
+export const REVISION_SCHEMA: JsonSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    revisedMarkdown: { type: SchemaType.STRING },
+    summary: { type: SchemaType.STRING },
+    changes: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          findingId: { type: SchemaType.STRING },
+          section: { type: SchemaType.STRING },
+          description: { type: SchemaType.STRING }
+        },
+        required: ['findingId', 'section', 'description']
+      }
+    }
+  },
+  required: ['revisedMarkdown', 'summary', 'changes']
+};
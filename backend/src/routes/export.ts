@@ -2,6 +2,10 @@ import express from 'express';
 import { z } from 'zod';
 import { confluenceService } from '../services/confluence';
 import { notionService } from '../services/notion';
+import { prdService } from '../services/prd';
+import { prdExportService } from '../services/prd-export';
+import { createServiceContext } from '../services/service-context';
+import type { ExportPRDRequest, ExportPRDResponse } from '../../../shared/types';
 
 const router = express.Router();
 
@@ -14,8 +18,14 @@ const ExportSchema = z.object({
   content: z.string().min(1, 'Content is required'),
   spaceKey: z.string().optional(),
   parentPageId: z.string().optional(),
+  prdId: z.string().optional(),
+  force: z.boolean().optional(),
 }).refine(
   (data) => {
+    // A PRD exported before already has its page; the service asks for a location if it doesn't
+    if (data.prdId) {
+      return true;
+    }
     if (data.platform === 'confluence' && !data.spaceKey) {
       return false;
     }
@@ -54,76 +64,75 @@ function validate<T extends z.ZodType>(schema: T) {
   };
 }
 
-interface ExportRequest {
-  platform: 'confluence' | 'notion';
-  title: string;
-  content: string;
-  spaceKey?: string;
-  parentPageId?: string;
-}
-
 /**
  * GET /api/export/status
  * Check which export integrations are configured
  */
-router.get('/status', (req, res) => {
-  res.json({
-    confluence: confluenceService.isConfigured(),
-    notion: notionService.isConfigured(),
-  });
+router.get('/status', async (req, res, next) => {
+  try {
+    const ctx = createServiceContext(req.userId!);
+    res.json({
+      confluence: await confluenceService.isConfigured(ctx),
+      notion: await notionService.isConfigured(ctx),
+    });
+  } catch (error) {
+    next(error);
+  }
 });
 
 /**
  * POST /api/export
  * Export a PRD to Confluence or Notion
+ * With a prdId, the page the PRD was last exported to is updated in place; a page edited
+ * outside the app since then is only overwritten with `force` (409 otherwise)
  */
 router.post('/', validate(ExportSchema), async (req, res, next) => {
   try {
-    const { platform, title, content, spaceKey, parentPageId }: ExportRequest = req.body;
-
-    if (platform === 'confluence') {
-      if (!confluenceService.isConfigured()) {
-        return res.status(503).json({
-          success: false,
-          error: 'Confluence integration is not configured',
-        });
-      }
-
-      const result = await confluenceService.createPage(
-        spaceKey!,
-        title,
-        content,
-        parentPageId
-      );
+    const request: ExportPRDRequest = req.body;
+    const { platform } = request;
+    const ctx = createServiceContext(req.userId!);
+    const service = platform === 'confluence' ? confluenceService : notionService;
 
-      res.json({
-        success: true,
-        platform: 'confluence',
-        pageId: result.id,
-        url: result.url,
+    if (!(await service.isConfigured(ctx))) {
+      return res.status(503).json({
+        success: false,
+        error: `${platform === 'confluence' ? 'Confluence' : 'Notion'} integration is not configured`,
       });
-    } else if (platform === 'notion') {
-      if (!notionService.isConfigured()) {
-        return res.status(503).json({
-          success: false,
-          error: 'Notion integration is not configured',
-        });
-      }
+    }
+
+    const prd = request.prdId ? await prdService.getPrd(req.userId!, request.prdId) : null;
+    if (request.prdId && !prd) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
 
-      const result = await notionService.createPage(
-        parentPageId!,
-        title,
-        content
-      );
+    const outcome = await prdExportService.exportPrd(ctx, prd, request);
 
-      res.json({
-        success: true,
-        platform: 'notion',
-        pageId: result.id,
-        url: result.url,
-      });
+    if (outcome.status === 'conflict') {
+      const response: ExportPRDResponse = {
+        success: false,
+        platform,
+        pageId: outcome.pageId,
+        url: outcome.url,
+        conflict: outcome.conflict,
+        error: `The ${platform === 'confluence' ? 'Confluence' : 'Notion'} page was edited since the last export`,
+      };
+      return res.status(409).json(response);
     }
+
+    console.log(`📤 ${outcome.status === 'updated' ? 'Updated' : 'Created'} ${platform} page ${outcome.pageId}`);
+
+    const response: ExportPRDResponse = {
+      success: true,
+      platform,
+      pageId: outcome.pageId,
+      url: outcome.url,
+      updated: outcome.status === 'updated',
+    };
+    res.json(response);
   } catch (error: any) {
+    if (error.message.includes('is required for')) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
     console.error('Error exporting PRD:', error);
     next(error);
   }
@@ -0,0 +1,77 @@
+import express from 'express';
+import { z } from 'zod';
+import { confluenceService } from '../services/confluence';
+import { notionService } from '../services/notion';
+import { createServiceContext } from '../services/service-context';
+import type { ImportPageRequest, ImportPageResponse } from '../../../shared/types';
+
+const router = express.Router();
+
+// Validation schemas
+const ImportPageSchema = z.object({
+  platform: z.enum(['confluence', 'notion'], {
+    errorMap: () => ({ message: 'Platform must be either "confluence" or "notion"' })
+  }),
+  page: z.string().trim().min(1, 'Page ID or URL is required'),
+});
+
+// Validation middleware
+function validate<T extends z.ZodType>(schema: T) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      req.body = schema.parse(req.body);
+      next();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        });
+      }
+      next(error);
+    }
+  };
+}
+
+/**
+ * POST /api/import
+ * Fetch a Confluence or Notion page as markdown, to use as Creator input or review it
+ */
+router.post('/', validate(ImportPageSchema), async (req, res, next) => {
+  try {
+    const { platform, page }: ImportPageRequest = req.body;
+    const ctx = createServiceContext(req.userId!);
+    const service = platform === 'confluence' ? confluenceService : notionService;
+
+    if (!(await service.isConfigured(ctx))) {
+      return res.status(503).json({
+        success: false,
+        error: `${platform === 'confluence' ? 'Confluence' : 'Notion'} integration is not configured`,
+      });
+    }
+
+    const imported = await service.fetchPage(ctx, page);
+    console.log(`📥 Imported ${platform} page "${imported.title}" (${imported.markdown.length} chars)`);
+
+    const response: ImportPageResponse = { success: true, page: imported };
+    res.json(response);
+  } catch (error: any) {
+    if (error.message.includes('page reference')) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    if (error.message.includes('API error: 404') || error.message.includes('API error: 403')) {
+      return res.status(404).json({
+        success: false,
+        error: 'Page not found, or it is not shared with the integration',
+      });
+    }
+    console.error('Error importing page:', error);
+    next(error);
+  }
+});
+
+export default router;
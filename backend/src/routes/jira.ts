@@ -1,7 +1,10 @@
 import express from 'express';
 import { z } from 'zod';
-import { jiraService } from '../services/jira';
-import { FetchJiraRequest } from '../../../shared/types/jira';
+import { jiraService, JiraApiError } from '../services/jira';
+import { prdService } from '../services/prd';
+import { prdJiraService } from '../services/prd-jira';
+import { createServiceContext } from '../services/service-context';
+import { FetchJiraRequest, JiraEpicProposal, JiraSearchRequest } from '../../../shared/types/jira';
 
 const router = express.Router();
 
@@ -43,10 +46,14 @@ function validate<T extends z.ZodType>(schema: T) {
  * GET /api/jira/status
  * Check if Jira integration is configured
  */
-router.get('/status', (req, res) => {
-  res.json({
-    configured: jiraService.isConfigured(),
-  });
+router.get('/status', async (req, res, next) => {
+  try {
+    res.json({
+      configured: await jiraService.isConfigured(createServiceContext(req.userId!)),
+    });
+  } catch (error) {
+    next(error);
+  }
 });
 
 /**
@@ -58,14 +65,16 @@ router.post('/fetch', validate(FetchJiraSchema), async (req, res, next) => {
     // FetchJiraSchema ensures ticketId is a string, not an array
     const { ticketId } = req.body as { ticketId: string };
 
-    if (!jiraService.isConfigured()) {
+    const ctx = createServiceContext(req.userId!);
+
+    if (!(await jiraService.isConfigured(ctx))) {
       return res.status(503).json({
         success: false,
         error: 'Jira integration is not configured',
       });
     }
 
-    const ticket = await jiraService.fetchTicket(ticketId.trim());
+    const ticket = await jiraService.fetchTicket(ctx, ticketId.trim());
 
     res.json({
       success: true,
@@ -85,6 +94,69 @@ router.post('/fetch', validate(FetchJiraSchema), async (req, res, next) => {
   }
 });
 
+/**
+ * POST /api/jira/search
+ * Search tickets by JQL, or by epic or sprint, one page at a time
+ */
+const SearchJiraSchema = z
+  .object({
+    jql: z.string().trim().min(1).max(2000).optional(),
+    epicKey: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(/^[A-Z][A-Z0-9_]+-\d+$/, 'Epic must be a Jira issue key, e.g. PROJ-42')
+      .optional(),
+    sprint: z.string().trim().min(1).max(200).optional(),
+    projectKey: z.string().trim().toUpperCase().regex(/^[A-Z][A-Z0-9_]+$/, 'Invalid project key').optional(),
+    nextPageToken: z.string().optional(),
+    maxResults: z.number().int().min(1).max(100).default(25),
+  })
+  .refine(
+    (search) => [search.jql, search.epicKey, search.sprint].filter(Boolean).length === 1,
+    'Provide exactly one of jql, epicKey or sprint'
+  );
+
+router.post('/search', validate(SearchJiraSchema), async (req, res, next) => {
+  try {
+    const search = req.body as JiraSearchRequest;
+
+    const ctx = createServiceContext(req.userId!);
+
+    if (!(await jiraService.isConfigured(ctx))) {
+      return res.status(503).json({
+        success: false,
+        error: 'Jira integration is not configured',
+      });
+    }
+
+    const jql = jiraService.buildSearchJql(search);
+    const { issues, nextPageToken } = await jiraService.searchIssues(ctx, jql, {
+      nextPageToken: search.nextPageToken,
+      maxResults: search.maxResults,
+    });
+
+    res.json({
+      success: true,
+      jql,
+      issues,
+      ...(nextPageToken && { nextPageToken }),
+    });
+  } catch (error: any) {
+    console.error('Error searching Jira:', error);
+
+    // Jira answers 400 for JQL it can't parse or that names unknown projects, sprints or fields
+    if (error instanceof JiraApiError && error.status === 400) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid search: ${error.detail}`,
+      });
+    }
+
+    next(error);
+  }
+});
+
 /**
  * POST /api/jira/transform
  * Transform a Jira ticket (or multiple tickets) into PRD input format
@@ -94,7 +166,9 @@ router.post('/transform', validate(TransformJiraSchema), async (req, res, next)
   try {
     const { ticketId } = req.body;
 
-    if (!jiraService.isConfigured()) {
+    const ctx = createServiceContext(req.userId!);
+
+    if (!(await jiraService.isConfigured(ctx))) {
       return res.status(503).json({
         success: false,
         error: 'Jira integration is not configured',
@@ -110,13 +184,13 @@ router.post('/transform', validate(TransformJiraSchema), async (req, res, next)
       console.log(`Processing ${ticketIds.length} Jira tickets:`, ticketIds);
 
       // Fetch all tickets in parallel
-      const tickets = await jiraService.fetchMultipleTickets(ticketIds);
+      const tickets = await jiraService.fetchMultipleTickets(ctx, ticketIds);
 
       // Generate combined PRD input
       const prdInput = jiraService.transformMultipleTicketsToPRDInput(tickets);
 
       // Generate combined AI summary
-      const summary = await jiraService.generateCombinedSummary(tickets);
+      const summary = await jiraService.generateCombinedSummary(ctx, tickets);
 
       res.json({
         success: true,
@@ -129,9 +203,9 @@ router.post('/transform', validate(TransformJiraSchema), async (req, res, next)
       });
     } else {
       // Handle single ticket (existing logic)
-      const ticket = await jiraService.fetchTicket(ticketId.trim());
+      const ticket = await jiraService.fetchTicket(ctx, ticketId.trim());
       const prdInput = jiraService.transformTicketToPRDInput(ticket);
-      const summary = await jiraService.generateSummary(ticket);
+      const summary = await jiraService.generateSummary(ctx, ticket);
 
       res.json({
         success: true,
@@ -170,14 +244,16 @@ router.post('/comment', validate(AddCommentSchema), async (req, res, next) => {
   try {
     const { ticketId, comment } = req.body;
 
-    if (!jiraService.isConfigured()) {
+    const ctx = createServiceContext(req.userId!);
+
+    if (!(await jiraService.isConfigured(ctx))) {
       return res.status(503).json({
         success: false,
         error: 'Jira integration is not configured',
       });
     }
 
-    const result = await jiraService.addComment(ticketId, comment);
+    const result = await jiraService.addComment(ctx, ticketId, comment);
 
     res.json({
       success: true,
@@ -204,7 +280,9 @@ router.post('/attachment', validate(AddAttachmentSchema), async (req, res, next)
   try {
     const { ticketId, filename, fileData } = req.body;
 
-    if (!jiraService.isConfigured()) {
+    const ctx = createServiceContext(req.userId!);
+
+    if (!(await jiraService.isConfigured(ctx))) {
       return res.status(503).json({
         success: false,
         error: 'Jira integration is not configured',
@@ -214,7 +292,7 @@ router.post('/attachment', validate(AddAttachmentSchema), async (req, res, next)
     // Decode base64 file data
     const fileBuffer = Buffer.from(fileData, 'base64');
 
-    const result = await jiraService.addAttachment(ticketId, fileBuffer, filename);
+    const result = await jiraService.addAttachment(ctx, ticketId, fileBuffer, filename);
 
     res.json({
       success: true,
@@ -228,4 +306,99 @@ router.post('/attachment', validate(AddAttachmentSchema), async (req, res, next)
   }
 });
 
+/**
+ * POST /api/jira/propose
+ * Propose an epic with child stories and acceptance criteria from a saved PRD; nothing is created in Jira yet
+ */
+const ProjectKeySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z][A-Z0-9_]+$/, 'Project key must be a Jira project key, e.g. PROJ');
+
+const ProposeIssuesSchema = z.object({
+  prdId: z.string().min(1, 'PRD ID is required'),
+  projectKey: ProjectKeySchema,
+});
+
+router.post('/propose', validate(ProposeIssuesSchema), async (req, res, next) => {
+  try {
+    const { prdId, projectKey } = req.body;
+
+    const ctx = createServiceContext(req.userId!);
+
+    const prd = await prdService.getPrd(req.userId!, prdId);
+    if (!prd) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    const proposal = await prdJiraService.proposeIssues(ctx, prd, projectKey);
+
+    res.json({ success: true, proposal });
+  } catch (error: any) {
+    console.error('Error proposing Jira issues:', error);
+
+    if (error.message.includes('no user stories or requirements')) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    next(error);
+  }
+});
+
+/**
+ * POST /api/jira/push
+ * Create the (edited) epic and stories in Jira and link them back to the PRD
+ */
+const StoryProposalSchema = z.object({
+  summary: z.string().trim().min(1, 'Story summary is required').max(255),
+  description: z.string().max(30_000).default(''),
+  acceptanceCriteria: z.array(z.string().trim().min(1, 'Acceptance criteria cannot be empty')).max(20).default([]),
+  sourceRequirement: z.string().optional(),
+});
+
+const PushIssuesSchema = z.object({
+  prdId: z.string().min(1, 'PRD ID is required'),
+  proposal: z.object({
+    projectKey: ProjectKeySchema,
+    epic: z.object({
+      summary: z.string().trim().min(1, 'Epic summary is required').max(255),
+      description: z.string().max(30_000).default(''),
+    }),
+    stories: z.array(StoryProposalSchema).max(50, 'Push at most 50 stories at a time'),
+  }),
+});
+
+router.post('/push', validate(PushIssuesSchema), async (req, res, next) => {
+  try {
+    const { prdId, proposal } = req.body as { prdId: string; proposal: JiraEpicProposal };
+
+    const ctx = createServiceContext(req.userId!);
+
+    if (!(await jiraService.isConfigured(ctx))) {
+      return res.status(503).json({
+        success: false,
+        error: 'Jira integration is not configured',
+      });
+    }
+
+    const prd = await prdService.getPrd(req.userId!, prdId);
+    if (!prd) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    const { epic, stories, errors } = await prdJiraService.pushProposal(ctx, prd, proposal);
+
+    res.json({
+      success: true,
+      epic,
+      stories,
+      ...(errors.length > 0 && { errors }),
+    });
+  } catch (error: any) {
+    console.error('Error pushing PRD to Jira:', error);
+    next(error);
+  }
+});
+
 export default router;
@@ -0,0 +1,165 @@
+import express from 'express';
+import { z } from 'zod';
+import { jobQueue } from '../services/job-queue';
+import type { Job } from '../../../shared/types';
+
+const router = express.Router();
+
+const HEARTBEAT_INTERVAL_MS = 15_000; // Keeps proxies from closing an idle progress stream
+
+// Validation schemas
+const ListJobsQuerySchema = z.object({
+  resourceId: z.string().optional(),
+  type: z
+    .enum([
+      'research.evaluate',
+      'research.generate-questions',
+      'research.analyze',
+      'research.report',
+      'prd.review',
+      'prd.review-document',
+    ])
+    .optional(),
+  status: z.enum(['queued', 'running', 'completed', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+const isFinished = (job: Job) => job.status === 'completed' || job.status === 'failed';
+
+/**
+ * GET /api/jobs
+ * List the user's jobs, newest first, optionally for one research session or PRD
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const validation = ListJobsQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+    }
+
+    const jobs = await jobQueue.listJobs(req.userId, validation.data);
+    res.json({ success: true, jobs });
+  } catch (error: any) {
+    console.error('Error listing jobs:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/jobs/:id
+ * Get a job's status, progress and, once finished, its result or error
+ */
+router.get('/:id', async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const job = await jobQueue.getJob(req.userId, String(req.params.id));
+    if (!job) {
+      return res.status(404).json({ success: false, error: 'Job not found' });
+    }
+
+    res.json({ success: true, job });
+  } catch (error: any) {
+    console.error('Error getting job:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/jobs/:id/events
+ * Stream a job's updates as server-sent events, starting with its current state
+ * The stream ends once the job completes or fails
+ */
+router.get('/:id/events', async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const jobId = String(req.params.id);
+    if (!(await jobQueue.getJob(req.userId, jobId))) {
+      return res.status(404).json({ success: false, error: 'Job not found' });
+    }
+
+    // Set up SSE
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    let closed = false;
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+
+    const send = (update: Job) => {
+      if (closed) return;
+      res.write(`data: ${JSON.stringify({ job: update })}\n\n`);
+      if (isFinished(update)) close();
+    };
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+    };
+
+    // Subscribe before reading the current state, so no update falls in between
+    const unsubscribe = jobQueue.subscribe(jobId, send);
+    res.on('close', close);
+
+    const job = await jobQueue.getJob(req.userId, jobId);
+    if (job) send(job);
+    else close();
+  } catch (error: any) {
+    console.error('Error streaming job events:', error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    next(error);
+  }
+});
+
+/**
+ * POST /api/jobs/:id/retry
+ * Queue a failed job again with the same input
+ */
+router.post('/:id/retry', async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const jobId = String(req.params.id);
+    const job = await jobQueue.retry(req.userId, jobId);
+
+    if (!job) {
+      const existing = await jobQueue.getJob(req.userId, jobId);
+      return existing
+        ? res.status(409).json({ success: false, error: `Only failed jobs can be retried (this one is ${existing.status})` })
+        : res.status(404).json({ success: false, error: 'Job not found' });
+    }
+
+    res.json({ success: true, job });
+  } catch (error: any) {
+    console.error('Error retrying job:', error);
+    next(error);
+  }
+});
+
+export default router;
@@ -4,10 +4,33 @@ import multer from 'multer';
 import { claudeService } from '../services/claude';
 import { documentParserService } from '../services/documentParser';
 import { documentExportService } from '../services/documentExport';
-import { CreatePRDRequest, ReviewPRDRequest } from '../../../shared/types';
-import fs from 'fs/promises';
-import path from 'path';
-import yaml from 'js-yaml';
+import { prisma } from '../services/database';
+import { prdService } from '../services/prd';
+import { prdDiffService } from '../services/prd-diff';
+import { prdSectionService } from '../services/prd-sections';
+import { prdDocumentService } from '../services/prd-document';
+import { prdReviewService } from '../services/prd-review';
+import { prdJiraService } from '../services/prd-jira';
+import { prdSourceTicketService } from '../services/prd-source-tickets';
+import { prdExportService } from '../services/prd-export';
+import { jiraService, JiraApiError } from '../services/jira';
+import { prdTemplateService } from '../services/prd-templates';
+import { reviewRubricService } from '../services/review-rubric';
+import { createServiceContext } from '../services/service-context';
+import { jobQueue, type JobContext } from '../services/job-queue';
+import { REVIEW_PROMPT_VERSION } from '../prompts/reviewer';
+import {
+  CreatePRDRequest,
+  ReviewPRDRequest,
+  UpdatePRDRequest,
+  RegenerateSectionRequest,
+  ReviseFromReviewRequest,
+  ParsePRDRequest,
+  RenderPRDRequest,
+  AcknowledgeSourceTicketsRequest,
+  LinkPRDToJiraRequest,
+  ReviewJobResult,
+} from '../../../shared/types';
 
 const router = express.Router();
 
@@ -16,15 +39,123 @@ const CreatePRDSchema = z.object({
   input: z.string().min(1, 'Input is required and must be a non-empty string'),
   inputType: z.enum(['text', 'jira']).default('text'),
   sourceId: z.string().optional(),
+  prdId: z.string().optional(),
+  templateId: z.string().optional(),
 });
 
 const ReviewPRDSchema = z.object({
   prdContent: z.string().min(1, 'PRD content is required and must be a non-empty string'),
   format: z.enum(['markdown', 'json']).optional(),
+  prdId: z.string().optional(),
+  templateId: z.string().optional(),
 });
 
+const ReviewFindingSchema = z.object({
+  id: z.string().min(1),
+  category: z.enum([
+    'missingSections',
+    'unclearRequirements',
+    'edgeCases',
+    'technicalRisks',
+    'complianceGaps',
+    'metricsGaps',
+    'uxGaps',
+    'goToMarketGaps',
+    'recommendations',
+  ]),
+  text: z.string().min(1),
+  section: z.string().optional(),
+  severity: z.enum(['critical', 'important', 'suggestion']).optional(),
+});
+
+const ReviseFromReviewSchema = z.object({
+  prdContent: z.string().min(1, 'PRD content is required and must be a non-empty string'),
+  findings: z.array(ReviewFindingSchema).min(1, 'Select at least one finding to address').max(50),
+  prdId: z.string().optional(),
+});
+
+// Accepts generated UUIDs as well as legacy `prd-<timestamp>` ids from the file importer
 const GetPRDSchema = z.object({
-  id: z.string().regex(/^prd-\d+$/, 'Invalid PRD ID format'),
+  id: z.string().regex(/^(prd-\d+|[0-9a-f-]{36})$/, 'Invalid PRD ID format'),
+});
+
+const UpdatePRDSchema = z.object({
+  markdown: z
+    .string()
+    .max(200_000, 'PRD is too large (max 200,000 characters)')
+    .refine((markdown) => markdown.trim().length > 0, 'Markdown content is required')
+    .refine((markdown) => /^\s*#\s+\S/.test(markdown), 'PRD must start with a "# Title" heading'),
+  changeNote: z.string().max(500).optional(),
+});
+
+// The heading is checked against the PRD's own template in the handler
+const RegenerateSectionSchema = z.object({
+  heading: z.string().min(1, 'Section heading is required'),
+  instruction: z.string().max(1000).optional(),
+});
+
+const AcknowledgeSourceTicketsSchema = z.object({
+  ticketKeys: z.array(z.string().min(1)).optional(),
+});
+
+const LinkPRDToJiraSchema = z.object({
+  fieldId: z
+    .string()
+    .trim()
+    .regex(/^(customfield_\d+|[a-zA-Z]+)$/, 'Field must be a Jira field id, e.g. customfield_10050')
+    .optional(),
+});
+
+const ParsePRDSchema = z.object({
+  markdown: z
+    .string()
+    .max(200_000, 'PRD is too large (max 200,000 characters)')
+    .refine((markdown) => markdown.trim().length > 0, 'Markdown content is required'),
+});
+
+const PRDDocumentSchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  problem: z.string(),
+  successMetrics: z.array(z.string()),
+  competitiveAnalysis: z.string(),
+  solution: z.object({
+    overview: z.string(),
+    userStories: z.array(z.string()),
+    userFlow: z.string(),
+    requirements: z.array(z.string()),
+  }),
+  design: z.string(),
+  analytics: z.array(z.string()),
+  timeline: z.string(),
+  goToMarket: z.object({
+    marketing: z.string(),
+    opsAndSalesTraining: z.string(),
+    faqs: z.array(z.object({ question: z.string(), answer: z.string() })),
+  }),
+  actionItems: z.object({
+    product: z.array(z.string()),
+    business: z.array(z.string()),
+    design: z.array(z.string()),
+  }),
+  feedback: z.string(),
+  learnings: z.string(),
+  appendix: z.object({
+    meetingNotes: z.array(z.string()),
+  }),
+  otherSections: z.array(z.object({ heading: z.string().min(1), content: z.string() })).optional(),
+});
+
+const RenderPRDSchema = z.object({
+  document: PRDDocumentSchema,
+});
+
+const GetRevisionSchema = GetPRDSchema.extend({
+  version: z.coerce.number().int().positive('Version must be a positive integer'),
+});
+
+const DiffQuerySchema = z.object({
+  from: z.coerce.number().int().positive('from must be a positive integer'),
+  to: z.coerce.number().int().positive('to must be a positive integer'),
 });
 
 // Validation middleware
@@ -57,6 +188,50 @@ function validate<T extends z.ZodType>(schema: T) {
   };
 }
 
+/**
+ * Resolve the template a request follows: the requested one, else the PRD's, else the built-in template
+ * Returns null if a requested template doesn't exist
+ */
+async function resolveTemplate(userId: string, templateId?: string, prd?: { templateId: string | null } | null) {
+  return prdTemplateService.getTemplate(userId, templateId || prd?.templateId);
+}
+
+// What a review job needs, resolved while handling the request that queued it
+interface ReviewJobInput {
+  content: string;
+  sections: string[];
+  source: 'text' | 'document';
+  prdId?: string;
+  prdVersion?: number;
+  filename?: string;
+}
+
+/**
+ * Review a PRD using Claude, checking for the template's sections and scoring against the org rubric
+ */
+async function runReview(job: JobContext<ReviewJobInput>): Promise<ReviewJobResult> {
+  const { content, sections, source, prdId, prdVersion, filename } = job.input;
+  const ctx = createServiceContext(job.userId);
+
+  await job.reportProgress({ message: 'Reviewing the PRD' });
+  const rubric = await reviewRubricService.getActiveRubric();
+  const review = await claudeService.reviewPRD(ctx, content, sections, rubric);
+
+  const stored = await prdReviewService.saveReview(job.userId, {
+    review,
+    model: await claudeService.getModelName(ctx),
+    promptVersion: REVIEW_PROMPT_VERSION,
+    source,
+    prdId,
+    prdVersion,
+  });
+
+  return { review, reviewId: stored.id, reviewedContent: content, filename };
+}
+
+jobQueue.register('prd.review', runReview);
+jobQueue.register('prd.review-document', runReview);
+
 // Configure multer for file uploads (store in memory)
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -75,73 +250,59 @@ const upload = multer({
   },
 });
 
-// Directory to store PRDs
-const PRDS_DIR = path.join(process.env.HOME || '', 'Documents', 'prd-system', 'prds');
-
-// Ensure PRDs directory exists
-async function ensurePRDsDir() {
-  try {
-    await fs.access(PRDS_DIR);
-  } catch {
-    await fs.mkdir(PRDS_DIR, { recursive: true });
-  }
-}
-
 /**
  * POST /api/prd/create
  * Create a new PRD from user input
  */
 router.post('/create', validate(CreatePRDSchema), async (req, res, next) => {
   try {
-    const { input, inputType, sourceId }: CreatePRDRequest = req.body;
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const { input, inputType, sourceId, prdId, templateId }: CreatePRDRequest = req.body;
+
+    const existing = prdId ? await prdService.getPrd(req.userId, prdId) : null;
+    if (prdId && !existing) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    const template = await resolveTemplate(req.userId, templateId, existing);
+    if (!template) {
+      return res.status(404).json({ success: false, error: 'Template not found' });
+    }
+    const storedTemplateId = template.builtIn ? null : template.id;
+
+    const ctx = createServiceContext(req.userId);
 
     // Generate PRD using Claude
-    const prdMarkdown = await claudeService.createPRD(input);
-
-    // Extract title from PRD (first heading)
-    const titleMatch = prdMarkdown.match(/^#\s+(.+)$/m);
-    const title = titleMatch ? titleMatch[1] : 'Untitled PRD';
-
-    // Generate metadata
-    const timestamp = new Date().toISOString();
-    const id = `prd-${Date.now()}`;
-    const filename = `${id}.md`;
-
-    // Create frontmatter
-    const frontmatter = {
-      id,
-      title,
-      createdAt: timestamp,
-      updatedAt: timestamp,
-      source: inputType,
-      ...(sourceId && { sourceId }),
-    };
-
-    // Combine frontmatter and content
-    const fullContent = `---
-${yaml.dump(frontmatter)}---
-
-${prdMarkdown}`;
-
-    // Save to file
-    await ensurePRDsDir();
-    const filepath = path.join(PRDS_DIR, filename);
-    await fs.writeFile(filepath, fullContent, 'utf-8');
+    const prdMarkdown = await claudeService.createPRD(ctx, input, template.markdown);
+
+    // Regenerating an existing PRD adds a revision instead of creating a new PRD
+    const prd = prdId
+      ? await prdService.saveRevision(req.userId, prdId, prdMarkdown, 'regenerate', undefined, storedTemplateId)
+      : await prdService.createPrd(req.userId, {
+          markdown: prdMarkdown,
+          source: inputType,
+          sourceId,
+          templateId: storedTemplateId ?? undefined,
+        });
+
+    if (!prd) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    if (!prdId) {
+      await prdSourceTicketService.linkTickets(ctx, prd);
+    }
 
     res.json({
       success: true,
       prd: {
-        metadata: {
-          id,
-          createdAt: timestamp,
-          updatedAt: timestamp,
-          source: inputType,
-          ...(sourceId && { sourceId }),
-        },
-        document: { title }, // Simplified for now
+        metadata: prdService.toMetadata(prd),
+        document: prdDocumentService.parse(prdMarkdown),
       },
       markdown: prdMarkdown,
-      filepath,
     });
   } catch (error: any) {
     console.error('Error creating PRD:', error);
@@ -155,49 +316,53 @@ ${prdMarkdown}`;
  */
 router.post('/create-stream', validate(CreatePRDSchema), async (req, res, next) => {
   try {
-    const { input, inputType, sourceId }: CreatePRDRequest = req.body;
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const { input, inputType, sourceId, prdId, templateId }: CreatePRDRequest = req.body;
+
+    const existing = prdId ? await prdService.getPrd(req.userId, prdId) : null;
+    if (prdId && !existing) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    const template = await resolveTemplate(req.userId, templateId, existing);
+    if (!template) {
+      return res.status(404).json({ success: false, error: 'Template not found' });
+    }
+    const storedTemplateId = template.builtIn ? null : template.id;
 
     // Set up SSE
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
     res.setHeader('Connection', 'keep-alive');
 
+    const ctx = createServiceContext(req.userId);
     let fullContent = '';
 
     // Stream PRD generation
-    for await (const chunk of claudeService.createPRDStream(input)) {
+    for await (const chunk of claudeService.createPRDStream(ctx, input, template.markdown)) {
       fullContent += chunk;
       res.write(`data: ${JSON.stringify({ chunk })}\n\n`);
     }
 
-    // Save the generated PRD
-    const titleMatch = fullContent.match(/^#\s+(.+)$/m);
-    const title = titleMatch ? titleMatch[1] : 'Untitled PRD';
-
-    const timestamp = new Date().toISOString();
-    const id = `prd-${Date.now()}`;
-    const filename = `${id}.md`;
-
-    const frontmatter = {
-      id,
-      title,
-      createdAt: timestamp,
-      updatedAt: timestamp,
-      source: inputType,
-      ...(sourceId && { sourceId }),
-    };
-
-    const fullDoc = `---
-${yaml.dump(frontmatter)}---
-
-${fullContent}`;
+    // Save the generated PRD (as a new revision when regenerating)
+    const prd = prdId
+      ? await prdService.saveRevision(req.userId, prdId, fullContent, 'regenerate', undefined, storedTemplateId)
+      : await prdService.createPrd(req.userId, {
+          markdown: fullContent,
+          source: inputType,
+          sourceId,
+          templateId: storedTemplateId ?? undefined,
+        });
 
-    await ensurePRDsDir();
-    const filepath = path.join(PRDS_DIR, filename);
-    await fs.writeFile(filepath, fullDoc, 'utf-8');
+    if (prd && !prdId) {
+      await prdSourceTicketService.linkTickets(ctx, prd);
+    }
 
     // Send completion message
-    res.write(`data: ${JSON.stringify({ done: true, id, filepath })}\n\n`);
+    res.write(`data: ${JSON.stringify({ done: true, id: prd?.id, version: prd?.version })}\n\n`);
     res.end();
   } catch (error: any) {
     console.error('Error streaming PRD:', error);
@@ -208,19 +373,41 @@ ${fullContent}`;
 
 /**
  * POST /api/prd/review
- * Review a PRD and provide feedback
+ * Start reviewing a PRD in the background
  */
 router.post('/review', validate(ReviewPRDSchema), async (req, res, next) => {
   try {
-    const { prdContent }: ReviewPRDRequest = req.body;
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
 
-    // Review PRD using Claude
-    const review = await claudeService.reviewPRD(prdContent);
+    const { prdContent, prdId, templateId }: ReviewPRDRequest = req.body;
 
-    res.json({
-      success: true,
-      review,
-    });
+    const prd = prdId ? await prdService.getPrd(req.userId, prdId) : null;
+    if (prdId && !prd) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    const template = await resolveTemplate(req.userId, templateId, prd);
+    if (!template) {
+      return res.status(404).json({ success: false, error: 'Template not found' });
+    }
+
+    // A saved PRD is reviewed from its stored text, so the score belongs to the revision it's recorded against
+    const job = await jobQueue.enqueue(
+      req.userId,
+      'prd.review',
+      {
+        content: prd ? prd.markdown : prdContent,
+        sections: template.sections,
+        source: 'text',
+        prdId: prd?.id,
+        prdVersion: prd?.version,
+      } satisfies ReviewJobInput,
+      prd?.id
+    );
+
+    res.status(202).json({ success: true, job });
   } catch (error: any) {
     console.error('Error reviewing PRD:', error);
     next(error);
@@ -229,10 +416,27 @@ router.post('/review', validate(ReviewPRDSchema), async (req, res, next) => {
 
 /**
  * POST /api/prd/review-document
- * Upload and review a PRD document (PDF, DOCX, TXT, Excel)
+ * Upload a PRD document (PDF, DOCX, TXT, Excel) and start reviewing it in the background
  */
 router.post('/review-document', upload.single('document'), async (req, res, next) => {
   try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    // Optional form fields linking the review to a saved PRD and choosing the template to check against
+    const prdId = typeof req.body.prdId === 'string' && req.body.prdId ? req.body.prdId : undefined;
+    const prd = prdId ? await prdService.getPrd(req.userId, prdId) : null;
+    if (prdId && !prd) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    const templateId = typeof req.body.templateId === 'string' && req.body.templateId ? req.body.templateId : undefined;
+    const template = await resolveTemplate(req.userId, templateId, prd);
+    if (!template) {
+      return res.status(404).json({ success: false, error: 'Template not found' });
+    }
+
     if (!req.file) {
       return res.status(400).json({
         success: false,
@@ -256,18 +460,137 @@ router.post('/review-document', upload.single('document'), async (req, res, next
 
     console.log(`Extracted ${parsed.text.length} characters from ${originalname}`);
 
+    // Only a document with the PRD's current text is recorded against that revision
+    const linked = prd && parsed.text.trim() === prd.markdown.trim() ? prd : null;
+
     // Review the extracted PRD content
-    const review = await claudeService.reviewPRD(parsed.text);
+    const job = await jobQueue.enqueue(
+      req.userId,
+      'prd.review-document',
+      {
+        content: parsed.text,
+        sections: template.sections,
+        source: 'document',
+        prdId: linked?.id,
+        prdVersion: linked?.version,
+        filename: originalname,
+      } satisfies ReviewJobInput,
+      linked?.id
+    );
+
+    res.status(202).json({ success: true, job });
+  } catch (error: any) {
+    console.error('Error reviewing document:', error);
+
+    if (error.message?.includes('Unsupported file type')) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    next(error);
+  }
+});
+
+/**
+ * POST /api/prd/review/revise
+ * Revise a PRD to address the review findings the user selected
+ */
+router.post('/review/revise', validate(ReviseFromReviewSchema), async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const { prdContent, findings, prdId }: ReviseFromReviewRequest = req.body;
+
+    const existing = prdId ? await prdService.getPrd(req.userId, prdId) : null;
+    if (prdId && !existing) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    console.log(`🛠️  Revising PRD to address ${findings.length} review finding(s)`);
+
+    const ctx = createServiceContext(req.userId);
+
+    // A saved PRD is revised from its stored text, so a stale copy in the browser can't overwrite it
+    const baseMarkdown = existing ? existing.markdown : prdContent;
+    const revision = await claudeService.reviseFromReview(ctx, baseMarkdown, findings);
+
+    // Saved PRDs get the revision in their history; pasted PRDs just get the result back
+    const prd = existing
+      ? await prdService.saveRevision(
+          req.userId,
+          existing.id,
+          revision.revisedMarkdown,
+          'revise',
+          `Addressed ${findings.length} review finding${findings.length === 1 ? '' : 's'}`
+        )
+      : null;
 
     res.json({
       success: true,
-      review,
-      extractedText: parsed.text.substring(0, 500) + '...', // Preview of extracted text
-      metadata: parsed.metadata,
+      revisedMarkdown: revision.revisedMarkdown,
+      summary: revision.summary,
+      changes: revision.changes,
+      diff: prdDiffService.diff(
+        baseMarkdown,
+        revision.revisedMarkdown,
+        existing ? existing.version : 0,
+        prd ? prd.version : 1
+      ),
+      ...(prd && { metadata: prdService.toMetadata(prd) }),
+    });
+  } catch (error: any) {
+    console.error('Error revising PRD from review:', error);
+    next(error);
+  }
+});
+
+/**
+ * POST /api/prd/parse
+ * Parse PRD markdown into a structured PRDDocument
+ */
+router.post('/parse', validate(ParsePRDSchema), (req, res) => {
+  const { markdown }: ParsePRDRequest = req.body;
+
+  res.json({
+    success: true,
+    document: prdDocumentService.parse(markdown),
+  });
+});
+
+/**
+ * POST /api/prd/parse-document
+ * Upload a PRD document (PDF, DOCX, TXT, Excel) and parse it into a structured PRDDocument
+ */
+router.post('/parse-document', upload.single('document'), async (req, res, next) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: 'No file uploaded. Please upload a document.',
+      });
+    }
+
+    const { buffer, mimetype, originalname } = req.file;
+    const parsed = await documentParserService.parseDocument(buffer, mimetype, originalname);
+
+    if (!parsed.text || parsed.text.trim().length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Could not extract text from the document. The file may be empty or corrupted.',
+      });
+    }
+
+    res.json({
+      success: true,
+      document: prdDocumentService.parse(parsed.text),
       filename: originalname,
     });
   } catch (error: any) {
-    console.error('Error reviewing document:', error);
+    console.error('Error parsing document:', error);
 
     if (error.message?.includes('Unsupported file type')) {
       return res.status(400).json({
@@ -280,46 +603,56 @@ router.post('/review-document', upload.single('document'), async (req, res, next
   }
 });
 
+/**
+ * POST /api/prd/render
+ * Render a structured PRDDocument as PRD markdown
+ */
+router.post('/render', validate(RenderPRDSchema), (req, res) => {
+  const { document }: RenderPRDRequest = req.body;
+
+  res.json({
+    success: true,
+    markdown: prdDocumentService.render(document),
+  });
+});
+
 /**
  * GET /api/prd/list
- * List all saved PRDs
+ * List the current user's saved PRDs
  */
 router.get('/list', async (req, res, next) => {
   try {
-    await ensurePRDsDir();
-    const files = await fs.readdir(PRDS_DIR);
-    const prdFiles = files.filter((f) => f.endsWith('.md'));
-
-    const prds = await Promise.all(
-      prdFiles.map(async (filename) => {
-        const filepath = path.join(PRDS_DIR, filename);
-        const content = await fs.readFile(filepath, 'utf-8');
-
-        // Extract frontmatter
-        const frontmatterMatch = content.match(/^---\n([\s\S]+?)\n---/);
-        if (frontmatterMatch) {
-          const metadata = yaml.load(frontmatterMatch[1]) as any;
-          return {
-            filename,
-            filepath,
-            ...metadata,
-          };
-        }
-
-        return {
-          filename,
-          filepath,
-          id: filename.replace('.md', ''),
-          title: 'Unknown',
-        };
-      })
-    );
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const prds = await prisma.prd.findMany({
+      where: { userId: req.userId },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        title: true,
+        version: true,
+        source: true,
+        sourceId: true,
+        templateId: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
 
     res.json({
       success: true,
-      prds: prds.sort((a, b) =>
-        new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime()
-      ),
+      prds: prds.map((p) => ({
+        id: p.id,
+        title: p.title,
+        version: p.version,
+        createdAt: p.createdAt.toISOString(),
+        updatedAt: p.updatedAt.toISOString(),
+        source: p.source,
+        ...(p.sourceId && { sourceId: p.sourceId }),
+        ...(p.templateId && { templateId: p.templateId }),
+      })),
     });
   } catch (error: any) {
     console.error('Error listing PRDs:', error);
@@ -327,46 +660,585 @@ router.get('/list', async (req, res, next) => {
   }
 });
 
+/**
+ * GET /api/prd/template/sections?templateId=
+ * List the `##` sections of a PRD template (targets for section regeneration), the built-in one by default
+ */
+router.get('/template/sections', async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const templateId = typeof req.query.templateId === 'string' ? req.query.templateId : undefined;
+    const template = await prdTemplateService.getTemplate(req.userId, templateId);
+
+    if (!template) {
+      return res.status(404).json({ success: false, error: 'Template not found' });
+    }
+
+    res.json({
+      success: true,
+      sections: template.sections,
+    });
+  } catch (error: any) {
+    console.error('Error listing template sections:', error);
+    next(error);
+  }
+});
+
 /**
  * GET /api/prd/:id
  * Get a specific PRD by ID
  */
 router.get('/:id', validate(GetPRDSchema), async (req, res, next) => {
   try {
-    const { id } = req.params;
-    const filepath = path.join(PRDS_DIR, `${id}.md`);
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
 
-    const content = await fs.readFile(filepath, 'utf-8');
+    const prd = await prdService.getPrd(req.userId, String(req.params.id));
 
-    // Extract frontmatter and content
-    const frontmatterMatch = content.match(/^---\n([\s\S]+?)\n---\n([\s\S]+)/);
-    if (frontmatterMatch) {
-      const metadata = yaml.load(frontmatterMatch[1]) as any;
-      const markdown = frontmatterMatch[2];
+    if (!prd) {
+      return res.status(404).json({
+        success: false,
+        error: 'PRD not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      prd: {
+        metadata: prdService.toMetadata(prd),
+        markdown: prd.markdown,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error getting PRD:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/prd/:id/document
+ * Get a saved PRD's latest version as a structured PRDDocument
+ */
+router.get('/:id/document', validate(GetPRDSchema), async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const prd = await prdService.getPrd(req.userId, String(req.params.id));
+
+    if (!prd) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    res.json({
+      success: true,
+      metadata: prdService.toMetadata(prd),
+      document: prdDocumentService.parse(prd.markdown),
+    });
+  } catch (error: any) {
+    console.error('Error getting PRD document:', error);
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/prd/:id
+ * Save edited markdown for a PRD as a new revision
+ */
+router.put('/:id', validate(UpdatePRDSchema), async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
 
-      res.json({
+    const { markdown, changeNote }: UpdatePRDRequest = req.body;
+    const existing = await prdService.getPrd(req.userId, String(req.params.id));
+
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    // Saving without changes shouldn't add an empty revision to the history
+    if (existing.markdown === markdown) {
+      return res.json({
         success: true,
-        prd: {
-          metadata,
-          markdown,
-        },
+        metadata: prdService.toMetadata(existing),
+        markdown: existing.markdown,
+        unchanged: true,
       });
-    } else {
-      res.json({
-        success: true,
-        prd: {
-          markdown: content,
-        },
+    }
+
+    const prd = await prdService.saveRevision(req.userId, existing.id, markdown, 'edit', changeNote);
+
+    if (!prd) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    console.log(`✏️  Saved edit to PRD ${prd.id} (v${prd.version})`);
+
+    res.json({
+      success: true,
+      metadata: prdService.toMetadata(prd),
+      markdown: prd.markdown,
+    });
+  } catch (error: any) {
+    console.error('Error updating PRD:', error);
+    next(error);
+  }
+});
+
+/**
+ * POST /api/prd/:id/sections/regenerate
+ * Regenerate a single template section with the rest of the PRD as context
+ */
+router.post('/:id/sections/regenerate', validate(RegenerateSectionSchema), async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const { heading: requestedHeading, instruction }: RegenerateSectionRequest = req.body;
+    const existing = await prdService.getPrd(req.userId, String(req.params.id));
+
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    // Section targets come from the template the PRD was generated from
+    const template =
+      (await prdTemplateService.getTemplate(req.userId, existing.templateId)) || prdTemplateService.getDefaultTemplate();
+
+    // Use the template's spelling of the heading
+    const heading = template.sections.find((h) => prdSectionService.headingsMatch(h, requestedHeading));
+    if (!heading) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: [{ field: 'heading', message: `Heading must be one of the "${template.name}" template sections` }],
       });
     }
+    const templateIndex = template.sections.indexOf(heading);
+
+    console.log(`🔁 Regenerating section "${heading}" of PRD ${existing.id}`);
+
+    const ctx = createServiceContext(req.userId);
+
+    const section = await claudeService.regenerateSection(ctx, existing.markdown, heading, instruction, template.markdown);
+    const markdown = prdSectionService.replaceSection(
+      existing.markdown,
+      heading,
+      section,
+      template.sections.slice(templateIndex + 1)
+    );
+
+    const changeNote = instruction
+      ? `Regenerated "${heading}": ${instruction}`
+      : `Regenerated "${heading}"`;
+    const prd = await prdService.saveRevision(req.userId, existing.id, markdown, 'regenerate', changeNote);
+
+    if (!prd) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    res.json({
+      success: true,
+      metadata: prdService.toMetadata(prd),
+      markdown: prd.markdown,
+      section,
+    });
   } catch (error: any) {
-    if (error.code === 'ENOENT') {
-      return res.status(404).json({
+    console.error('Error regenerating PRD section:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/prd/:id/revisions
+ * List the revision history of a PRD, newest first
+ */
+router.get('/:id/revisions', validate(GetPRDSchema), async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const revisions = await prdService.listRevisions(req.userId, String(req.params.id));
+
+    if (!revisions) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    res.json({ success: true, revisions });
+  } catch (error: any) {
+    console.error('Error listing PRD revisions:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/prd/:id/revisions/:version
+ * Get the full content of a single revision
+ */
+router.get('/:id/revisions/:version', validate(GetRevisionSchema), async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const { id, version } = req.params as unknown as z.infer<typeof GetRevisionSchema>;
+    const revision = await prdService.getRevision(req.userId, id, version);
+
+    if (!revision) {
+      return res.status(404).json({ success: false, error: 'Revision not found' });
+    }
+
+    res.json({ success: true, revision });
+  } catch (error: any) {
+    console.error('Error getting PRD revision:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/prd/:id/diff?from=1&to=2
+ * Section-aware diff between two revisions
+ */
+router.get('/:id/diff', validate(GetPRDSchema), async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const validation = DiffQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      return res.status(400).json({
         success: false,
-        error: 'PRD not found',
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
       });
     }
-    console.error('Error getting PRD:', error);
+
+    const { from, to } = validation.data;
+    const id = String(req.params.id);
+
+    const [fromRevision, toRevision] = await Promise.all([
+      prdService.getRevision(req.userId, id, from),
+      prdService.getRevision(req.userId, id, to),
+    ]);
+
+    if (!fromRevision || !toRevision) {
+      return res.status(404).json({ success: false, error: 'Revision not found' });
+    }
+
+    res.json({
+      success: true,
+      diff: prdDiffService.diff(fromRevision.markdown, toRevision.markdown, from, to),
+    });
+  } catch (error: any) {
+    console.error('Error diffing PRD revisions:', error);
+    next(error);
+  }
+});
+
+/**
+ * POST /api/prd/:id/revisions/:version/restore
+ * Restore an older revision (saved as a new revision, history is never rewritten)
+ */
+router.post('/:id/revisions/:version/restore', async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const validation = GetRevisionSchema.safeParse(req.params);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+    }
+
+    const { id, version } = validation.data;
+    const prd = await prdService.restoreRevision(req.userId, id, version);
+
+    if (!prd) {
+      return res.status(404).json({ success: false, error: 'Revision not found' });
+    }
+
+    console.log(`↩️  Restored PRD ${id} to version ${version} (now v${prd.version})`);
+
+    res.json({
+      success: true,
+      metadata: prdService.toMetadata(prd),
+      markdown: prd.markdown,
+    });
+  } catch (error: any) {
+    console.error('Error restoring PRD revision:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/prd/:id/reviews
+ * List stored reviews of a PRD, newest first
+ */
+router.get('/:id/reviews', validate(GetPRDSchema), async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const prd = await prdService.getPrd(req.userId, String(req.params.id));
+    if (!prd) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    const reviews = await prdReviewService.listReviews(req.userId, prd.id);
+
+    res.json({ success: true, reviews });
+  } catch (error: any) {
+    console.error('Error listing PRD reviews:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/prd/:id/reviews/trend
+ * Overall score and per-category gap counts across a PRD's reviews
+ */
+router.get('/:id/reviews/trend', validate(GetPRDSchema), async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const prd = await prdService.getPrd(req.userId, String(req.params.id));
+    if (!prd) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    const trend = await prdReviewService.getScoreTrend(req.userId, prd.id);
+
+    res.json({ success: true, trend });
+  } catch (error: any) {
+    console.error('Error getting PRD review trend:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/prd/:id/jira-issues
+ * List the Jira issues created from a PRD
+ */
+router.get('/:id/jira-issues', validate(GetPRDSchema), async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const prd = await prdService.getPrd(req.userId, String(req.params.id));
+    if (!prd) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    const issues = await prdJiraService.listIssues(prd.id);
+
+    res.json({ success: true, issues });
+  } catch (error: any) {
+    console.error('Error listing PRD Jira issues:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/prd/:id/exports
+ * List the Confluence and Notion pages a PRD was exported to
+ */
+router.get('/:id/exports', validate(GetPRDSchema), async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const prd = await prdService.getPrd(req.userId, String(req.params.id));
+    if (!prd) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    const pages = await prdExportService.listPages(prd.id);
+
+    res.json({ success: true, pages });
+  } catch (error: any) {
+    console.error('Error listing PRD exports:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/prd/:id/source-tickets
+ * List the Jira tickets a PRD was created from, with when each was last synced
+ */
+router.get('/:id/source-tickets', validate(GetPRDSchema), async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const prd = await prdService.getPrd(req.userId, String(req.params.id));
+    if (!prd) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    const tickets = await prdSourceTicketService.listTickets(createServiceContext(req.userId), prd);
+
+    res.json({ success: true, tickets });
+  } catch (error: any) {
+    console.error('Error listing PRD source tickets:', error);
+    next(error);
+  }
+});
+
+/**
+ * POST /api/prd/:id/source-tickets/check
+ * Compare the source tickets with what the PRD last reflected, and suggest sections to regenerate
+ */
+router.post('/:id/source-tickets/check', async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const ctx = createServiceContext(req.userId);
+    if (!(await jiraService.isConfigured(ctx))) {
+      return res.status(503).json({ success: false, error: 'Jira integration is not configured' });
+    }
+
+    const prd = await prdService.getPrd(req.userId, String(req.params.id));
+    if (!prd) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    // Only sections of the PRD's template can be regenerated
+    const template =
+      (await prdTemplateService.getTemplate(req.userId, prd.templateId)) || prdTemplateService.getDefaultTemplate();
+
+    const tickets = await prdSourceTicketService.checkTickets(ctx, prd, template.sections);
+
+    res.json({ success: true, tickets });
+  } catch (error: any) {
+    console.error('Error checking PRD source tickets:', error);
+
+    if (error instanceof JiraApiError && error.status === 404) {
+      return res.status(404).json({ success: false, error: 'One or more source tickets no longer exist in Jira' });
+    }
+
+    next(error);
+  }
+});
+
+/**
+ * POST /api/prd/:id/source-tickets/acknowledge
+ * Mark source ticket changes as handled, so the next check compares against the tickets as they are now
+ */
+router.post(
+  '/:id/source-tickets/acknowledge',
+  validate(AcknowledgeSourceTicketsSchema),
+  async (req, res, next) => {
+    try {
+      if (!req.userId) {
+        return res.status(401).json({ success: false, error: 'User not authenticated' });
+      }
+
+      const { ticketKeys }: AcknowledgeSourceTicketsRequest = req.body;
+
+      const ctx = createServiceContext(req.userId);
+      if (!(await jiraService.isConfigured(ctx))) {
+        return res.status(503).json({ success: false, error: 'Jira integration is not configured' });
+      }
+
+      const prd = await prdService.getPrd(req.userId, String(req.params.id));
+      if (!prd) {
+        return res.status(404).json({ success: false, error: 'PRD not found' });
+      }
+
+      const tickets = await prdSourceTicketService.acknowledge(ctx, prd, ticketKeys);
+
+      res.json({ success: true, tickets });
+    } catch (error: any) {
+      console.error('Error acknowledging PRD source tickets:', error);
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/prd/:id/source-tickets/link
+ * Write the PRD link back to its source tickets (into a Jira field, or as a web link)
+ */
+router.post('/:id/source-tickets/link', validate(LinkPRDToJiraSchema), async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const { fieldId }: LinkPRDToJiraRequest = req.body;
+
+    const ctx = createServiceContext(req.userId);
+    if (!(await jiraService.isConfigured(ctx))) {
+      return res.status(503).json({ success: false, error: 'Jira integration is not configured' });
+    }
+
+    const prd = await prdService.getPrd(req.userId, String(req.params.id));
+    if (!prd) {
+      return res.status(404).json({ success: false, error: 'PRD not found' });
+    }
+
+    const { linked, errors } = await prdSourceTicketService.linkToJira(ctx, prd, fieldId);
+
+    res.json({
+      success: linked.length > 0 || errors.length === 0,
+      linked,
+      ...(errors.length > 0 && { errors }),
+    });
+  } catch (error: any) {
+    console.error('Error linking PRD to Jira:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/prd/:id/reviews/:reviewId
+ * Get a stored review with its full result
+ */
+router.get('/:id/reviews/:reviewId', async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const review = await prdReviewService.getReview(req.userId, req.params.reviewId);
+
+    if (!review || review.prdId !== req.params.id) {
+      return res.status(404).json({ success: false, error: 'Review not found' });
+    }
+
+    res.json({ success: true, review });
+  } catch (error: any) {
+    console.error('Error getting PRD review:', error);
     next(error);
   }
 });
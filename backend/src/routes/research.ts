@@ -5,10 +5,20 @@ import { prisma } from '../services/database';
 import { researchService } from '../services/research';
 import { researchParserService } from '../services/research-parser';
 import { researchExportService } from '../services/research-export';
+import { surveyStatsService } from '../services/survey-stats';
+import { researchComparisonService } from '../services/research-compare';
+import { jobQueue, type JobContext } from '../services/job-queue';
+import type { AnalysisCheckpoint, CheckpointStore } from '../services/research-batches';
 import { requireAuthDB } from '../middleware/auth-db';
+import type { ResearchAnalysis as AnalysisRow, ResearchDataset as DatasetRow } from '@prisma/client';
 import type {
+  AnalysisPhase,
+  ColumnMapping,
+  ColumnMappingEntry,
   CreateResearchSessionRequest,
   ProblemEvaluation,
+  ResearchAnalysisSummary,
+  ResearchDataset,
   SurveyQuestion,
   InterviewGuide,
 } from '../../../shared/types/research';
@@ -55,6 +65,81 @@ function validate<T extends z.ZodType>(schema: T) {
   };
 }
 
+/**
+ * Keep a batched analysis's checkpoint on its job, so a retried or interrupted run resumes
+ * and analyses of different datasets running at the same time don't overwrite each other's
+ */
+function analysisCheckpoints(
+  job: JobContext<unknown>,
+  onSave?: (checkpoint: AnalysisCheckpoint) => Promise<void>
+): CheckpointStore {
+  return {
+    load: () => job.loadCheckpoint<AnalysisCheckpoint>(),
+    async save(checkpoint) {
+      await job.saveCheckpoint(checkpoint);
+      await onSave?.(checkpoint);
+    },
+  };
+}
+
+/**
+ * The question-to-column map of a confirmed survey mapping, or null if the user hasn't confirmed it yet
+ */
+function surveyColumns(columnMapping: string | null): Record<string, string> | null {
+  const mapping: ColumnMapping | null = columnMapping ? JSON.parse(columnMapping) : null;
+  if (!mapping?.confirmed) return null;
+
+  return Object.fromEntries(
+    mapping.entries.filter((entry) => entry.column).map((entry) => [entry.questionId, entry.column!])
+  );
+}
+
+/**
+ * A session's report markdown with the metadata shown alongside it
+ */
+function reportWithMetadata(
+  session: { id: string; problemStatement: string; researchType: string; createdAt: Date },
+  analysis: { respondentCount: number },
+  markdown: string
+) {
+  return {
+    markdown,
+    metadata: {
+      sessionId: session.id,
+      title: `Research Report: ${session.problemStatement.substring(0, 50)}...`,
+      researchType: session.researchType,
+      conductedDate: session.createdAt.toISOString().split('T')[0],
+      respondentCount: analysis.respondentCount,
+    },
+  };
+}
+
+const datasetUploader = { select: { id: true, name: true, email: true } } as const;
+
+function toDataset(row: DatasetRow & { uploadedBy: { id: string; name: string | null; email: string } }): ResearchDataset {
+  return {
+    id: row.id,
+    label: row.label,
+    fileName: row.fileName,
+    fileType: row.fileType,
+    itemCount: row.itemCount,
+    uploadedBy: { id: row.uploadedBy.id, name: row.uploadedBy.name || undefined, email: row.uploadedBy.email },
+    uploadedAt: row.uploadedAt.toISOString(),
+    columnMapping: row.columnMapping ? JSON.parse(row.columnMapping) : undefined,
+  };
+}
+
+function toAnalysisSummary(row: AnalysisRow, currentAnalysisId?: string | null): ResearchAnalysisSummary {
+  return {
+    id: row.id,
+    datasetIds: JSON.parse(row.datasetIds),
+    datasetLabels: JSON.parse(row.datasetLabels),
+    respondentCount: row.respondentCount,
+    createdAt: row.createdAt.toISOString(),
+    current: row.id === currentAnalysisId,
+  };
+}
+
 // Validation schemas
 const CreateSessionSchema = z.object({
   problemStatement: z.string().min(20, 'Problem statement must be at least 20 characters'),
@@ -64,6 +149,21 @@ const CreateSessionSchema = z.object({
   researchType: z.enum(['survey', 'interview']),
 });
 
+const UpdateColumnMappingSchema = z.object({
+  mapping: z.record(z.string(), z.string().nullable()),
+});
+
+const AnalyzeSchema = z.object({
+  datasetIds: z.array(z.string()).min(1, 'Select at least one dataset to analyze').optional(),
+});
+
+const CompareQuerySchema = z.object({
+  analyses: z
+    .string()
+    .transform((ids) => [...new Set(ids.split(',').map((id) => id.trim()).filter(Boolean))])
+    .pipe(z.array(z.string()).min(2, 'Select at least two analyses to compare')),
+});
+
 const GenerateQuestionsSchema = z.object({
   tone: z.enum(['exploratory', 'validation', 'pricing']).optional(),
   depth: z.enum(['quick', 'standard', 'comprehensive']).optional(),
@@ -97,7 +197,7 @@ const UpdateQuestionsSchema = z.object({
 
 /**
  * POST /api/research/sessions
- * Create new research session and evaluate problem
+ * Create new research session and start evaluating the problem in the background
  */
 router.post(
   '/sessions',
@@ -112,14 +212,6 @@ router.post(
 
       const data: CreateResearchSessionRequest = req.body;
 
-      // Step 2: Evaluate problem
-      const evaluation = await researchService.evaluateProblem(req.userId, {
-        problemStatement: data.problemStatement,
-        productContext: data.productContext,
-        targetUserSegment: data.targetUserSegment,
-        expectedOutcome: data.expectedOutcome,
-      });
-
       // Create session in database
       const session = await prisma.researchSession.create({
         data: {
@@ -133,6 +225,9 @@ router.post(
         },
       });
 
+      // Step 2: Evaluate problem
+      const job = await jobQueue.enqueue(req.userId, 'research.evaluate', { sessionId: session.id }, session.id);
+
       res.status(201).json({
         success: true,
         session: {
@@ -145,7 +240,7 @@ router.post(
           expectedOutcome: session.expectedOutcome || undefined,
           researchType: session.researchType as 'survey' | 'interview',
         },
-        evaluation,
+        job,
       });
     } catch (error: any) {
       console.error('Error creating research session:', error);
@@ -232,7 +327,8 @@ router.get(
         where: { id: String(req.params.id), userId: req.userId },
         include: {
           plan: true,
-          results: true,
+          datasets: { include: { uploadedBy: datasetUploader }, orderBy: { uploadedAt: 'asc' } },
+          results: { include: { currentAnalysis: true } },
         },
       });
 
@@ -241,6 +337,8 @@ router.get(
         return;
       }
 
+      const current = session.results?.currentAnalysis;
+
       res.json({
         success: true,
         session: {
@@ -264,14 +362,14 @@ router.get(
               isEdited: session.plan.isEdited,
             }
           : undefined,
+        datasets: session.datasets.map(toDataset),
         results: session.results
           ? {
               id: session.results.id,
-              uploadedFileName: session.results.uploadedFileName || undefined,
-              uploadedFileType: session.results.uploadedFileType || undefined,
-              uploadedAt: session.results.uploadedAt?.toISOString(),
-              analysis: session.results.analysis ? JSON.parse(session.results.analysis) : undefined,
+              analysis: current ? JSON.parse(current.analysis) : undefined,
+              analysisRun: current ? toAnalysisSummary(current, current.id) : undefined,
               reportGenerated: session.results.reportGenerated,
+              reportMarkdown: session.results.reportMarkdown || undefined,
             }
           : undefined,
       });
@@ -319,7 +417,7 @@ router.delete(
 
 /**
  * POST /api/research/sessions/:id/generate-questions
- * Generate questions based on evaluation
+ * Start generating questions based on evaluation in the background
  */
 router.post(
   '/sessions/:id/generate-questions',
@@ -341,79 +439,14 @@ router.post(
         return;
       }
 
-      const tone = req.body.tone || 'exploratory';
-      const depth = req.body.depth || 'standard';
-
-      // First, evaluate if we don't have an evaluation yet
-      const evaluation = await researchService.evaluateProblem(req.userId, {
-        problemStatement: session.problemStatement,
-        productContext: session.productContext,
-        targetUserSegment: session.targetUserSegment,
-        expectedOutcome: session.expectedOutcome || undefined,
-      });
-
-      // Generate questions based on research type
-      let questions: SurveyQuestion[] | InterviewGuide;
-
-      if (session.researchType === 'survey') {
-        questions = await researchService.generateSurveyQuestions(
-          req.userId,
-          {
-            problemStatement: session.problemStatement,
-            productContext: session.productContext,
-            targetUserSegment: session.targetUserSegment,
-            evaluation,
-          },
-          { tone, depth }
-        );
-      } else {
-        questions = await researchService.generateInterviewGuide(
-          req.userId,
-          {
-            problemStatement: session.problemStatement,
-            productContext: session.productContext,
-            targetUserSegment: session.targetUserSegment,
-            evaluation,
-          },
-          { tone, depth }
-        );
-      }
-
-      // Save plan to database
-      const plan = await prisma.researchPlan.upsert({
-        where: { sessionId: session.id },
-        update: {
-          evaluation: JSON.stringify(evaluation),
-          questions: JSON.stringify(questions),
-          tone,
-          depth,
-          isEdited: false,
-        },
-        create: {
-          sessionId: session.id,
-          evaluation: JSON.stringify(evaluation),
-          questions: JSON.stringify(questions),
-          tone,
-          depth,
-          isEdited: false,
-        },
-      });
-
-      // Update session status
-      await prisma.researchSession.update({
-        where: { id: session.id },
-        data: { status: 'questions_generated' },
-      });
+      const job = await jobQueue.enqueue(
+        req.userId,
+        'research.generate-questions',
+        { sessionId: session.id, tone: req.body.tone || 'exploratory', depth: req.body.depth || 'standard' },
+        session.id
+      );
 
-      res.json({
-        success: true,
-        plan: {
-          questions,
-          evaluation,
-          tone,
-          depth,
-        },
-      });
+      res.status(202).json({ success: true, job });
     } catch (error: any) {
       console.error('Error generating questions:', error);
       next(error);
@@ -515,11 +548,11 @@ router.get(
 );
 
 /**
- * POST /api/research/sessions/:id/upload-results
- * Upload research results
+ * POST /api/research/sessions/:id/datasets
+ * Upload a file of research results as a new dataset, e.g. the next wave of a study
  */
 router.post(
-  '/sessions/:id/upload-results',
+  '/sessions/:id/datasets',
   requireAuthDB,
   upload.single('file'),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -536,7 +569,7 @@ router.post(
 
       const session = await prisma.researchSession.findFirst({
         where: { id: String(req.params.id), userId: req.userId },
-        include: { plan: true },
+        include: { plan: true, _count: { select: { datasets: true } } },
       });
 
       if (!session || !session.plan) {
@@ -544,12 +577,17 @@ router.post(
         return;
       }
 
+      const label =
+        typeof req.body.label === 'string' && req.body.label.trim()
+          ? req.body.label.trim().slice(0, 100)
+          : `Wave ${session._count.datasets + 1}`;
+
       const fileExtension = req.file.originalname.toLowerCase().split('.').pop() || '';
       const questions = JSON.parse(session.plan.questions);
 
       let parsedData: any;
-      let dataType: 'survey' | 'interview';
       let rowCount = 0;
+      let columnMapping: ColumnMapping | undefined;
 
       if (session.researchType === 'survey') {
         if (fileExtension === 'xlsx' || fileExtension === 'xls') {
@@ -579,7 +617,9 @@ router.post(
           return;
         }
 
-        dataType = 'survey';
+        // Suggested column per question; the user confirms or fixes it before analysis
+        const entries = surveyStatsService.suggestColumnMapping(surveyStatsService.headers(parsedData), questions);
+        columnMapping = researchParserService.buildColumnMapping(parsedData, questions, entries, false);
       } else {
         // Interview
         if (fileExtension === 'txt') {
@@ -604,28 +644,21 @@ router.post(
           });
           return;
         }
-
-        dataType = 'interview';
       }
 
-      // Save results to database
-      await prisma.researchResults.upsert({
-        where: { sessionId: session.id },
-        update: {
-          uploadedFileName: req.file.originalname,
-          uploadedFileType: fileExtension,
-          uploadedAt: new Date(),
-          parsedData: JSON.stringify(parsedData),
-          analysis: '', // Will be filled by analyze endpoint
-        },
-        create: {
+      // Earlier datasets and analyses are kept, so waves can be analyzed together or compared
+      const dataset = await prisma.researchDataset.create({
+        data: {
           sessionId: session.id,
-          uploadedFileName: req.file.originalname,
-          uploadedFileType: fileExtension,
-          uploadedAt: new Date(),
+          uploadedById: req.userId,
+          label,
+          fileName: req.file.originalname,
+          fileType: fileExtension,
+          itemCount: rowCount,
           parsedData: JSON.stringify(parsedData),
-          analysis: '',
+          columnMapping: columnMapping ? JSON.stringify(columnMapping) : null,
         },
+        include: { uploadedBy: datasetUploader },
       });
 
       // Update session status
@@ -639,13 +672,10 @@ router.post(
         5
       );
 
-      res.json({
+      res.status(201).json({
         success: true,
-        parsedData: {
-          rowCount,
-          preview,
-          dataType,
-        },
+        dataset: toDataset(dataset),
+        preview,
       });
     } catch (error: any) {
       console.error('Error uploading results:', error);
@@ -654,13 +684,136 @@ router.post(
   }
 );
 
+/**
+ * DELETE /api/research/sessions/:id/datasets/:datasetId
+ * Delete an uploaded dataset; analyses that included it are kept
+ */
+router.delete(
+  '/sessions/:id/datasets/:datasetId',
+  requireAuthDB,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ success: false, error: 'User not authenticated' });
+        return;
+      }
+
+      const { count } = await prisma.researchDataset.deleteMany({
+        where: { id: String(req.params.datasetId), session: { id: String(req.params.id), userId: req.userId } },
+      });
+
+      if (!count) {
+        res.status(404).json({ success: false, error: 'Dataset not found' });
+        return;
+      }
+
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('Error deleting dataset:', error);
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/research/sessions/:id/datasets/:datasetId/column-mapping
+ * Confirm or correct which column of an uploaded survey answers each question
+ */
+router.put(
+  '/sessions/:id/datasets/:datasetId/column-mapping',
+  requireAuthDB,
+  validate(UpdateColumnMappingSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ success: false, error: 'User not authenticated' });
+        return;
+      }
+
+      const session = await prisma.researchSession.findFirst({
+        where: { id: String(req.params.id), userId: req.userId },
+        include: {
+          plan: true,
+          datasets: { where: { id: String(req.params.datasetId) } },
+          results: { include: { currentAnalysis: true } },
+        },
+      });
+
+      const [dataset] = session?.datasets || [];
+      if (!session || !session.plan || !dataset || session.researchType !== 'survey') {
+        res.status(404).json({ success: false, error: 'Survey dataset not found. Please upload data first.' });
+        return;
+      }
+
+      const questions = JSON.parse(session.plan.questions) as SurveyQuestion[];
+      const parsedData = JSON.parse(dataset.parsedData);
+      const headers = new Set(surveyStatsService.headers(parsedData));
+      const mapping: Record<string, string | null> = req.body.mapping;
+
+      const unknownQuestion = Object.keys(mapping).find((id) => !questions.some((q) => q.id === id));
+      if (unknownQuestion) {
+        res.status(400).json({ success: false, error: `Unknown question id: ${unknownQuestion}` });
+        return;
+      }
+
+      const columns = Object.values(mapping).filter((column): column is string => !!column);
+      const unknownColumn = columns.find((column) => !headers.has(column));
+      if (unknownColumn) {
+        res.status(400).json({ success: false, error: `Column not found in the upload: ${unknownColumn}` });
+        return;
+      }
+
+      const duplicate = columns.find((column, i) => columns.indexOf(column) !== i);
+      if (duplicate) {
+        res.status(400).json({ success: false, error: `Column "${duplicate}" is mapped to more than one question` });
+        return;
+      }
+
+      // Keep how unchanged matches were found; anything the user picked is manual
+      const previous: ColumnMapping | null = dataset.columnMapping ? JSON.parse(dataset.columnMapping) : null;
+      const entries = questions.map((question): ColumnMappingEntry => {
+        const column = mapping[question.id] ?? null;
+        const suggested = previous?.entries.find((e) => e.questionId === question.id);
+        if (!column) return { questionId: question.id, column: null };
+        return suggested?.column === column ? suggested : { questionId: question.id, column, method: 'manual' };
+      });
+      const columnMapping = researchParserService.buildColumnMapping(parsedData, questions, entries, true);
+
+      await prisma.researchDataset.update({
+        where: { id: dataset.id },
+        data: { columnMapping: JSON.stringify(columnMapping) },
+      });
+
+      // A current analysis made with a different mapping no longer matches the data
+      const current = session.results?.currentAnalysis;
+      if (current && (JSON.parse(current.datasetIds) as string[]).includes(dataset.id)) {
+        await prisma.researchResults.update({
+          where: { id: session.results!.id },
+          data: { currentAnalysisId: null, reportGenerated: false, reportMarkdown: null },
+        });
+
+        await prisma.researchSession.update({
+          where: { id: session.id },
+          data: { status: 'data_uploaded' },
+        });
+      }
+
+      res.json({ success: true, columnMapping });
+    } catch (error: any) {
+      console.error('Error updating column mapping:', error);
+      next(error);
+    }
+  }
+);
+
 /**
  * POST /api/research/sessions/:id/analyze
- * Analyze uploaded results
+ * Start analyzing the selected datasets (all of them by default) in the background
  */
 router.post(
   '/sessions/:id/analyze',
   requireAuthDB,
+  validate(AnalyzeSchema),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       if (!req.userId) {
@@ -670,10 +823,10 @@ router.post(
 
       const session = await prisma.researchSession.findFirst({
         where: { id: String(req.params.id), userId: req.userId },
-        include: { plan: true, results: true },
+        include: { plan: true, datasets: { orderBy: { uploadedAt: 'asc' } } },
       });
 
-      if (!session || !session.plan || !session.results) {
+      if (!session || !session.plan || !session.datasets.length) {
         res.status(404).json({
           success: false,
           error: 'Research plan or results not found. Please upload data first.',
@@ -681,45 +834,129 @@ router.post(
         return;
       }
 
-      const questions = JSON.parse(session.plan.questions);
-      const parsedData = JSON.parse(session.results.parsedData);
+      const requested: string[] | undefined = req.body.datasetIds;
+      const datasets = requested ? session.datasets.filter((d) => requested.includes(d.id)) : session.datasets;
 
-      let analysis: any;
+      const missing = requested?.find((id) => !datasets.some((d) => d.id === id));
+      if (missing) {
+        res.status(404).json({ success: false, error: `Dataset not found: ${missing}` });
+        return;
+      }
 
-      if (session.researchType === 'survey') {
-        analysis = await researchService.analyzeSurveyResults(
-          req.userId,
-          questions as SurveyQuestion[],
-          parsedData,
-          session.problemStatement
-        );
-      } else {
-        analysis = await researchService.analyzeInterviewResults(
-          req.userId,
-          questions as InterviewGuide,
-          parsedData as string[],
-          session.problemStatement
-        );
+      const unconfirmed = session.researchType === 'survey' && datasets.find((d) => !surveyColumns(d.columnMapping));
+      if (unconfirmed) {
+        res.status(400).json({
+          success: false,
+          error: `Please confirm which column answers each question in "${unconfirmed.label}" before analyzing.`,
+        });
+        return;
       }
 
-      // Save analysis
-      await prisma.researchResults.update({
-        where: { id: session.results.id },
-        data: { analysis: JSON.stringify(analysis) },
-      });
+      const job = await jobQueue.enqueue(
+        req.userId,
+        'research.analyze',
+        { sessionId: session.id, datasetIds: datasets.map((d) => d.id) },
+        session.id
+      );
 
-      // Update session status
-      await prisma.researchSession.update({
-        where: { id: session.id },
-        data: { status: 'analyzed' },
+      res.status(202).json({ success: true, job });
+    } catch (error: any) {
+      console.error('Error analyzing results:', error);
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/research/sessions/:id/analyses
+ * List the session's finished analyses, newest first, with the datasets each covered
+ */
+router.get(
+  '/sessions/:id/analyses',
+  requireAuthDB,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ success: false, error: 'User not authenticated' });
+        return;
+      }
+
+      const session = await prisma.researchSession.findFirst({
+        where: { id: String(req.params.id), userId: req.userId },
+        include: { analyses: { orderBy: { createdAt: 'desc' } }, results: true },
       });
 
+      if (!session) {
+        res.status(404).json({ success: false, error: 'Research session not found' });
+        return;
+      }
+
       res.json({
         success: true,
-        analysis,
+        analyses: session.analyses.map((a) => toAnalysisSummary(a, session.results?.currentAnalysisId)),
       });
     } catch (error: any) {
-      console.error('Error analyzing results:', error);
+      console.error('Error listing analyses:', error);
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/research/sessions/:id/compare?analyses=id1,id2
+ * Compare two or more of the session's analyses, e.g. one per wave
+ */
+router.get(
+  '/sessions/:id/compare',
+  requireAuthDB,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ success: false, error: 'User not authenticated' });
+        return;
+      }
+
+      const validation = CompareQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: validation.error.errors.map((e) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        });
+        return;
+      }
+
+      const ids = validation.data.analyses;
+      const session = await prisma.researchSession.findFirst({
+        where: { id: String(req.params.id), userId: req.userId },
+        include: { analyses: { where: { id: { in: ids } }, orderBy: { createdAt: 'asc' } }, results: true },
+      });
+
+      if (!session) {
+        res.status(404).json({ success: false, error: 'Research session not found' });
+        return;
+      }
+
+      const missing = ids.find((id) => !session.analyses.some((a) => a.id === id));
+      if (missing) {
+        res.status(404).json({ success: false, error: `Analysis not found: ${missing}` });
+        return;
+      }
+
+      const comparison = researchComparisonService.compare(
+        session.researchType as 'survey' | 'interview',
+        session.analyses.map((a) => ({
+          summary: toAnalysisSummary(a, session.results?.currentAnalysisId),
+          analysis: JSON.parse(a.analysis),
+        }))
+      );
+
+      res.json({ success: true, comparison });
+    } catch (error: any) {
+      console.error('Error comparing analyses:', error);
       next(error);
     }
   }
@@ -727,7 +964,7 @@ router.post(
 
 /**
  * GET /api/research/sessions/:id/report
- * Get generated report
+ * Get generated report, or start generating it in the background
  */
 router.get(
   '/sessions/:id/report',
@@ -741,10 +978,11 @@ router.get(
 
       const session = await prisma.researchSession.findFirst({
         where: { id: String(req.params.id), userId: req.userId },
-        include: { plan: true, results: true },
+        include: { plan: true, results: { include: { currentAnalysis: true } } },
       });
 
-      if (!session || !session.plan || !session.results || !session.results.analysis) {
+      const analysis = session?.results?.currentAnalysis;
+      if (!session || !session.plan || !session.results || !analysis) {
         res.status(404).json({
           success: false,
           error: 'Analysis not found. Please analyze data first.',
@@ -756,66 +994,14 @@ router.get(
       if (session.results.reportGenerated && session.results.reportMarkdown) {
         res.json({
           success: true,
-          report: {
-            markdown: session.results.reportMarkdown,
-            metadata: {
-              sessionId: session.id,
-              title: `Research Report: ${session.problemStatement.substring(0, 50)}...`,
-              researchType: session.researchType,
-              conductedDate: session.createdAt.toISOString().split('T')[0],
-              respondentCount: session.researchType === 'survey'
-                ? JSON.parse(session.results.parsedData).length
-                : JSON.parse(session.results.parsedData).length,
-            },
-          },
+          report: reportWithMetadata(session, analysis, session.results.reportMarkdown),
         });
         return;
       }
 
-      // Generate new report
-      const evaluation = JSON.parse(session.plan.evaluation);
-      const questions = JSON.parse(session.plan.questions);
-      const analysis = JSON.parse(session.results.analysis);
-      const parsedData = JSON.parse(session.results.parsedData);
-
-      const markdown = await researchService.generateReport(req.userId, {
-        problemStatement: session.problemStatement,
-        productContext: session.productContext,
-        researchType: session.researchType as 'survey' | 'interview',
-        evaluation,
-        questions,
-        analysis,
-        respondentCount: Array.isArray(parsedData) ? parsedData.length : parsedData.length,
-      });
-
-      // Save report
-      await prisma.researchResults.update({
-        where: { id: session.results.id },
-        data: {
-          reportMarkdown: markdown,
-          reportGenerated: true,
-        },
-      });
+      const job = await jobQueue.enqueue(req.userId, 'research.report', { sessionId: session.id }, session.id);
 
-      // Update session status
-      await prisma.researchSession.update({
-        where: { id: session.id },
-        data: { status: 'completed' },
-      });
-
-      res.json({
-        success: true,
-        report: {
-          markdown,
-          metadata: {
-            sessionId: session.id,
-            title: `Research Report: ${session.problemStatement.substring(0, 50)}...`,
-            researchType: session.researchType,
-            conductedDate: session.createdAt.toISOString().split('T')[0],
-            respondentCount: Array.isArray(parsedData) ? parsedData.length : parsedData.length,
-          },
-        },
-      });
+      res.status(202).json({ success: true, job });
     } catch (error: any) {
       console.error('Error getting report:', error);
       next(error);
@@ -849,7 +1035,7 @@ router.get(
 
       const session = await prisma.researchSession.findFirst({
         where: { id: String(req.params.id), userId: req.userId },
-        include: { results: true },
+        include: { results: { include: { currentAnalysis: true } } },
       });
 
       if (!session || !session.results || !session.results.reportMarkdown) {
@@ -865,7 +1051,7 @@ router.get(
         title: `Research Report: ${session.problemStatement.substring(0, 50)}`,
         researchType: session.researchType,
         conductedDate: session.createdAt.toISOString().split('T')[0],
-        respondentCount: 0,
+        respondentCount: session.results.currentAnalysis?.respondentCount ?? 0,
       };
 
       if (format === 'pdf') {
@@ -901,4 +1087,232 @@ router.get(
   }
 );
 
+// ========== Background Jobs ==========
+
+const ANALYSIS_PHASE_MESSAGES: Record<Exclude<AnalysisPhase, 'extracting'>, string> = {
+  merging: 'Merging findings across batches',
+  interpreting: 'Interpreting the merged findings',
+  completed: 'Saving the analysis',
+  failed: 'Analysis failed',
+};
+
+// Jobs run after the request that queued them, so they load the session again by id and owner
+async function loadSession(job: JobContext<{ sessionId: string }>) {
+  const session = await prisma.researchSession.findFirst({
+    where: { id: job.input.sessionId, userId: job.userId },
+    include: { plan: true, results: { include: { currentAnalysis: true } } },
+  });
+  if (!session) {
+    throw new Error('Research session not found');
+  }
+  return session;
+}
+
+jobQueue.register('research.evaluate', async (job: JobContext<{ sessionId: string }>) => {
+  const session = await loadSession(job);
+  await job.reportProgress({ message: 'Evaluating the problem statement' });
+
+  const evaluation: ProblemEvaluation = await researchService.evaluateProblem(job.userId, {
+    problemStatement: session.problemStatement,
+    productContext: session.productContext,
+    targetUserSegment: session.targetUserSegment,
+    expectedOutcome: session.expectedOutcome || undefined,
+  });
+
+  return { evaluation };
+});
+
+jobQueue.register(
+  'research.generate-questions',
+  async (job: JobContext<{ sessionId: string } & Required<z.infer<typeof GenerateQuestionsSchema>>>) => {
+    const session = await loadSession(job);
+    const { tone, depth } = job.input;
+
+    // First, evaluate if we don't have an evaluation yet
+    await job.reportProgress({ message: 'Evaluating the problem statement', completed: 0, total: 2 });
+    const evaluation = await researchService.evaluateProblem(job.userId, {
+      problemStatement: session.problemStatement,
+      productContext: session.productContext,
+      targetUserSegment: session.targetUserSegment,
+      expectedOutcome: session.expectedOutcome || undefined,
+    });
+
+    // Generate questions based on research type
+    const context = {
+      problemStatement: session.problemStatement,
+      productContext: session.productContext,
+      targetUserSegment: session.targetUserSegment,
+      evaluation,
+    };
+    let questions: SurveyQuestion[] | InterviewGuide;
+
+    if (session.researchType === 'survey') {
+      await job.reportProgress({ message: 'Writing survey questions', completed: 1, total: 2 });
+      questions = await researchService.generateSurveyQuestions(job.userId, context, { tone, depth });
+    } else {
+      await job.reportProgress({ message: 'Writing the interview guide', completed: 1, total: 2 });
+      questions = await researchService.generateInterviewGuide(job.userId, context, { tone, depth });
+    }
+
+    // Save plan to database
+    await prisma.researchPlan.upsert({
+      where: { sessionId: session.id },
+      update: {
+        evaluation: JSON.stringify(evaluation),
+        questions: JSON.stringify(questions),
+        tone,
+        depth,
+        isEdited: false,
+      },
+      create: {
+        sessionId: session.id,
+        evaluation: JSON.stringify(evaluation),
+        questions: JSON.stringify(questions),
+        tone,
+        depth,
+        isEdited: false,
+      },
+    });
+
+    // Update session status
+    await prisma.researchSession.update({
+      where: { id: session.id },
+      data: { status: 'questions_generated' },
+    });
+
+    return { plan: { questions, evaluation, tone, depth } };
+  }
+);
+
+jobQueue.register('research.analyze', async (job: JobContext<{ sessionId: string; datasetIds: string[] }>) => {
+  const session = await loadSession(job);
+  const datasets = await prisma.researchDataset.findMany({
+    where: { sessionId: session.id, id: { in: job.input.datasetIds } },
+    orderBy: { uploadedAt: 'asc' },
+  });
+  if (!session.plan || datasets.length !== job.input.datasetIds.length) {
+    throw new Error('Research plan or results not found. Please upload data first.');
+  }
+
+  const questions = JSON.parse(session.plan.questions);
+  const results = await prisma.researchResults.upsert({
+    where: { sessionId: session.id },
+    update: {},
+    create: { sessionId: session.id },
+  });
+
+  // Mirror the batch checkpoints into the job's progress
+  const checkpoints = analysisCheckpoints(job, (checkpoint) =>
+    job.reportProgress(
+      checkpoint.phase === 'extracting'
+        ? {
+            message:
+              checkpoint.totalBatches > 1
+                ? `Analyzed ${checkpoint.completedBatches} of ${checkpoint.totalBatches} batches`
+                : 'Analyzing results',
+            completed: checkpoint.completedBatches,
+            total: checkpoint.totalBatches,
+          }
+        : { message: ANALYSIS_PHASE_MESSAGES[checkpoint.phase] }
+    )
+  );
+
+  let analysis: any;
+  let respondentCount: number;
+
+  if (session.researchType === 'survey') {
+    const uploads = datasets.map((dataset) => {
+      const columns = surveyColumns(dataset.columnMapping);
+      if (!columns) {
+        throw new Error(`Please confirm which column answers each question in "${dataset.label}" before analyzing.`);
+      }
+      return { rows: JSON.parse(dataset.parsedData), columns };
+    });
+    const { rows, columns } = surveyStatsService.combineUploads(uploads);
+
+    analysis = await researchService.analyzeSurveyResults(
+      job.userId,
+      questions as SurveyQuestion[],
+      rows,
+      columns,
+      session.problemStatement,
+      checkpoints
+    );
+    respondentCount = analysis.statistics?.respondentCount ?? rows.length;
+  } else {
+    const transcripts: string[] = datasets.flatMap((dataset) => JSON.parse(dataset.parsedData));
+
+    analysis = await researchService.analyzeInterviewResults(
+      job.userId,
+      questions as InterviewGuide,
+      transcripts,
+      session.problemStatement,
+      checkpoints
+    );
+    respondentCount = transcripts.length;
+  }
+
+  // Save analysis; earlier ones are kept for comparing waves
+  const run = await prisma.researchAnalysis.create({
+    data: {
+      sessionId: session.id,
+      datasetIds: JSON.stringify(datasets.map((d) => d.id)),
+      datasetLabels: JSON.stringify(datasets.map((d) => d.label)),
+      respondentCount,
+      analysis: JSON.stringify(analysis),
+    },
+  });
+
+  // The report was written from the previous analysis
+  await prisma.researchResults.update({
+    where: { id: results.id },
+    data: { currentAnalysisId: run.id, reportGenerated: false, reportMarkdown: null },
+  });
+
+  // Update session status
+  await prisma.researchSession.update({
+    where: { id: session.id },
+    data: { status: 'analyzed' },
+  });
+
+  return { analysis, run: toAnalysisSummary(run, run.id) };
+});
+
+jobQueue.register('research.report', async (job: JobContext<{ sessionId: string }>) => {
+  const session = await loadSession(job);
+  const analysis = session.results?.currentAnalysis;
+  if (!session.plan || !session.results || !analysis) {
+    throw new Error('Analysis not found. Please analyze data first.');
+  }
+
+  await job.reportProgress({ message: 'Writing the research report' });
+
+  const markdown = await researchService.generateReport(job.userId, {
+    problemStatement: session.problemStatement,
+    productContext: session.productContext,
+    researchType: session.researchType as 'survey' | 'interview',
+    evaluation: JSON.parse(session.plan.evaluation),
+    questions: JSON.parse(session.plan.questions),
+    analysis: JSON.parse(analysis.analysis),
+    respondentCount: analysis.respondentCount,
+  });
+
+  // Save report
+  await prisma.researchResults.update({
+    where: { id: session.results.id },
+    data: {
+      reportMarkdown: markdown,
+      reportGenerated: true,
+    },
+  });
+
+  // Update session status
+  await prisma.researchSession.update({
+    where: { id: session.id },
+    data: { status: 'completed' },
+  });
+
+  return { report: reportWithMetadata(session, analysis, markdown) };
+});
+
 export default router;
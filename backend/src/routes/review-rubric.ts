@@ -0,0 +1,117 @@
+import express from 'express';
+import { z } from 'zod';
+import { reviewRubricService } from '../services/review-rubric';
+import { DEFAULT_REVIEW_RUBRIC } from '../prompts/reviewer';
+import { UpdateReviewRubricRequest } from '../../../shared/types';
+
+const router = express.Router();
+
+// Validation schemas
+const RubricCategorySchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Category id must be lowercase letters, numbers and dashes (e.g. data-retention)'),
+  name: z.string().trim().min(1, 'Category name is required').max(100),
+  weight: z.number().positive('Weight must be greater than 0').max(100),
+  criteria: z
+    .array(z.string().trim().min(1, 'Criteria cannot be empty').max(300))
+    .min(1, 'Each category needs at least one pass/fail criterion')
+    .max(20),
+});
+
+const UpdateRubricSchema = z.object({
+  name: z.string().trim().min(1, 'Rubric name is required').max(100),
+  categories: z
+    .array(RubricCategorySchema)
+    .min(1, 'Rubric needs at least one category')
+    .max(20)
+    .refine(
+      (categories) => new Set(categories.map((c) => c.id)).size === categories.length,
+      'Category ids must be unique'
+    ),
+  severityThreshold: z.enum(['critical', 'important', 'suggestion']),
+});
+
+// Validation middleware
+function validate<T extends z.ZodType>(schema: T) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      req.body = schema.parse(req.body);
+      next();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        });
+      }
+      next(error);
+    }
+  };
+}
+
+/**
+ * GET /api/review-rubric
+ * Get the rubric reviews are currently scored against
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const rubric = await reviewRubricService.getActiveRubric();
+    const canEdit = req.userId ? await reviewRubricService.canEdit(req.userId) : false;
+    res.json({ success: true, rubric, canEdit });
+  } catch (error: any) {
+    console.error('Error getting review rubric:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/review-rubric/default
+ * Get the built-in rubric (a starting point, or to reset to)
+ */
+router.get('/default', (req, res) => {
+  res.json({ success: true, rubric: DEFAULT_REVIEW_RUBRIC });
+});
+
+/**
+ * GET /api/review-rubric/versions
+ * List every saved rubric version, newest first
+ */
+router.get('/versions', async (req, res, next) => {
+  try {
+    const rubrics = await reviewRubricService.listRubrics();
+    res.json({ success: true, rubrics });
+  } catch (error: any) {
+    console.error('Error listing review rubrics:', error);
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/review-rubric
+ * Save a new rubric version; it applies to all reviews from now on
+ * Only users listed in RUBRIC_EDITORS may save
+ */
+router.put('/', validate(UpdateRubricSchema), async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    if (!(await reviewRubricService.canEdit(req.userId))) {
+      return res.status(403).json({ success: false, error: 'Only rubric editors can change the review rubric' });
+    }
+
+    const rubric = await reviewRubricService.saveRubric(req.userId, req.body as UpdateReviewRubricRequest);
+    res.json({ success: true, rubric });
+  } catch (error: any) {
+    console.error('Error saving review rubric:', error);
+    next(error);
+  }
+});
+
+export default router;
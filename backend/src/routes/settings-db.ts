@@ -1,8 +1,8 @@
 import { Router, Request, Response } from 'express';
 import { configDBService } from '../services/config-db';
 import { requireAuthDB } from '../middleware/auth-db';
-import type { UserSettings, TestConnectionResponse } from '../../../shared/types';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { UserSettings, TestConnectionResponse, AIProvider } from '../../../shared/types';
+import { AI_PROVIDERS, isAIProvider, createLLMProvider, llmConfigFromSettings } from '../services/llm';
 
 const router = Router();
 
@@ -61,10 +61,10 @@ router.post('/', requireAuthDB, async (req: Request, res: Response): Promise<voi
     }
 
     // Validate aiProvider
-    if (settings.aiProvider && settings.aiProvider !== 'gemini') {
+    if (settings.aiProvider && !isAIProvider(settings.aiProvider)) {
       res.status(400).json({
         success: false,
-        error: 'Only "gemini" is supported as aiProvider currently',
+        error: `aiProvider must be one of: ${AI_PROVIDERS.join(', ')}`,
       });
       return;
     }
@@ -109,7 +109,11 @@ router.post('/test/:integration', requireAuthDB, async (req: Request, res: Respo
 
     switch (integration) {
       case 'gemini':
-        result = await testGeminiConnection(testSettings);
+      case 'anthropic':
+      case 'openai':
+      case 'ollama':
+      case 'mock':
+        result = await testAIProviderConnection(integration, testSettings);
         break;
       case 'jira':
         result = await testJiraConnection(testSettings);
@@ -138,45 +142,46 @@ router.post('/test/:integration', requireAuthDB, async (req: Request, res: Respo
   }
 });
 
+const AI_PROVIDER_LABELS: Record<AIProvider, string> = {
+  gemini: 'Gemini',
+  anthropic: 'Anthropic',
+  openai: 'OpenAI-compatible',
+  ollama: 'Ollama',
+  mock: 'Mock',
+};
+
 /**
- * Test Gemini API connection
+ * Test an AI provider connection
  */
-async function testGeminiConnection(settings: Partial<UserSettings>): Promise<TestConnectionResponse> {
-  try {
-    const apiKey = settings.apiKeys?.gemini;
-    const model = settings.geminiModel || 'gemini-2.5-pro';
+async function testAIProviderConnection(
+  provider: AIProvider,
+  settings: Partial<UserSettings>
+): Promise<TestConnectionResponse> {
+  const label = AI_PROVIDER_LABELS[provider];
 
-    if (!apiKey) {
-      return {
-        success: false,
-        message: 'Gemini API key is required',
-      };
-    }
+  try {
+    // Throws if a required API key is missing
+    const llm = createLLMProvider(llmConfigFromSettings(provider, settings));
 
     // Test the API by making a simple request
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const geminiModel = genAI.getGenerativeModel({ model });
-
-    const result = await geminiModel.generateContent({
-      contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
-    });
+    const text = await llm.generateText({ prompt: 'Hello', timeoutMs: 30000 });
 
-    if (result.response) {
+    if (text) {
       return {
         success: true,
-        message: `Successfully connected to ${model}`,
+        message: `Successfully connected to ${llm.model}`,
       };
     }
 
     return {
       success: false,
-      message: 'Failed to get valid response from Gemini API',
+      message: `Failed to get valid response from ${label} API`,
     };
   } catch (error: any) {
-    console.error('Gemini connection test failed:', error);
+    console.error(`${label} connection test failed:`, error);
     return {
       success: false,
-      message: error.message || 'Failed to connect to Gemini API',
+      message: error.message || `Failed to connect to ${label} API`,
     };
   }
 }
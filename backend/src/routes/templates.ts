@@ -0,0 +1,169 @@
+import express from 'express';
+import { z } from 'zod';
+import { prdTemplateService, DEFAULT_TEMPLATE_ID } from '../services/prd-templates';
+import { getTemplateHeadings } from '../prompts/creator';
+import { CreatePRDTemplateRequest, UpdatePRDTemplateRequest } from '../../../shared/types';
+
+const router = express.Router();
+
+// Validation schemas
+const TemplateMarkdownSchema = z
+  .string()
+  .max(50_000, 'Template is too large (max 50,000 characters)')
+  .refine((markdown) => getTemplateHeadings(markdown).length > 0, 'Template must have at least one "## Section" heading')
+  .refine((markdown) => {
+    const headings = getTemplateHeadings(markdown).map((h) => h.toLowerCase());
+    return new Set(headings).size === headings.length;
+  }, 'Template section headings must be unique');
+
+const CreateTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Template name is required').max(100),
+  team: z.string().trim().max(50).optional(),
+  description: z.string().max(500).optional(),
+  markdown: TemplateMarkdownSchema,
+});
+
+const UpdateTemplateSchema = CreateTemplateSchema.partial();
+
+// Validation middleware
+function validate<T extends z.ZodType>(schema: T) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      req.body = schema.parse(req.body);
+      next();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        });
+      }
+      next(error);
+    }
+  };
+}
+
+/**
+ * GET /api/templates?team=
+ * List the PRD template library (built-in template first), optionally filtered by team
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const team = typeof req.query.team === 'string' && req.query.team ? req.query.team : undefined;
+    const templates = await prdTemplateService.listTemplates(req.userId, team);
+
+    res.json({ success: true, templates });
+  } catch (error: any) {
+    console.error('Error listing PRD templates:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/templates/:id
+ * Get a template including its markdown
+ */
+router.get('/:id', async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const template = await prdTemplateService.getTemplate(req.userId, String(req.params.id));
+
+    if (!template) {
+      return res.status(404).json({ success: false, error: 'Template not found' });
+    }
+
+    res.json({ success: true, template });
+  } catch (error: any) {
+    console.error('Error getting PRD template:', error);
+    next(error);
+  }
+});
+
+/**
+ * POST /api/templates
+ * Add a template to the library
+ */
+router.post('/', validate(CreateTemplateSchema), async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const template = await prdTemplateService.createTemplate(req.userId, req.body as CreatePRDTemplateRequest);
+
+    res.status(201).json({ success: true, template });
+  } catch (error: any) {
+    console.error('Error creating PRD template:', error);
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/templates/:id
+ * Update a template you created
+ */
+router.put('/:id', validate(UpdateTemplateSchema), async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const templateId = String(req.params.id);
+    if (templateId === DEFAULT_TEMPLATE_ID) {
+      return res.status(403).json({ success: false, error: 'The built-in template cannot be edited' });
+    }
+
+    const template = await prdTemplateService.updateTemplate(req.userId, templateId, req.body as UpdatePRDTemplateRequest);
+
+    if (!template) {
+      return res.status(404).json({ success: false, error: 'Template not found' });
+    }
+
+    res.json({ success: true, template });
+  } catch (error: any) {
+    console.error('Error updating PRD template:', error);
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/templates/:id
+ * Delete a template you created; PRDs generated from it fall back to the built-in template
+ */
+router.delete('/:id', async (req, res, next) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated' });
+    }
+
+    const templateId = String(req.params.id);
+    if (templateId === DEFAULT_TEMPLATE_ID) {
+      return res.status(403).json({ success: false, error: 'The built-in template cannot be deleted' });
+    }
+
+    const deleted = await prdTemplateService.deleteTemplate(req.userId, templateId);
+
+    if (!deleted) {
+      return res.status(404).json({ success: false, error: 'Template not found' });
+    }
+
+    console.log(`🗑️  Deleted PRD template ${templateId}`);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting PRD template:', error);
+    next(error);
+  }
+});
+
+export default router;
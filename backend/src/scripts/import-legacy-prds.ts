@@ -0,0 +1,126 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import fs from 'fs/promises';
+import path from 'path';
+import yaml from 'js-yaml';
+import { prisma } from '../services/database';
+
+/**
+ * One-time importer for PRDs saved by the old file-based storage
+ *
+ * Reads every `prd-*.md` file (YAML frontmatter + markdown) from the legacy
+ * PRDs directory and stores it in the database, owned by the given user.
+ * Files whose id already exists in the database are skipped, so the script
+ * can safely be re-run.
+ *
+ * Usage:
+ *   npm run import-prds -- --user <username or email> [--dir <path>]
+ */
+
+const LEGACY_PRDS_DIR = path.join(process.env.HOME || '', 'Documents', 'prd-system', 'prds');
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+function parseLegacyFile(content: string): { metadata: any; markdown: string } {
+  const frontmatterMatch = content.match(/^---\n([\s\S]+?)\n---\n([\s\S]*)/);
+  if (frontmatterMatch) {
+    return {
+      metadata: (yaml.load(frontmatterMatch[1]) as any) || {},
+      markdown: frontmatterMatch[2].trim(),
+    };
+  }
+  return { metadata: {}, markdown: content.trim() };
+}
+
+// Frontmatter dates that are missing or don't parse are left for the caller's fallback
+function parseDate(value: unknown): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+async function main() {
+  const userArg = getArg('user');
+  const dir = getArg('dir') || LEGACY_PRDS_DIR;
+
+  if (!userArg) {
+    console.error('Usage: npm run import-prds -- --user <username or email> [--dir <path>]');
+    process.exit(1);
+  }
+
+  const user = await prisma.user.findFirst({
+    where: { OR: [{ username: userArg }, { email: userArg }] },
+  });
+
+  if (!user) {
+    console.error(`❌ User not found: ${userArg}`);
+    process.exit(1);
+  }
+
+  let files: string[];
+  try {
+    files = (await fs.readdir(dir)).filter((f) => /^prd-.*\.md$/.test(f));
+  } catch {
+    console.error(`❌ Could not read PRDs directory: ${dir}`);
+    process.exit(1);
+  }
+
+  console.log(`📂 Found ${files.length} legacy PRD file(s) in ${dir}`);
+
+  let imported = 0;
+  let skipped = 0;
+
+  for (const filename of files) {
+    const content = await fs.readFile(path.join(dir, filename), 'utf-8');
+    const { metadata, markdown } = parseLegacyFile(content);
+    const id = String(metadata.id || filename.replace(/\.md$/, ''));
+
+    const existing = await prisma.prd.findUnique({ where: { id } });
+    if (existing) {
+      skipped++;
+      continue;
+    }
+
+    const titleMatch = markdown.match(/^#\s+(.+)$/m);
+    const title = metadata.title || (titleMatch ? titleMatch[1].trim() : 'Untitled PRD');
+    const createdAt = parseDate(metadata.createdAt) ?? new Date();
+
+    // Imported with its text as revision 1, so history, diff and restore work like for created PRDs
+    await prisma.prd.create({
+      data: {
+        id,
+        userId: user.id,
+        title,
+        markdown,
+        source: metadata.source || 'text',
+        sourceId: metadata.sourceId ? String(metadata.sourceId) : undefined,
+        version: 1,
+        createdAt,
+        updatedAt: parseDate(metadata.updatedAt) ?? createdAt,
+        revisions: {
+          create: {
+            version: 1,
+            title,
+            markdown,
+            changeType: 'create',
+            createdAt,
+          },
+        },
+      },
+    });
+    imported++;
+  }
+
+  console.log(`✅ Imported ${imported} PRD(s) for ${user.username}, skipped ${skipped} already imported`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Import failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,96 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { prisma } from '../services/database';
+
+/**
+ * One-time migration of research results saved before sessions kept several datasets
+ *
+ * Each session used to hold a single upload and analysis on its ResearchResults row.
+ * This moves the upload into a ResearchDataset labelled "Wave 1" (uploaded by the
+ * session owner), and the analysis, if there is one, into a ResearchAnalysis of that
+ * dataset which becomes the session's current analysis. The legacy fields are cleared
+ * in the same transaction, so the script can safely be re-run.
+ *
+ * Run it after `npx prisma db push` and before starting the server on the new version.
+ *
+ * Usage:
+ *   npm run migrate-research-datasets
+ */
+
+const LEGACY_LABEL = 'Wave 1';
+
+async function main() {
+  const legacy = await prisma.researchResults.findMany({
+    where: { parsedData: { not: null } },
+    include: { session: { select: { userId: true } } },
+  });
+
+  console.log(`📂 Found ${legacy.length} research session(s) with legacy results`);
+
+  let datasets = 0;
+  let analyses = 0;
+
+  for (const results of legacy) {
+    const parsedData = JSON.parse(results.parsedData!);
+    const analysis = results.analysis ? JSON.parse(results.analysis) : null;
+    const itemCount = Array.isArray(parsedData) ? parsedData.length : 1;
+    const fileName = results.uploadedFileName || 'Uploaded results';
+
+    await prisma.$transaction(async (tx) => {
+      const dataset = await tx.researchDataset.create({
+        data: {
+          sessionId: results.sessionId,
+          uploadedById: results.session.userId,
+          label: LEGACY_LABEL,
+          fileName,
+          fileType: results.uploadedFileType || fileName.toLowerCase().split('.').pop() || '',
+          itemCount,
+          parsedData: results.parsedData!,
+          columnMapping: results.columnMapping,
+          uploadedAt: results.uploadedAt ?? results.createdAt,
+        },
+      });
+
+      // Not analyzed yet: only the dataset carries over
+      const run = analysis
+        ? await tx.researchAnalysis.create({
+            data: {
+              sessionId: results.sessionId,
+              datasetIds: JSON.stringify([dataset.id]),
+              datasetLabels: JSON.stringify([LEGACY_LABEL]),
+              respondentCount: analysis.statistics?.respondentCount ?? itemCount,
+              analysis: results.analysis!,
+              createdAt: results.updatedAt,
+            },
+          })
+        : null;
+
+      await tx.researchResults.update({
+        where: { id: results.id },
+        data: {
+          ...(run && { currentAnalysisId: run.id }),
+          uploadedFileName: null,
+          uploadedFileType: null,
+          uploadedAt: null,
+          parsedData: null,
+          columnMapping: null,
+          analysis: null,
+          analysisProgress: null,
+        },
+      });
+    });
+
+    datasets++;
+    if (analysis) analyses++;
+  }
+
+  console.log(`✅ Created ${datasets} dataset(s) and ${analyses} analysis run(s)`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -15,7 +15,11 @@ import cors from 'cors';
 import prdRoutes from './routes/prd';
 import jiraRoutes from './routes/jira';
 import exportRoutes from './routes/export';
+import importRoutes from './routes/import';
 import researchRoutes from './routes/research';
+import templateRoutes from './routes/templates';
+import reviewRubricRoutes from './routes/review-rubric';
+import jobRoutes from './routes/jobs';
 
 // Use database-backed services (with multi-user and encryption)
 import authDBRoutes from './routes/auth-db';
@@ -23,6 +27,8 @@ import settingsDBRoutes from './routes/settings-db';
 import { requireAuthDB } from './middleware/auth-db';
 import { databaseService } from './services/database';
 import { authDBService } from './services/auth-db';
+import { browserPool } from './services/browser-pool';
+import { jobQueue } from './services/job-queue';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -42,6 +48,9 @@ async function initializeDatabase() {
     await databaseService.connect();
     await authDBService.ensureDefaultAdmin();
     console.log('✅ Database initialized successfully');
+
+    // Route modules registered their job handlers on import, so queued jobs can run now
+    await jobQueue.start();
   } catch (error) {
     console.error('❌ Failed to initialize database:', error);
     process.exit(1);
@@ -54,6 +63,7 @@ app.get('/health', async (req, res) => {
   res.json({
     status: dbHealthy ? 'ok' : 'degraded',
     database: dbHealthy ? 'connected' : 'disconnected',
+    pdfBrowser: browserPool.getStatus(),
     timestamp: new Date().toISOString(),
   });
 });
@@ -64,9 +74,13 @@ app.use('/api/auth', authDBRoutes);
 // Protected routes (authentication required with database)
 app.use('/api/settings', requireAuthDB, settingsDBRoutes);
 app.use('/api/prd', requireAuthDB, prdRoutes);
+app.use('/api/templates', requireAuthDB, templateRoutes);
+app.use('/api/review-rubric', requireAuthDB, reviewRubricRoutes);
 app.use('/api/jira', requireAuthDB, jiraRoutes);
 app.use('/api/export', requireAuthDB, exportRoutes);
+app.use('/api/import', requireAuthDB, importRoutes);
 app.use('/api/research', requireAuthDB, researchRoutes);
+app.use('/api/jobs', requireAuthDB, jobRoutes);
 
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -92,13 +106,17 @@ async function startServer() {
 
 // Handle graceful shutdown
 process.on('SIGTERM', async () => {
-  console.log('SIGTERM received, closing database connection...');
+  console.log('SIGTERM received, closing browser and database connection...');
+  jobQueue.shutdown();
+  await browserPool.shutdown();
   await databaseService.disconnect();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
-  console.log('\nSIGINT received, closing database connection...');
+  console.log('\nSIGINT received, closing browser and database connection...');
+  jobQueue.shutdown();
+  await browserPool.shutdown();
   await databaseService.disconnect();
   process.exit(0);
 });
@@ -0,0 +1,621 @@
+/**
+ * Convert Atlassian rich text to markdown: Atlassian Document Format (ADF) used by the Jira v3 API,
+ * the rendered HTML Jira returns for fields it doesn't store as ADF, and Confluence storage format
+ * HTML and storage format are first mapped onto ADF nodes, so all of them go through the same markdown renderer
+ */
+
+interface AdfMark {
+  type: string;
+  attrs?: Record<string, any>;
+}
+
+interface AdfNode {
+  type: string;
+  text?: string;
+  attrs?: Record<string, any>;
+  marks?: AdfMark[];
+  content?: AdfNode[];
+}
+
+const INLINE_TYPES = new Set([
+  'text',
+  'hardBreak',
+  'mention',
+  'emoji',
+  'inlineCard',
+  'status',
+  'date',
+  'placeholder',
+  'inlineExtension',
+  'mediaInline',
+]);
+
+const PANEL_LABELS: Record<string, string> = {
+  info: 'Info',
+  note: 'Note',
+  tip: 'Tip',
+  success: 'Success',
+  warning: 'Warning',
+  error: 'Error',
+};
+
+// Confluence macros that only render generated content (navigation, page trees, ...)
+const SKIPPED_MACROS = new Set(['toc', 'children', 'pagetree', 'recently-updated', 'contentbylabel', 'anchor']);
+
+// ========== ADF to markdown ==========
+
+/**
+ * Convert an ADF document (or a single ADF node) to markdown; strings are returned as-is
+ */
+export function adfToMarkdown(adf: unknown): string {
+  if (!adf) return '';
+  if (typeof adf === 'string') return adf;
+  if (typeof adf !== 'object') return String(adf);
+
+  const node = adf as AdfNode;
+  return renderBlocks(node.type === 'doc' ? node.content || [] : [node]).trim();
+}
+
+function renderBlocks(nodes: AdfNode[], separator = '\n\n'): string {
+  return groupInline(nodes)
+    .map(renderBlock)
+    .filter((block) => block.trim() !== '')
+    .join(separator);
+}
+
+// Wrap runs of inline nodes that appear where blocks are expected (e.g. in task items) into paragraphs
+function groupInline(nodes: AdfNode[]): AdfNode[] {
+  const grouped: AdfNode[] = [];
+  let run: AdfNode[] = [];
+
+  const flush = () => {
+    if (run.length > 0) {
+      grouped.push({ type: 'paragraph', content: run });
+      run = [];
+    }
+  };
+
+  for (const node of nodes) {
+    if (INLINE_TYPES.has(node.type)) {
+      run.push(node);
+    } else {
+      flush();
+      grouped.push(node);
+    }
+  }
+  flush();
+
+  return grouped;
+}
+
+function renderBlock(node: AdfNode): string {
+  const content = node.content || [];
+  const attrs = node.attrs || {};
+
+  switch (node.type) {
+    case 'paragraph':
+      return renderInline(content).trim();
+
+    case 'heading': {
+      const level = Math.min(Math.max(Number(attrs.level) || 1, 1), 6);
+      return `${'#'.repeat(level)} ${renderInline(content).trim()}`;
+    }
+
+    case 'bulletList':
+      return content.map((item) => renderListItem(item, '- ')).join('\n');
+
+    case 'orderedList': {
+      const start = Number(attrs.order) || 1;
+      return content.map((item, i) => renderListItem(item, `${start + i}. `)).join('\n');
+    }
+
+    case 'taskList':
+      return content
+        .map((item) =>
+          item.type === 'taskList'
+            ? indent(renderBlock(item), '  ')
+            : renderListItem(item, item.attrs?.state === 'DONE' ? '- [x] ' : '- [ ] ')
+        )
+        .join('\n');
+
+    case 'decisionList':
+      return content.map((item) => renderListItem(item, '- **Decision:** ')).join('\n');
+
+    case 'codeBlock': {
+      const code = content.map((child) => child.text || '').join('');
+      const fence = code.includes('```') ? '````' : '```';
+      return `${fence}${attrs.language || ''}\n${code}\n${fence}`;
+    }
+
+    case 'blockquote':
+      return quote(renderBlocks(content));
+
+    case 'panel':
+      return quote(`**${PANEL_LABELS[attrs.panelType] || 'Note'}:** ${renderBlocks(content)}`);
+
+    case 'rule':
+      return '---';
+
+    case 'table':
+      return renderTable(node);
+
+    case 'mediaSingle':
+    case 'mediaGroup':
+      return content.map(renderBlock).filter(Boolean).join('\n');
+
+    case 'media':
+      if (attrs.type === 'external' && attrs.url) {
+        return `![${attrs.alt || ''}](${attrs.url})`;
+      }
+      return `[Attachment: ${attrs.alt || attrs.filename || attrs.id || 'file'}]`;
+
+    case 'expand':
+    case 'nestedExpand':
+      return `**${attrs.title || 'Details'}**\n\n${renderBlocks(content)}`;
+
+    case 'blockCard':
+    case 'embedCard':
+      return attrs.url ? `<${attrs.url}>` : '';
+
+    case 'extension':
+      return '';
+
+    default:
+      // layoutSection, layoutColumn, bodiedExtension and any node type added later: keep the content
+      return content.length > 0 ? renderBlocks(content) : node.text || '';
+  }
+}
+
+function renderListItem(item: AdfNode, marker: string): string {
+  // Nested lists follow their parent item's text directly, so the list stays tight
+  const body = renderBlocks(item.content || [], '\n');
+  const padding = ' '.repeat(marker.length);
+  return body
+    .split('\n')
+    .map((line, i) => (i === 0 ? `${marker}${line}` : line ? `${padding}${line}` : line))
+    .join('\n');
+}
+
+function renderTable(table: AdfNode): string {
+  const rows = (table.content || []).map((row) =>
+    (row.content || []).map((cell) =>
+      renderBlocks(cell.content || [], '<br>')
+        .replace(/ *\n/g, '<br>')
+        .replace(/\|/g, '\\|')
+        .trim()
+    )
+  );
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map((row) => row.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] || '').join(' | ')} |`;
+
+  // Markdown tables need a header row; Jira tables usually start with one
+  const [header, ...body] = rows;
+  return [line(header), line(new Array(width).fill('---')), ...body.map(line)].join('\n');
+}
+
+function renderInline(nodes: AdfNode[]): string {
+  return nodes.map(renderInlineNode).join('');
+}
+
+function renderInlineNode(node: AdfNode): string {
+  const attrs = node.attrs || {};
+
+  switch (node.type) {
+    case 'text':
+      return applyMarks(node.text || '', node.marks || []);
+
+    case 'hardBreak':
+      return '  \n';
+
+    case 'mention': {
+      const name = String(attrs.text || attrs.id || 'someone');
+      return name.startsWith('@') ? name : `@${name}`;
+    }
+
+    case 'emoji':
+      return attrs.text || attrs.shortName || '';
+
+    case 'inlineCard':
+      return attrs.url ? `<${attrs.url}>` : '';
+
+    case 'status':
+      return attrs.text ? `[${String(attrs.text).toUpperCase()}]` : '';
+
+    case 'date': {
+      const date = new Date(Number(attrs.timestamp));
+      return isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+    }
+
+    case 'mediaInline':
+      return `[Attachment: ${attrs.alt || attrs.filename || attrs.id || 'file'}]`;
+
+    case 'placeholder':
+    case 'inlineExtension':
+      return '';
+
+    default:
+      return node.content ? renderInline(node.content) : node.text || '';
+  }
+}
+
+function applyMarks(text: string, marks: AdfMark[]): string {
+  if (!text || marks.length === 0) return text;
+
+  // Emphasis markers can't be next to whitespace, so keep surrounding spaces outside them
+  const [, leading, core, trailing] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  if (!core) return text;
+
+  let result = core;
+  if (marks.some((mark) => mark.type === 'code')) {
+    result = core.includes('`') ? `\`\` ${core} \`\`` : `\`${core}\``;
+  }
+  if (marks.some((mark) => mark.type === 'em')) result = `_${result}_`;
+  if (marks.some((mark) => mark.type === 'strong')) result = `**${result}**`;
+  if (marks.some((mark) => mark.type === 'strike')) result = `~~${result}~~`;
+
+  const link = marks.find((mark) => mark.type === 'link' && mark.attrs?.href);
+  if (link) result = `[${result}](${link.attrs!.href})`;
+
+  return `${leading}${result}${trailing}`;
+}
+
+function quote(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+function indent(text: string, padding: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? `${padding}${line}` : line))
+    .join('\n');
+}
+
+// ========== HTML to markdown ==========
+
+interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'wbr']);
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'template']);
+// Elements nested deeper than this are flattened into their ancestor, so pathological markup can't overflow the stack
+const MAX_HTML_DEPTH = 100;
+
+const INLINE_MARKS: Record<string, string> = {
+  strong: 'strong',
+  b: 'strong',
+  em: 'em',
+  i: 'em',
+  cite: 'em',
+  del: 'strike',
+  s: 'strike',
+  strike: 'strike',
+  code: 'code',
+  tt: 'code',
+  kbd: 'code',
+  samp: 'code',
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  bull: '•',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+};
+
+/**
+ * Convert HTML to markdown: Jira's renderedFields, or a Confluence page body in storage format (XHTML with ac:/ri: macros)
+ */
+export function htmlToMarkdown(html: string): string {
+  if (!html) return '';
+  return adfToMarkdown({ type: 'doc', content: toBlockNodes(parseHtml(html).children, []) });
+}
+
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: '#root', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const tokens = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>|<\/?([a-zA-Z][a-zA-Z0-9:-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*\/?>|[^<]+|</gi;
+
+  for (const [token, cdata, rawTag, rawAttrs] of html.matchAll(tokens)) {
+    const current = stack[stack.length - 1];
+
+    // Confluence wraps macro bodies (e.g. code) in CDATA, which is kept verbatim
+    if (cdata !== undefined) {
+      current.children.push(cdata);
+      continue;
+    }
+
+    if (token.startsWith('<!')) {
+      continue;
+    }
+
+    if (!rawTag) {
+      current.children.push(decodeEntities(token));
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (token.startsWith('</')) {
+      // Close the nearest open element with this tag, implicitly closing anything left open inside it
+      const index = stack.map((el) => el.tag).lastIndexOf(tag);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    if (stack.length > MAX_HTML_DEPTH) {
+      continue;
+    }
+
+    const element: HtmlElement = { tag, attrs: parseAttributes(rawAttrs || ''), children: [] };
+    current.children.push(element);
+    if (!VOID_TAGS.has(tag) && !token.endsWith('/>')) {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted, unquoted] of raw.matchAll(
+    /([^\s=>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+  )) {
+    attrs[name.toLowerCase()] = decodeEntities(doubleQuoted ?? singleQuoted ?? unquoted ?? '');
+  }
+  return attrs;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function textContent(node: HtmlNode): string {
+  if (typeof node === 'string') return node;
+  if (node.tag === 'br') return '\n';
+  return node.children.map(textContent).join('');
+}
+
+function findChild(node: HtmlElement, tag: string, name?: string): HtmlElement | undefined {
+  return node.children.find(
+    (child): child is HtmlElement =>
+      typeof child !== 'string' && child.tag === tag && (name === undefined || child.attrs['ac:name'] === name)
+  );
+}
+
+// Display text of a Confluence resource identifier (ri:page, ri:attachment, ri:user, ...)
+function resourceName(node: HtmlElement): string | undefined {
+  for (const child of node.children) {
+    if (typeof child === 'string' || !child.tag.startsWith('ri:')) continue;
+    const { attrs } = child;
+    return attrs['ri:content-title'] || attrs['ri:filename'] || attrs['ri:value'] || attrs['ri:space-key'] ||
+      (child.tag === 'ri:user' ? 'someone' : undefined);
+  }
+  return undefined;
+}
+
+function toBlockNodes(children: HtmlNode[], marks: AdfMark[]): AdfNode[] {
+  return children.flatMap((child) => toNodes(child, marks));
+}
+
+function toInlineNodes(children: HtmlNode[], marks: AdfMark[]): AdfNode[] {
+  // Block elements inside inline context (e.g. a <div> in a <td>) contribute their inline content
+  return toBlockNodes(children, marks).flatMap((node) =>
+    INLINE_TYPES.has(node.type) ? [node] : [...(node.content || []), { type: 'hardBreak' }]
+  );
+}
+
+/**
+ * Map an HTML node to ADF nodes; inline results are grouped into paragraphs by the renderer
+ */
+function toNodes(node: HtmlNode, marks: AdfMark[]): AdfNode[] {
+  if (typeof node === 'string') {
+    const text = node.replace(/\s+/g, ' ');
+    return text ? [{ type: 'text', text, marks }] : [];
+  }
+
+  const { tag, attrs, children } = node;
+
+  if (SKIPPED_TAGS.has(tag)) {
+    return [];
+  }
+
+  if (INLINE_MARKS[tag]) {
+    return toBlockNodes(children, [...marks, { type: INLINE_MARKS[tag] }]);
+  }
+
+  switch (tag) {
+    case 'a':
+      return toBlockNodes(children, attrs.href ? [...marks, { type: 'link', attrs: { href: attrs.href } }] : marks);
+
+    case 'br':
+      return [{ type: 'hardBreak' }];
+
+    case 'img':
+      return [{ type: 'text', text: `[Image: ${attrs.alt || attrs.title || attrs.src || 'image'}]`, marks }];
+
+    case 'p':
+      return [{ type: 'paragraph', content: toInlineNodes(children, marks) }];
+
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+      return [{ type: 'heading', attrs: { level: Number(tag[1]) }, content: toInlineNodes(children, marks) }];
+
+    case 'ul':
+    case 'ol':
+      return [
+        {
+          type: tag === 'ul' ? 'bulletList' : 'orderedList',
+          ...(tag === 'ol' && attrs.start && { attrs: { order: Number(attrs.start) } }),
+          content: children
+            .filter((child): child is HtmlElement => typeof child !== 'string' && child.tag === 'li')
+            .map((li) => ({ type: 'listItem', content: toBlockNodes(li.children, marks) })),
+        },
+      ];
+
+    case 'pre': {
+      const language = `${attrs.class || ''} ${children.map((c) => (typeof c === 'string' ? '' : c.attrs.class || '')).join(' ')}`
+        .match(/(?:code|language)-([a-z0-9+#-]+)/i)?.[1];
+      const code = textContent(node).replace(/^\n/, '').replace(/\n$/, '');
+      return [{ type: 'codeBlock', attrs: { language }, content: [{ type: 'text', text: code }] }];
+    }
+
+    case 'blockquote':
+      return [{ type: 'blockquote', content: toBlockNodes(children, marks) }];
+
+    case 'hr':
+      return [{ type: 'rule' }];
+
+    case 'table': {
+      const rows: AdfNode[] = [];
+      const collectRows = (element: HtmlElement) => {
+        for (const child of element.children) {
+          if (typeof child === 'string') continue;
+          if (child.tag === 'tr') {
+            rows.push({
+              type: 'tableRow',
+              content: child.children
+                .filter((cell): cell is HtmlElement => typeof cell !== 'string' && (cell.tag === 'td' || cell.tag === 'th'))
+                .map((cell) => ({
+                  type: cell.tag === 'th' ? 'tableHeader' : 'tableCell',
+                  content: toBlockNodes(cell.children, marks),
+                })),
+            });
+          } else if (child.tag !== 'table') {
+            collectRows(child); // thead, tbody, tfoot
+          }
+        }
+      };
+      collectRows(node);
+      return [{ type: 'table', content: rows }];
+    }
+
+    case 'ac:structured-macro':
+    case 'ac:macro':
+      return macroToNodes(node, marks);
+
+    case 'ac:task-list':
+      return [
+        {
+          type: 'taskList',
+          content: children
+            .filter((child): child is HtmlElement => typeof child !== 'string' && child.tag === 'ac:task')
+            .map((task) => {
+              const status = findChild(task, 'ac:task-status');
+              return {
+                type: 'taskItem',
+                attrs: { state: status && textContent(status).trim() === 'complete' ? 'DONE' : 'TODO' },
+                content: toBlockNodes(findChild(task, 'ac:task-body')?.children || [], marks),
+              };
+            }),
+        },
+      ];
+
+    case 'ac:image':
+      return [{ type: 'text', text: `[Image: ${attrs['ac:alt'] || resourceName(node) || attrs['ac:title'] || 'image'}]`, marks }];
+
+    case 'ac:link': {
+      const body = findChild(node, 'ac:link-body') || findChild(node, 'ac:plain-text-link-body');
+      const isUser = node.children.some((child) => typeof child !== 'string' && child.tag === 'ri:user');
+      const text = (body && textContent(body).trim()) || resourceName(node) || attrs['ac:anchor'] || '';
+      return text ? [{ type: 'text', text: isUser && !body ? `@${text}` : text, marks }] : [];
+    }
+
+    case 'ac:emoticon':
+      return [{ type: 'emoji', attrs: { text: attrs['ac:emoji-fallback'], shortName: `:${attrs['ac:name'] || ''}:` } }];
+
+    case 'ac:placeholder':
+    case 'ac:parameter':
+      return [];
+
+    case 'time':
+      return attrs.datetime ? [{ type: 'text', text: attrs.datetime, marks }] : toBlockNodes(children, marks);
+
+    default:
+      // div, span, section, font, ac:layout, ...: keep the children
+      return toBlockNodes(children, marks);
+  }
+}
+
+/**
+ * Map a Confluence macro to ADF nodes; macros without a readable body are dropped
+ */
+function macroToNodes(node: HtmlElement, marks: AdfMark[]): AdfNode[] {
+  const name = node.attrs['ac:name'] || '';
+  const parameter = (key: string) => {
+    const element = findChild(node, 'ac:parameter', key);
+    return element ? textContent(element).trim() : undefined;
+  };
+  const richBody = findChild(node, 'ac:rich-text-body');
+  const plainBody = findChild(node, 'ac:plain-text-body');
+
+  if (SKIPPED_MACROS.has(name)) {
+    return [];
+  }
+
+  switch (name) {
+    case 'code':
+    case 'noformat': {
+      const code = plainBody ? textContent(plainBody).replace(/^\n/, '').replace(/\n$/, '') : '';
+      return [{ type: 'codeBlock', attrs: { language: parameter('language') }, content: [{ type: 'text', text: code }] }];
+    }
+
+    case 'info':
+    case 'note':
+    case 'tip':
+    case 'warning':
+    case 'panel':
+      return [{ type: 'panel', attrs: { panelType: name }, content: toBlockNodes(richBody?.children || [], marks) }];
+
+    case 'expand':
+      return [{ type: 'expand', attrs: { title: parameter('title') }, content: toBlockNodes(richBody?.children || [], marks) }];
+
+    case 'status':
+      return [{ type: 'status', attrs: { text: parameter('title') || parameter('colour') } }];
+
+    case 'jira': {
+      const key = parameter('key');
+      return key ? [{ type: 'text', text: key, marks }] : [];
+    }
+
+    default:
+      if (richBody) return toBlockNodes(richBody.children, marks);
+      if (plainBody) return [{ type: 'paragraph', content: [{ type: 'text', text: textContent(plainBody).trim(), marks }] }];
+      return [];
+  }
+}
@@ -0,0 +1,262 @@
+import puppeteer, { type Browser, type Page } from 'puppeteer';
+
+const MAX_CONCURRENT_PAGES = Number(process.env.PDF_MAX_CONCURRENCY) || 2;
+const MAX_QUEUED = 20;
+const QUEUE_TIMEOUT_MS = 60_000;
+const HEALTH_CHECK_INTERVAL_MS = 30_000;
+const HEALTH_CHECK_TIMEOUT_MS = 5_000;
+const IDLE_SHUTDOWN_MS = 5 * 60_000; // Close Chromium after a quiet spell instead of holding its memory
+const MAX_PAGES_PER_BROWSER = 200; // Relaunch now and then to shed Chromium's memory growth
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export interface BrowserPoolStatus {
+  running: boolean;
+  activePages: number;
+  queued: number;
+  maxConcurrentPages: number;
+}
+
+/**
+ * Shared headless Chromium for PDF rendering
+ * Launched on first use and reused across exports; each job gets its own page, at most
+ * MAX_CONCURRENT_PAGES at a time with the rest queued. A crashed or unresponsive browser is
+ * replaced on the next job.
+ */
+class BrowserPool {
+  private static instance: BrowserPool;
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  private activePages = 0;
+  private pagesServed = 0;
+  private waiters: Waiter[] = [];
+  private healthTimer: NodeJS.Timeout | null = null;
+  private idleTimer: NodeJS.Timeout | null = null;
+  private shuttingDown = false;
+
+  private constructor() {
+    console.log(`🖨️  Browser pool initialized (max ${MAX_CONCURRENT_PAGES} concurrent pages)`);
+  }
+
+  static getInstance(): BrowserPool {
+    if (!BrowserPool.instance) {
+      BrowserPool.instance = new BrowserPool();
+    }
+    return BrowserPool.instance;
+  }
+
+  /**
+   * Run a job on a fresh page of the shared browser; the page is closed afterwards
+   * A job interrupted by a browser crash is retried once on a relaunched browser
+   */
+  async withPage<T>(job: (page: Page) => Promise<T>): Promise<T> {
+    await this.acquire();
+
+    try {
+      const browser = await this.getBrowser();
+      try {
+        return await this.runJob(browser, job);
+      } catch (error) {
+        if (browser.connected || this.shuttingDown) {
+          throw error;
+        }
+        console.warn('⚠️  Browser crashed during a PDF job, retrying on a new browser');
+        return await this.runJob(await this.getBrowser(), job);
+      }
+    } finally {
+      this.release();
+    }
+  }
+
+  getStatus(): BrowserPoolStatus {
+    return {
+      running: !!this.browser?.connected,
+      activePages: this.activePages,
+      queued: this.waiters.length,
+      maxConcurrentPages: MAX_CONCURRENT_PAGES,
+    };
+  }
+
+  /**
+   * Close the browser and reject queued jobs (on server shutdown)
+   */
+  async shutdown(): Promise<void> {
+    this.shuttingDown = true;
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error('PDF export is unavailable: server is shutting down'));
+    }
+    await this.closeBrowser();
+  }
+
+  private async runJob<T>(browser: Browser, job: (page: Page) => Promise<T>): Promise<T> {
+    const page = await browser.newPage();
+    this.pagesServed++;
+
+    try {
+      return await job(page);
+    } finally {
+      // Fails harmlessly if the browser went down with the page
+      await page.close().catch(() => {});
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.shuttingDown) {
+      return Promise.reject(new Error('PDF export is unavailable: server is shutting down'));
+    }
+
+    this.clearIdleTimer();
+
+    if (this.activePages < MAX_CONCURRENT_PAGES) {
+      this.activePages++;
+      return Promise.resolve();
+    }
+
+    if (this.waiters.length >= MAX_QUEUED) {
+      return Promise.reject(new Error('PDF export queue is full, try again shortly'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter((w) => w !== waiter);
+          reject(new Error('Timed out waiting for a PDF export slot'));
+        }, QUEUE_TIMEOUT_MS),
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  private release(): void {
+    // Hand the slot straight to the next queued job
+    const next = this.waiters.shift();
+    if (next) {
+      clearTimeout(next.timer);
+      next.resolve();
+      return;
+    }
+
+    this.activePages--;
+    if (this.activePages > 0 || this.shuttingDown) {
+      return;
+    }
+
+    if (this.pagesServed >= MAX_PAGES_PER_BROWSER) {
+      console.log(`♻️  Recycling browser after ${this.pagesServed} pages`);
+      void this.closeBrowser();
+    } else {
+      this.idleTimer = setTimeout(() => {
+        console.log('💤 Closing idle browser');
+        void this.closeBrowser();
+      }, IDLE_SHUTDOWN_MS);
+      this.idleTimer.unref();
+    }
+  }
+
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser?.connected) {
+      return this.browser;
+    }
+
+    // Concurrent jobs share a single launch
+    if (!this.launching) {
+      this.launching = this.launch().finally(() => {
+        this.launching = null;
+      });
+    }
+    return this.launching;
+  }
+
+  private async launch(): Promise<Browser> {
+    const browser = await puppeteer.launch({
+      headless: true,
+      args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage'],
+    });
+
+    browser.on('disconnected', () => {
+      if (this.browser === browser) {
+        console.warn('⚠️  Browser disconnected, it will be relaunched on the next PDF export');
+        this.browser = null;
+        this.stopHealthChecks();
+      }
+    });
+
+    this.browser = browser;
+    this.pagesServed = 0;
+    this.startHealthChecks();
+    console.log('🌐 Browser launched for PDF export');
+    return browser;
+  }
+
+  private startHealthChecks(): void {
+    this.stopHealthChecks();
+    this.healthTimer = setInterval(() => void this.checkHealth(), HEALTH_CHECK_INTERVAL_MS);
+    this.healthTimer.unref();
+  }
+
+  private stopHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  // A hung browser stays "connected" but stops answering, so ping it over the protocol
+  private async checkHealth(): Promise<void> {
+    const browser = this.browser;
+    if (!browser) return;
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        browser.version(),
+        new Promise((_, reject) => {
+          timer = setTimeout(() => reject(new Error('health check timed out')), HEALTH_CHECK_TIMEOUT_MS);
+        }),
+      ]);
+    } catch (error: any) {
+      if (this.browser === browser) {
+        console.error('❌ Browser failed its health check, restarting:', error.message);
+        await this.closeBrowser();
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async closeBrowser(): Promise<void> {
+    this.clearIdleTimer();
+    this.stopHealthChecks();
+
+    const browser = this.browser;
+    this.browser = null;
+    if (!browser) return;
+
+    try {
+      await Promise.race([browser.close(), new Promise((resolve) => setTimeout(resolve, HEALTH_CHECK_TIMEOUT_MS).unref())]);
+    } catch {
+      // Already gone
+    }
+    // close() can hang on an unresponsive browser; make sure our child process is gone
+    const child = browser.process();
+    if (child && child.exitCode === null) {
+      child.kill('SIGKILL');
+    }
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
+
+export const browserPool = BrowserPool.getInstance();
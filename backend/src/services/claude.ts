@@ -1,202 +1,163 @@
-import { GoogleGenerativeAI, SchemaType } from '@google/generative-ai';
-import { createPRDPrompt, SYSTEM_PROMPT as CREATOR_SYSTEM_PROMPT } from '../prompts/creator';
-import { createReviewPrompt, SYSTEM_PROMPT as REVIEWER_SYSTEM_PROMPT } from '../prompts/reviewer';
-import { ReviewResult } from '../../../shared/types/review';
-import { configService } from './config';
-
-// Default model if not configured
-const DEFAULT_MODEL = 'gemini-2.5-pro';
-
-function getGeminiClient(): GoogleGenerativeAI {
-  // Always create a new client to pick up latest configuration
-  const apiKey = configService.get('GEMINI_API_KEY');
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY is required but not configured. Please configure it in Settings.');
-  }
-  return new GoogleGenerativeAI(apiKey);
-}
-
-function getModel(): string {
-  return configService.get('GEMINI_MODEL') || DEFAULT_MODEL;
-}
-
+import {
+  createPRDPrompt,
+  createSectionPrompt,
+  PRD_TEMPLATE,
+  PRD_SECTION_HEADINGS,
+  SYSTEM_PROMPT as CREATOR_SYSTEM_PROMPT,
+} from '../prompts/creator';
+import {
+  createReviewPrompt,
+  createRevisionPrompt,
+  SYSTEM_PROMPT as REVIEWER_SYSTEM_PROMPT,
+  REVISION_SYSTEM_PROMPT,
+  REVIEW_SCHEMA,
+  REVISION_SCHEMA,
+  DEFAULT_REVIEW_RUBRIC,
+} from '../prompts/reviewer';
+import { ReviewResult, ReviewFinding, ReviewChange, ReviewRubric } from '../../../shared/types/review';
+import { reviewRubricService, type RawCriterionResult } from './review-rubric';
+import type { ServiceContext } from './service-context';
+
+/**
+ * PRD creation and review, using the requesting user's LLM provider and API key
+ */
 export class ClaudeService {
   /**
-   * Generate a PRD from user input
+   * Name of the model the user's requests are currently sent to
    */
-  async createPRD(input: string): Promise<string> {
-    const userPrompt = createPRDPrompt(input);
-    const client = getGeminiClient();
-    const model = client.getGenerativeModel({
-      model: getModel(),
-      systemInstruction: CREATOR_SYSTEM_PROMPT,
-    });
+  async getModelName(ctx: ServiceContext): Promise<string> {
+    return ctx.getModelName();
+  }
 
-    const result = await model.generateContent({
-      contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
-      generationConfig: {
-        maxOutputTokens: 4096,
-        temperature: 0.7,
-      },
+  /**
+   * Generate a PRD from user input, following the given template markdown
+   */
+  async createPRD(ctx: ServiceContext, input: string, template: string = PRD_TEMPLATE): Promise<string> {
+    const provider = await ctx.getLLMProvider();
+
+    return provider.generateText({
+      prompt: createPRDPrompt(input, template),
+      systemPrompt: CREATOR_SYSTEM_PROMPT,
+      maxOutputTokens: 4096,
+      temperature: 0.7,
     });
-
-    const response = result.response;
-    const text = response.text();
-
-    if (!text) {
-      throw new Error('No text content in Gemini response');
-    }
-
-    return text;
   }
 
   /**
    * Create a PRD with streaming support
    */
-  async *createPRDStream(input: string): AsyncGenerator<string> {
-    const userPrompt = createPRDPrompt(input);
-    const client = getGeminiClient();
-    const model = client.getGenerativeModel({
-      model: getModel(),
-      systemInstruction: CREATOR_SYSTEM_PROMPT,
+  async *createPRDStream(ctx: ServiceContext, input: string, template: string = PRD_TEMPLATE): AsyncGenerator<string> {
+    const provider = await ctx.getLLMProvider();
+
+    yield* provider.streamText({
+      prompt: createPRDPrompt(input, template),
+      systemPrompt: CREATOR_SYSTEM_PROMPT,
+      maxOutputTokens: 4096,
+      temperature: 0.7,
     });
+  }
 
-    const result = await model.generateContentStream({
-      contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
-      generationConfig: {
-        maxOutputTokens: 4096,
-        temperature: 0.7,
-      },
+  /**
+   * Regenerate a single `##` section of a PRD, using the rest of the document as context
+   * Returns the section markdown starting with its `##` heading
+   */
+  async regenerateSection(
+    ctx: ServiceContext,
+    prdMarkdown: string,
+    heading: string,
+    instruction?: string,
+    template: string = PRD_TEMPLATE
+  ): Promise<string> {
+    const provider = await ctx.getLLMProvider();
+    const text = await provider.generateText({
+      prompt: createSectionPrompt(prdMarkdown, heading, instruction, template),
+      systemPrompt: CREATOR_SYSTEM_PROMPT,
+      maxOutputTokens: 2048,
+      temperature: 0.7,
     });
 
-    for await (const chunk of result.stream) {
-      const chunkText = chunk.text();
-      if (chunkText) {
-        yield chunkText;
+    // Strip a wrapping code fence if the model added one anyway
+    let section = text.trim().replace(/^```(?:markdown|md)?\s*\n([\s\S]*?)\n```$/, '$1').trim();
+
+    // Drop anything before the section heading, and any extra sections after it
+    const headingIndex = section.search(/^##\s+/m);
+    if (headingIndex === -1) {
+      section = `## ${heading}\n\n${section}`;
+    } else {
+      section = section.slice(headingIndex);
+      const nextSection = section.slice(1).search(/^##\s+/m);
+      if (nextSection !== -1) {
+        section = section.slice(0, nextSection + 1);
       }
     }
+
+    // Trailing separator is re-added when the section is spliced back in
+    return section.replace(/\n+\s*---\s*$/, '').trim();
   }
 
   /**
    * Review a PRD and provide comprehensive feedback
+   * requiredSections are the `##` headings of the PRD's template, checked for missingSections
+   * The model only judges each rubric criterion; category scores and overallScore are computed from the rubric weights
    */
-  async reviewPRD(prdContent: string): Promise<ReviewResult> {
-    const userPrompt = createReviewPrompt(prdContent);
-    const client = getGeminiClient();
-
-    // Define JSON schema for structured output
-    const reviewSchema = {
-      type: SchemaType.OBJECT,
-      properties: {
-        overallScore: { type: SchemaType.NUMBER },
-        sections: {
-          type: SchemaType.OBJECT,
-          properties: {
-            missingSections: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
-            unclearRequirements: {
-              type: SchemaType.ARRAY,
-              items: {
-                type: SchemaType.OBJECT,
-                properties: {
-                  section: { type: SchemaType.STRING },
-                  issue: { type: SchemaType.STRING },
-                  severity: { type: SchemaType.STRING }
-                },
-                required: ['section', 'issue', 'severity']
-              }
-            },
-            edgeCases: {
-              type: SchemaType.ARRAY,
-              items: {
-                type: SchemaType.OBJECT,
-                properties: {
-                  scenario: { type: SchemaType.STRING },
-                  concern: { type: SchemaType.STRING }
-                },
-                required: ['scenario', 'concern']
-              }
-            },
-            technicalRisks: {
-              type: SchemaType.ARRAY,
-              items: {
-                type: SchemaType.OBJECT,
-                properties: {
-                  risk: { type: SchemaType.STRING },
-                  impact: { type: SchemaType.STRING },
-                  mitigation: { type: SchemaType.STRING }
-                },
-                required: ['risk', 'impact']
-              }
-            },
-            complianceGaps: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
-            metricsGaps: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
-            uxGaps: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
-            goToMarketGaps: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } }
-          },
-          required: ['missingSections', 'unclearRequirements', 'edgeCases', 'technicalRisks', 'complianceGaps', 'metricsGaps', 'uxGaps', 'goToMarketGaps']
-        },
-        recommendations: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
-        summary: { type: SchemaType.STRING }
-      },
-      required: ['overallScore', 'sections', 'recommendations', 'summary']
-    };
-
-    const model = client.getGenerativeModel({
-      model: getModel(),
-      systemInstruction: REVIEWER_SYSTEM_PROMPT,
-      generationConfig: {
-        responseMimeType: 'application/json',
-        responseSchema: reviewSchema,
-      },
-    });
-
-    const result = await model.generateContent({
-      contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
-      generationConfig: {
-        maxOutputTokens: 8192, // Increased to prevent truncation
-        temperature: 0.3,
-        responseMimeType: 'application/json',
-        responseSchema: reviewSchema,
-      },
+  async reviewPRD(
+    ctx: ServiceContext,
+    prdContent: string,
+    requiredSections: string[] = PRD_SECTION_HEADINGS,
+    rubric: ReviewRubric = DEFAULT_REVIEW_RUBRIC
+  ): Promise<ReviewResult> {
+    const provider = await ctx.getLLMProvider();
+
+    const { criteriaResults, ...review } = await provider.generateJSON<
+      Omit<ReviewResult, 'overallScore' | 'categoryScores' | 'rubricVersion'> & { criteriaResults?: RawCriterionResult[] }
+    >({
+      prompt: createReviewPrompt(prdContent, requiredSections, rubric),
+      systemPrompt: REVIEWER_SYSTEM_PROMPT,
+      schema: REVIEW_SCHEMA,
+      maxOutputTokens: 8192, // Increased to prevent truncation
+      temperature: 0.3,
     });
 
-    const response = result.response;
-    const text = response.text();
-
-    if (!text) {
-      throw new Error('No text content in Gemini response');
-    }
+    const { overallScore, categoryScores } = reviewRubricService.scoreReview(rubric, criteriaResults || []);
 
-    try {
-      // Try direct JSON parse first (since we requested JSON format)
-      const reviewResult: ReviewResult = JSON.parse(text);
-      return reviewResult;
-    } catch (parseError) {
-      // Fallback: Try to extract JSON from markdown code blocks
-      const codeBlockMatch = text.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
-      if (codeBlockMatch) {
-        try {
-          const reviewResult: ReviewResult = JSON.parse(codeBlockMatch[1]);
-          return reviewResult;
-        } catch (e) {
-          console.error('Failed to parse JSON from code block:', e);
-        }
-      }
+    return {
+      overallScore,
+      ...review,
+      categoryScores,
+      rubricVersion: rubric.version,
+    };
+  }
 
-      // Fallback: Try to extract the first complete JSON object
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        try {
-          const reviewResult: ReviewResult = JSON.parse(jsonMatch[0]);
-          return reviewResult;
-        } catch (e) {
-          console.error('Failed to parse extracted JSON:', e);
-          console.error('Extracted text:', jsonMatch[0].substring(0, 500));
-        }
-      }
+  /**
+   * Revise a PRD to address selected review findings
+   * Returns the full revised markdown plus a change per finding
+   */
+  async reviseFromReview(
+    ctx: ServiceContext,
+    prdContent: string,
+    findings: ReviewFinding[]
+  ): Promise<{ revisedMarkdown: string; summary: string; changes: ReviewChange[] }> {
+    const provider = await ctx.getLLMProvider();
+
+    const revision = await provider.generateJSON<{ revisedMarkdown: string; summary: string; changes: ReviewChange[] }>({
+      prompt: createRevisionPrompt(prdContent, findings),
+      systemPrompt: REVISION_SYSTEM_PROMPT,
+      schema: REVISION_SCHEMA,
+      maxOutputTokens: 16384, // Full PRD plus change list
+      temperature: 0.4,
+    });
 
-      throw new Error(`Could not parse valid JSON from Gemini response. Parse error: ${parseError}`);
+    if (!revision.revisedMarkdown?.trim()) {
+      throw new Error('The model returned an empty revised PRD');
     }
+
+    // Only keep changes that point at findings we actually asked about
+    const findingIds = new Set(findings.map((f) => f.id));
+    return {
+      revisedMarkdown: revision.revisedMarkdown.trim() + '\n',
+      summary: revision.summary || '',
+      changes: (revision.changes || []).filter((change) => findingIds.has(change.findingId)),
+    };
   }
 }
 
@@ -1,10 +1,18 @@
 import { prisma } from './database';
 import { encryptionService } from './encryption';
-import type { UserSettings } from '../../../shared/types';
+import type { UserSettings, AIProvider } from '../../../shared/types';
 
-type ConfigKey =
+export type ConfigKey =
+  | 'AI_PROVIDER'
   | 'GEMINI_API_KEY'
   | 'GEMINI_MODEL'
+  | 'ANTHROPIC_API_KEY'
+  | 'ANTHROPIC_MODEL'
+  | 'OPENAI_API_KEY'
+  | 'OPENAI_BASE_URL'
+  | 'OPENAI_MODEL'
+  | 'OLLAMA_BASE_URL'
+  | 'OLLAMA_MODEL'
   | 'JIRA_EMAIL'
   | 'JIRA_API_TOKEN'
   | 'JIRA_BASE_URL'
@@ -47,12 +55,32 @@ export class ConfigDBService {
 
       // Decrypt API keys
       const settings: UserSettings = {
-        aiProvider: dbSettings.aiProvider as 'gemini',
+        aiProvider: dbSettings.aiProvider as AIProvider,
         geminiModel: dbSettings.geminiModel,
+        anthropicModel: dbSettings.anthropicModel || undefined,
+        openaiModel: dbSettings.openaiModel || undefined,
+        ollamaModel: dbSettings.ollamaModel || undefined,
         apiKeys: {
           gemini: dbSettings.geminiApiKey
             ? encryptionService.decrypt(dbSettings.geminiApiKey)
             : undefined,
+          anthropic: dbSettings.anthropicApiKey
+            ? encryptionService.decrypt(dbSettings.anthropicApiKey)
+            : undefined,
+          openai:
+            dbSettings.openaiApiKey || dbSettings.openaiBaseUrl
+              ? {
+                  apiKey: dbSettings.openaiApiKey
+                    ? encryptionService.decrypt(dbSettings.openaiApiKey)
+                    : undefined,
+                  baseUrl: dbSettings.openaiBaseUrl || undefined,
+                }
+              : undefined,
+          ollama: dbSettings.ollamaBaseUrl
+            ? {
+                baseUrl: dbSettings.ollamaBaseUrl,
+              }
+            : undefined,
           jira:
             dbSettings.jiraEmail && dbSettings.jiraApiToken && dbSettings.jiraBaseUrl
               ? {
@@ -98,6 +126,17 @@ export class ConfigDBService {
         geminiApiKey: settings.apiKeys?.gemini
           ? encryptionService.encrypt(settings.apiKeys.gemini)
           : null,
+        anthropicModel: settings.anthropicModel || null,
+        anthropicApiKey: settings.apiKeys?.anthropic
+          ? encryptionService.encrypt(settings.apiKeys.anthropic)
+          : null,
+        openaiModel: settings.openaiModel || null,
+        openaiApiKey: settings.apiKeys?.openai?.apiKey
+          ? encryptionService.encrypt(settings.apiKeys.openai.apiKey)
+          : null,
+        openaiBaseUrl: settings.apiKeys?.openai?.baseUrl || null,
+        ollamaModel: settings.ollamaModel || null,
+        ollamaBaseUrl: settings.apiKeys?.ollama?.baseUrl || null,
         jiraEmail: settings.apiKeys?.jira?.email || null,
         jiraApiToken: settings.apiKeys?.jira?.apiToken
           ? encryptionService.encrypt(settings.apiKeys.jira.apiToken)
@@ -148,6 +187,11 @@ export class ConfigDBService {
 
     if (settings) {
       switch (key) {
+        case 'AI_PROVIDER':
+          if (settings.aiProvider) {
+            return settings.aiProvider;
+          }
+          break;
         case 'GEMINI_API_KEY':
           if (settings.apiKeys?.gemini) {
             return settings.apiKeys.gemini;
@@ -158,6 +202,41 @@ export class ConfigDBService {
             return settings.geminiModel;
           }
           break;
+        case 'ANTHROPIC_API_KEY':
+          if (settings.apiKeys?.anthropic) {
+            return settings.apiKeys.anthropic;
+          }
+          break;
+        case 'ANTHROPIC_MODEL':
+          if (settings.anthropicModel) {
+            return settings.anthropicModel;
+          }
+          break;
+        case 'OPENAI_API_KEY':
+          if (settings.apiKeys?.openai?.apiKey) {
+            return settings.apiKeys.openai.apiKey;
+          }
+          break;
+        case 'OPENAI_BASE_URL':
+          if (settings.apiKeys?.openai?.baseUrl) {
+            return settings.apiKeys.openai.baseUrl;
+          }
+          break;
+        case 'OPENAI_MODEL':
+          if (settings.openaiModel) {
+            return settings.openaiModel;
+          }
+          break;
+        case 'OLLAMA_BASE_URL':
+          if (settings.apiKeys?.ollama?.baseUrl) {
+            return settings.apiKeys.ollama.baseUrl;
+          }
+          break;
+        case 'OLLAMA_MODEL':
+          if (settings.ollamaModel) {
+            return settings.ollamaModel;
+          }
+          break;
         case 'JIRA_EMAIL':
           if (settings.apiKeys?.jira?.email) {
             return settings.apiKeys.jira.email;
@@ -217,8 +296,19 @@ export class ConfigDBService {
     return {
       aiProvider: settings.aiProvider,
       geminiModel: settings.geminiModel,
+      anthropicModel: settings.anthropicModel,
+      openaiModel: settings.openaiModel,
+      ollamaModel: settings.ollamaModel,
       apiKeys: {
         gemini: settings.apiKeys?.gemini ? '***' : undefined,
+        anthropic: settings.apiKeys?.anthropic ? '***' : undefined,
+        openai: settings.apiKeys?.openai
+          ? {
+              apiKey: settings.apiKeys.openai.apiKey ? '***' : undefined,
+              baseUrl: settings.apiKeys.openai.baseUrl,
+            }
+          : undefined,
+        ollama: settings.apiKeys?.ollama,
         jira: settings.apiKeys?.jira
           ? {
               email: settings.apiKeys.jira.email,
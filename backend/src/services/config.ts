@@ -4,8 +4,16 @@ import * as os from 'os';
 import type { UserSettings } from '../../../shared/types';
 
 type ConfigKey =
+  | 'AI_PROVIDER'
   | 'GEMINI_API_KEY'
   | 'GEMINI_MODEL'
+  | 'ANTHROPIC_API_KEY'
+  | 'ANTHROPIC_MODEL'
+  | 'OPENAI_API_KEY'
+  | 'OPENAI_BASE_URL'
+  | 'OPENAI_MODEL'
+  | 'OLLAMA_BASE_URL'
+  | 'OLLAMA_MODEL'
   | 'JIRA_EMAIL'
   | 'JIRA_API_TOKEN'
   | 'JIRA_BASE_URL'
@@ -75,6 +83,11 @@ export class ConfigService {
     // Try user settings first (HIGHEST PRIORITY)
     if (this.userSettings) {
       switch (key) {
+        case 'AI_PROVIDER':
+          if (this.userSettings.aiProvider) {
+            return this.userSettings.aiProvider;
+          }
+          break;
         case 'GEMINI_API_KEY':
           if (this.userSettings.apiKeys?.gemini) {
             return this.userSettings.apiKeys.gemini;
@@ -85,6 +98,41 @@ export class ConfigService {
             return this.userSettings.geminiModel;
           }
           break;
+        case 'ANTHROPIC_API_KEY':
+          if (this.userSettings.apiKeys?.anthropic) {
+            return this.userSettings.apiKeys.anthropic;
+          }
+          break;
+        case 'ANTHROPIC_MODEL':
+          if (this.userSettings.anthropicModel) {
+            return this.userSettings.anthropicModel;
+          }
+          break;
+        case 'OPENAI_API_KEY':
+          if (this.userSettings.apiKeys?.openai?.apiKey) {
+            return this.userSettings.apiKeys.openai.apiKey;
+          }
+          break;
+        case 'OPENAI_BASE_URL':
+          if (this.userSettings.apiKeys?.openai?.baseUrl) {
+            return this.userSettings.apiKeys.openai.baseUrl;
+          }
+          break;
+        case 'OPENAI_MODEL':
+          if (this.userSettings.openaiModel) {
+            return this.userSettings.openaiModel;
+          }
+          break;
+        case 'OLLAMA_BASE_URL':
+          if (this.userSettings.apiKeys?.ollama?.baseUrl) {
+            return this.userSettings.apiKeys.ollama.baseUrl;
+          }
+          break;
+        case 'OLLAMA_MODEL':
+          if (this.userSettings.ollamaModel) {
+            return this.userSettings.ollamaModel;
+          }
+          break;
         case 'JIRA_EMAIL':
           if (this.userSettings.apiKeys?.jira?.email) {
             return this.userSettings.apiKeys.jira.email;
@@ -144,8 +192,17 @@ export class ConfigService {
     return {
       aiProvider: this.userSettings.aiProvider,
       geminiModel: this.userSettings.geminiModel,
+      anthropicModel: this.userSettings.anthropicModel,
+      openaiModel: this.userSettings.openaiModel,
+      ollamaModel: this.userSettings.ollamaModel,
       apiKeys: {
         gemini: this.userSettings.apiKeys?.gemini ? '***' : undefined,
+        anthropic: this.userSettings.apiKeys?.anthropic ? '***' : undefined,
+        openai: this.userSettings.apiKeys?.openai ? {
+          apiKey: this.userSettings.apiKeys.openai.apiKey ? '***' : undefined,
+          baseUrl: this.userSettings.apiKeys.openai.baseUrl,
+        } : undefined,
+        ollama: this.userSettings.apiKeys?.ollama,
         jira: this.userSettings.apiKeys?.jira ? {
           email: this.userSettings.apiKeys.jira.email,
           apiToken: '***',
@@ -1,156 +1,107 @@
-import { configService } from './config';
+import type { ServiceContext } from './service-context';
+import type { ImportedPage } from '../../../shared/types';
+import { htmlToMarkdown } from './atlassian-markdown';
+import { markdownToConfluenceStorage } from './markdown';
+
+interface ConfluenceCredentials {
+  baseUrl: string;
+  authHeader: string;
+}
 
 export class ConfluenceService {
-  // Use getters to dynamically read from ConfigService
-  private get baseUrl(): string {
-    return configService.get('CONFLUENCE_BASE_URL') || '';
+  constructor() {
+    console.log('🔍 Confluence Service initialized with per-user configuration');
   }
 
-  private get apiToken(): string {
-    return configService.get('CONFLUENCE_API_TOKEN') || '';
-  }
+  /**
+   * Read the user's Confluence credentials, throwing if any are missing
+   */
+  private async requireCredentials(ctx: ServiceContext): Promise<ConfluenceCredentials> {
+    const baseUrl = (await ctx.getConfig('CONFLUENCE_BASE_URL')) || '';
+    const apiToken = (await ctx.getConfig('CONFLUENCE_API_TOKEN')) || '';
+
+    if (!baseUrl || !apiToken) {
+      throw new Error('Confluence integration is not configured');
+    }
 
-  private get authHeader(): string {
     // For Confluence Cloud, use the same email as Jira
-    const email = configService.get('JIRA_EMAIL') || '';
-    return Buffer.from(`${email}:${this.apiToken}`).toString('base64');
+    const email = (await ctx.getConfig('JIRA_EMAIL')) || '';
+    return {
+      baseUrl,
+      authHeader: Buffer.from(`${email}:${apiToken}`).toString('base64'),
+    };
   }
 
-  constructor() {
-    console.log('🔍 Confluence Service initialized with ConfigService');
+  async isConfigured(ctx: ServiceContext): Promise<boolean> {
+    return ctx.isConfigured(['CONFLUENCE_BASE_URL', 'CONFLUENCE_API_TOKEN']);
   }
 
-  isConfigured(): boolean {
-    return !!(this.baseUrl && this.apiToken);
+  /**
+   * Extract the page id from a page id or a Confluence page URL
+   * (…/pages/viewpage.action?pageId=123 or …/spaces/KEY/pages/123/Title)
+   */
+  parsePageId(page: string): string {
+    const ref = page.trim();
+    const id = /^\d+$/.test(ref)
+      ? ref
+      : ref.match(/[?&]pageId=(\d+)/)?.[1] || ref.match(/\/pages\/(?:edit-v2\/)?(\d+)(?:[/?#]|$)/)?.[1];
+
+    if (!id) {
+      throw new Error(`Invalid Confluence page reference: "${ref}"`);
+    }
+    return id;
   }
 
   /**
-   * Convert markdown to Confluence storage format
-   * Improved implementation with better handling of markdown syntax
+   * Fetch a page and convert its storage format body to markdown
    */
-  private markdownToConfluenceStorage(markdown: string): string {
-    let html = markdown;
-
-    // Escape HTML special characters first
-    html = html.replace(/&/g, '&amp;');
-    html = html.replace(/</g, '&lt;');
-    html = html.replace(/>/g, '&gt;');
-
-    // Code blocks (```code```)
-    html = html.replace(/```(\w+)?\n([\s\S]+?)```/g, (match, lang, code) => {
-      return `<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">${lang || 'none'}</ac:parameter><ac:plain-text-body><![CDATA[${code.trim()}]]></ac:plain-text-body></ac:structured-macro>`;
-    });
-
-    // Inline code (`code`)
-    html = html.replace(/`([^`]+)`/g, '<code>$1</code>');
-
-    // Headings (must come before bold/italic to avoid conflicts)
-    html = html.replace(/^#### (.+)$/gm, '<h4>$1</h4>');
-    html = html.replace(/^### (.+)$/gm, '<h3>$1</h3>');
-    html = html.replace(/^## (.+)$/gm, '<h2>$1</h2>');
-    html = html.replace(/^# (.+)$/gm, '<h1>$1</h1>');
-
-    // Bold and italic
-    html = html.replace(/\*\*\*(.+?)\*\*\*/g, '<strong><em>$1</em></strong>');
-    html = html.replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>');
-    html = html.replace(/\*(.+?)\*/g, '<em>$1</em>');
-
-    // Links [text](url)
-    html = html.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2">$1</a>');
-
-    // Ordered lists
-    const orderedListRegex = /(?:^\d+\.\s.+$\n?)+/gm;
-    html = html.replace(orderedListRegex, (match) => {
-      const items = match.trim().split('\n').map(line => {
-        const text = line.replace(/^\d+\.\s/, '');
-        return `<li>${text}</li>`;
-      }).join('\n');
-      return `<ol>\n${items}\n</ol>`;
-    });
-
-    // Unordered lists
-    const unorderedListRegex = /(?:^[\*\-]\s.+$\n?)+/gm;
-    html = html.replace(unorderedListRegex, (match) => {
-      const items = match.trim().split('\n').map(line => {
-        const text = line.replace(/^[\*\-]\s/, '');
-        return `<li>${text}</li>`;
-      }).join('\n');
-      return `<ul>\n${items}\n</ul>`;
-    });
-
-    // Blockquotes
-    html = html.replace(/^&gt;\s(.+)$/gm, '<blockquote>$1</blockquote>');
-
-    // Horizontal rules
-    html = html.replace(/^---+$/gm, '<hr />');
-
-    // Tables (basic support)
-    const tableRegex = /(?:^\|.+\|$\n?)+/gm;
-    html = html.replace(tableRegex, (match) => {
-      const lines = match.trim().split('\n');
-      if (lines.length < 2) return match;
-
-      const headerCells = lines[0].split('|').filter(c => c.trim()).map(c => `<th>${c.trim()}</th>`).join('');
-      const bodyRows = lines.slice(2).map(line => {
-        const cells = line.split('|').filter(c => c.trim()).map(c => `<td>${c.trim()}</td>`).join('');
-        return `<tr>${cells}</tr>`;
-      }).join('\n');
-
-      return `<table><thead><tr>${headerCells}</tr></thead><tbody>${bodyRows}</tbody></table>`;
+  async fetchPage(ctx: ServiceContext, page: string): Promise<ImportedPage> {
+    const { baseUrl, authHeader } = await this.requireCredentials(ctx);
+    const pageId = this.parsePageId(page);
+
+    const response = await fetch(`${baseUrl}/rest/api/content/${pageId}?expand=body.storage,version`, {
+      headers: {
+        'Authorization': `Basic ${authHeader}`,
+        'Accept': 'application/json',
+      },
     });
 
-    // Paragraphs - split by double newlines
-    const lines = html.split('\n');
-    let inBlock = false;
-    const processed: string[] = [];
-    let currentParagraph: string[] = [];
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-
-      // Check if line is already an HTML block element
-      if (trimmed.match(/^<(h[1-6]|ul|ol|blockquote|hr|table|ac:structured-macro)/i)) {
-        if (currentParagraph.length > 0) {
-          processed.push(`<p>${currentParagraph.join(' ')}</p>`);
-          currentParagraph = [];
-        }
-        processed.push(line);
-        inBlock = true;
-      } else if (trimmed.match(/^<\/(ul|ol|blockquote|table|ac:structured-macro)/i)) {
-        processed.push(line);
-        inBlock = false;
-      } else if (inBlock) {
-        processed.push(line);
-      } else if (trimmed === '') {
-        if (currentParagraph.length > 0) {
-          processed.push(`<p>${currentParagraph.join(' ')}</p>`);
-          currentParagraph = [];
-        }
-      } else if (!trimmed.match(/^<[^>]+>$/)) {
-        currentParagraph.push(trimmed);
-      } else {
-        processed.push(line);
-      }
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Confluence API error: ${response.status} - ${errorText}`);
     }
 
-    if (currentParagraph.length > 0) {
-      processed.push(`<p>${currentParagraph.join(' ')}</p>`);
-    }
+    const data = await response.json() as {
+      id: string;
+      title: string;
+      body?: { storage?: { value: string } };
+      version?: { number: number; when?: string };
+      _links?: { base?: string; webui?: string };
+    };
 
-    return processed.join('\n');
+    return {
+      platform: 'confluence',
+      id: data.id,
+      title: data.title,
+      url: data._links?.webui
+        ? `${data._links.base || baseUrl}${data._links.webui}`
+        : `${baseUrl}/pages/viewpage.action?pageId=${data.id}`,
+      markdown: htmlToMarkdown(data.body?.storage?.value || ''),
+      version: data.version?.number,
+      lastEdited: data.version?.when,
+    };
   }
 
   async createPage(
+    ctx: ServiceContext,
     spaceKey: string,
     title: string,
     content: string,
     parentPageId?: string
-  ): Promise<{ id: string; url: string }> {
-    if (!this.isConfigured()) {
-      throw new Error('Confluence integration is not configured');
-    }
+  ): Promise<{ id: string; url: string; version: number }> {
+    const { baseUrl, authHeader } = await this.requireCredentials(ctx);
 
-    const storageContent = this.markdownToConfluenceStorage(content);
+    const storageContent = markdownToConfluenceStorage(content);
 
     const payload: any = {
       type: 'page',
@@ -169,10 +120,10 @@ export class ConfluenceService {
     }
 
     try {
-      const response = await fetch(`${this.baseUrl}/rest/api/content`, {
+      const response = await fetch(`${baseUrl}/rest/api/content`, {
         method: 'POST',
         headers: {
-          'Authorization': `Basic ${this.authHeader}`,
+          'Authorization': `Basic ${authHeader}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(payload),
@@ -183,18 +134,107 @@ export class ConfluenceService {
         throw new Error(`Confluence API error: ${response.status} - ${errorText}`);
       }
 
-      const data = await response.json() as { id: string };
-      const pageUrl = `${this.baseUrl}/pages/viewpage.action?pageId=${data.id}`;
+      const data = await response.json() as { id: string; version?: { number: number } };
+      const pageUrl = `${baseUrl}/pages/viewpage.action?pageId=${data.id}`;
 
       return {
         id: data.id,
         url: pageUrl,
+        version: data.version?.number || 1,
       };
     } catch (error: any) {
       console.error('Error creating Confluence page:', error);
       throw new Error(`Failed to create Confluence page: ${error.message}`);
     }
   }
+
+  /**
+   * Current version of a page, or null if the page no longer exists
+   */
+  async getPageVersion(
+    ctx: ServiceContext,
+    pageId: string
+  ): Promise<{ number: number; when?: string; by?: string } | null> {
+    const { baseUrl, authHeader } = await this.requireCredentials(ctx);
+
+    const response = await fetch(`${baseUrl}/rest/api/content/${pageId}?expand=version`, {
+      headers: {
+        'Authorization': `Basic ${authHeader}`,
+        'Accept': 'application/json',
+      },
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Confluence API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json() as {
+      status?: string;
+      version: { number: number; when?: string; by?: { displayName?: string } };
+    };
+    if (data.status === 'trashed') {
+      return null;
+    }
+
+    return { number: data.version.number, when: data.version.when, by: data.version.by?.displayName };
+  }
+
+  /**
+   * Replace the title and body of an existing page, as the version after `currentVersion`
+   */
+  async updatePage(
+    ctx: ServiceContext,
+    pageId: string,
+    title: string,
+    content: string,
+    currentVersion: number
+  ): Promise<{ id: string; url: string; version: number }> {
+    const { baseUrl, authHeader } = await this.requireCredentials(ctx);
+
+    const payload = {
+      id: pageId,
+      type: 'page',
+      title,
+      version: { number: currentVersion + 1 },
+      body: {
+        storage: {
+          value: markdownToConfluenceStorage(content),
+          representation: 'storage',
+        },
+      },
+    };
+
+    try {
+      const response = await fetch(`${baseUrl}/rest/api/content/${pageId}`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Basic ${authHeader}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Confluence API error: ${response.status} - ${errorText}`);
+      }
+
+      const data = await response.json() as { id: string; version?: { number: number } };
+
+      return {
+        id: data.id,
+        url: `${baseUrl}/pages/viewpage.action?pageId=${data.id}`,
+        version: data.version?.number || currentVersion + 1,
+      };
+    } catch (error: any) {
+      console.error('Error updating Confluence page:', error);
+      throw new Error(`Failed to update Confluence page: ${error.message}`);
+    }
+  }
 }
 
 export const confluenceService = new ConfluenceService();
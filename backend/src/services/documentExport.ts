@@ -1,18 +1,6 @@
-import { marked } from 'marked';
-import puppeteer from 'puppeteer';
-import {
-  Document,
-  Paragraph,
-  TextRun,
-  HeadingLevel,
-  AlignmentType,
-  Table,
-  TableRow,
-  TableCell,
-  WidthType,
-  BorderStyle,
-  Packer,
-} from 'docx';
+import { Document, Packer } from 'docx';
+import { browserPool } from './browser-pool';
+import { escapeHtml, markdownToDocx, markdownToHtml } from './markdown';
 
 export interface ExportOptions {
   title?: string;
@@ -26,13 +14,8 @@ export class DocumentExportService {
   async exportToPDF(markdown: string, options: ExportOptions = {}): Promise<Buffer> {
     const html = this.markdownToHTML(markdown, options.title);
 
-    const browser = await puppeteer.launch({
-      headless: true,
-      args: ['--no-sandbox', '--disable-setuid-sandbox'],
-    });
-
-    try {
-      const page = await browser.newPage();
+    // Rendered on a page of the shared browser, so exports don't each start Chromium
+    return browserPool.withPage(async (page) => {
       await page.setContent(html, { waitUntil: 'networkidle0' });
 
       const pdfBuffer = await page.pdf({
@@ -47,82 +30,23 @@ export class DocumentExportService {
       });
 
       return Buffer.from(pdfBuffer);
-    } finally {
-      await browser.close();
-    }
+    });
   }
 
   /**
    * Export markdown to DOCX
    */
   async exportToDOCX(markdown: string, options: ExportOptions = {}): Promise<Buffer> {
-    const sections = this.parseMarkdown(markdown);
-    const docElements: any[] = [];
-
-    for (const section of sections) {
-      switch (section.type) {
-        case 'heading':
-          docElements.push(
-            new Paragraph({
-              text: section.text,
-              heading: this.getHeadingLevel(section.level),
-              spacing: { before: 240, after: 120 },
-            })
-          );
-          break;
-
-        case 'paragraph':
-          if (section.text.trim()) {
-            docElements.push(
-              new Paragraph({
-                children: this.parseInlineFormatting(section.text),
-                spacing: { after: 120 },
-              })
-            );
-          }
-          break;
-
-        case 'list':
-          section.items.forEach((item: string) => {
-            docElements.push(
-              new Paragraph({
-                children: this.parseInlineFormatting(item),
-                bullet: { level: 0 },
-                spacing: { after: 60 },
-              })
-            );
-          });
-          break;
-
-        case 'table':
-          const table = this.createTable(section.headers, section.rows);
-          docElements.push(table);
-          docElements.push(new Paragraph({ text: '', spacing: { after: 120 } }));
-          break;
-
-        case 'code':
-          docElements.push(
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: section.text,
-                  font: 'Courier New',
-                  size: 20,
-                }),
-              ],
-              spacing: { after: 120 },
-              shading: { fill: 'F5F5F5' },
-            })
-          );
-          break;
-      }
-    }
+    const { children, numbering } = markdownToDocx(markdown);
 
     const doc = new Document({
+      ...(options.title && { title: options.title }),
+      ...(options.author && { creator: options.author }),
+      numbering,
       sections: [
         {
           properties: {},
-          children: docElements,
+          children,
         },
       ],
     });
@@ -134,14 +58,14 @@ export class DocumentExportService {
    * Convert markdown to HTML with styling
    */
   private markdownToHTML(markdown: string, title?: string): string {
-    const htmlContent = marked(markdown);
+    const htmlContent = markdownToHtml(markdown);
 
     return `
 <!DOCTYPE html>
 <html>
 <head>
   <meta charset="UTF-8">
-  ${title ? `<title>${title}</title>` : ''}
+  ${title ? `<title>${escapeHtml(title)}</title>` : ''}
   <style>
     body {
       font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
@@ -201,6 +125,10 @@ export class DocumentExportService {
       margin-bottom: 6px;
     }
 
+    li > input[type="checkbox"] {
+      margin-right: 6px;
+    }
+
     table {
       border-collapse: collapse;
       width: 100%;
@@ -293,186 +221,6 @@ export class DocumentExportService {
 </html>
     `;
   }
-
-  /**
-   * Parse markdown into structured sections
-   */
-  private parseMarkdown(markdown: string): any[] {
-    const lines = markdown.split('\n');
-    const sections: any[] = [];
-    let currentSection: any = null;
-    let inCodeBlock = false;
-    let codeContent = '';
-    let inTable = false;
-    let tableHeaders: string[] = [];
-    let tableRows: string[][] = [];
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-
-      // Code blocks
-      if (line.trim().startsWith('```')) {
-        if (inCodeBlock) {
-          sections.push({ type: 'code', text: codeContent.trim() });
-          codeContent = '';
-          inCodeBlock = false;
-        } else {
-          inCodeBlock = true;
-        }
-        continue;
-      }
-
-      if (inCodeBlock) {
-        codeContent += line + '\n';
-        continue;
-      }
-
-      // Headings
-      const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
-      if (headingMatch) {
-        if (inTable) {
-          sections.push({ type: 'table', headers: tableHeaders, rows: tableRows });
-          inTable = false;
-          tableHeaders = [];
-          tableRows = [];
-        }
-        sections.push({
-          type: 'heading',
-          level: headingMatch[1].length,
-          text: headingMatch[2].trim(),
-        });
-        continue;
-      }
-
-      // Tables
-      if (line.includes('|')) {
-        const cells = line
-          .split('|')
-          .map(c => c.trim())
-          .filter(c => c.length > 0);
-
-        if (cells.length > 0) {
-          if (!inTable) {
-            inTable = true;
-            tableHeaders = cells;
-          } else if (line.includes('---')) {
-            // Skip separator row
-            continue;
-          } else {
-            tableRows.push(cells);
-          }
-        }
-        continue;
-      } else if (inTable) {
-        sections.push({ type: 'table', headers: tableHeaders, rows: tableRows });
-        inTable = false;
-        tableHeaders = [];
-        tableRows = [];
-      }
-
-      // Lists
-      const listMatch = line.match(/^[\s]*[-*+]\s+(.+)$/);
-      if (listMatch) {
-        if (currentSection?.type !== 'list') {
-          currentSection = { type: 'list', items: [] };
-          sections.push(currentSection);
-        }
-        currentSection.items.push(listMatch[1].trim());
-        continue;
-      } else if (currentSection?.type === 'list') {
-        currentSection = null;
-      }
-
-      // Paragraphs
-      if (line.trim()) {
-        sections.push({ type: 'paragraph', text: line });
-      }
-    }
-
-    // Flush remaining table if any
-    if (inTable) {
-      sections.push({ type: 'table', headers: tableHeaders, rows: tableRows });
-    }
-
-    return sections;
-  }
-
-  /**
-   * Parse inline formatting (bold, italic, code)
-   */
-  private parseInlineFormatting(text: string): TextRun[] {
-    const runs: TextRun[] = [];
-
-    // Remove markdown syntax for DOCX
-    let cleanText = text
-      .replace(/\*\*(.+?)\*\*/g, '$1') // Bold
-      .replace(/\*(.+?)\*/g, '$1')     // Italic
-      .replace(/`(.+?)`/g, '$1');      // Code
-
-    // For simplicity, just return as plain text
-    // In a more advanced implementation, you could parse and apply formatting
-    runs.push(new TextRun({ text: cleanText }));
-
-    return runs;
-  }
-
-  /**
-   * Create a table for DOCX
-   */
-  private createTable(headers: string[], rows: string[][]): Table {
-    const tableRows: TableRow[] = [];
-
-    // Header row
-    tableRows.push(
-      new TableRow({
-        children: headers.map(
-          header =>
-            new TableCell({
-              children: [
-                new Paragraph({
-                  children: [new TextRun({ text: header, bold: true })],
-                }),
-              ],
-              shading: { fill: 'F3F4F6' },
-            })
-        ),
-      })
-    );
-
-    // Data rows
-    rows.forEach(row => {
-      tableRows.push(
-        new TableRow({
-          children: row.map(
-            cell =>
-              new TableCell({
-                children: [new Paragraph({ text: cell })],
-              })
-          ),
-        })
-      );
-    });
-
-    return new Table({
-      rows: tableRows,
-      width: { size: 100, type: WidthType.PERCENTAGE },
-    });
-  }
-
-  /**
-   * Get DOCX heading level
-   */
-  private getHeadingLevel(level: number): typeof HeadingLevel[keyof typeof HeadingLevel] {
-    const levels: Record<number, typeof HeadingLevel[keyof typeof HeadingLevel]> = {
-      1: HeadingLevel.HEADING_1,
-      2: HeadingLevel.HEADING_2,
-      3: HeadingLevel.HEADING_3,
-      4: HeadingLevel.HEADING_4,
-      5: HeadingLevel.HEADING_5,
-      6: HeadingLevel.HEADING_6,
-    };
-    return levels[level] || HeadingLevel.HEADING_1;
-  }
 }
 
 export const documentExportService = new DocumentExportService();
@@ -1,80 +1,116 @@
-import { JiraTicket, JiraComment } from '../../../shared/types/jira';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { configService } from './config';
-
-let jiraInstance: JiraService | null = null;
-
-// Helper function to extract text from Atlassian Document Format (ADF)
-function extractTextFromADF(adf: any): string {
-  if (!adf) return '';
-
-  // If it's already a string, return it
-  if (typeof adf === 'string') return adf;
+import {
+  JiraTicket,
+  JiraComment,
+  JiraIssueRef,
+  JiraLinkedIssue,
+  JiraAttachment,
+  JiraSearchRequest,
+  JiraSearchResult,
+} from '../../../shared/types/jira';
+import { adfToMarkdown, htmlToMarkdown } from './atlassian-markdown';
+import { createLLMProvider, resolveLLMConfig, type LLMProvider } from './llm';
+import type { ServiceContext } from './service-context';
+
+interface JiraCredentials {
+  baseUrl: string;
+  email: string;
+  apiToken: string;
+  authHeader: string;
+}
 
-  // If it's an ADF object
-  if (adf.type === 'doc' && Array.isArray(adf.content)) {
-    return adf.content.map((node: any) => extractTextFromADFNode(node)).join('\n');
+/** A failed Jira API request, with its HTTP status and Jira's own error text when it gave one */
+export class JiraApiError extends Error {
+  constructor(message: string, public readonly status: number, public readonly detail?: string) {
+    super(message);
+    this.name = 'JiraApiError';
   }
-
-  return '';
 }
 
-function extractTextFromADFNode(node: any): string {
-  if (!node) return '';
+let jiraInstance: JiraService | null = null;
 
-  // If it's a text node, return the text
-  if (node.type === 'text') {
-    return node.text || '';
-  }
+const SEARCH_FIELDS = ['summary', 'issuetype', 'status', 'priority', 'assignee', 'updated'];
 
-  // If it has content array, recursively extract
-  if (Array.isArray(node.content)) {
-    return node.content.map((child: any) => extractTextFromADFNode(child)).join('');
+// Quote a value for use in JQL
+function jqlString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+// Build an ADF document from plain-text paragraphs, with an optional headed bullet list (e.g. acceptance criteria)
+function buildADF(text: string, list?: { heading: string; items: string[] }): any {
+  const content: any[] = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph) => ({ type: 'paragraph', content: [{ type: 'text', text: paragraph }] }));
+
+  if (list && list.items.length > 0) {
+    content.push({ type: 'heading', attrs: { level: 3 }, content: [{ type: 'text', text: list.heading }] });
+    content.push({
+      type: 'bulletList',
+      content: list.items.map((item) => ({
+        type: 'listItem',
+        content: [{ type: 'paragraph', content: [{ type: 'text', text: item }] }],
+      })),
+    });
   }
 
-  return '';
+  return { type: 'doc', version: 1, content };
 }
 
 export class JiraService {
-  // Use getters to dynamically read from ConfigService
-  private get baseUrl(): string {
-    return configService.get('JIRA_BASE_URL') || '';
-  }
-
-  private get email(): string {
-    return configService.get('JIRA_EMAIL') || '';
+  constructor() {
+    console.log('🔍 Jira Service initialized with per-user configuration');
   }
 
-  private get apiToken(): string {
-    return configService.get('JIRA_API_TOKEN') || '';
+  /**
+   * Read the user's Jira credentials
+   */
+  private async getCredentials(ctx: ServiceContext): Promise<JiraCredentials> {
+    const baseUrl = (await ctx.getConfig('JIRA_BASE_URL')) || '';
+    const email = (await ctx.getConfig('JIRA_EMAIL')) || '';
+    const apiToken = (await ctx.getConfig('JIRA_API_TOKEN')) || '';
+
+    return {
+      baseUrl,
+      email,
+      apiToken,
+      authHeader: Buffer.from(`${email}:${apiToken}`).toString('base64'),
+    };
   }
 
-  private get authHeader(): string {
-    return Buffer.from(`${this.email}:${this.apiToken}`).toString('base64');
+  /**
+   * Read the user's Jira credentials, throwing if any are missing
+   */
+  private async requireCredentials(ctx: ServiceContext): Promise<JiraCredentials> {
+    const credentials = await this.getCredentials(ctx);
+    if (!credentials.baseUrl || !credentials.email || !credentials.apiToken) {
+      throw new Error('Jira integration is not configured. Please add your Jira base URL, email, and API token in Settings.');
+    }
+    return credentials;
   }
 
-  constructor() {
-    // Debug logging
-    console.log('🔍 Jira Service initialized with ConfigService');
+  async isConfigured(ctx: ServiceContext): Promise<boolean> {
+    return ctx.isConfigured(['JIRA_BASE_URL', 'JIRA_EMAIL', 'JIRA_API_TOKEN']);
   }
 
-  isConfigured(): boolean {
-    const configured = !!(this.baseUrl && this.email && this.apiToken);
-    return configured;
+  /**
+   * Browser URL of a Jira issue
+   */
+  async getIssueUrl(ctx: ServiceContext, ticketId: string): Promise<string> {
+    const { baseUrl } = await this.getCredentials(ctx);
+    return `${baseUrl}/browse/${ticketId}`;
   }
 
-  async fetchTicket(ticketId: string): Promise<JiraTicket> {
-    if (!this.isConfigured()) {
-      throw new Error('Jira integration is not configured. Please set JIRA_BASE_URL, JIRA_EMAIL, and JIRA_API_TOKEN environment variables.');
-    }
+  async fetchTicket(ctx: ServiceContext, ticketId: string): Promise<JiraTicket> {
+    const { baseUrl, authHeader } = await this.requireCredentials(ctx);
 
     try {
       // Fetch issue details
       const issueResponse = await fetch(
-        `${this.baseUrl}/rest/api/3/issue/${ticketId}?expand=renderedFields`,
+        `${baseUrl}/rest/api/3/issue/${ticketId}?expand=renderedFields`,
         {
           headers: {
-            'Authorization': `Basic ${this.authHeader}`,
+            'Authorization': `Basic ${authHeader}`,
             'Accept': 'application/json',
           },
         }
@@ -82,44 +118,36 @@ export class JiraService {
 
       if (!issueResponse.ok) {
         const errorText = await issueResponse.text();
-        throw new Error(`Jira API error: ${issueResponse.status} - ${errorText}`);
+        throw new JiraApiError(`Jira API error: ${issueResponse.status} - ${errorText}`, issueResponse.status);
       }
 
       const issue = await issueResponse.json() as any;
 
-      // Fetch comments
+      // Fetch comments (renderedBody is the HTML fallback for comments without an ADF body)
       const commentsResponse = await fetch(
-        `${this.baseUrl}/rest/api/3/issue/${ticketId}/comment`,
+        `${baseUrl}/rest/api/3/issue/${ticketId}/comment?expand=renderedBody`,
         {
           headers: {
-            'Authorization': `Basic ${this.authHeader}`,
+            'Authorization': `Basic ${authHeader}`,
             'Accept': 'application/json',
           },
         }
       );
 
       const commentsData = await commentsResponse.json() as any;
-      const comments: JiraComment[] = (commentsData.comments || []).map((c: any) => {
-        // Extract text from ADF format
-        let bodyText = '';
-        if (c.body) {
-          bodyText = extractTextFromADF(c.body);
-        }
-
-        return {
-          id: c.id,
-          author: c.author?.displayName || 'Unknown',
-          body: bodyText || '[No comment text]',
-          created: c.created,
-        };
-      });
+      const comments: JiraComment[] = (commentsData.comments || []).map((c: any) => ({
+        id: c.id,
+        author: c.author?.displayName || 'Unknown',
+        body: this.toMarkdown(c.body, c.renderedBody) || '[No comment text]',
+        created: c.created,
+      }));
 
       // Transform to our format
       const ticket: JiraTicket = {
         id: issue.id,
         key: issue.key,
         summary: issue.fields.summary,
-        description: issue.renderedFields?.description || issue.fields.description || '',
+        description: this.toMarkdown(issue.fields.description, issue.renderedFields?.description),
         issueType: issue.fields.issuetype?.name || 'Unknown',
         status: issue.fields.status?.name || 'Unknown',
         priority: issue.fields.priority?.name || 'Unknown',
@@ -128,14 +156,175 @@ export class JiraService {
         created: issue.fields.created,
         updated: issue.fields.updated,
         comments,
+        ...(issue.fields.parent && { parent: this.toIssueRef(issue.fields.parent) }),
+        linkedIssues: this.toLinkedIssues(issue.fields.issuelinks),
+        subtasks: (issue.fields.subtasks || []).map((subtask: any) => this.toIssueRef(subtask)),
+        attachments: this.toAttachments(issue.fields.attachment),
         customFields: issue.fields,
       };
 
       return ticket;
     } catch (error: any) {
       console.error('Error fetching Jira ticket:', error);
-      throw new Error(`Failed to fetch Jira ticket: ${error.message}`);
+      const message = `Failed to fetch Jira ticket: ${error.message}`;
+      throw error instanceof JiraApiError ? new JiraApiError(message, error.status) : new Error(message);
+    }
+  }
+
+  /**
+   * Markdown for a rich-text field: ADF when Jira returns it, else the rendered HTML, else the raw text
+   */
+  private toMarkdown(value: unknown, renderedHtml?: string): string {
+    if (value && typeof value === 'object') {
+      return adfToMarkdown(value);
+    }
+    if (renderedHtml) {
+      return htmlToMarkdown(renderedHtml);
+    }
+    return typeof value === 'string' ? value : '';
+  }
+
+  private toIssueRef(issue: any): JiraIssueRef {
+    return {
+      key: issue.key,
+      summary: issue.fields?.summary || '',
+      ...(issue.fields?.issuetype?.name && { issueType: issue.fields.issuetype.name }),
+      ...(issue.fields?.status?.name && { status: issue.fields.status.name }),
+    };
+  }
+
+  private toLinkedIssues(issueLinks: any[] = []): JiraLinkedIssue[] {
+    return issueLinks
+      .filter((link) => link.outwardIssue || link.inwardIssue)
+      .map((link) => ({
+        ...this.toIssueRef(link.outwardIssue || link.inwardIssue),
+        relationship: (link.outwardIssue ? link.type?.outward : link.type?.inward) || link.type?.name || 'relates to',
+      }));
+  }
+
+  private toAttachments(attachments: any[] = []): JiraAttachment[] {
+    return attachments.map((attachment) => ({
+      id: attachment.id,
+      filename: attachment.filename,
+      mimeType: attachment.mimeType || 'application/octet-stream',
+      size: attachment.size || 0,
+      url: attachment.content,
+      ...(attachment.author?.displayName && { author: attachment.author.displayName }),
+      ...(attachment.created && { created: attachment.created }),
+    }));
+  }
+
+  /**
+   * Linked issues, subtasks and attachments as markdown, for the PRD prompt
+   */
+  private formatRelatedContext(ticket: JiraTicket, headingLevel: string): string {
+    let context = '';
+    const issueLine = (issue: JiraIssueRef) =>
+      `${issue.key}: ${issue.summary}${issue.issueType || issue.status ? ` (${[issue.issueType, issue.status].filter(Boolean).join(', ')})` : ''}`;
+
+    if (ticket.linkedIssues && ticket.linkedIssues.length > 0) {
+      context += `${headingLevel} Linked Issues\n`;
+      ticket.linkedIssues.forEach((issue) => {
+        context += `- ${issue.relationship} ${issueLine(issue)}\n`;
+      });
+      context += '\n';
+    }
+
+    if (ticket.subtasks && ticket.subtasks.length > 0) {
+      context += `${headingLevel} Subtasks\n`;
+      ticket.subtasks.forEach((subtask) => {
+        context += `- ${issueLine(subtask)}\n`;
+      });
+      context += '\n';
+    }
+
+    if (ticket.attachments && ticket.attachments.length > 0) {
+      context += `${headingLevel} Attachments\n`;
+      ticket.attachments.forEach((attachment) => {
+        context += `- ${attachment.filename} (${attachment.mimeType}, ${Math.max(1, Math.round(attachment.size / 1024))} KB)\n`;
+      });
+      context += '\n';
+    }
+
+    return context;
+  }
+
+  /**
+   * JQL for a search request: the given JQL as-is, or the epic / sprint shortcut
+   */
+  buildSearchJql(request: JiraSearchRequest): string {
+    if (request.jql?.trim()) {
+      return request.jql.trim();
+    }
+
+    const clauses: string[] = [];
+    if (request.projectKey) {
+      clauses.push(`project = ${jqlString(request.projectKey)}`);
+    }
+    if (request.epicKey) {
+      clauses.push(`parent = ${jqlString(request.epicKey)}`);
     }
+    if (request.sprint) {
+      // Numeric values are sprint ids, anything else a sprint name
+      clauses.push(`sprint = ${/^\d+$/.test(request.sprint) ? request.sprint : jqlString(request.sprint)}`);
+    }
+
+    return `${clauses.join(' AND ')} ORDER BY updated DESC`;
+  }
+
+  /**
+   * Search issues with JQL, one page at a time
+   * Pass the returned nextPageToken to get the following page; it is missing on the last page
+   */
+  async searchIssues(
+    ctx: ServiceContext,
+    jql: string,
+    options: { nextPageToken?: string; maxResults?: number } = {}
+  ): Promise<{ issues: JiraSearchResult[]; nextPageToken?: string }> {
+    const { baseUrl, authHeader } = await this.requireCredentials(ctx);
+
+    const params = new URLSearchParams({
+      jql,
+      fields: SEARCH_FIELDS.join(','),
+      maxResults: String(options.maxResults || 25),
+    });
+    if (options.nextPageToken) {
+      params.set('nextPageToken', options.nextPageToken);
+    }
+
+    const response = await fetch(`${baseUrl}/rest/api/3/search/jql?${params}`, {
+      headers: {
+        'Authorization': `Basic ${authHeader}`,
+        'Accept': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      let detail = errorText;
+      try {
+        detail = (JSON.parse(errorText).errorMessages || []).join(' ') || errorText;
+      } catch {
+        // Not JSON; keep the raw text
+      }
+      throw new JiraApiError(`Jira search error: ${response.status} - ${detail}`, response.status, detail);
+    }
+
+    const result = await response.json() as any;
+    const issues: JiraSearchResult[] = (result.issues || []).map((issue: any) => ({
+      key: issue.key,
+      summary: issue.fields?.summary || '',
+      issueType: issue.fields?.issuetype?.name || 'Unknown',
+      status: issue.fields?.status?.name || 'Unknown',
+      priority: issue.fields?.priority?.name || 'None',
+      assignee: issue.fields?.assignee?.displayName,
+      updated: issue.fields?.updated || '',
+    }));
+
+    return {
+      issues,
+      ...(!result.isLast && result.nextPageToken && { nextPageToken: result.nextPageToken }),
+    };
   }
 
   /**
@@ -145,12 +334,18 @@ export class JiraService {
     let input = `# ${ticket.summary}\n\n`;
     input += `**Issue Type:** ${ticket.issueType}\n`;
     input += `**Priority:** ${ticket.priority}\n`;
-    input += `**Status:** ${ticket.status}\n\n`;
+    input += `**Status:** ${ticket.status}\n`;
+    if (ticket.parent) {
+      input += `**Parent:** ${ticket.parent.key}: ${ticket.parent.summary}\n`;
+    }
+    input += `\n`;
 
     if (ticket.description) {
       input += `## Description\n${ticket.description}\n\n`;
     }
 
+    input += this.formatRelatedContext(ticket, '##');
+
     if (ticket.comments && ticket.comments.length > 0) {
       input += `## Comments and Discussion\n`;
       ticket.comments.forEach((comment) => {
@@ -166,7 +361,7 @@ export class JiraService {
         ticket.customFields.acceptanceCriteria;
 
       if (acceptanceCriteria) {
-        input += `\n## Acceptance Criteria\n${acceptanceCriteria}\n`;
+        input += `\n## Acceptance Criteria\n${adfToMarkdown(acceptanceCriteria)}\n`;
       }
     }
 
@@ -174,15 +369,21 @@ export class JiraService {
   }
 
   /**
-   * Generate AI summary of Jira ticket
+   * Get the configured LLM provider for ticket summaries
    */
-  async generateSummary(ticket: JiraTicket): Promise<string> {
-    const apiKey = configService.get('GEMINI_API_KEY');
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY is required but not configured');
+  private async getSummaryProvider(ctx: ServiceContext): Promise<LLMProvider> {
+    const config = await resolveLLMConfig((key) => ctx.getConfig(key));
+    if (config.provider === 'gemini') {
+      config.model = 'gemini-2.5-flash'; // Use Flash for speed
     }
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' }); // Use Flash for speed
+    return createLLMProvider(config);
+  }
+
+  /**
+   * Generate AI summary of Jira ticket
+   */
+  async generateSummary(ctx: ServiceContext, ticket: JiraTicket): Promise<string> {
+    const provider = await this.getSummaryProvider(ctx);
 
     // Build context from ticket
     let context = `Ticket: ${ticket.key} - ${ticket.summary}\n\n`;
@@ -209,18 +410,17 @@ Keep it professional and actionable.
 
 ${context}`;
 
-    const result = await model.generateContent(prompt);
-    return result.response.text();
+    return provider.generateText({ prompt });
   }
 
   /**
    * Fetch multiple Jira tickets in parallel
    */
-  async fetchMultipleTickets(ticketIds: string[]): Promise<JiraTicket[]> {
+  async fetchMultipleTickets(ctx: ServiceContext, ticketIds: string[]): Promise<JiraTicket[]> {
     console.log(`Fetching ${ticketIds.length} Jira tickets:`, ticketIds.join(', '));
 
     // Fetch all tickets in parallel
-    const ticketPromises = ticketIds.map(id => this.fetchTicket(id.trim()));
+    const ticketPromises = ticketIds.map(id => this.fetchTicket(ctx, id.trim()));
     const tickets = await Promise.all(ticketPromises);
 
     return tickets;
@@ -229,13 +429,8 @@ ${context}`;
   /**
    * Generate combined summary for multiple tickets
    */
-  async generateCombinedSummary(tickets: JiraTicket[]): Promise<string> {
-    const apiKey = configService.get('GEMINI_API_KEY');
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY is required but not configured');
-    }
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
+  async generateCombinedSummary(ctx: ServiceContext, tickets: JiraTicket[]): Promise<string> {
+    const provider = await this.getSummaryProvider(ctx);
 
     // Build context from all tickets
     let context = `Analyzing ${tickets.length} related Jira tickets:\n\n`;
@@ -270,8 +465,7 @@ Provide a cohesive summary that helps understand the bigger picture.
 
 ${context}`;
 
-    const result = await model.generateContent(prompt);
-    return result.response.text();
+    return provider.generateText({ prompt });
   }
 
   /**
@@ -294,12 +488,18 @@ ${context}`;
       input += `## Ticket ${index + 1}: ${ticket.key} - ${ticket.summary}\n\n`;
       input += `**Issue Type:** ${ticket.issueType}\n`;
       input += `**Priority:** ${ticket.priority}\n`;
-      input += `**Status:** ${ticket.status}\n\n`;
+      input += `**Status:** ${ticket.status}\n`;
+      if (ticket.parent) {
+        input += `**Parent:** ${ticket.parent.key}: ${ticket.parent.summary}\n`;
+      }
+      input += `\n`;
 
       if (ticket.description) {
         input += `### Description\n${ticket.description}\n\n`;
       }
 
+      input += this.formatRelatedContext(ticket, '###');
+
       if (ticket.comments && ticket.comments.length > 0) {
         input += `### Comments and Discussion\n`;
         ticket.comments.forEach((comment) => {
@@ -316,7 +516,7 @@ ${context}`;
           ticket.customFields.acceptanceCriteria;
 
         if (acceptanceCriteria) {
-          input += `### Acceptance Criteria\n${acceptanceCriteria}\n\n`;
+          input += `### Acceptance Criteria\n${adfToMarkdown(acceptanceCriteria)}\n\n`;
         }
       }
     });
@@ -327,18 +527,16 @@ ${context}`;
   /**
    * Add a comment to a Jira ticket
    */
-  async addComment(ticketId: string, commentText: string): Promise<{ id: string; success: boolean }> {
-    if (!this.isConfigured()) {
-      throw new Error('Jira integration is not configured');
-    }
+  async addComment(ctx: ServiceContext, ticketId: string, commentText: string): Promise<{ id: string; success: boolean }> {
+    const { baseUrl, authHeader } = await this.requireCredentials(ctx);
 
     try {
       const response = await fetch(
-        `${this.baseUrl}/rest/api/3/issue/${ticketId}/comment`,
+        `${baseUrl}/rest/api/3/issue/${ticketId}/comment`,
         {
           method: 'POST',
           headers: {
-            'Authorization': `Basic ${this.authHeader}`,
+            'Authorization': `Basic ${authHeader}`,
             'Accept': 'application/json',
             'Content-Type': 'application/json',
           },
@@ -378,10 +576,13 @@ ${context}`;
   /**
    * Add an attachment to a Jira ticket
    */
-  async addAttachment(ticketId: string, file: Buffer, filename: string): Promise<{ id: string; success: boolean; url: string }> {
-    if (!this.isConfigured()) {
-      throw new Error('Jira integration is not configured');
-    }
+  async addAttachment(
+    ctx: ServiceContext,
+    ticketId: string,
+    file: Buffer,
+    filename: string
+  ): Promise<{ id: string; success: boolean; url: string }> {
+    const { baseUrl, authHeader } = await this.requireCredentials(ctx);
 
     try {
       // Use axios for better multipart/form-data support
@@ -398,11 +599,11 @@ ${context}`;
 
       // Make the request using axios
       const response = await axios.post(
-        `${this.baseUrl}/rest/api/3/issue/${ticketId}/attachments`,
+        `${baseUrl}/rest/api/3/issue/${ticketId}/attachments`,
         formData,
         {
           headers: {
-            'Authorization': `Basic ${this.authHeader}`,
+            'Authorization': `Basic ${authHeader}`,
             'Accept': 'application/json',
             'X-Atlassian-Token': 'no-check', // Required for attachments
             ...formData.getHeaders(), // This adds the Content-Type with boundary
@@ -427,6 +628,96 @@ ${context}`;
     }
   }
 
+  /**
+   * Create a Jira issue; stories are linked to their epic through `parentKey`
+   */
+  async createIssue(
+    ctx: ServiceContext,
+    issue: {
+      projectKey: string;
+      issueType: string;
+      summary: string;
+      description: string;
+      acceptanceCriteria?: string[];
+      parentKey?: string;
+    }
+  ): Promise<{ id: string; key: string; url: string }> {
+    const { baseUrl, authHeader } = await this.requireCredentials(ctx);
+
+    const response = await fetch(`${baseUrl}/rest/api/3/issue`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${authHeader}`,
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        fields: {
+          project: { key: issue.projectKey },
+          issuetype: { name: issue.issueType },
+          summary: issue.summary,
+          description: buildADF(
+            issue.description,
+            issue.acceptanceCriteria && { heading: 'Acceptance criteria', items: issue.acceptanceCriteria }
+          ),
+          ...(issue.parentKey && { parent: { key: issue.parentKey } }),
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to create ${issue.issueType} "${issue.summary}": ${response.status} - ${errorText}`);
+    }
+
+    const result = await response.json() as any;
+    return { id: result.id, key: result.key, url: `${baseUrl}/browse/${result.key}` };
+  }
+
+  /**
+   * Add a web link to a Jira issue (shown under "Web links")
+   */
+  async addRemoteLink(ctx: ServiceContext, ticketId: string, url: string, title: string): Promise<void> {
+    const { baseUrl, authHeader } = await this.requireCredentials(ctx);
+
+    const response = await fetch(`${baseUrl}/rest/api/3/issue/${ticketId}/remotelink`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${authHeader}`,
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ object: { url, title } }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to add link: ${response.status} - ${errorText}`);
+    }
+  }
+
+  /**
+   * Set a single field on a Jira issue (e.g. a custom URL field)
+   */
+  async updateIssueField(ctx: ServiceContext, ticketId: string, fieldId: string, value: unknown): Promise<void> {
+    const { baseUrl, authHeader } = await this.requireCredentials(ctx);
+
+    const response = await fetch(`${baseUrl}/rest/api/3/issue/${ticketId}`, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Basic ${authHeader}`,
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ fields: { [fieldId]: value } }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to update ${fieldId}: ${response.status} - ${errorText}`);
+    }
+  }
+
   /**
    * Get content type based on file extension
    */
@@ -0,0 +1,286 @@
+import { EventEmitter } from 'events';
+import type { Job as JobRow } from '@prisma/client';
+import { prisma } from './database';
+import type { Job, JobProgress, JobStatus, JobType } from '../../../shared/types/jobs';
+
+const MAX_CONCURRENT_JOBS = Number(process.env.JOB_CONCURRENCY) || 2;
+const MAX_ATTEMPTS = 3; // Jobs interrupted by a restart are requeued until they've started this many times
+const RETENTION_DAYS = 30;
+
+export interface JobContext<TInput> {
+  id: string;
+  userId: string;
+  input: TInput;
+  reportProgress(progress: JobProgress): Promise<void>;
+  // Resumable handlers save where they got to, so a retry or a restart continues from there
+  loadCheckpoint<T>(): Promise<T | null>;
+  saveCheckpoint(checkpoint: unknown): Promise<void>;
+}
+
+export type JobHandler<TInput = any, TResult = unknown> = (job: JobContext<TInput>) => Promise<TResult>;
+
+/**
+ * Job Queue - Persisted background jobs for long AI operations, run by in-process workers
+ * Jobs are stored in the Job table, so they survive the page that started them closing and a
+ * server restart; updates are broadcast to subscribers for the SSE progress stream
+ */
+export class JobQueue {
+  private static instance: JobQueue;
+  private handlers = new Map<JobType, JobHandler>();
+  private events = new EventEmitter();
+  private running = 0;
+  private started = false;
+  private stopping = false;
+  private draining: Promise<void> | null = null;
+  private rescan = false;
+
+  private constructor() {
+    // One listener per open progress stream
+    this.events.setMaxListeners(0);
+    console.log(`🧵 Job queue initialized (max ${MAX_CONCURRENT_JOBS} concurrent jobs)`);
+  }
+
+  static getInstance(): JobQueue {
+    if (!JobQueue.instance) {
+      JobQueue.instance = new JobQueue();
+    }
+    return JobQueue.instance;
+  }
+
+  /**
+   * Register the handler for a job type; its return value becomes the job's result
+   */
+  register<TInput, TResult>(type: JobType, handler: JobHandler<TInput, TResult>): void {
+    this.handlers.set(type, handler as JobHandler);
+  }
+
+  /**
+   * The handler registered for a job type, e.g. to run a job in-process in tests
+   */
+  getHandler(type: JobType): JobHandler | undefined {
+    return this.handlers.get(type);
+  }
+
+  /**
+   * Recover jobs interrupted by the last shutdown, prune old ones and start working (on server startup)
+   */
+  async start(): Promise<void> {
+    const interrupted = await prisma.job.findMany({ where: { status: 'running' } });
+    for (const job of interrupted) {
+      const requeue = job.attempts < MAX_ATTEMPTS;
+      await prisma.job.update({
+        where: { id: job.id },
+        data: requeue
+          ? { status: 'queued', startedAt: null }
+          : { status: 'failed', error: 'Interrupted by a server restart', finishedAt: new Date() },
+      });
+    }
+    if (interrupted.length) {
+      console.log(`♻️  Recovered ${interrupted.length} job(s) interrupted by a restart`);
+    }
+
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    await prisma.job.deleteMany({
+      where: { status: { in: ['completed', 'failed'] }, finishedAt: { lt: cutoff } },
+    });
+
+    this.started = true;
+    this.schedule();
+  }
+
+  /**
+   * Stop picking up new jobs; running ones are requeued on the next start if the process exits first
+   */
+  shutdown(): void {
+    this.stopping = true;
+  }
+
+  /**
+   * Queue a job, or return the unfinished job of the same type for the same resource and input
+   * so a double click or a reopened page doesn't start the work twice; different input gets its own job
+   */
+  async enqueue(userId: string, type: JobType, input: unknown, resourceId?: string): Promise<Job> {
+    const serialized = JSON.stringify(input);
+
+    if (resourceId) {
+      const active = await prisma.job.findFirst({
+        where: { userId, type, resourceId, input: serialized, status: { in: ['queued', 'running'] } },
+        orderBy: { createdAt: 'desc' },
+      });
+      if (active) return this.toJob(active);
+    }
+
+    const row = await prisma.job.create({
+      data: { userId, type, resourceId, input: serialized },
+    });
+
+    this.schedule();
+    return this.toJob(row);
+  }
+
+  async getJob(userId: string, jobId: string): Promise<Job | null> {
+    const row = await prisma.job.findFirst({ where: { id: jobId, userId } });
+    return row ? this.toJob(row) : null;
+  }
+
+  /**
+   * A user's jobs, newest first
+   */
+  async listJobs(
+    userId: string,
+    filters: { resourceId?: string; type?: JobType; status?: JobStatus; limit?: number } = {}
+  ): Promise<Job[]> {
+    const rows = await prisma.job.findMany({
+      where: { userId, resourceId: filters.resourceId, type: filters.type, status: filters.status },
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit || 20,
+    });
+    return rows.map((row) => this.toJob(row));
+  }
+
+  /**
+   * Queue a failed job again with the same input; returns null if it isn't failed
+   */
+  async retry(userId: string, jobId: string): Promise<Job | null> {
+    const { count } = await prisma.job.updateMany({
+      where: { id: jobId, userId, status: 'failed' },
+      data: { status: 'queued', error: null, progress: null, startedAt: null, finishedAt: null, attempts: 0 },
+    });
+    if (!count) return null;
+
+    const job = (await this.getJob(userId, jobId))!;
+    this.publish(job);
+    this.schedule();
+    return job;
+  }
+
+  /**
+   * Listen for updates to a job; returns a function that stops listening
+   */
+  subscribe(jobId: string, listener: (job: Job) => void): () => void {
+    this.events.on(jobId, listener);
+    return () => this.events.off(jobId, listener);
+  }
+
+  // Start queued jobs while there are free workers; one drain loop at a time
+  private schedule(): void {
+    if (!this.started || this.stopping) return;
+    if (this.draining) {
+      // The running loop may already have looked for jobs, so look again once it's done
+      this.rescan = true;
+      return;
+    }
+
+    this.rescan = false;
+    this.draining = this.drain()
+      .catch((error) => console.error('❌ Job queue failed to pick up jobs:', error))
+      .finally(() => {
+        this.draining = null;
+        if (this.rescan) this.schedule();
+      });
+  }
+
+  private async drain(): Promise<void> {
+    while (this.running < MAX_CONCURRENT_JOBS && !this.stopping) {
+      const next = await prisma.job.findFirst({ where: { status: 'queued' }, orderBy: { createdAt: 'asc' } });
+      if (!next) return;
+
+      // Claim it, in case another drain or process got there first
+      const { count } = await prisma.job.updateMany({
+        where: { id: next.id, status: 'queued' },
+        data: { status: 'running', startedAt: new Date(), attempts: { increment: 1 } },
+      });
+      if (!count) continue;
+
+      this.running++;
+      void this.run(next.id)
+        .catch((error) => console.error(`❌ Job ${next.id} could not be run:`, error))
+        .finally(() => {
+          this.running--;
+          this.schedule();
+        });
+    }
+  }
+
+  private async run(jobId: string): Promise<void> {
+    const row = await prisma.job.findUnique({ where: { id: jobId } });
+    if (!row) return;
+    this.publish(this.toJob(row));
+
+    const handler = this.handlers.get(row.type as JobType);
+    const startedAt = Date.now();
+
+    try {
+      if (!handler) {
+        throw new Error(`Unknown job type: ${row.type}`);
+      }
+
+      console.log(`⚙️  Running ${row.type} job ${row.id}`);
+      const result = await handler({
+        id: row.id,
+        userId: row.userId,
+        input: JSON.parse(row.input),
+        reportProgress: (progress) => this.reportProgress(row.id, progress),
+        loadCheckpoint: () => this.loadCheckpoint(row.id),
+        saveCheckpoint: (checkpoint) => this.saveCheckpoint(row.id, checkpoint),
+      });
+
+      await this.finish(row.id, { status: 'completed', result: JSON.stringify(result ?? null) });
+      console.log(`✅ ${row.type} job ${row.id} completed in ${Math.round((Date.now() - startedAt) / 1000)}s`);
+    } catch (error: any) {
+      console.error(`❌ ${row.type} job ${row.id} failed:`, error.message);
+      await this.finish(row.id, { status: 'failed', error: error.message || 'Job failed' });
+    }
+  }
+
+  private async finish(jobId: string, data: { status: JobStatus; result?: string; error?: string }): Promise<void> {
+    try {
+      const row = await prisma.job.update({ where: { id: jobId }, data: { ...data, finishedAt: new Date() } });
+      this.publish(this.toJob(row));
+    } catch (error: any) {
+      // The job was deleted with its user while it ran
+      console.warn(`⚠️  Failed to save the outcome of job ${jobId}:`, error.message);
+    }
+  }
+
+  // Progress is best effort: a failed save shouldn't fail the job itself
+  private async reportProgress(jobId: string, progress: JobProgress): Promise<void> {
+    try {
+      const row = await prisma.job.update({ where: { id: jobId }, data: { progress: JSON.stringify(progress) } });
+      this.publish(this.toJob(row));
+    } catch (error: any) {
+      console.warn(`⚠️  Failed to save progress of job ${jobId}:`, error.message);
+    }
+  }
+
+  private async loadCheckpoint<T>(jobId: string): Promise<T | null> {
+    const row = await prisma.job.findUnique({ where: { id: jobId }, select: { checkpoint: true } });
+    return row?.checkpoint ? (JSON.parse(row.checkpoint) as T) : null;
+  }
+
+  private async saveCheckpoint(jobId: string, checkpoint: unknown): Promise<void> {
+    await prisma.job.update({ where: { id: jobId }, data: { checkpoint: JSON.stringify(checkpoint) } });
+  }
+
+  private publish(job: Job): void {
+    this.events.emit(job.id, job);
+  }
+
+  private toJob(row: JobRow): Job {
+    return {
+      id: row.id,
+      type: row.type as JobType,
+      status: row.status as JobStatus,
+      resourceId: row.resourceId || undefined,
+      progress: row.progress ? JSON.parse(row.progress) : undefined,
+      result: row.result ? JSON.parse(row.result) : undefined,
+      error: row.error || undefined,
+      attempts: row.attempts,
+      createdAt: row.createdAt.toISOString(),
+      startedAt: row.startedAt?.toISOString(),
+      finishedAt: row.finishedAt?.toISOString(),
+    };
+  }
+}
+
+export const jobQueue = JobQueue.getInstance();
@@ -0,0 +1,102 @@
+import type { LLMProvider, LLMRequest, LLMJsonRequest } from './types';
+import { postJson, readSSEData } from './http';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 8192; // The Messages API requires max_tokens
+const JSON_TOOL_NAME = 'respond';
+
+/**
+ * Anthropic adapter (Messages API)
+ * Structured output uses a forced tool call whose input schema is the response schema
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+
+  constructor(
+    private readonly apiKey: string | undefined,
+    public readonly model: string
+  ) {
+    if (!apiKey) {
+      throw new Error('ANTHROPIC_API_KEY is required but not configured. Please add your Anthropic API key in Settings.');
+    }
+  }
+
+  async generateText(request: LLMRequest): Promise<string> {
+    const data = await this.send(this.buildBody(request), request.timeoutMs);
+
+    const text = (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+
+    if (!text) {
+      throw new Error('No text content in Anthropic response');
+    }
+    return text;
+  }
+
+  async *streamText(request: LLMRequest): AsyncGenerator<string> {
+    const response = await postJson(
+      'Anthropic',
+      ANTHROPIC_API_URL,
+      { ...this.buildBody(request), stream: true },
+      this.headers(),
+      request.timeoutMs
+    );
+
+    for await (const data of readSSEData(response)) {
+      const event = JSON.parse(data);
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        yield event.delta.text;
+      } else if (event.type === 'error') {
+        throw new Error(`Anthropic stream error: ${event.error?.message || 'unknown error'}`);
+      }
+    }
+  }
+
+  async generateJSON<T>(request: LLMJsonRequest): Promise<T> {
+    const data = await this.send(
+      {
+        ...this.buildBody(request),
+        tools: [
+          {
+            name: JSON_TOOL_NAME,
+            description: 'Return the response in the required structure',
+            input_schema: request.schema,
+          },
+        ],
+        tool_choice: { type: 'tool', name: JSON_TOOL_NAME },
+      },
+      request.timeoutMs
+    );
+
+    const toolUse = (data.content || []).find((block: any) => block.type === 'tool_use');
+    if (!toolUse) {
+      throw new Error('No structured output in Anthropic response');
+    }
+    return toolUse.input as T;
+  }
+
+  private buildBody(request: LLMRequest) {
+    return {
+      model: this.model,
+      max_tokens: request.maxOutputTokens || DEFAULT_MAX_TOKENS,
+      ...(request.systemPrompt && { system: request.systemPrompt }),
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      messages: [{ role: 'user', content: request.prompt }],
+    };
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'x-api-key': this.apiKey!,
+      'anthropic-version': ANTHROPIC_VERSION,
+    };
+  }
+
+  private async send(body: unknown, timeoutMs?: number): Promise<any> {
+    const response = await postJson('Anthropic', ANTHROPIC_API_URL, body, this.headers(), timeoutMs);
+    return response.json();
+  }
+}
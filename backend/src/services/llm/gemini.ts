@@ -0,0 +1,132 @@
+import { GoogleGenerativeAI, type GenerativeModel, type ResponseSchema } from '@google/generative-ai';
+import type { LLMProvider, LLMRequest, LLMJsonRequest } from './types';
+import { parseJsonResponse, schemaInstruction, isSchemaError } from './json';
+
+// Tried in order when the configured model is not available for the API key
+const FALLBACK_MODELS = ['gemini-2.5-flash', 'gemini-1.5-flash-latest', 'gemini-1.5-pro-latest'];
+
+/**
+ * Google Gemini adapter
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  private client: GoogleGenerativeAI;
+
+  constructor(
+    apiKey: string | undefined,
+    public readonly model: string
+  ) {
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY is required but not configured. Please add your Gemini API key in Settings.');
+    }
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  async generateText(request: LLMRequest): Promise<string> {
+    const text = await this.withModelFallback(async (modelName) => {
+      const result = await this.getModel(modelName, request).generateContent({
+        contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+        generationConfig: {
+          maxOutputTokens: request.maxOutputTokens,
+          temperature: request.temperature,
+        },
+      });
+      return result.response.text();
+    });
+
+    if (!text) {
+      throw new Error('No text content in Gemini response');
+    }
+    return text;
+  }
+
+  async *streamText(request: LLMRequest): AsyncGenerator<string> {
+    const result = await this.getModel(this.model, request).generateContentStream({
+      contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+      generationConfig: {
+        maxOutputTokens: request.maxOutputTokens,
+        temperature: request.temperature,
+      },
+    });
+
+    for await (const chunk of result.stream) {
+      const chunkText = chunk.text();
+      if (chunkText) {
+        yield chunkText;
+      }
+    }
+  }
+
+  async generateJSON<T>(request: LLMJsonRequest): Promise<T> {
+    const generate = (modelName: string, useSchema: boolean) =>
+      this.getModel(modelName, request).generateContent({
+        contents: [
+          {
+            role: 'user',
+            parts: [{ text: useSchema ? request.prompt : request.prompt + schemaInstruction(request.schema) }],
+          },
+        ],
+        generationConfig: {
+          maxOutputTokens: request.maxOutputTokens,
+          temperature: request.temperature,
+          responseMimeType: 'application/json',
+          ...(useSchema && { responseSchema: request.schema as unknown as ResponseSchema }),
+        },
+      });
+
+    const text = await this.withModelFallback(async (modelName) => {
+      try {
+        return (await generate(modelName, true)).response.text();
+      } catch (error: any) {
+        // Some models reject responseSchema, retry with the schema in the prompt instead
+        if (!isSchemaError(error)) throw error;
+        console.warn(`⚠️  ${modelName} rejected the response schema, retrying without it...`);
+        return (await generate(modelName, false)).response.text();
+      }
+    });
+
+    if (!text) {
+      throw new Error('No text content in Gemini response');
+    }
+    return parseJsonResponse<T>(text);
+  }
+
+  private getModel(modelName: string, request: LLMRequest): GenerativeModel {
+    return this.client.getGenerativeModel(
+      {
+        model: modelName,
+        ...(request.systemPrompt && { systemInstruction: request.systemPrompt }),
+      },
+      request.timeoutMs ? { timeout: request.timeoutMs } : undefined
+    );
+  }
+
+  /**
+   * Run a request against the configured model, falling back to other models if it isn't available
+   */
+  private async withModelFallback<T>(run: (modelName: string) => Promise<T>): Promise<T> {
+    try {
+      return await run(this.model);
+    } catch (error: any) {
+      if (!error.message?.includes('404') && !error.message?.includes('not found')) {
+        throw error;
+      }
+
+      console.warn(`Model ${this.model} not available, trying fallbacks...`);
+      for (const fallback of FALLBACK_MODELS) {
+        if (fallback === this.model) continue;
+        try {
+          console.log(`Trying fallback model: ${fallback}`);
+          return await run(fallback);
+        } catch (fallbackError: any) {
+          console.warn(`Fallback model ${fallback} also failed:`, fallbackError.message);
+        }
+      }
+
+      throw new Error(
+        `None of the available models (${[this.model, ...FALLBACK_MODELS].join(', ')}) are accessible. ` +
+        `Please check your Gemini API key permissions or try configuring a different model in Settings.`
+      );
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Shared fetch helpers for the HTTP-based adapters (Anthropic, OpenAI-compatible, Ollama)
+ */
+
+/**
+ * POST a JSON body, throwing a readable error on non-2xx responses
+ */
+export async function postJson(
+  provider: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  timeoutMs?: number
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new Error(`${provider} API error (${response.status}): ${errorText || response.statusText}`);
+  }
+
+  return response;
+}
+
+/**
+ * Read a streamed response body line by line
+ */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.trim()) {
+        yield line.trim();
+      }
+    }
+  }
+
+  if (buffer.trim()) {
+    yield buffer.trim();
+  }
+}
+
+/**
+ * Read the `data:` payloads of a server-sent event stream
+ */
+export async function* readSSEData(response: Response): AsyncGenerator<string> {
+  for await (const line of readLines(response)) {
+    if (line.startsWith('data:')) {
+      yield line.slice(5).trim();
+    }
+  }
+}
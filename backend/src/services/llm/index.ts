@@ -0,0 +1,136 @@
+import type { AIProvider, UserSettings } from '../../../../shared/types/settings';
+import type { LLMProvider, LLMProviderConfig } from './types';
+import { GeminiProvider } from './gemini';
+import { AnthropicProvider } from './anthropic';
+import { OpenAIProvider } from './openai';
+import { OllamaProvider } from './ollama';
+import { MockProvider } from './mock';
+
+export * from './types';
+export { parseJsonResponse } from './json';
+
+export const AI_PROVIDERS: AIProvider[] = ['gemini', 'anthropic', 'openai', 'ollama', 'mock'];
+
+export const DEFAULT_MODELS: Record<AIProvider, string> = {
+  gemini: 'gemini-2.5-pro',
+  anthropic: 'claude-sonnet-4-5',
+  openai: 'gpt-4o',
+  ollama: 'llama3.1',
+  mock: 'mock',
+};
+
+/**
+ * Config keys read when resolving the provider for a request
+ */
+export type LLMConfigKey =
+  | 'AI_PROVIDER'
+  | 'GEMINI_API_KEY'
+  | 'GEMINI_MODEL'
+  | 'ANTHROPIC_API_KEY'
+  | 'ANTHROPIC_MODEL'
+  | 'OPENAI_API_KEY'
+  | 'OPENAI_BASE_URL'
+  | 'OPENAI_MODEL'
+  | 'OLLAMA_BASE_URL'
+  | 'OLLAMA_MODEL';
+
+export function isAIProvider(value: unknown): value is AIProvider {
+  return typeof value === 'string' && (AI_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Create an adapter for the configured vendor
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  const model = config.model || DEFAULT_MODELS[config.provider];
+
+  switch (config.provider) {
+    case 'gemini':
+      return new GeminiProvider(config.apiKey, model);
+    case 'anthropic':
+      return new AnthropicProvider(config.apiKey, model);
+    case 'openai':
+      return new OpenAIProvider(config.apiKey, model, config.baseUrl);
+    case 'ollama':
+      return new OllamaProvider(model, config.baseUrl);
+    case 'mock':
+      return new MockProvider(model);
+    default:
+      throw new Error(`Unsupported AI provider: ${config.provider}`);
+  }
+}
+
+/**
+ * Build the provider config from a key lookup (works with both the file-based and per-user config services)
+ */
+export async function resolveLLMConfig(
+  get: (key: LLMConfigKey) => string | undefined | Promise<string | undefined>
+): Promise<LLMProviderConfig> {
+  const configured = await get('AI_PROVIDER');
+  const provider: AIProvider = isAIProvider(configured) ? configured : 'gemini';
+
+  switch (provider) {
+    case 'anthropic':
+      return {
+        provider,
+        apiKey: await get('ANTHROPIC_API_KEY'),
+        model: (await get('ANTHROPIC_MODEL')) || DEFAULT_MODELS.anthropic,
+      };
+    case 'openai':
+      return {
+        provider,
+        apiKey: await get('OPENAI_API_KEY'),
+        baseUrl: await get('OPENAI_BASE_URL'),
+        model: (await get('OPENAI_MODEL')) || DEFAULT_MODELS.openai,
+      };
+    case 'ollama':
+      return {
+        provider,
+        baseUrl: await get('OLLAMA_BASE_URL'),
+        model: (await get('OLLAMA_MODEL')) || DEFAULT_MODELS.ollama,
+      };
+    case 'mock':
+      return { provider, model: DEFAULT_MODELS.mock };
+    default:
+      return {
+        provider: 'gemini',
+        apiKey: await get('GEMINI_API_KEY'),
+        model: (await get('GEMINI_MODEL')) || DEFAULT_MODELS.gemini,
+      };
+  }
+}
+
+/**
+ * Build the provider config straight from (unsaved) settings, e.g. to test a connection before saving
+ */
+export function llmConfigFromSettings(provider: AIProvider, settings: Partial<UserSettings>): LLMProviderConfig {
+  switch (provider) {
+    case 'anthropic':
+      return {
+        provider,
+        apiKey: settings.apiKeys?.anthropic,
+        model: settings.anthropicModel || DEFAULT_MODELS.anthropic,
+      };
+    case 'openai':
+      return {
+        provider,
+        apiKey: settings.apiKeys?.openai?.apiKey,
+        baseUrl: settings.apiKeys?.openai?.baseUrl,
+        model: settings.openaiModel || DEFAULT_MODELS.openai,
+      };
+    case 'ollama':
+      return {
+        provider,
+        baseUrl: settings.apiKeys?.ollama?.baseUrl,
+        model: settings.ollamaModel || DEFAULT_MODELS.ollama,
+      };
+    case 'mock':
+      return { provider, model: DEFAULT_MODELS.mock };
+    default:
+      return {
+        provider: 'gemini',
+        apiKey: settings.apiKeys?.gemini,
+        model: settings.geminiModel || DEFAULT_MODELS.gemini,
+      };
+  }
+}
@@ -0,0 +1,54 @@
+import type { JsonSchema } from './types';
+
+/**
+ * Parse a JSON response from a model, falling back to extracting JSON from code blocks or surrounding text
+ */
+export function parseJsonResponse<T>(text: string): T {
+  try {
+    // Try direct JSON parse first (since we requested JSON format)
+    return JSON.parse(text);
+  } catch (parseError) {
+    // Fallback: Try to extract JSON from markdown code blocks
+    const codeBlockMatch = text.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
+    if (codeBlockMatch) {
+      try {
+        return JSON.parse(codeBlockMatch[1]);
+      } catch (e) {
+        console.error('Failed to parse JSON from code block:', e);
+      }
+    }
+
+    // Fallback: Try to extract the first complete JSON object
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      try {
+        return JSON.parse(jsonMatch[0]);
+      } catch (e) {
+        console.error('Failed to parse extracted JSON:', e);
+        console.error('Extracted text:', jsonMatch[0].substring(0, 500));
+      }
+    }
+
+    throw new Error(`Could not parse valid JSON from model response. Parse error: ${parseError}`);
+  }
+}
+
+/**
+ * Prompt suffix for providers/models without native schema support
+ */
+export function schemaInstruction(schema: JsonSchema): string {
+  return `\n\nRespond with ONLY a JSON object (no prose, no code fences) matching this JSON schema:\n${JSON.stringify(schema, null, 2)}`;
+}
+
+/**
+ * Whether an error looks like the provider rejected the response schema (so we can retry without it)
+ */
+export function isSchemaError(error: any): boolean {
+  const message = String(error?.message || '').toLowerCase();
+  return (
+    message.includes('schema') ||
+    message.includes('response_format') ||
+    message.includes('properties') ||
+    message.includes('not supported')
+  );
+}
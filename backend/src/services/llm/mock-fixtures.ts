@@ -0,0 +1,341 @@
+import type { JsonSchema, LLMRequest, LLMJsonRequest } from './types';
+import { getTemplateHeadings, SYSTEM_PROMPT as CREATOR_SYSTEM_PROMPT } from '../../prompts/creator';
+import { REVIEW_SCHEMA, REVISION_SCHEMA } from '../../prompts/reviewer';
+import { JIRA_ISSUES_SCHEMA } from '../../prompts/jira-issues';
+import { PROBLEM_EVALUATION_SCHEMA } from '../../prompts/research/problem-evaluator';
+import { SURVEY_QUESTIONS_SCHEMA } from '../../prompts/research/survey-generator';
+import { INTERVIEW_GUIDE_SCHEMA } from '../../prompts/research/interview-generator';
+import {
+  SURVEY_INTERPRETATION_SCHEMA,
+  INTERVIEW_ANALYSIS_SCHEMA,
+  SURVEY_BATCH_SCHEMA,
+  INTERVIEW_BATCH_SCHEMA,
+  LABEL_MERGE_SCHEMA,
+  type SurveyInterpretation,
+  type SurveyBatchFindings,
+  type InterviewBatchFindings,
+} from '../../prompts/research/research-analyzer';
+import { REPORT_GENERATOR_SYSTEM_PROMPT } from '../../prompts/research/report-generator';
+import type { InterviewGuide } from '../../../../shared/types/research';
+
+/**
+ * Canned responses for the mock LLM provider
+ * Responses depend only on the request, so the same request always gets the same answer
+ */
+
+interface TextFixture {
+  name: string;
+  matches: (request: LLMRequest) => boolean;
+  respond: (request: LLMRequest) => string;
+}
+
+// ========== Text fixtures ==========
+
+const SECTION_BODIES: Record<string, string> = {
+  'What problem are we solving?':
+    'Users lose time switching between tools to complete a single task. Support data shows this is the most common complaint in the last quarter.',
+  'How do we measure success?':
+    '- Reduce average task completion time by 20% within 3 months\n- Increase weekly active usage by 15%\n- Keep related support tickets below 50 per month',
+  'How are others solving this problem?':
+    'Competitors offer partial integrations that cover the happy path only. None handle offline usage or bulk operations.',
+  'What is the solution?':
+    '### Overview\nA single workflow that brings the task into one screen.\n\n### User Stories\n- As a user, I want to finish the task in one place, so that I save time\n\n### Requirements\n- P0: Core workflow\n- P1: Bulk operations\n- P2: Offline mode',
+};
+
+function mockSectionBody(heading: string): string {
+  return SECTION_BODIES[heading] || `Mock content for "${heading}". Replace with real details before sharing.`;
+}
+
+/**
+ * Build a full PRD following the headings of the template embedded in the prompt
+ */
+function mockPRD(prompt: string): string {
+  const firstLine = (prompt.match(/USER INPUT:\s*\n([^\n]*)/)?.[1] || '').replace(/^#+\s*/, '').trim();
+  const title = firstLine ? `Mock PRD: ${firstLine.slice(0, 60)}` : 'Mock PRD';
+  const template = prompt.match(/following this template:\n([\s\S]*?)\nUSER INPUT:/)?.[1] || '';
+
+  const sections = getTemplateHeadings(template).map((heading) => `## ${heading}\n\n${mockSectionBody(heading)}\n\n---`);
+  return `# ${title}\n\n${sections.join('\n\n')}\n`;
+}
+
+const TEXT_FIXTURES: TextFixture[] = [
+  {
+    name: 'prd-section',
+    matches: (request) => request.prompt.includes('SECTION TO REWRITE: "'),
+    respond: (request) => {
+      const heading = request.prompt.match(/SECTION TO REWRITE: "(.+?)"/)![1];
+      const instruction = request.prompt.match(/INSTRUCTION FROM THE PRODUCT MANAGER:\n([^\n]+)/)?.[1];
+      const note = instruction ? `\n\n_Rewritten per instruction: ${instruction}_` : '';
+      return `## ${heading}\n\n${mockSectionBody(heading)} (regenerated)${note}`;
+    },
+  },
+  {
+    name: 'prd',
+    matches: (request) => request.systemPrompt === CREATOR_SYSTEM_PROMPT,
+    respond: (request) => mockPRD(request.prompt),
+  },
+  {
+    name: 'research-report',
+    matches: (request) => request.systemPrompt === REPORT_GENERATOR_SYSTEM_PROMPT,
+    respond: () =>
+      [
+        '# Research Report: Mock Findings',
+        '',
+        '## Executive Summary',
+        '',
+        'This report was produced by the mock provider. The findings below are placeholders.',
+        '',
+        '- Users want fewer steps to complete their core task',
+        '- Price sensitivity is moderate',
+        '',
+        '## Key Findings',
+        '',
+        '1. Onboarding is the biggest source of friction',
+        '2. Power users rely on bulk actions',
+        '',
+        '## Recommendations',
+        '',
+        '- Simplify onboarding',
+        '- Prioritise bulk operations',
+        '',
+      ].join('\n'),
+  },
+  {
+    name: 'jira-summary',
+    matches: (request) => request.prompt.startsWith('Analyze this Jira ticket') || request.prompt.startsWith('Analyze these'),
+    respond: () =>
+      'Mock summary: the ticket asks for a change to an existing workflow. The description lists the expected behaviour and comments confirm the scope. No blockers are mentioned.',
+  },
+];
+
+/**
+ * Text response for a request (falls back to a generic reply, e.g. for connection tests)
+ */
+export function mockText(request: LLMRequest): string {
+  const fixture = TEXT_FIXTURES.find((f) => f.matches(request));
+  return fixture ? fixture.respond(request) : 'This is a mock response. No AI provider was called.';
+}
+
+// ========== JSON fixtures ==========
+
+const REVIEW_FINDINGS_FIXTURE = {
+  sections: {
+    missingSections: ['Analytics'],
+    unclearRequirements: [
+      {
+        section: 'What is the solution?',
+        issue: 'Requirements lack acceptance criteria',
+        severity: 'important',
+      },
+    ],
+    edgeCases: [{ scenario: 'User loses connectivity mid-task', concern: 'Work in progress may be lost' }],
+    technicalRisks: [
+      {
+        risk: 'Third-party API rate limits',
+        impact: 'Bulk operations may fail',
+        mitigation: 'Queue requests and retry with backoff',
+      },
+    ],
+    complianceGaps: ['No data retention policy'],
+    metricsGaps: ['No baseline for task completion time'],
+    uxGaps: ['Empty states are not described'],
+    goToMarketGaps: ['No launch communication plan'],
+  },
+  recommendations: ['Add acceptance criteria to each P0 requirement', 'Define analytics events for the core funnel'],
+  summary: 'Mock review: a solid draft that needs clearer requirements and measurable baselines.',
+};
+
+/**
+ * Review: judge every rubric criterion listed in the prompt, failing every third one so scores aren't all 100
+ */
+function mockReview(request: LLMJsonRequest) {
+  const criterionIds = Array.from(request.prompt.matchAll(/^- \[([a-z0-9-]+\.\d+)\] /gm), ([, id]) => id);
+
+  return {
+    ...REVIEW_FINDINGS_FIXTURE,
+    criteriaResults: criterionIds.map((criterionId, i) =>
+      i % 3 === 1
+        ? { criterionId, passed: false, severity: 'important', note: 'Mock: not covered in the PRD' }
+        : { criterionId, passed: true, note: 'Mock: covered in the PRD' }
+    ),
+  };
+}
+
+/**
+ * Revise-from-review: echo the PRD back with a note per finding, and one change per finding id
+ */
+function mockRevision(request: LLMJsonRequest) {
+  const prd = request.prompt.match(/PRD TO REVISE:\n---\n([\s\S]*?)\n---\n\nFINDINGS TO ADDRESS:/)?.[1] || '';
+  const findings = Array.from(
+    request.prompt.matchAll(/^- \[([^\]]+)\] \(([^)]*)\) (.+)$/gm),
+    ([, id, meta, text]) => ({ id, section: meta.match(/section: ([^,]+)/)?.[1], text })
+  );
+
+  const notes = findings.map((f) => `- Addressed ${f.id}: ${f.text}`).join('\n');
+  return {
+    revisedMarkdown: `${prd.trim()}\n\n### Review Follow-ups\n\n${notes}\n`,
+    summary: `Mock revision addressing ${findings.length} finding(s).`,
+    changes: findings.map((f) => ({
+      findingId: f.id,
+      section: f.section || 'Review Follow-ups',
+      description: `Added a follow-up note for: ${f.text}`,
+    })),
+  };
+}
+
+/**
+ * Jira issues: one epic named after the PRD, and one story per user story and requirement in the prompt
+ */
+function mockJiraIssues(request: LLMJsonRequest) {
+  const title = request.prompt.match(/^PRD TITLE: (.*)$/m)?.[1]?.trim() || 'Mock feature';
+  const listAfter = (label: string) =>
+    (request.prompt.match(new RegExp(`^${label}:\\n((?:- .*\\n?)*)`, 'm'))?.[1] || '')
+      .split('\n')
+      .map((line) => line.replace(/^- /, '').trim())
+      .filter(Boolean);
+  const items = [...listAfter('USER STORIES'), ...listAfter('REQUIREMENTS')];
+
+  return {
+    epic: { summary: title, description: `Mock epic delivering "${title}".` },
+    stories: items.map((item) => ({
+      summary: item.replace(/^P\d:\s*/, '').slice(0, 80),
+      description: item,
+      acceptanceCriteria: [`Mock: "${item}" works end to end`, 'Mock: errors are shown to the user'],
+      sourceRequirement: item,
+    })),
+  };
+}
+
+const INTERVIEW_GUIDE_FIXTURE: InterviewGuide = {
+  openingScript: 'Thanks for joining. There are no right or wrong answers; we want to learn how you work today.',
+  questions: [
+    {
+      id: 'q1',
+      question: 'Walk me through the last time you did this task.',
+      probes: ['What happened next?', 'How did that make you feel?'],
+    },
+    {
+      id: 'q2',
+      question: 'What tools do you use for it today?',
+      probes: ['What do you like about them?', 'What is missing?'],
+    },
+  ],
+  observationChecklist: ['Note workarounds', 'Note hesitation or frustration'],
+  biasAvoidanceTips: ['Ask open-ended questions', 'Avoid suggesting solutions'],
+};
+
+const SURVEY_INTERPRETATION_FIXTURE: SurveyInterpretation = {
+  keyTrends: ['Most respondents perform the task daily'],
+  openEndedPainPoints: [
+    { pain: 'Too many steps', responseIds: [1, 2] },
+    { pain: 'Slow load times', responseIds: [3] },
+  ],
+  insightClusters: [{ theme: 'Efficiency', insights: ['Users want fewer clicks', 'Keyboard shortcuts are requested'] }],
+  recommendationSummary: ['Reduce the number of steps in the core flow'],
+  decisionSignals: ['Strong demand for a faster workflow'],
+};
+
+// Follows INTERVIEW_ANALYSIS_SCHEMA, which returns needFrequency as a list of { need, frequency }
+const INTERVIEW_ANALYSIS_FIXTURE = {
+  themes: [{ theme: 'Context switching', frequency: 4, quotes: ['I have five tabs open just for this'] }],
+  quoteHighlights: [
+    { quote: 'I have five tabs open just for this', speaker: 'Participant 1', context: 'Describing the current workflow' },
+  ],
+  objectionPatterns: [{ objection: 'Worried about migration effort', frequency: 2 }],
+  needFrequency: [
+    { need: 'Single workspace', frequency: 4 },
+    { need: 'Bulk actions', frequency: 2 },
+  ],
+  opportunityAreas: ['Consolidate the workflow into one screen'],
+  productDecisionInputs: ['Prioritise the single-screen workflow for the next release'],
+};
+
+// Batch fixtures cite the responses and interviews that are actually in the prompt
+function mockSurveyBatch(request: LLMJsonRequest): SurveyBatchFindings {
+  const ids = [...request.prompt.matchAll(/^\[R(\d+)\]/gm)].map((m) => Number(m[1]));
+  return {
+    painPoints: [
+      { pain: 'Too many steps', responseIds: ids.filter((_, i) => i % 2 === 0) },
+      { pain: 'Too many clicks', responseIds: ids.filter((_, i) => i % 3 === 0) },
+    ],
+    insights: ['Users want fewer clicks'],
+  };
+}
+
+function mockInterviewBatch(request: LLMJsonRequest): InterviewBatchFindings {
+  const interviews = [...new Set([...request.prompt.matchAll(/^=== Interview (\d+)/gm)].map((m) => Number(m[1])))];
+  return {
+    themes: [{ theme: 'Context switching', interviews, quotes: ['I have five tabs open just for this'] }],
+    quoteHighlights: [
+      { quote: 'I have five tabs open just for this', speaker: 'Participant 1', context: 'Describing the current workflow' },
+    ],
+    objections: [{ objection: 'Worried about migration effort', interviews: interviews.slice(0, 1) }],
+    needs: [{ need: 'Single workspace', interviews }],
+    opportunityAreas: ['Consolidate the workflow into one screen'],
+    productDecisionInputs: ['Prioritise the single-screen workflow for the next release'],
+  };
+}
+
+// Groups labels by their first word, e.g. "Too many steps" with "Too many clicks"
+function mockLabelMerge(request: LLMJsonRequest): { groups: Array<{ label: string; members: number[] }> } {
+  const groups = new Map<string, { label: string; members: number[] }>();
+  for (const [, position, label] of request.prompt.matchAll(/^\[(\d+)\] (.+)$/gm)) {
+    const key = label.split(' ')[0].toLowerCase();
+    const group = groups.get(key) || { label, members: [] };
+    group.members.push(Number(position));
+    groups.set(key, group);
+  }
+  return { groups: [...groups.values()] };
+}
+
+const JSON_FIXTURES = new Map<JsonSchema, (request: LLMJsonRequest) => unknown>([
+  [REVIEW_SCHEMA, mockReview],
+  [REVISION_SCHEMA, mockRevision],
+  [JIRA_ISSUES_SCHEMA, mockJiraIssues],
+  [
+    PROBLEM_EVALUATION_SCHEMA,
+    () => ({
+      clarityScore: 68,
+      missingInformation: ['Size of the target segment', 'Current workaround cost'],
+      riskAreas: ['Small sample may not represent all segments'],
+      suggestedResearchGoals: ['How often does the problem occur?', 'What do users do today instead?'],
+      recommendedMethod: 'both',
+      rationale: 'A survey sizes the problem; interviews explain why it happens.',
+    }),
+  ],
+  [
+    SURVEY_QUESTIONS_SCHEMA,
+    () => ({
+      questions: [
+        {
+          id: 'q1',
+          text: 'How often do you perform this task?',
+          type: 'mcq',
+          options: ['Daily', 'Weekly', 'Monthly', 'Rarely'],
+          objective: 'usage',
+        },
+        {
+          id: 'q2',
+          text: 'How frustrating is the current process?',
+          type: 'likert',
+          options: ['1', '2', '3', '4', '5'],
+          objective: 'pain-point',
+        },
+        { id: 'q3', text: 'What would make this task easier?', type: 'open-ended', objective: 'behavioral' },
+      ],
+    }),
+  ],
+  [INTERVIEW_GUIDE_SCHEMA, () => INTERVIEW_GUIDE_FIXTURE],
+  [SURVEY_INTERPRETATION_SCHEMA, () => SURVEY_INTERPRETATION_FIXTURE],
+  [INTERVIEW_ANALYSIS_SCHEMA, () => INTERVIEW_ANALYSIS_FIXTURE],
+  [SURVEY_BATCH_SCHEMA, mockSurveyBatch],
+  [INTERVIEW_BATCH_SCHEMA, mockInterviewBatch],
+  [LABEL_MERGE_SCHEMA, mockLabelMerge],
+]);
+
+/**
+ * Structured response for a request, or undefined if no fixture is registered for its schema
+ */
+export function mockJSON(request: LLMJsonRequest): unknown {
+  return JSON_FIXTURES.get(request.schema)?.(request);
+}
@@ -0,0 +1,93 @@
+import type { LLMProvider, LLMRequest, LLMJsonRequest, JsonSchema } from './types';
+import { mockText, mockJSON } from './mock-fixtures';
+
+/**
+ * Offline mock adapter
+ * Returns deterministic fixture responses without any network access, for local development and tests
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+
+  constructor(public readonly model: string = 'mock') {}
+
+  async generateText(request: LLMRequest): Promise<string> {
+    return mockText(request);
+  }
+
+  async *streamText(request: LLMRequest): AsyncGenerator<string> {
+    // Stream line by line so clients see several chunks, like a real provider
+    const lines = mockText(request).split(/(?<=\n)/);
+    for (const line of lines) {
+      yield line;
+    }
+  }
+
+  async generateJSON<T>(request: LLMJsonRequest): Promise<T> {
+    const value = mockJSON(request) ?? sampleFromSchema(request.schema);
+    assertMatchesSchema(value, request.schema);
+    return value as T;
+  }
+}
+
+/**
+ * Build a placeholder value for a schema without a fixture
+ */
+export function sampleFromSchema(schema: JsonSchema, name = 'value'): unknown {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, child]) => [key, sampleFromSchema(child, key)])
+      );
+    case 'array':
+      return schema.items ? [sampleFromSchema(schema.items, name)] : [];
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    default:
+      return schema.enum?.[0] ?? `mock ${name}`;
+  }
+}
+
+/**
+ * Throw if a value doesn't match a schema, so fixtures can't silently drift from the prompts' schemas
+ */
+export function assertMatchesSchema(value: unknown, schema: JsonSchema, path = '$'): void {
+  const fail = (expected: string) => {
+    throw new Error(`Mock response does not match schema at ${path}: expected ${expected}`);
+  };
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) fail('object');
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (!(key in record)) fail(`required property "${key}"`);
+      }
+      for (const [key, child] of Object.entries(schema.properties || {})) {
+        if (record[key] !== undefined) assertMatchesSchema(record[key], child, `${path}.${key}`);
+      }
+      break;
+    }
+    case 'array':
+      if (!Array.isArray(value)) fail('array');
+      if (schema.items) {
+        (value as unknown[]).forEach((item, i) => assertMatchesSchema(item, schema.items!, `${path}[${i}]`));
+      }
+      break;
+    case 'number':
+      if (typeof value !== 'number') fail('number');
+      break;
+    case 'integer':
+      if (!Number.isInteger(value)) fail('integer');
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') fail('boolean');
+      break;
+    case 'string':
+      if (typeof value !== 'string') fail('string');
+      if (schema.enum && !schema.enum.includes(value as string)) fail(`one of ${schema.enum.join(', ')}`);
+      break;
+  }
+}
@@ -0,0 +1,85 @@
+import type { LLMProvider, LLMRequest, LLMJsonRequest } from './types';
+import { postJson, readLines } from './http';
+import { parseJsonResponse } from './json';
+
+export const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434';
+
+/**
+ * Local Ollama adapter (/api/chat)
+ * Structured output passes the JSON schema as Ollama's `format`
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama' as const;
+  private readonly baseUrl: string;
+
+  constructor(
+    public readonly model: string,
+    baseUrl?: string
+  ) {
+    this.baseUrl = (baseUrl || DEFAULT_OLLAMA_BASE_URL).replace(/\/+$/, '');
+  }
+
+  async generateText(request: LLMRequest): Promise<string> {
+    const data = await this.send({ ...this.buildBody(request), stream: false }, request.timeoutMs);
+    const text = data.message?.content;
+
+    if (!text) {
+      throw new Error('No text content in Ollama response');
+    }
+    return text;
+  }
+
+  async *streamText(request: LLMRequest): AsyncGenerator<string> {
+    const response = await postJson(
+      'Ollama',
+      `${this.baseUrl}/api/chat`,
+      { ...this.buildBody(request), stream: true },
+      {},
+      request.timeoutMs
+    );
+
+    // Ollama streams newline-delimited JSON objects
+    for await (const line of readLines(response)) {
+      const chunk = JSON.parse(line);
+      if (chunk.error) {
+        throw new Error(`Ollama stream error: ${chunk.error}`);
+      }
+      if (chunk.message?.content) {
+        yield chunk.message.content;
+      }
+      if (chunk.done) break;
+    }
+  }
+
+  async generateJSON<T>(request: LLMJsonRequest): Promise<T> {
+    const data = await this.send(
+      { ...this.buildBody(request), stream: false, format: request.schema },
+      request.timeoutMs
+    );
+    const text = data.message?.content;
+
+    if (!text) {
+      throw new Error('No text content in Ollama response');
+    }
+    return parseJsonResponse<T>(text);
+  }
+
+  private buildBody(request: LLMRequest) {
+    return {
+      model: this.model,
+      messages: [
+        ...(request.systemPrompt ? [{ role: 'system', content: request.systemPrompt }] : []),
+        { role: 'user', content: request.prompt },
+      ],
+      options: {
+        ...(request.maxOutputTokens && { num_predict: request.maxOutputTokens }),
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+      },
+    };
+  }
+
+  private async send(body: unknown, timeoutMs?: number): Promise<any> {
+    const response = await postJson('Ollama', `${this.baseUrl}/api/chat`, body, {}, timeoutMs);
+    return response.json();
+  }
+}
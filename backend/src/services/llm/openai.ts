@@ -0,0 +1,109 @@
+import type { LLMProvider, LLMRequest, LLMJsonRequest } from './types';
+import { postJson, readSSEData } from './http';
+import { parseJsonResponse, schemaInstruction, isSchemaError } from './json';
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * OpenAI-compatible adapter (Chat Completions API)
+ * Works with OpenAI and any server exposing the same API (vLLM, LM Studio, OpenRouter, ...)
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly apiKey: string | undefined,
+    public readonly model: string,
+    baseUrl?: string
+  ) {
+    this.baseUrl = (baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+
+    // Only the hosted OpenAI API strictly needs a key; local compatible servers often don't
+    if (!apiKey && this.baseUrl === DEFAULT_OPENAI_BASE_URL) {
+      throw new Error('OPENAI_API_KEY is required but not configured. Please add your OpenAI API key in Settings.');
+    }
+  }
+
+  async generateText(request: LLMRequest): Promise<string> {
+    const data = await this.send(this.buildBody(request), request.timeoutMs);
+    const text = data.choices?.[0]?.message?.content;
+
+    if (!text) {
+      throw new Error('No text content in OpenAI response');
+    }
+    return text;
+  }
+
+  async *streamText(request: LLMRequest): AsyncGenerator<string> {
+    const response = await postJson(
+      'OpenAI',
+      `${this.baseUrl}/chat/completions`,
+      { ...this.buildBody(request), stream: true },
+      this.headers(),
+      request.timeoutMs
+    );
+
+    for await (const data of readSSEData(response)) {
+      if (data === '[DONE]') break;
+      const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+  }
+
+  async generateJSON<T>(request: LLMJsonRequest): Promise<T> {
+    let data: any;
+    try {
+      data = await this.send(
+        {
+          ...this.buildBody(request),
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'response', schema: request.schema },
+          },
+        },
+        request.timeoutMs
+      );
+    } catch (error: any) {
+      // Older models and many compatible servers only support plain JSON mode
+      if (!isSchemaError(error)) throw error;
+      console.warn(`⚠️  ${this.model} rejected json_schema output, retrying in JSON mode...`);
+      data = await this.send(
+        {
+          ...this.buildBody({ ...request, prompt: request.prompt + schemaInstruction(request.schema) }),
+          response_format: { type: 'json_object' },
+        },
+        request.timeoutMs
+      );
+    }
+
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new Error('No text content in OpenAI response');
+    }
+    return parseJsonResponse<T>(text);
+  }
+
+  private buildBody(request: LLMRequest) {
+    return {
+      model: this.model,
+      messages: [
+        ...(request.systemPrompt ? [{ role: 'system', content: request.systemPrompt }] : []),
+        { role: 'user', content: request.prompt },
+      ],
+      ...(request.maxOutputTokens && { max_tokens: request.maxOutputTokens }),
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+    };
+  }
+
+  private headers(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+
+  private async send(body: unknown, timeoutMs?: number): Promise<any> {
+    const response = await postJson('OpenAI', `${this.baseUrl}/chat/completions`, body, this.headers(), timeoutMs);
+    return response.json();
+  }
+}
@@ -0,0 +1,67 @@
+import type { AIProvider } from '../../../../shared/types/settings';
+
+export type LLMProviderName = AIProvider;
+
+/**
+ * JSON schema types used for structured output
+ * Values match both JSON Schema and Gemini's `SchemaType`, so one schema works for every provider
+ */
+export const SchemaType = {
+  STRING: 'string',
+  NUMBER: 'number',
+  INTEGER: 'integer',
+  BOOLEAN: 'boolean',
+  ARRAY: 'array',
+  OBJECT: 'object',
+} as const;
+
+export interface JsonSchema {
+  type: (typeof SchemaType)[keyof typeof SchemaType];
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+}
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string; // OpenAI-compatible endpoint or Ollama server
+}
+
+export interface LLMRequest {
+  prompt: string;
+  systemPrompt?: string;
+  maxOutputTokens?: number;
+  temperature?: number;
+  timeoutMs?: number;
+}
+
+export interface LLMJsonRequest extends LLMRequest {
+  schema: JsonSchema;
+}
+
+/**
+ * Common interface implemented by every LLM vendor adapter
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+
+  /**
+   * Generate a complete text response
+   */
+  generateText(request: LLMRequest): Promise<string>;
+
+  /**
+   * Stream a text response chunk by chunk
+   */
+  streamText(request: LLMRequest): AsyncGenerator<string>;
+
+  /**
+   * Generate a response that matches a JSON schema, parsed into an object
+   */
+  generateJSON<T>(request: LLMJsonRequest): Promise<T>;
+}
@@ -0,0 +1,92 @@
+import { HtmlRenderer, escapeHtml } from './html';
+import type { MarkdownInline, MarkdownListItem } from './types';
+
+// Languages of the code macro; others fall back to plain text
+const CONFLUENCE_LANGUAGES = new Set([
+  'actionscript3', 'applescript', 'bash', 'c', 'clojure', 'cpp', 'csharp', 'css', 'dart', 'delphi', 'diff',
+  'erlang', 'go', 'graphql', 'groovy', 'haskell', 'html', 'java', 'javafx', 'javascript', 'json', 'kotlin', 'lua',
+  'markdown', 'objective-c', 'perl', 'php', 'powershell', 'python', 'r', 'ruby', 'rust', 'sass', 'scala', 'sql',
+  'swift', 'typescript', 'vb', 'xml', 'yaml',
+]);
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  rb: 'ruby',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  yml: 'yaml',
+  md: 'markdown',
+  'c++': 'cpp',
+  cs: 'csharp',
+  'c#': 'csharp',
+  erl: 'erlang',
+  ps1: 'powershell',
+};
+
+function confluenceLanguage(language?: string): string | undefined {
+  const name = (language || '').toLowerCase();
+  const resolved = LANGUAGE_ALIASES[name] || name;
+  return CONFLUENCE_LANGUAGES.has(resolved) ? resolved : undefined;
+}
+
+/**
+ * Renders the markdown AST to Confluence storage format (XHTML with ac:/ri: elements)
+ * Code blocks become code macros, task lists Confluence tasks, and images ac:image elements
+ */
+export class ConfluenceStorageRenderer extends HtmlRenderer {
+  protected list(ordered: boolean, start: number, loose: boolean, items: MarkdownListItem[]): string {
+    if (items.length === 0 || items.some((item) => item.checked === undefined)) {
+      // Mixed lists keep their task state as a marker, since storage format has no checkboxes in lists
+      return super.list(
+        ordered,
+        start,
+        loose,
+        items.map((item) => {
+          if (item.checked === undefined) return item;
+
+          const marker: MarkdownInline = { type: 'text', text: item.checked ? '☑ ' : '☐ ' };
+          const [first, ...rest] = item.children;
+          return {
+            children:
+              first?.type === 'paragraph'
+                ? [{ ...first, children: [marker, ...first.children] }, ...rest]
+                : [{ type: 'paragraph', children: [marker] }, ...item.children],
+          };
+        })
+      );
+    }
+
+    const tasks = items
+      .map(
+        (item, i) =>
+          `<ac:task>\n<ac:task-id>${i + 1}</ac:task-id>\n<ac:task-status>${item.checked ? 'complete' : 'incomplete'}</ac:task-status>\n<ac:task-body>${this.blocks(item.children, false)}</ac:task-body>\n</ac:task>`
+      )
+      .join('\n');
+    return `<ac:task-list>\n${tasks}\n</ac:task-list>`;
+  }
+
+  protected code(text: string, language?: string): string {
+    // CDATA can't contain its own terminator, so split it across two sections
+    const cdata = text.replace(/]]>/g, ']]]]><![CDATA[>');
+    const resolved = confluenceLanguage(language);
+    const parameter = resolved ? `<ac:parameter ac:name="language">${resolved}</ac:parameter>` : '';
+    return `<ac:structured-macro ac:name="code">${parameter}<ac:plain-text-body><![CDATA[${cdata}]]></ac:plain-text-body></ac:structured-macro>`;
+  }
+
+  // Raw HTML is rarely valid storage format, so only its text is kept
+  protected html(html: string): string {
+    const text = html.replace(/<[^>]*>/g, '').trim();
+    return text ? `<p>${escapeHtml(text)}</p>` : '';
+  }
+
+  protected image(src: string, alt: string): string {
+    return `<ac:image ac:alt="${escapeHtml(alt)}"><ri:url ri:value="${escapeHtml(src)}" /></ac:image>`;
+  }
+}
+
+export const confluenceStorageRenderer = new ConfluenceStorageRenderer();
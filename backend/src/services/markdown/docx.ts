@@ -0,0 +1,225 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  ExternalHyperlink,
+  HeadingLevel,
+  LevelFormat,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+  type INumberingOptions,
+  type ParagraphChild,
+} from 'docx';
+import { flattenInlines } from './parse';
+import type { MarkdownBlock, MarkdownInline, MarkdownListItem, TableAlign } from './types';
+
+export interface DocxContent {
+  children: Array<Paragraph | Table>;
+  numbering: INumberingOptions; // Passed to the Document, for ordered lists
+}
+
+interface RenderState {
+  listLevel: number; // -1 outside lists
+  quoted: boolean;
+  numberings: Map<number, string>; // Ordered list start -> numbering reference
+  nextInstance: number;
+}
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+const ALIGNMENTS = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT,
+};
+
+const INDENT_STEP = 720; // Twips (half an inch) per list level
+const CODE_FONT = 'Courier New';
+const QUOTE_BORDER = { left: { style: BorderStyle.SINGLE, size: 12, color: 'D1D5DB', space: 8 } };
+
+/**
+ * Renders the markdown AST to DOCX paragraphs and tables, with inline formatting, links,
+ * nested bullet and numbered lists, code blocks, quotes and tables
+ */
+export class DocxRenderer {
+  render(blocks: MarkdownBlock[]): DocxContent {
+    const state: RenderState = { listLevel: -1, quoted: false, numberings: new Map(), nextInstance: 0 };
+    const children = this.blocks(blocks, state);
+
+    return {
+      children,
+      numbering: {
+        config: [...state.numberings].map(([start, reference]) => ({
+          reference,
+          levels: Array.from({ length: 9 }, (_, level) => ({
+            level,
+            format: LevelFormat.DECIMAL,
+            text: `%${level + 1}.`,
+            alignment: AlignmentType.START,
+            start: level === 0 ? start : 1,
+            style: { paragraph: { indent: { left: INDENT_STEP * (level + 1), hanging: 360 } } },
+          })),
+        })),
+      },
+    };
+  }
+
+  private blocks(blocks: MarkdownBlock[], state: RenderState): Array<Paragraph | Table> {
+    return blocks.flatMap((block) => this.block(block, state));
+  }
+
+  private block(block: MarkdownBlock, state: RenderState): Array<Paragraph | Table> {
+    switch (block.type) {
+      case 'heading':
+        return [
+          new Paragraph({
+            children: this.inlines(block.children),
+            heading: HEADING_LEVELS[Math.min(block.level, 6) - 1],
+            spacing: { before: 240, after: 120 },
+          }),
+        ];
+
+      case 'paragraph':
+        return [this.paragraph(this.inlines(block.children), state)];
+
+      case 'list':
+        return this.list(block.ordered, block.start, block.items, state);
+
+      case 'code':
+        return [
+          new Paragraph({
+            children: block.text.split('\n').map(
+              (line, i) => new TextRun({ text: line, font: CODE_FONT, size: 20, ...(i > 0 && { break: 1 }) })
+            ),
+            spacing: { after: 120 },
+            shading: { fill: 'F5F5F5' },
+            ...this.indent(state),
+          }),
+        ];
+
+      case 'blockquote':
+        return this.blocks(block.children, { ...state, quoted: true });
+
+      case 'table':
+        return [
+          this.table(block.align, block.header, block.rows),
+          new Paragraph({ text: '', spacing: { after: 120 } }),
+        ];
+
+      case 'rule':
+        return [
+          new Paragraph({
+            border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'D1D5DB', space: 1 } },
+            spacing: { after: 120 },
+          }),
+        ];
+
+      case 'html': {
+        const text = block.html.replace(/<[^>]*>/g, '').trim();
+        return text ? [this.paragraph([new TextRun({ text })], state)] : [];
+      }
+    }
+  }
+
+  private list(ordered: boolean, start: number, items: MarkdownListItem[], state: RenderState): Array<Paragraph | Table> {
+    const level = Math.min(state.listLevel + 1, 8);
+    const itemState = { ...state, listLevel: level };
+
+    // Each ordered list is its own numbering instance, so it starts over instead of continuing the previous list
+    let numbering: { reference: string; level: number; instance: number } | undefined;
+    if (ordered) {
+      if (!state.numberings.has(start)) {
+        state.numberings.set(start, `ordered-list-${start}`);
+      }
+      numbering = { reference: state.numberings.get(start)!, level, instance: state.nextInstance++ };
+    }
+
+    return items.flatMap((item) => {
+      const [first, ...rest] = item.children;
+      const checkbox = item.checked === undefined ? [] : [new TextRun({ text: item.checked ? '☑ ' : '☐ ' })];
+      const text = first?.type === 'paragraph' ? this.inlines(first.children) : [];
+
+      const paragraph = new Paragraph({
+        children: [...checkbox, ...text],
+        ...(numbering ? { numbering } : { bullet: { level } }),
+        spacing: { after: 60 },
+        ...(state.quoted && { border: QUOTE_BORDER }),
+      });
+
+      return [paragraph, ...this.blocks(first?.type === 'paragraph' ? rest : item.children, itemState)];
+    });
+  }
+
+  private paragraph(children: ParagraphChild[], state: RenderState): Paragraph {
+    return new Paragraph({
+      children,
+      spacing: { after: 120 },
+      ...this.indent(state),
+    });
+  }
+
+  // Content inside a list item lines up with the item's text; quotes get a left border
+  private indent(state: RenderState) {
+    return {
+      ...(state.listLevel >= 0 && { indent: { left: INDENT_STEP * (state.listLevel + 1) } }),
+      ...(state.quoted && { border: QUOTE_BORDER }),
+    };
+  }
+
+  private table(align: TableAlign[], header: MarkdownInline[][], rows: MarkdownInline[][][]): Table {
+    const width = Math.max(header.length, ...rows.map((row) => row.length));
+    const cell = (content: MarkdownInline[] | undefined, i: number, isHeader: boolean) =>
+      new TableCell({
+        children: [
+          new Paragraph({
+            children: this.inlines(content || [], isHeader),
+            ...(align[i] && { alignment: ALIGNMENTS[align[i]!] }),
+          }),
+        ],
+        ...(isHeader && { shading: { fill: 'F3F4F6' } }),
+      });
+
+    return new Table({
+      rows: [
+        new TableRow({
+          children: Array.from({ length: width }, (_, i) => cell(header[i], i, true)),
+          tableHeader: true,
+        }),
+        ...rows.map(
+          (row) => new TableRow({ children: Array.from({ length: width }, (_, i) => cell(row[i], i, false)) })
+        ),
+      ],
+      width: { size: 100, type: WidthType.PERCENTAGE },
+    });
+  }
+
+  private inlines(nodes: MarkdownInline[], bold = false): ParagraphChild[] {
+    return flattenInlines(nodes, { bold }).map((span) => {
+      if (span.isBreak) {
+        return new TextRun({ text: '', break: 1 });
+      }
+
+      const run = new TextRun({
+        text: span.text,
+        bold: span.marks.bold,
+        italics: span.marks.italic,
+        strike: span.marks.strike,
+        ...(span.marks.code && { font: CODE_FONT, shading: { fill: 'F3F4F6' } }),
+        ...(span.marks.href && { style: 'Hyperlink' }),
+      });
+      return span.marks.href ? new ExternalHyperlink({ children: [run], link: span.marks.href }) : run;
+    });
+  }
+}
+
+export const docxRenderer = new DocxRenderer();
@@ -0,0 +1,116 @@
+import type { MarkdownBlock, MarkdownInline, MarkdownListItem, TableAlign } from './types';
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders the markdown AST to (X)HTML, used for PDF export
+ * Formats built on XHTML (Confluence storage format) override the elements they represent differently
+ */
+export class HtmlRenderer {
+  render(blocks: MarkdownBlock[]): string {
+    return this.blocks(blocks, true);
+  }
+
+  protected blocks(blocks: MarkdownBlock[], loose: boolean): string {
+    return blocks.map((block) => this.block(block, loose)).join('\n');
+  }
+
+  protected block(block: MarkdownBlock, loose: boolean): string {
+    switch (block.type) {
+      case 'heading':
+        return `<h${block.level}>${this.inlines(block.children)}</h${block.level}>`;
+
+      // Tight list items hold their text without a <p>
+      case 'paragraph':
+        return loose ? `<p>${this.inlines(block.children)}</p>` : this.inlines(block.children);
+
+      case 'list':
+        return this.list(block.ordered, block.start, block.loose, block.items);
+
+      case 'code':
+        return this.code(block.text, block.language);
+
+      case 'blockquote':
+        return `<blockquote>\n${this.blocks(block.children, true)}\n</blockquote>`;
+
+      case 'table':
+        return this.table(block.align, block.header, block.rows);
+
+      case 'rule':
+        return '<hr />';
+
+      case 'html':
+        return this.html(block.html);
+    }
+  }
+
+  protected list(ordered: boolean, start: number, loose: boolean, items: MarkdownListItem[]): string {
+    const tag = ordered ? 'ol' : 'ul';
+    const startAttr = ordered && start !== 1 ? ` start="${start}"` : '';
+    const body = items
+      .map((item) => {
+        const checkbox =
+          item.checked === undefined ? '' : `<input type="checkbox" disabled="disabled"${item.checked ? ' checked="checked"' : ''} /> `;
+        return `<li>${checkbox}${this.blocks(item.children, loose)}</li>`;
+      })
+      .join('\n');
+    return `<${tag}${startAttr}>\n${body}\n</${tag}>`;
+  }
+
+  protected code(text: string, language?: string): string {
+    const className = language ? ` class="language-${escapeHtml(language)}"` : '';
+    return `<pre><code${className}>${escapeHtml(text)}</code></pre>`;
+  }
+
+  protected table(align: TableAlign[], header: MarkdownInline[][], rows: MarkdownInline[][][]): string {
+    const cell = (tag: 'th' | 'td', content: MarkdownInline[], i: number) =>
+      `<${tag}${align[i] ? ` style="text-align: ${align[i]}"` : ''}>${this.inlines(content)}</${tag}>`;
+
+    const head = `<thead>\n<tr>${header.map((content, i) => cell('th', content, i)).join('')}</tr>\n</thead>`;
+    const body = rows.length
+      ? `\n<tbody>\n${rows.map((row) => `<tr>${row.map((content, i) => cell('td', content, i)).join('')}</tr>`).join('\n')}\n</tbody>`
+      : '';
+    return `<table>\n${head}${body}\n</table>`;
+  }
+
+  protected html(html: string): string {
+    return html;
+  }
+
+  protected inlines(nodes: MarkdownInline[]): string {
+    return nodes.map((node) => this.inline(node)).join('');
+  }
+
+  protected inline(node: MarkdownInline): string {
+    switch (node.type) {
+      case 'text':
+        return escapeHtml(node.text);
+      case 'strong':
+        return `<strong>${this.inlines(node.children)}</strong>`;
+      case 'em':
+        return `<em>${this.inlines(node.children)}</em>`;
+      case 'strike':
+        return `<del>${this.inlines(node.children)}</del>`;
+      case 'code':
+        return `<code>${escapeHtml(node.text)}</code>`;
+      case 'link':
+        return `<a href="${escapeHtml(node.href)}">${this.inlines(node.children)}</a>`;
+      case 'image':
+        return this.image(node.src, node.alt);
+      case 'break':
+        return '<br />';
+    }
+  }
+
+  protected image(src: string, alt: string): string {
+    return `<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}" />`;
+  }
+}
+
+export const htmlRenderer = new HtmlRenderer();
@@ -0,0 +1,40 @@
+import { parseMarkdown } from './parse';
+import { htmlRenderer } from './html';
+import { confluenceStorageRenderer } from './confluence';
+import { notionBlockRenderer, type NotionBlockRequest } from './notion';
+import { docxRenderer, type DocxContent } from './docx';
+
+export * from './types';
+export { parseMarkdown, flattenInlines, inlineText } from './parse';
+export { HtmlRenderer, escapeHtml } from './html';
+export { ConfluenceStorageRenderer } from './confluence';
+export { NotionBlockRenderer, chunkNotionBlocks, NOTION_MAX_BLOCKS_PER_REQUEST, type NotionBlockRequest } from './notion';
+export { DocxRenderer, type DocxContent } from './docx';
+
+/**
+ * Markdown to HTML (body content, without a document wrapper)
+ */
+export function markdownToHtml(markdown: string): string {
+  return htmlRenderer.render(parseMarkdown(markdown));
+}
+
+/**
+ * Markdown to Confluence storage format
+ */
+export function markdownToConfluenceStorage(markdown: string): string {
+  return confluenceStorageRenderer.render(parseMarkdown(markdown));
+}
+
+/**
+ * Markdown to Notion blocks; send them in batches of NOTION_MAX_BLOCKS_PER_REQUEST (see chunkNotionBlocks)
+ */
+export function markdownToNotionBlocks(markdown: string): NotionBlockRequest[] {
+  return notionBlockRenderer.render(parseMarkdown(markdown));
+}
+
+/**
+ * Markdown to DOCX paragraphs and tables, with the numbering config the Document needs
+ */
+export function markdownToDocx(markdown: string): DocxContent {
+  return docxRenderer.render(parseMarkdown(markdown));
+}
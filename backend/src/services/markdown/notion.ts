@@ -0,0 +1,252 @@
+import { flattenInlines, inlineText } from './parse';
+import type { MarkdownBlock, MarkdownInline, MarkdownListItem, TextRunSpan } from './types';
+
+/** A block as sent to the Notion API (`children` of a page or block) */
+export interface NotionBlockRequest {
+  object: 'block';
+  type: string;
+  [type: string]: any;
+}
+
+// Notion API limits
+export const NOTION_MAX_BLOCKS_PER_REQUEST = 100;
+const MAX_TEXT_LENGTH = 2000; // Per rich text object
+const MAX_RICH_TEXT_ITEMS = 100; // Per rich text array
+const MAX_NESTING = 2; // Levels of children in a single request
+
+const NOTION_LANGUAGES = new Set([
+  'bash', 'c', 'c#', 'c++', 'clojure', 'css', 'dart', 'diff', 'docker', 'elixir', 'erlang', 'go', 'graphql',
+  'groovy', 'haskell', 'html', 'java', 'javascript', 'json', 'julia', 'kotlin', 'latex', 'less', 'lua',
+  'makefile', 'markdown', 'matlab', 'mermaid', 'objective-c', 'ocaml', 'perl', 'php', 'plain text',
+  'powershell', 'protobuf', 'python', 'r', 'ruby', 'rust', 'sass', 'scala', 'scss', 'shell', 'sql', 'swift',
+  'typescript', 'xml', 'yaml',
+]);
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  rb: 'ruby',
+  sh: 'shell',
+  zsh: 'shell',
+  yml: 'yaml',
+  md: 'markdown',
+  cpp: 'c++',
+  cs: 'c#',
+  csharp: 'c#',
+  dockerfile: 'docker',
+  text: 'plain text',
+  txt: 'plain text',
+};
+
+function notionLanguage(language?: string): string {
+  const name = (language || '').toLowerCase();
+  const resolved = LANGUAGE_ALIASES[name] || name;
+  return NOTION_LANGUAGES.has(resolved) ? resolved : 'plain text';
+}
+
+// Notion rejects links it can't resolve, e.g. relative links and anchors
+function isLinkable(href?: string): href is string {
+  return !!href && /^(https?:|mailto:)/i.test(href);
+}
+
+function chunkText(text: string): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += MAX_TEXT_LENGTH) {
+    chunks.push(text.slice(i, i + MAX_TEXT_LENGTH));
+  }
+  return chunks;
+}
+
+/**
+ * Split blocks into batches the Notion API accepts in one request
+ */
+export function chunkNotionBlocks(
+  blocks: NotionBlockRequest[],
+  size = NOTION_MAX_BLOCKS_PER_REQUEST
+): NotionBlockRequest[][] {
+  const batches: NotionBlockRequest[][] = [];
+  for (let i = 0; i < blocks.length; i += size) {
+    batches.push(blocks.slice(i, i + size));
+  }
+  return batches;
+}
+
+/**
+ * Renders the markdown AST to Notion blocks with rich text annotations (bold, italic, strikethrough, code, links)
+ * Lists keep their nesting up to the API's two levels per request; deeper content follows its parent
+ */
+export class NotionBlockRenderer {
+  render(blocks: MarkdownBlock[]): NotionBlockRequest[] {
+    return this.blocks(blocks, 0);
+  }
+
+  private blocks(blocks: MarkdownBlock[], depth: number): NotionBlockRequest[] {
+    return blocks.flatMap((block) => this.block(block, depth));
+  }
+
+  private block(block: MarkdownBlock, depth: number): NotionBlockRequest[] {
+    switch (block.type) {
+      case 'heading':
+        // Notion has three heading levels
+        return [this.textBlock(`heading_${Math.min(block.level, 3)}`, block.children)];
+
+      case 'paragraph': {
+        const [only] = block.children;
+        if (block.children.length === 1 && only.type === 'image' && isLinkable(only.src)) {
+          return [
+            {
+              object: 'block',
+              type: 'image',
+              image: {
+                type: 'external',
+                external: { url: only.src },
+                caption: only.alt ? this.plainRichText(only.alt) : [],
+              },
+            },
+          ];
+        }
+        return [this.textBlock('paragraph', block.children)];
+      }
+
+      case 'list':
+        return block.items.flatMap((item) => this.listItem(item, block.ordered, depth));
+
+      case 'code':
+        return [
+          {
+            object: 'block',
+            type: 'code',
+            code: { rich_text: this.plainRichText(block.text), language: notionLanguage(block.language) },
+          },
+        ];
+
+      case 'blockquote': {
+        const [first, ...rest] = block.children;
+        const quote = this.textBlock('quote', first?.type === 'paragraph' ? first.children : []);
+        return this.nest(quote, first?.type === 'paragraph' ? rest : block.children, depth);
+      }
+
+      case 'table':
+        return this.table(block.header, block.rows, depth);
+
+      case 'rule':
+        return [{ object: 'block', type: 'divider', divider: {} }];
+
+      case 'html': {
+        const text = block.html.replace(/<[^>]*>/g, '').trim();
+        return text ? [{ object: 'block', type: 'paragraph', paragraph: { rich_text: this.plainRichText(text) } }] : [];
+      }
+    }
+  }
+
+  private listItem(item: MarkdownListItem, ordered: boolean, depth: number): NotionBlockRequest[] {
+    const type = item.checked !== undefined ? 'to_do' : ordered ? 'numbered_list_item' : 'bulleted_list_item';
+    const [first, ...rest] = item.children;
+    const text = first?.type === 'paragraph' ? first.children : [];
+
+    const block: NotionBlockRequest = {
+      object: 'block',
+      type,
+      [type]: {
+        rich_text: this.richText(text),
+        ...(type === 'to_do' && { checked: item.checked }),
+      },
+    };
+    return this.nest(block, first?.type === 'paragraph' ? rest : item.children, depth);
+  }
+
+  // Attach children to a block, or place them after it when the block is already at the nesting limit
+  private nest(block: NotionBlockRequest, children: MarkdownBlock[], depth: number): NotionBlockRequest[] {
+    if (children.length === 0) {
+      return [block];
+    }
+    if (depth >= MAX_NESTING) {
+      return [block, ...this.blocks(children, depth)];
+    }
+    block[block.type].children = this.blocks(children, depth + 1);
+    return [block];
+  }
+
+  private table(header: MarkdownInline[][], rows: MarkdownInline[][][], depth: number): NotionBlockRequest[] {
+    // Table rows are children, so a table at the nesting limit falls back to one paragraph per row
+    if (depth >= MAX_NESTING) {
+      return [header, ...rows].map((cells) => ({
+        object: 'block',
+        type: 'paragraph',
+        paragraph: { rich_text: this.plainRichText(cells.map(inlineText).join(' | ')) },
+      }));
+    }
+
+    const width = Math.max(header.length, ...rows.map((row) => row.length));
+    const toRow = (cells: MarkdownInline[][]): NotionBlockRequest => ({
+      object: 'block',
+      type: 'table_row',
+      table_row: { cells: Array.from({ length: width }, (_, i) => this.richText(cells[i] || [])) },
+    });
+
+    // A table takes at most 100 rows per request; longer tables are split, repeating the header
+    const tables: NotionBlockRequest[] = [];
+    const rowsPerTable = NOTION_MAX_BLOCKS_PER_REQUEST - 1;
+    for (let i = 0; i === 0 || i < rows.length; i += rowsPerTable) {
+      tables.push({
+        object: 'block',
+        type: 'table',
+        table: {
+          table_width: width,
+          has_column_header: true,
+          has_row_header: false,
+          children: [toRow(header), ...rows.slice(i, i + rowsPerTable).map(toRow)],
+        },
+      });
+    }
+    return tables;
+  }
+
+  private textBlock(type: string, children: MarkdownInline[]): NotionBlockRequest {
+    return { object: 'block', type, [type]: { rich_text: this.richText(children) } };
+  }
+
+  private richText(nodes: MarkdownInline[]): any[] {
+    // Adjacent runs with the same marks are merged to stay under the rich text item limit
+    const spans: TextRunSpan[] = [];
+    for (const span of flattenInlines(nodes)) {
+      const previous = spans[spans.length - 1];
+      if (previous && JSON.stringify(previous.marks) === JSON.stringify(span.marks)) {
+        previous.text += span.text;
+      } else {
+        spans.push({ ...span });
+      }
+    }
+
+    const items = spans.flatMap(({ text, marks }) =>
+      chunkText(text).map((content) => ({
+        type: 'text',
+        text: { content, ...(isLinkable(marks.href) && { link: { url: marks.href } }) },
+        annotations: {
+          bold: !!marks.bold,
+          italic: !!marks.italic,
+          strikethrough: !!marks.strike,
+          code: !!marks.code,
+        },
+      }))
+    );
+
+    if (items.length > MAX_RICH_TEXT_ITEMS) {
+      // The overflow is kept as one unformatted item, itself capped at the text length limit
+      const overflow = items.slice(MAX_RICH_TEXT_ITEMS - 1).map((item) => item.text.content).join('');
+      return [...items.slice(0, MAX_RICH_TEXT_ITEMS - 1), ...this.plainRichText(overflow).slice(0, 1)];
+    }
+    return items;
+  }
+
+  private plainRichText(text: string): any[] {
+    return chunkText(text)
+      .slice(0, MAX_RICH_TEXT_ITEMS)
+      .map((content) => ({ type: 'text', text: { content } }));
+  }
+}
+
+export const notionBlockRenderer = new NotionBlockRenderer();
@@ -0,0 +1,202 @@
+import { marked, type Token, type Tokens } from 'marked';
+import type { InlineMarks, MarkdownBlock, MarkdownInline, MarkdownListItem, TextRunSpan } from './types';
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+};
+
+// The lexer HTML-escapes inline text; the AST keeps it plain
+function decode(text: string): string {
+  return text.replace(/&(?:amp|lt|gt|quot|#39);/g, (entity) => ENTITIES[entity]);
+}
+
+/**
+ * Parse markdown (GFM: tables, task lists, strikethrough) into the export AST
+ */
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  const tokens = marked.lexer(markdown.replace(/\r\n?/g, '\n'), { gfm: true });
+  return toBlocks(tokens);
+}
+
+function toBlocks(tokens: Token[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'heading':
+        blocks.push({ type: 'heading', level: token.depth, children: toInlines(token.tokens || []) });
+        break;
+
+      case 'paragraph':
+        blocks.push({ type: 'paragraph', children: toInlines(token.tokens || []) });
+        break;
+
+      // Text directly inside a tight list item
+      case 'text': {
+        const text = token as Tokens.Text;
+        blocks.push({
+          type: 'paragraph',
+          children: text.tokens ? toInlines(text.tokens) : [{ type: 'text', text: decode(text.text) }],
+        });
+        break;
+      }
+
+      case 'list': {
+        const list = token as Tokens.List;
+        blocks.push({
+          type: 'list',
+          ordered: list.ordered,
+          start: list.ordered && typeof list.start === 'number' ? list.start : 1,
+          loose: list.loose,
+          items: list.items.map(toListItem),
+        });
+        break;
+      }
+
+      case 'code':
+        blocks.push({ type: 'code', language: token.lang?.split(/\s/)[0] || undefined, text: token.text });
+        break;
+
+      case 'blockquote':
+        blocks.push({ type: 'blockquote', children: toBlocks(token.tokens || []) });
+        break;
+
+      case 'table': {
+        const table = token as Tokens.Table;
+        blocks.push({
+          type: 'table',
+          align: table.align,
+          header: table.header.map((cell) => toInlines(cell.tokens)),
+          rows: table.rows.map((row) => row.map((cell) => toInlines(cell.tokens))),
+        });
+        break;
+      }
+
+      case 'hr':
+        blocks.push({ type: 'rule' });
+        break;
+
+      case 'html':
+        if (token.text.trim()) {
+          blocks.push({ type: 'html', html: token.text.trim() });
+        }
+        break;
+
+      // space, def (link reference definitions are resolved by the lexer)
+      default:
+        break;
+    }
+  }
+
+  return blocks;
+}
+
+function toListItem(item: Tokens.ListItem): MarkdownListItem {
+  const children = toBlocks(item.tokens);
+  return item.task ? { checked: !!item.checked, children } : { children };
+}
+
+function toInlines(tokens: Token[]): MarkdownInline[] {
+  const inlines: MarkdownInline[] = [];
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'text': {
+        const text = token as Tokens.Text;
+        if (text.tokens?.length) {
+          inlines.push(...toInlines(text.tokens));
+        } else if (text.text) {
+          inlines.push({ type: 'text', text: decode(text.text) });
+        }
+        break;
+      }
+
+      case 'escape':
+        inlines.push({ type: 'text', text: decode(token.text) });
+        break;
+
+      case 'strong':
+        inlines.push({ type: 'strong', children: toInlines(token.tokens || []) });
+        break;
+
+      case 'em':
+        inlines.push({ type: 'em', children: toInlines(token.tokens || []) });
+        break;
+
+      case 'del':
+        inlines.push({ type: 'strike', children: toInlines(token.tokens || []) });
+        break;
+
+      case 'codespan':
+        inlines.push({ type: 'code', text: decode(token.text) });
+        break;
+
+      case 'link':
+        inlines.push({ type: 'link', href: token.href, children: toInlines(token.tokens || []) });
+        break;
+
+      case 'image':
+        inlines.push({ type: 'image', src: token.href, alt: decode(token.text) });
+        break;
+
+      case 'br':
+        inlines.push({ type: 'break' });
+        break;
+
+      // Inline HTML tags are dropped and their text kept; <br> is the one tag with meaning in every format
+      case 'html':
+        if (/^<br\s*\/?>$/i.test(token.text.trim())) {
+          inlines.push({ type: 'break' });
+        }
+        break;
+
+      default:
+        if ('text' in token && typeof token.text === 'string' && token.text) {
+          inlines.push({ type: 'text', text: decode(token.text) });
+        }
+        break;
+    }
+  }
+
+  return inlines;
+}
+
+/**
+ * Flatten inline nodes into runs of text with their marks, for formats without nesting
+ * Images become their alt text (or URL), as a link to the image
+ */
+export function flattenInlines(nodes: MarkdownInline[], marks: InlineMarks = {}): TextRunSpan[] {
+  return nodes.flatMap((node): TextRunSpan[] => {
+    switch (node.type) {
+      case 'text':
+        return node.text ? [{ text: node.text, marks }] : [];
+      case 'code':
+        return [{ text: node.text, marks: { ...marks, code: true } }];
+      case 'strong':
+        return flattenInlines(node.children, { ...marks, bold: true });
+      case 'em':
+        return flattenInlines(node.children, { ...marks, italic: true });
+      case 'strike':
+        return flattenInlines(node.children, { ...marks, strike: true });
+      case 'link':
+        return flattenInlines(node.children, { ...marks, href: node.href });
+      case 'image':
+        return [{ text: node.alt || node.src, marks: { ...marks, href: node.src } }];
+      case 'break':
+        return [{ text: '\n', marks, isBreak: true }];
+    }
+  });
+}
+
+/**
+ * Plain text of inline nodes
+ */
+export function inlineText(nodes: MarkdownInline[]): string {
+  return flattenInlines(nodes)
+    .map((span) => span.text)
+    .join('');
+}
@@ -0,0 +1,45 @@
+/**
+ * Markdown AST shared by the export renderers (Confluence, Notion, DOCX, HTML/PDF)
+ * Text is stored unescaped; each renderer escapes it for its own format
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'strike'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'image'; src: string; alt: string }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export interface MarkdownListItem {
+  checked?: boolean; // Set for task list items (`- [ ]` / `- [x]`)
+  children: MarkdownBlock[];
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; loose: boolean; items: MarkdownListItem[] }
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' }
+  | { type: 'html'; html: string };
+
+/** Marks active on a run of text while flattening inline nodes */
+export interface InlineMarks {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  href?: string;
+}
+
+/** A run of text with the marks around it, e.g. for formats with flat rich text (Notion, DOCX) */
+export interface TextRunSpan {
+  text: string;
+  marks: InlineMarks;
+  isBreak?: boolean;
+}
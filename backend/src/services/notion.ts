@@ -1,109 +1,61 @@
-import { configService } from './config';
+import type { ServiceContext } from './service-context';
+import type { ImportedPage } from '../../../shared/types';
+import { chunkNotionBlocks, markdownToNotionBlocks, type NotionBlockRequest } from './markdown';
 
-export class NotionService {
-  // Use getter to dynamically read from ConfigService
-  private get apiKey(): string {
-    return configService.get('NOTION_API_KEY') || '';
-  }
+interface NotionRichText {
+  plain_text: string;
+  href?: string | null;
+  annotations?: { bold?: boolean; italic?: boolean; strikethrough?: boolean; code?: boolean };
+}
 
-  constructor() {
-    console.log('🔍 Notion Service initialized with ConfigService');
-  }
+interface NotionBlock {
+  id: string;
+  type: string;
+  has_children: boolean;
+  children?: NotionBlock[];
+  [type: string]: any;
+}
+
+// Pages larger than this are cut off, so one import can't page through a huge workspace tree
+const MAX_IMPORTED_BLOCKS = 2000;
+const MAX_BLOCK_DEPTH = 5;
+// Sub-pages, databases and page links under an exported page belong to whoever added them; re-exports leave them in place
+const PRESERVED_BLOCK_TYPES = new Set(['child_page', 'child_database', 'link_to_page']);
+// Block types rendered as list items, by the kind of list they belong to
+const LIST_KINDS: Record<string, string> = {
+  bulleted_list_item: 'bullet',
+  to_do: 'bullet',
+  numbered_list_item: 'ordered',
+};
 
-  isConfigured(): boolean {
-    return !!this.apiKey;
+export class NotionService {
+  constructor() {
+    console.log('🔍 Notion Service initialized with per-user configuration');
   }
 
   /**
-   * Convert markdown to Notion blocks (simplified)
+   * Read the user's Notion API key, throwing if it is missing
    */
-  private markdownToNotionBlocks(markdown: string): any[] {
-    const blocks: any[] = [];
-    const lines = markdown.split('\n');
-
-    let currentList: string[] = [];
-    const flushList = () => {
-      if (currentList.length > 0) {
-        currentList.forEach((item) => {
-          blocks.push({
-            object: 'block',
-            type: 'bulleted_list_item',
-            bulleted_list_item: {
-              rich_text: [{ type: 'text', text: { content: item } }],
-            },
-          });
-        });
-        currentList = [];
-      }
-    };
-
-    for (const line of lines) {
-      if (!line.trim()) {
-        flushList();
-        continue;
-      }
-
-      // Headings
-      if (line.startsWith('# ')) {
-        flushList();
-        blocks.push({
-          object: 'block',
-          type: 'heading_1',
-          heading_1: {
-            rich_text: [{ type: 'text', text: { content: line.slice(2) } }],
-          },
-        });
-      } else if (line.startsWith('## ')) {
-        flushList();
-        blocks.push({
-          object: 'block',
-          type: 'heading_2',
-          heading_2: {
-            rich_text: [{ type: 'text', text: { content: line.slice(3) } }],
-          },
-        });
-      } else if (line.startsWith('### ')) {
-        flushList();
-        blocks.push({
-          object: 'block',
-          type: 'heading_3',
-          heading_3: {
-            rich_text: [{ type: 'text', text: { content: line.slice(4) } }],
-          },
-        });
-      } else if (line.startsWith('- ') || line.startsWith('* ')) {
-        currentList.push(line.slice(2));
-      } else if (line.startsWith('---')) {
-        flushList();
-        blocks.push({
-          object: 'block',
-          type: 'divider',
-          divider: {},
-        });
-      } else {
-        flushList();
-        blocks.push({
-          object: 'block',
-          type: 'paragraph',
-          paragraph: {
-            rich_text: [{ type: 'text', text: { content: line } }],
-          },
-        });
-      }
+  private async requireApiKey(ctx: ServiceContext): Promise<string> {
+    const apiKey = await ctx.getConfig('NOTION_API_KEY');
+    if (!apiKey) {
+      throw new Error('Notion integration is not configured');
     }
+    return apiKey;
+  }
 
-    flushList();
-    return blocks;
+  async isConfigured(ctx: ServiceContext): Promise<boolean> {
+    return ctx.isConfigured(['NOTION_API_KEY']);
   }
 
   /**
    * Append blocks to an existing Notion page
    */
-  private async appendBlocks(pageId: string, blocks: any[]): Promise<void> {
+  private async appendBlocks(apiKey: string, pageId: string, blocks: NotionBlockRequest[]): Promise<void> {
     const response = await fetch(`https://api.notion.com/v1/blocks/${pageId}/children`, {
       method: 'PATCH',
       headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
+        'Authorization': `Bearer ${apiKey}`,
         'Content-Type': 'application/json',
         'Notion-Version': '2022-06-28',
       },
@@ -116,20 +68,317 @@ export class NotionService {
     }
   }
 
-  async createPage(
-    parentPageId: string,
+  /**
+   * Extract the page id from a page id or a Notion page URL (…/Page-Title-<32 hex chars>)
+   */
+  parsePageId(page: string): string {
+    const ref = page.trim().split(/[?#]/)[0];
+    const hex = ref.match(/([0-9a-f]{32}|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i)?.[1];
+
+    if (!hex) {
+      throw new Error(`Invalid Notion page reference: "${page.trim()}"`);
+    }
+
+    const id = hex.replace(/-/g, '').toLowerCase();
+    return `${id.slice(0, 8)}-${id.slice(8, 12)}-${id.slice(12, 16)}-${id.slice(16, 20)}-${id.slice(20)}`;
+  }
+
+  private async notionGet<T>(apiKey: string, path: string): Promise<T> {
+    const response = await fetch(`https://api.notion.com/v1${path}`, {
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Notion-Version': '2022-06-28',
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Notion API error: ${response.status} - ${errorText}`);
+    }
+
+    return response.json() as Promise<T>;
+  }
+
+  /**
+   * Fetch the child blocks of a block, following pagination and nested children
+   */
+  private async fetchBlocks(apiKey: string, blockId: string, budget: { remaining: number }, depth = 0): Promise<NotionBlock[]> {
+    const blocks: NotionBlock[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const query = `page_size=100${cursor ? `&start_cursor=${cursor}` : ''}`;
+      const page = await this.notionGet<{ results: NotionBlock[]; has_more: boolean; next_cursor: string | null }>(
+        apiKey,
+        `/blocks/${blockId}/children?${query}`
+      );
+      blocks.push(...page.results.slice(0, budget.remaining));
+      budget.remaining -= Math.min(page.results.length, budget.remaining);
+      cursor = page.has_more && budget.remaining > 0 ? page.next_cursor || undefined : undefined;
+    } while (cursor);
+
+    // Sub-pages are linked, not inlined
+    for (const block of blocks) {
+      if (block.has_children && depth < MAX_BLOCK_DEPTH && budget.remaining > 0 && block.type !== 'child_page' && block.type !== 'child_database') {
+        block.children = await this.fetchBlocks(apiKey, block.id, budget, depth + 1);
+      }
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Convert Notion rich text to inline markdown
+   */
+  private richTextToMarkdown(richText: NotionRichText[] = []): string {
+    return richText
+      .map(({ plain_text: text, href, annotations = {} }) => {
+        const [, leading, core, trailing] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+        if (!core) return text;
+
+        let result = annotations.code ? `\`${core}\`` : core;
+        if (annotations.italic) result = `_${result}_`;
+        if (annotations.bold) result = `**${result}**`;
+        if (annotations.strikethrough) result = `~~${result}~~`;
+        if (href) result = `[${result}](${href})`;
+        return `${leading}${result}${trailing}`;
+      })
+      .join('');
+  }
+
+  /**
+   * Convert Notion blocks to markdown
+   */
+  private blocksToMarkdown(blocks: NotionBlock[]): string {
+    const parts: string[] = [];
+    let number = 0;
+
+    blocks.forEach((block, i) => {
+      number = block.type === 'numbered_list_item' ? number + 1 : 0;
+      const text = this.blockToMarkdown(block, number);
+      if (!text.trim()) return;
+
+      // Consecutive items of the same kind of list stay in one tight list
+      const kind = LIST_KINDS[block.type];
+      const separator = parts.length === 0 ? '' : kind && kind === LIST_KINDS[blocks[i - 1]?.type] ? '\n' : '\n\n';
+      parts.push(separator + text);
+    });
+
+    return parts.join('');
+  }
+
+  private blockToMarkdown(block: NotionBlock, number: number): string {
+    const value = block[block.type] || {};
+    const text = this.richTextToMarkdown(value.rich_text);
+    const children = block.children?.length ? this.blocksToMarkdown(block.children) : '';
+    const indent = (body: string, padding: string) =>
+      body.split('\n').map((line) => (line ? `${padding}${line}` : line)).join('\n');
+    const withChildren = (line: string, padding: string) => (children ? `${line}\n${indent(children, padding)}` : line);
+    const caption = this.richTextToMarkdown(value.caption);
+    const fileUrl: string | undefined = value.external?.url || value.file?.url || value.url;
+
+    switch (block.type) {
+      case 'paragraph':
+        return children ? `${text}\n\n${children}` : text;
+
+      case 'heading_1':
+      case 'heading_2':
+      case 'heading_3':
+        return `${'#'.repeat(Number(block.type.slice(-1)))} ${text}${children ? `\n\n${children}` : ''}`;
+
+      case 'bulleted_list_item':
+        return withChildren(`- ${text}`, '  ');
+
+      case 'numbered_list_item':
+        return withChildren(`${number}. ${text}`, ' '.repeat(`${number}. `.length));
+
+      case 'to_do':
+        return withChildren(`- [${value.checked ? 'x' : ' '}] ${text}`, '  ');
+
+      case 'toggle':
+        return withChildren(`- ${text}`, '  ');
+
+      case 'quote':
+        return `> ${[text, children].filter(Boolean).join('\n\n').replace(/\n/g, '\n> ')}`;
+
+      case 'callout': {
+        const icon = value.icon?.emoji ? `${value.icon.emoji} ` : '';
+        return `> ${[icon + text, children].filter(Boolean).join('\n\n').replace(/\n/g, '\n> ')}`;
+      }
+
+      case 'code': {
+        const code = (value.rich_text || []).map((part: NotionRichText) => part.plain_text).join('');
+        const language = value.language === 'plain text' ? '' : value.language || '';
+        return `\`\`\`${language}\n${code}\n\`\`\``;
+      }
+
+      case 'equation':
+        return `$$${value.expression}$$`;
+
+      case 'divider':
+        return '---';
+
+      case 'table': {
+        const rows = (block.children || []).map((row) =>
+          (row.table_row?.cells || []).map((cell: NotionRichText[]) => this.richTextToMarkdown(cell).replace(/\|/g, '\\|').replace(/\n/g, '<br>'))
+        );
+        if (rows.length === 0) return '';
+        const width = Math.max(...rows.map((row) => row.length));
+        const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] || '').join(' | ')} |`;
+        const [header, ...body] = rows;
+        return [line(header), line(new Array(width).fill('---')), ...body.map(line)].join('\n');
+      }
+
+      case 'image':
+        // Notion-hosted file URLs expire, so only external images are linked
+        return value.type === 'external' ? `![${caption}](${fileUrl})` : `[Image: ${caption || value.name || 'image'}]`;
+
+      case 'file':
+      case 'pdf':
+      case 'video':
+      case 'audio':
+        return `[Attachment: ${caption || value.name || fileUrl || block.type}]`;
+
+      case 'bookmark':
+      case 'embed':
+      case 'link_preview':
+        return fileUrl ? (caption ? `[${caption}](${fileUrl})` : `<${fileUrl}>`) : '';
+
+      case 'child_page':
+        return `[Page: ${value.title}]`;
+
+      case 'child_database':
+        return `[Database: ${value.title}]`;
+
+      case 'table_of_contents':
+      case 'breadcrumb':
+      case 'unsupported':
+        return '';
+
+      default:
+        // column_list, column, synced_block, ...: keep the content
+        return children || text;
+    }
+  }
+
+  /**
+   * Fetch a page and convert its blocks to markdown
+   */
+  async fetchPage(ctx: ServiceContext, page: string): Promise<ImportedPage> {
+    const apiKey = await this.requireApiKey(ctx);
+    const pageId = this.parsePageId(page);
+
+    const data = await this.notionGet<{
+      id: string;
+      url: string;
+      last_edited_time?: string;
+      properties: Record<string, { type: string; title?: NotionRichText[] }>;
+    }>(apiKey, `/pages/${pageId}`);
+
+    const titleProperty = Object.values(data.properties || {}).find((property) => property.type === 'title');
+    const blocks = await this.fetchBlocks(apiKey, pageId, { remaining: MAX_IMPORTED_BLOCKS });
+
+    return {
+      platform: 'notion',
+      id: data.id,
+      title: (titleProperty?.title || []).map((part) => part.plain_text).join('') || 'Untitled',
+      url: data.url,
+      markdown: this.blocksToMarkdown(blocks),
+      lastEdited: data.last_edited_time,
+    };
+  }
+
+  /**
+   * When a page was last edited, or null if it was deleted or archived
+   * Notion rounds last_edited_time down to the minute, so edits within a minute of an export look the same
+   */
+  async getPageLastEdited(ctx: ServiceContext, pageId: string): Promise<string | null> {
+    const apiKey = await this.requireApiKey(ctx);
+
+    try {
+      const data = await this.notionGet<{ last_edited_time: string; archived?: boolean; in_trash?: boolean }>(
+        apiKey,
+        `/pages/${pageId}`
+      );
+      return data.archived || data.in_trash ? null : data.last_edited_time;
+    } catch (error: any) {
+      if (error.message.includes('Notion API error: 404')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the title and the top-level content blocks of an existing page, keeping its sub-pages and databases
+   */
+  async replacePageContent(
+    ctx: ServiceContext,
+    pageId: string,
     title: string,
     content: string
   ): Promise<{ id: string; url: string }> {
-    if (!this.isConfigured()) {
-      throw new Error('Notion integration is not configured');
+    const apiKey = await this.requireApiKey(ctx);
+    const headers = {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+      'Notion-Version': '2022-06-28',
+    };
+
+    try {
+      const response = await fetch(`https://api.notion.com/v1/pages/${pageId}`, {
+        method: 'PATCH',
+        headers,
+        body: JSON.stringify({
+          properties: {
+            title: {
+              title: [{ type: 'text', text: { content: title } }],
+            },
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Notion API error: ${response.status} - ${errorText}`);
+      }
+
+      const data = await response.json() as { id: string; url: string };
+
+      // Top-level blocks only (listed at the depth limit); deleting a block deletes its nested blocks too
+      const existing = await this.fetchBlocks(apiKey, pageId, { remaining: Infinity }, MAX_BLOCK_DEPTH);
+      for (const block of existing.filter((b) => !PRESERVED_BLOCK_TYPES.has(b.type))) {
+        const deleted = await fetch(`https://api.notion.com/v1/blocks/${block.id}`, { method: 'DELETE', headers });
+        if (!deleted.ok && deleted.status !== 404) {
+          const errorText = await deleted.text();
+          throw new Error(`Notion API error: ${deleted.status} - ${errorText}`);
+        }
+      }
+
+      for (const batch of chunkNotionBlocks(markdownToNotionBlocks(content))) {
+        await this.appendBlocks(apiKey, pageId, batch);
+      }
+
+      return {
+        id: data.id,
+        url: data.url,
+      };
+    } catch (error: any) {
+      console.error('Error updating Notion page:', error);
+      throw new Error(`Failed to update Notion page: ${error.message}`);
     }
+  }
 
-    const allBlocks = this.markdownToNotionBlocks(content);
+  async createPage(
+    ctx: ServiceContext,
+    parentPageId: string,
+    title: string,
+    content: string
+  ): Promise<{ id: string; url: string }> {
+    const apiKey = await this.requireApiKey(ctx);
 
-    // Split blocks into chunks of 100 (Notion API limit)
-    const initialBlocks = allBlocks.slice(0, 100);
-    const remainingBlocks = allBlocks.slice(100);
+    // The page is created with the first batch of blocks (Notion API limit); the rest are appended
+    const [initialBlocks = [], ...remainingBatches] = chunkNotionBlocks(markdownToNotionBlocks(content));
 
     const payload = {
       parent: { page_id: parentPageId },
@@ -142,11 +391,11 @@ export class NotionService {
     };
 
     try {
-      // Create the page with the first 100 blocks
+      // Create the page with the first batch of blocks
       const response = await fetch('https://api.notion.com/v1/pages', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
+          'Authorization': `Bearer ${apiKey}`,
           'Content-Type': 'application/json',
           'Notion-Version': '2022-06-28',
         },
@@ -160,12 +409,9 @@ export class NotionService {
 
       const data = await response.json() as { id: string; url: string };
 
-      // Append remaining blocks in batches of 100
-      if (remainingBlocks.length > 0) {
-        for (let i = 0; i < remainingBlocks.length; i += 100) {
-          const batch = remainingBlocks.slice(i, i + 100);
-          await this.appendBlocks(data.id, batch);
-        }
+      // Append remaining blocks batch by batch
+      for (const batch of remainingBatches) {
+        await this.appendBlocks(apiKey, data.id, batch);
       }
 
       return {
@@ -0,0 +1,129 @@
+import type { PRDDiff, PRDDiffLine, PRDSectionDiff } from '../../../shared/types/prd';
+import { prdSectionService, type PRDSection } from './prd-sections';
+
+/**
+ * PRD Diff Service - Section-aware comparison of PRD markdown
+ * Splits documents on the `##` headings of the PRD template and diffs each section line by line
+ */
+export class PrdDiffService {
+  /**
+   * Diff two PRD versions section by section
+   */
+  diff(fromMarkdown: string, toMarkdown: string, fromVersion: number, toVersion: number): PRDDiff {
+    const fromSections = this.keySections(prdSectionService.splitSections(fromMarkdown));
+    const toSections = this.keySections(prdSectionService.splitSections(toMarkdown));
+    const fromByKey = new Map(fromSections.map((s) => [s.key, s]));
+    const toKeys = new Set(toSections.map((s) => s.key));
+
+    const sections: PRDSectionDiff[] = [];
+
+    for (const section of toSections) {
+      const previous = fromByKey.get(section.key);
+      if (!previous) {
+        const lines = this.toLines(section.content).map((text): PRDDiffLine => ({ type: 'added', text }));
+        sections.push({ heading: section.heading, status: 'added', additions: lines.length, deletions: 0, lines });
+        continue;
+      }
+
+      if (this.normalize(previous.content) === this.normalize(section.content)) {
+        sections.push({ heading: section.heading, status: 'unchanged', additions: 0, deletions: 0, lines: [] });
+        continue;
+      }
+
+      const lines = this.diffLines(this.toLines(previous.content), this.toLines(section.content));
+      sections.push({
+        heading: section.heading,
+        status: 'modified',
+        additions: lines.filter((l) => l.type === 'added').length,
+        deletions: lines.filter((l) => l.type === 'removed').length,
+        lines,
+      });
+    }
+
+    // Sections that only exist in the older version
+    for (const section of fromSections) {
+      if (toKeys.has(section.key)) continue;
+      const lines = this.toLines(section.content).map((text): PRDDiffLine => ({ type: 'removed', text }));
+      sections.push({ heading: section.heading, status: 'removed', additions: 0, deletions: lines.length, lines });
+    }
+
+    return {
+      fromVersion,
+      toVersion,
+      sections,
+      stats: {
+        additions: sections.reduce((sum, s) => sum + s.additions, 0),
+        deletions: sections.reduce((sum, s) => sum + s.deletions, 0),
+        sectionsChanged: sections.filter((s) => s.status !== 'unchanged').length,
+      },
+    };
+  }
+
+  /**
+   * Line diff of two plain-text documents (e.g. a Jira description before and after an edit)
+   */
+  diffText(fromText: string, toText: string): PRDDiffLine[] {
+    return this.diffLines(this.toLines(fromText.replace(/\r\n/g, '\n')), this.toLines(toText.replace(/\r\n/g, '\n')));
+  }
+
+  /**
+   * Give repeated headings a stable key (e.g. a second "Notes" section becomes "notes#2")
+   */
+  private keySections(sections: PRDSection[]): Array<PRDSection & { key: string }> {
+    const seen = new Map<string, number>();
+    return sections.map((section) => {
+      const base = section.heading.trim().toLowerCase();
+      const count = (seen.get(base) || 0) + 1;
+      seen.set(base, count);
+      return { ...section, key: count > 1 ? `${base}#${count}` : base };
+    });
+  }
+
+  private normalize(content: string): string {
+    return content.replace(/[ \t]+$/gm, '').trim();
+  }
+
+  private toLines(content: string): string[] {
+    const lines = content.split('\n');
+    // Trim leading/trailing blank lines so spacing changes between sections don't show up
+    while (lines.length > 0 && lines[0].trim() === '') lines.shift();
+    while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
+    return lines;
+  }
+
+  /**
+   * Line diff based on the longest common subsequence
+   */
+  private diffLines(from: string[], to: string[]): PRDDiffLine[] {
+    const n = from.length;
+    const m = to.length;
+    const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = from[i] === to[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    const lines: PRDDiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (from[i] === to[j]) {
+        lines.push({ type: 'unchanged', text: from[i] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        lines.push({ type: 'removed', text: from[i++] });
+      } else {
+        lines.push({ type: 'added', text: to[j++] });
+      }
+    }
+    while (i < n) lines.push({ type: 'removed', text: from[i++] });
+    while (j < m) lines.push({ type: 'added', text: to[j++] });
+
+    return lines;
+  }
+}
+
+export const prdDiffService = new PrdDiffService();
@@ -0,0 +1,324 @@
+import { prdSectionService, PREAMBLE_HEADING } from './prd-sections';
+import type { PRDDocument } from '../../../shared/types/prd';
+
+interface Subsection {
+  heading: string;
+  body: string;
+}
+
+type SectionField = Exclude<keyof PRDDocument, 'title' | 'otherSections'>;
+
+// Which PRDDocument field a `##` heading fills, tried in order; the first unused match wins.
+// Competitive analysis comes before problem because "How are others solving this problem?" mentions "problem"
+const SECTION_MATCHERS: Array<{ field: SectionField; pattern: RegExp }> = [
+  { field: 'competitiveAnalysis', pattern: /\b(others|competit\w*|alternatives?)\b/ },
+  { field: 'problem', pattern: /\bproblem\b/ },
+  { field: 'successMetrics', pattern: /\b(measure success|success metrics?|kpis?|metrics)\b/ },
+  { field: 'solution', pattern: /\b(solution|proposal|approach)\b/ },
+  { field: 'analytics', pattern: /\b(analytics|tracking|instrumentation)\b/ },
+  { field: 'design', pattern: /\b(design|ux|ui)\b/ },
+  { field: 'timeline', pattern: /\b(timeline|release|milestones?|roadmap)\b/ },
+  { field: 'goToMarket', pattern: /\b(go to market|gtm|launch)\b/ },
+  { field: 'actionItems', pattern: /\b(action items?|checklist)\b/ },
+  { field: 'feedback', pattern: /\bfeedback\b/ },
+  { field: 'learnings', pattern: /\b(learnings?|next steps)\b/ },
+  { field: 'appendix', pattern: /\bappendix\b/ },
+];
+
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s*)?(.*)$/;
+
+/**
+ * PRD Document Service - Parse PRD markdown into a structured PRDDocument and render it back
+ * Sections are matched by heading keywords, so PRDs that reword the template headings still parse
+ */
+export class PrdDocumentService {
+  /**
+   * Parse PRD markdown into a PRDDocument
+   * Sections that don't map to a PRDDocument field are kept in otherSections
+   */
+  parse(markdown: string): PRDDocument {
+    const document = this.emptyDocument();
+    const used = new Set<SectionField>();
+
+    for (const section of prdSectionService.splitSections(markdown)) {
+      if (section.heading === PREAMBLE_HEADING) {
+        const title = section.content.match(/^#\s+(.+?)\s*$/m)?.[1];
+        if (title) document.title = title;
+        continue;
+      }
+
+      const body = this.sectionBody(section.content);
+      const key = this.normalize(section.heading);
+      const match = SECTION_MATCHERS.find(({ field, pattern }) => !used.has(field) && pattern.test(key));
+
+      if (!match) {
+        document.otherSections = [...(document.otherSections || []), { heading: section.heading, content: body }];
+        continue;
+      }
+
+      used.add(match.field);
+      this.fillField(document, match.field, body);
+    }
+
+    return document;
+  }
+
+  /**
+   * Render a PRDDocument as markdown following the built-in PRD template
+   */
+  render(document: PRDDocument): string {
+    const list = (items: string[]) => items.map((item) => `- ${item}`).join('\n');
+    const faqs = document.goToMarket.faqs
+      .map((faq) => `**Q: ${faq.question}**\n\nA: ${faq.answer}`)
+      .join('\n\n');
+    const actionGroup = (name: string, items: string[]) =>
+      [`- [ ] ${name}`, ...items.map((item) => `    - [ ] ${item}`)].join('\n');
+
+    const sections: Array<[string, string]> = [
+      ['What problem are we solving?', document.problem],
+      ['How do we measure success?', list(document.successMetrics)],
+      ['How are others solving this problem?', document.competitiveAnalysis],
+      [
+        'What is the solution?',
+        [
+          `### Requirements overview\n\n${document.solution.overview}`,
+          `### User stories / User flow\n\n${[list(document.solution.userStories), document.solution.userFlow]
+            .filter(Boolean)
+            .join('\n\n')}`,
+          `### Requirements\n\n${list(document.solution.requirements)}`,
+        ].join('\n\n'),
+      ],
+      ['Design', document.design],
+      ['Analytics', list(document.analytics)],
+      ['Timeline/Release Planning', document.timeline],
+      [
+        'Go to market',
+        [
+          `### Marketing\n\n${document.goToMarket.marketing}`,
+          `### Ops & Sales training\n\n${document.goToMarket.opsAndSalesTraining}`,
+          `### Frequently asked questions (FAQs)\n\n${faqs}`,
+        ].join('\n\n'),
+      ],
+      [
+        'Action items / checklist',
+        [
+          actionGroup('Product', document.actionItems.product),
+          actionGroup('Business', document.actionItems.business),
+          actionGroup('Design', document.actionItems.design),
+        ].join('\n'),
+      ],
+      ['Feedback', document.feedback],
+      ['Learnings & Next steps', document.learnings],
+      ['Appendix', `### Meeting notes\n\n${list(document.appendix.meetingNotes)}`],
+      ...(document.otherSections || []).map((section): [string, string] => [section.heading, section.content]),
+    ];
+
+    const body = sections.map(([heading, content]) => `## ${heading}\n\n${content.trim()}`.trim()).join('\n\n---\n\n');
+    return `# ${document.title}\n\n${body}\n`;
+  }
+
+  private emptyDocument(): PRDDocument {
+    return {
+      title: 'Untitled PRD',
+      problem: '',
+      successMetrics: [],
+      competitiveAnalysis: '',
+      solution: { overview: '', userStories: [], userFlow: '', requirements: [] },
+      design: '',
+      analytics: [],
+      timeline: '',
+      goToMarket: { marketing: '', opsAndSalesTraining: '', faqs: [] },
+      actionItems: { product: [], business: [], design: [] },
+      feedback: '',
+      learnings: '',
+      appendix: { meetingNotes: [] },
+    };
+  }
+
+  private fillField(document: PRDDocument, field: SectionField, body: string): void {
+    switch (field) {
+      case 'successMetrics':
+      case 'analytics':
+        document[field] = this.listItems(body);
+        break;
+      case 'solution':
+        document.solution = this.parseSolution(body);
+        break;
+      case 'goToMarket':
+        document.goToMarket = this.parseGoToMarket(body);
+        break;
+      case 'actionItems':
+        document.actionItems = this.parseActionItems(body);
+        break;
+      case 'appendix': {
+        const { intro, subsections } = this.splitSubsections(body);
+        const notes = subsections.find((s) => /meeting/.test(this.normalize(s.heading)));
+        document.appendix = { meetingNotes: this.listItems(notes ? notes.body : intro) };
+        break;
+      }
+      default:
+        document[field] = body;
+    }
+  }
+
+  private parseSolution(body: string): PRDDocument['solution'] {
+    const { intro, subsections } = this.splitSubsections(body);
+    const find = (pattern: RegExp) => subsections.find((s) => pattern.test(this.normalize(s.heading)));
+
+    const overview = find(/\boverview\b/);
+    const stories = find(/\buser stor/);
+    const flow = find(/\buser flow\b/);
+    const requirements = subsections.find((s) => s !== overview && /\brequirements?\b/.test(this.normalize(s.heading)));
+
+    // "User stories / User flow" holds both: "As a ..." items are stories, everything else describes the flow
+    const storySource = stories?.body || '';
+    const isStory = (line: string) => /^as an?\b/i.test(line.match(LIST_ITEM)?.[2].trim() || '');
+    const separateFlow = flow && flow !== stories;
+
+    const userStories = separateFlow
+      ? this.listItems(storySource, { fallbackToLines: false })
+      : this.listItems(storySource.split('\n').filter(isStory).join('\n'), { fallbackToLines: false });
+    const userFlow = separateFlow
+      ? flow.body
+      : storySource
+          .split('\n')
+          .filter((line) => !isStory(line))
+          .join('\n')
+          .trim();
+
+    return {
+      overview: overview?.body || intro,
+      userStories:
+        userStories.length > 0
+          ? userStories
+          : this.listItems(body.split('\n').filter(isStory).join('\n'), { fallbackToLines: false }),
+      userFlow,
+      requirements: requirements ? this.listItems(requirements.body) : [],
+    };
+  }
+
+  private parseGoToMarket(body: string): PRDDocument['goToMarket'] {
+    const { intro, subsections } = this.splitSubsections(body);
+    const find = (pattern: RegExp) => subsections.find((s) => pattern.test(this.normalize(s.heading)))?.body || '';
+
+    return {
+      marketing: find(/\bmarketing\b/) || intro,
+      opsAndSalesTraining: find(/\b(ops|sales|training|enablement)\b/),
+      faqs: this.parseFaqs(find(/\b(faqs?|frequently asked|questions)\b/)),
+    };
+  }
+
+  /**
+   * FAQs as "Q: ... / A: ..." pairs, bold questions, or `####` question headings
+   * A question is any line (after list markers, bold and "Q:" are removed) that ends with "?"
+   */
+  private parseFaqs(body: string): Array<{ question: string; answer: string }> {
+    const faqs: Array<{ question: string; answer: string[] }> = [];
+
+    for (const rawLine of body.split('\n')) {
+      const line = rawLine
+        .trim()
+        .replace(/^#{3,6}\s+/, '')
+        .replace(/^(?:[-*+]|\d+[.)])\s+/, '')
+        .replace(/\*\*/g, '')
+        .trim();
+      if (!line) continue;
+
+      const question = line.match(/^(?:Q\d*[:.]\s*)?(.+\?)\s*(.*)$/);
+      if (question && !/^A\d*[:.]/.test(line)) {
+        faqs.push({ question: question[1].trim(), answer: question[2] ? [question[2].trim()] : [] });
+      } else if (faqs.length > 0) {
+        faqs[faqs.length - 1].answer.push(line.replace(/^A\d*[:.]\s*/, ''));
+      }
+    }
+
+    return faqs.map((faq) => ({ question: faq.question, answer: faq.answer.join(' ').trim() }));
+  }
+
+  /**
+   * Action items grouped under Product / Business / Design, as nested checklists or `###` sub-headings
+   */
+  private parseActionItems(body: string): PRDDocument['actionItems'] {
+    const actionItems: PRDDocument['actionItems'] = { product: [], business: [], design: [] };
+    const groupOf = (text: string): keyof PRDDocument['actionItems'] | undefined => {
+      const key = this.normalize(text);
+      if (/^product\b/.test(key)) return 'product';
+      if (/^business\b/.test(key)) return 'business';
+      if (/^design\b/.test(key)) return 'design';
+      return undefined;
+    };
+
+    let group: keyof PRDDocument['actionItems'] | undefined;
+    for (const line of body.split('\n')) {
+      const heading = line.match(/^#{3,6}\s+(.+?)\s*$/);
+      const item = line.match(LIST_ITEM);
+      const text = (heading?.[1] || item?.[2] || '').replace(/\*\*/g, '').trim();
+      if (!text) continue;
+
+      // A bare group name (heading or top-level checklist item) starts a new group
+      const named = groupOf(text);
+      if (named && (heading || text.replace(/[:\s]+$/, '').split(/\s+/).length === 1)) {
+        group = named;
+      } else if (item && group) {
+        actionItems[group].push(text);
+      }
+    }
+
+    return actionItems;
+  }
+
+  /**
+   * List item texts (nested items are flattened into the list); sections without a list fall back to their lines
+   */
+  private listItems(body: string, options: { fallbackToLines?: boolean } = {}): string[] {
+    const lines = body.split('\n');
+    const items = lines
+      .map((line) => line.match(LIST_ITEM)?.[2].trim())
+      .filter((item): item is string => !!item);
+
+    if (items.length > 0 || options.fallbackToLines === false) {
+      return items;
+    }
+    return lines.map((line) => line.trim()).filter((line) => line && !/^#{1,6}\s/.test(line));
+  }
+
+  /**
+   * Split a section body on `###` sub-headings
+   */
+  private splitSubsections(body: string): { intro: string; subsections: Subsection[] } {
+    const subsections: Subsection[] = [];
+    const intro: string[] = [];
+    let current: { heading: string; lines: string[] } | null = null;
+
+    for (const line of body.split('\n')) {
+      const heading = line.match(/^###\s+(.+?)\s*$/);
+      if (heading) {
+        if (current) subsections.push({ heading: current.heading, body: current.lines.join('\n').trim() });
+        current = { heading: heading[1], lines: [] };
+      } else if (current) {
+        current.lines.push(line);
+      } else {
+        intro.push(line);
+      }
+    }
+    if (current) subsections.push({ heading: current.heading, body: current.lines.join('\n').trim() });
+
+    return { intro: intro.join('\n').trim(), subsections };
+  }
+
+  /**
+   * Section content without its `##` heading line and trailing `---` separator
+   */
+  private sectionBody(content: string): string {
+    return content
+      .replace(/^##\s+.*\n?/, '')
+      .replace(/\n+\s*---\s*\n*$/, '')
+      .trim();
+  }
+
+  private normalize(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  }
+}
+
+export const prdDocumentService = new PrdDocumentService();
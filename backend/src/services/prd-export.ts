@@ -0,0 +1,170 @@
+import type { Prd, PrdExternalPage } from '@prisma/client';
+import { prisma } from './database';
+import { confluenceService } from './confluence';
+import { notionService } from './notion';
+import type { ServiceContext } from './service-context';
+import type { ExportConflict, ExportPRDRequest, PagePlatform, PRDExternalPage } from '../../../shared/types';
+
+export type ExportOutcome =
+  | { status: 'created' | 'updated'; pageId: string; url: string }
+  | { status: 'conflict'; pageId: string; url: string; conflict: ExportConflict };
+
+/**
+ * PRD Export Service - Exports PRDs to Confluence and Notion, one page per PRD and platform
+ * Re-exports update the remembered page in place, unless it was edited outside the app since the last export
+ */
+export class PrdExportService {
+  private static instance: PrdExportService;
+
+  private constructor() {
+    console.log('📤 PRD Export Service initialized');
+  }
+
+  static getInstance(): PrdExportService {
+    if (!PrdExportService.instance) {
+      PrdExportService.instance = new PrdExportService();
+    }
+    return PrdExportService.instance;
+  }
+
+  async listPages(prdId: string): Promise<PRDExternalPage[]> {
+    const rows = await prisma.prdExternalPage.findMany({
+      where: { prdId },
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map((row) => this.toPage(row));
+  }
+
+  /**
+   * Export a PRD, updating the page it was last exported to when there is one
+   * Without a PRD (or on its first export to the platform) a new page is created
+   */
+  async exportPrd(ctx: ServiceContext, prd: Prd | null, request: ExportPRDRequest): Promise<ExportOutcome> {
+    const { platform, title, content } = request;
+    const existing = prd
+      ? await prisma.prdExternalPage.findUnique({ where: { prdId_platform: { prdId: prd.id, platform } } })
+      : null;
+
+    if (existing) {
+      const outcome = await this.updatePage(ctx, prd!, existing, title, content, request.force);
+      if (outcome) {
+        return outcome;
+      }
+      console.log(`📤 ${platform} page ${existing.pageId} of PRD ${prd!.id} no longer exists, creating a new one`);
+    }
+
+    const spaceKey = request.spaceKey || existing?.spaceKey || undefined;
+    const parentPageId = request.parentPageId || existing?.parentPageId || undefined;
+
+    if (platform === 'confluence' && !spaceKey) {
+      throw new Error('Space key is required for Confluence export');
+    }
+    if (platform === 'notion' && !parentPageId) {
+      throw new Error('Parent page ID is required for Notion export');
+    }
+
+    let created: { id: string; url: string };
+    let pageVersion: number | null = null;
+    let lastEdited: string | null = null;
+
+    if (platform === 'confluence') {
+      const page = await confluenceService.createPage(ctx, spaceKey!, title, content, parentPageId);
+      created = page;
+      pageVersion = page.version;
+    } else {
+      created = await notionService.createPage(ctx, parentPageId!, title, content);
+      lastEdited = await notionService.getPageLastEdited(ctx, created.id);
+    }
+
+    if (prd) {
+      const data = {
+        pageId: created.id,
+        url: created.url,
+        spaceKey: spaceKey || null,
+        parentPageId: parentPageId || null,
+        pageVersion,
+        lastEdited,
+        prdVersion: prd.version,
+      };
+      await prisma.prdExternalPage.upsert({
+        where: { prdId_platform: { prdId: prd.id, platform } },
+        create: { prdId: prd.id, platform, ...data },
+        update: data,
+      });
+    }
+
+    return { status: 'created', pageId: created.id, url: created.url };
+  }
+
+  /**
+   * Update the remembered page; returns null if the page was deleted
+   */
+  private async updatePage(
+    ctx: ServiceContext,
+    prd: Prd,
+    existing: PrdExternalPage,
+    title: string,
+    content: string,
+    force?: boolean
+  ): Promise<ExportOutcome | null> {
+    if (existing.platform === 'confluence') {
+      const current = await confluenceService.getPageVersion(ctx, existing.pageId);
+      if (!current) {
+        return null;
+      }
+
+      if (!force && existing.pageVersion !== null && current.number !== existing.pageVersion) {
+        return {
+          status: 'conflict',
+          pageId: existing.pageId,
+          url: existing.url,
+          conflict: { lastEdited: current.when, editedBy: current.by },
+        };
+      }
+
+      const updated = await confluenceService.updatePage(ctx, existing.pageId, title, content, current.number);
+      await prisma.prdExternalPage.update({
+        where: { id: existing.id },
+        data: { url: updated.url, pageVersion: updated.version, prdVersion: prd.version },
+      });
+      return { status: 'updated', pageId: updated.id, url: updated.url };
+    }
+
+    const lastEdited = await notionService.getPageLastEdited(ctx, existing.pageId);
+    if (!lastEdited) {
+      return null;
+    }
+
+    if (!force && existing.lastEdited && lastEdited !== existing.lastEdited) {
+      return {
+        status: 'conflict',
+        pageId: existing.pageId,
+        url: existing.url,
+        conflict: { lastEdited },
+      };
+    }
+
+    const updated = await notionService.replacePageContent(ctx, existing.pageId, title, content);
+    await prisma.prdExternalPage.update({
+      where: { id: existing.id },
+      data: {
+        url: updated.url,
+        lastEdited: await notionService.getPageLastEdited(ctx, existing.pageId),
+        prdVersion: prd.version,
+      },
+    });
+    return { status: 'updated', pageId: updated.id, url: updated.url };
+  }
+
+  private toPage(row: PrdExternalPage): PRDExternalPage {
+    return {
+      platform: row.platform as PagePlatform,
+      pageId: row.pageId,
+      url: row.url,
+      prdVersion: row.prdVersion,
+      exportedAt: row.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const prdExportService = PrdExportService.getInstance();
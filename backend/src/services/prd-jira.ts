@@ -0,0 +1,175 @@
+import type { Prd, PrdJiraIssue } from '@prisma/client';
+import { prisma } from './database';
+import { jiraService } from './jira';
+import { prdDocumentService } from './prd-document';
+import { createJiraIssuesPrompt, JIRA_ISSUES_SCHEMA, JIRA_ISSUES_SYSTEM_PROMPT } from '../prompts/jira-issues';
+import type { ServiceContext } from './service-context';
+import type { JiraEpicProposal, PRDJiraIssue } from '../../../shared/types/jira';
+
+const EPIC_ISSUE_TYPE = 'Epic';
+const STORY_ISSUE_TYPE = 'Story';
+
+/**
+ * PRD Jira Service - Turns a PRD into a Jira epic with child stories ("push to Jira")
+ * The user reviews and edits the proposal before any issue is created; created keys are stored against the PRD
+ */
+export class PrdJiraService {
+  private static instance: PrdJiraService;
+
+  private constructor() {
+    console.log('🎫 PRD Jira Service initialized');
+  }
+
+  static getInstance(): PrdJiraService {
+    if (!PrdJiraService.instance) {
+      PrdJiraService.instance = new PrdJiraService();
+    }
+    return PrdJiraService.instance;
+  }
+
+  /**
+   * Propose an epic and stories from the PRD's user stories and requirements
+   * Throws if the PRD has neither, since there would be nothing to break down
+   */
+  async proposeIssues(ctx: ServiceContext, prd: Prd, projectKey: string): Promise<JiraEpicProposal> {
+    const document = prdDocumentService.parse(prd.markdown);
+    if (document.solution.userStories.length === 0 && document.solution.requirements.length === 0) {
+      throw new Error('The PRD has no user stories or requirements to turn into Jira issues');
+    }
+
+    const provider = await ctx.getLLMProvider();
+    const proposal = await provider.generateJSON<Omit<JiraEpicProposal, 'projectKey'>>({
+      prompt: createJiraIssuesPrompt(document),
+      systemPrompt: JIRA_ISSUES_SYSTEM_PROMPT,
+      schema: JIRA_ISSUES_SCHEMA,
+      maxOutputTokens: 8192,
+      temperature: 0.4,
+    });
+
+    return {
+      projectKey,
+      epic: {
+        summary: proposal.epic.summary.trim() || document.title,
+        description: proposal.epic.description.trim(),
+      },
+      stories: proposal.stories
+        .filter((story) => story.summary?.trim())
+        .map((story) => ({
+          summary: story.summary.trim(),
+          description: story.description.trim(),
+          acceptanceCriteria: story.acceptanceCriteria.map((criterion) => criterion.trim()).filter(Boolean),
+          ...(story.sourceRequirement?.trim() && { sourceRequirement: story.sourceRequirement.trim() }),
+        })),
+    };
+  }
+
+  /**
+   * Create the epic, then each story under it, and link every created issue back to the PRD
+   * If the epic fails nothing is created; a failed story is reported and the remaining stories are still created
+   */
+  async pushProposal(
+    ctx: ServiceContext,
+    prd: Prd,
+    proposal: JiraEpicProposal
+  ): Promise<{ epic: PRDJiraIssue; stories: PRDJiraIssue[]; errors: string[] }> {
+    const prdUrl = this.getPrdUrl(prd.id);
+
+    const createdEpic = await jiraService.createIssue(ctx, {
+      projectKey: proposal.projectKey,
+      issueType: EPIC_ISSUE_TYPE,
+      summary: proposal.epic.summary,
+      description: `${proposal.epic.description}\n\nSource PRD: ${prd.title} (v${prd.version})`,
+    });
+    const epic = await this.saveIssue(prd, createdEpic, EPIC_ISSUE_TYPE, proposal.epic.summary);
+    await this.linkToPrd(ctx, epic.key, prd, prdUrl);
+
+    const stories: PRDJiraIssue[] = [];
+    const errors: string[] = [];
+
+    // One at a time, so issue keys follow the proposal order
+    for (const story of proposal.stories) {
+      try {
+        const createdStory = await jiraService.createIssue(ctx, {
+          projectKey: proposal.projectKey,
+          issueType: STORY_ISSUE_TYPE,
+          summary: story.summary,
+          description: story.description,
+          acceptanceCriteria: story.acceptanceCriteria,
+          parentKey: epic.key,
+        });
+        const saved = await this.saveIssue(prd, createdStory, STORY_ISSUE_TYPE, story.summary, epic.key);
+        await this.linkToPrd(ctx, saved.key, prd, prdUrl);
+        stories.push(saved);
+      } catch (error: any) {
+        console.error(`Error creating Jira story "${story.summary}":`, error);
+        errors.push(error.message);
+      }
+    }
+
+    console.log(`🎫 Pushed PRD ${prd.id} to Jira: ${epic.key} with ${stories.length} stories`);
+    return { epic, stories, errors };
+  }
+
+  /**
+   * Jira issues created from a PRD, oldest first (the epic before its stories)
+   */
+  async listIssues(prdId: string): Promise<PRDJiraIssue[]> {
+    const rows = await prisma.prdJiraIssue.findMany({
+      where: { prdId },
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map((row) => this.toIssue(row));
+  }
+
+  private async saveIssue(
+    prd: Prd,
+    created: { key: string; url: string },
+    issueType: string,
+    summary: string,
+    parentKey?: string
+  ): Promise<PRDJiraIssue> {
+    const row = await prisma.prdJiraIssue.create({
+      data: {
+        prdId: prd.id,
+        prdVersion: prd.version,
+        issueKey: created.key,
+        issueType,
+        summary,
+        parentKey,
+        url: created.url,
+      },
+    });
+    return this.toIssue(row);
+  }
+
+  // The web link is a convenience; a Jira instance that rejects it shouldn't fail the push
+  private async linkToPrd(ctx: ServiceContext, issueKey: string, prd: Prd, prdUrl: string): Promise<void> {
+    try {
+      await jiraService.addRemoteLink(ctx, issueKey, prdUrl, `PRD: ${prd.title}`);
+    } catch (error: any) {
+      console.warn(`⚠️  Could not link ${issueKey} back to PRD ${prd.id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Frontend URL that opens the PRD, used for links from Jira back to the PRD
+   */
+  getPrdUrl(prdId: string): string {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+    return `${frontendUrl}/?prd=${encodeURIComponent(prdId)}`;
+  }
+
+  private toIssue(row: PrdJiraIssue): PRDJiraIssue {
+    return {
+      key: row.issueKey,
+      url: row.url,
+      issueType: row.issueType,
+      summary: row.summary,
+      ...(row.parentKey && { parentKey: row.parentKey }),
+      prdVersion: row.prdVersion,
+      createdAt: row.createdAt.toISOString(),
+    };
+  }
+}
+
+export const prdJiraService = PrdJiraService.getInstance();
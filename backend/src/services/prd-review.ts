@@ -0,0 +1,172 @@
+import type { PrdReview } from '@prisma/client';
+import { prisma } from './database';
+import type {
+  ReviewResult,
+  ReviewSections,
+  ReviewGapCounts,
+  PRDReviewSummary,
+  PRDReviewRecord,
+  PRDScoreTrend,
+  PRDScoreTrendPoint,
+} from '../../../shared/types/review';
+
+const GAP_CATEGORIES: Array<keyof ReviewSections> = [
+  'missingSections',
+  'unclearRequirements',
+  'edgeCases',
+  'technicalRisks',
+  'complianceGaps',
+  'metricsGaps',
+  'uxGaps',
+  'goToMarketGaps',
+];
+
+/**
+ * PRD Review Service - Stores review results and tracks how scores change across revisions
+ */
+export class PrdReviewService {
+  private static instance: PrdReviewService;
+
+  private constructor() {
+    console.log('🔍 PRD Review Service initialized');
+  }
+
+  static getInstance(): PrdReviewService {
+    if (!PrdReviewService.instance) {
+      PrdReviewService.instance = new PrdReviewService();
+    }
+    return PrdReviewService.instance;
+  }
+
+  /**
+   * Store a review result
+   */
+  async saveReview(
+    userId: string,
+    data: {
+      review: ReviewResult;
+      model: string;
+      promptVersion: string;
+      source: 'text' | 'document';
+      prdId?: string;
+      prdVersion?: number;
+    }
+  ): Promise<PrdReview> {
+    return prisma.prdReview.create({
+      data: {
+        userId,
+        prdId: data.prdId,
+        prdVersion: data.prdVersion,
+        source: data.source,
+        overallScore: data.review.overallScore,
+        result: JSON.stringify(data.review),
+        model: data.model,
+        promptVersion: data.promptVersion,
+        rubricVersion: data.review.rubricVersion,
+      },
+    });
+  }
+
+  /**
+   * List reviews of a PRD owned by the user, newest first
+   */
+  async listReviews(userId: string, prdId: string): Promise<PRDReviewSummary[]> {
+    const reviews = await prisma.prdReview.findMany({
+      where: { prdId, userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return reviews.map((review) => this.toSummary(review));
+  }
+
+  /**
+   * Get a single stored review with its full result
+   */
+  async getReview(userId: string, reviewId: string): Promise<PRDReviewRecord | null> {
+    const review = await prisma.prdReview.findFirst({
+      where: { id: reviewId, userId },
+    });
+
+    if (!review) {
+      return null;
+    }
+
+    return {
+      ...this.toSummary(review),
+      review: JSON.parse(review.result),
+    };
+  }
+
+  /**
+   * Score and gap-count trend across all reviews of a PRD, oldest first
+   */
+  async getScoreTrend(userId: string, prdId: string): Promise<PRDScoreTrend> {
+    const reviews = await prisma.prdReview.findMany({
+      where: { prdId, userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const points: PRDScoreTrendPoint[] = reviews.map((review) => {
+      const gapCounts = this.countGaps(JSON.parse(review.result));
+      return {
+        reviewId: review.id,
+        prdVersion: review.prdVersion ?? undefined,
+        overallScore: review.overallScore,
+        gapCounts,
+        totalGaps: Object.values(gapCounts).reduce((sum, count) => sum + count, 0),
+        model: review.model,
+        promptVersion: review.promptVersion,
+        ...(review.rubricVersion !== null && { rubricVersion: review.rubricVersion }),
+        createdAt: review.createdAt.toISOString(),
+      };
+    });
+
+    const first = points[0];
+    const latest = points[points.length - 1];
+
+    if (!first || !latest) {
+      return { prdId, points };
+    }
+
+    const gapDelta = {} as ReviewGapCounts;
+    for (const category of GAP_CATEGORIES) {
+      gapDelta[category] = latest.gapCounts[category] - first.gapCounts[category];
+    }
+
+    return {
+      prdId,
+      points,
+      firstScore: first.overallScore,
+      latestScore: latest.overallScore,
+      scoreDelta: latest.overallScore - first.overallScore,
+      gapDelta,
+    };
+  }
+
+  /**
+   * Count findings per review category
+   */
+  countGaps(review: ReviewResult): ReviewGapCounts {
+    const counts = {} as ReviewGapCounts;
+    for (const category of GAP_CATEGORIES) {
+      counts[category] = review.sections?.[category]?.length || 0;
+    }
+    return counts;
+  }
+
+  private toSummary(review: PrdReview): PRDReviewSummary {
+    return {
+      id: review.id,
+      prdId: review.prdId || undefined,
+      prdVersion: review.prdVersion ?? undefined,
+      source: review.source as PRDReviewSummary['source'],
+      overallScore: review.overallScore,
+      model: review.model,
+      promptVersion: review.promptVersion,
+      ...(review.rubricVersion !== null && { rubricVersion: review.rubricVersion }),
+      createdAt: review.createdAt.toISOString(),
+    };
+  }
+}
+
+export const prdReviewService = PrdReviewService.getInstance();
@@ -0,0 +1,103 @@
+export interface PRDSection {
+  heading: string;
+  content: string; // Includes the `##` heading line itself (except for the preamble)
+}
+
+// Heading used for content that appears before the first `##` section (title, intro)
+export const PREAMBLE_HEADING = '(Title)';
+
+// Trailing `---` rule that separates template sections
+const SECTION_SEPARATOR = /\n+\s*---\s*\n*$/;
+
+/**
+ * PRD Section Service - Split PRD markdown into `##` sections and splice sections back in
+ */
+export class PrdSectionService {
+  /**
+   * Split PRD markdown into `##` sections (content before the first section is the preamble)
+   */
+  splitSections(markdown: string): PRDSection[] {
+    const sections: PRDSection[] = [];
+    let current: { heading: string; lines: string[] } = { heading: PREAMBLE_HEADING, lines: [] };
+    let inCodeBlock = false;
+
+    for (const line of markdown.replace(/\r\n/g, '\n').split('\n')) {
+      if (line.trim().startsWith('```')) {
+        inCodeBlock = !inCodeBlock;
+      }
+
+      const headingMatch = !inCodeBlock && line.match(/^##\s+(.+?)\s*$/);
+      if (headingMatch) {
+        sections.push({ heading: current.heading, content: current.lines.join('\n') });
+        current = { heading: headingMatch[1], lines: [line] };
+      } else {
+        current.lines.push(line);
+      }
+    }
+    sections.push({ heading: current.heading, content: current.lines.join('\n') });
+
+    // Drop an empty preamble so documents that start with `##` don't get a phantom section
+    return sections.filter(
+      (section, index) => index > 0 || section.content.trim().length > 0
+    );
+  }
+
+  /**
+   * Join sections back into a markdown document
+   */
+  joinSections(sections: PRDSection[]): string {
+    return sections.map((section) => section.content).join('\n');
+  }
+
+  /**
+   * Compare headings loosely (case, punctuation and emoji are ignored)
+   */
+  headingsMatch(a: string, b: string): boolean {
+    return this.normalizeHeading(a) === this.normalizeHeading(b);
+  }
+
+  /**
+   * Find a section by heading
+   */
+  findSection(markdown: string, heading: string): PRDSection | undefined {
+    return this.splitSections(markdown).find((section) => this.headingsMatch(section.heading, heading));
+  }
+
+  /**
+   * Replace a section's content, keeping the `---` separator that follows it.
+   * If the PRD doesn't have the section yet, it is inserted before the first heading
+   * in `insertBefore` that exists in the document (or appended at the end).
+   */
+  replaceSection(markdown: string, heading: string, newContent: string, insertBefore: string[] = []): string {
+    const sections = this.splitSections(markdown);
+    const index = sections.findIndex((section) => this.headingsMatch(section.heading, heading));
+    const body = newContent.replace(/\r\n/g, '\n').trim();
+
+    if (index >= 0) {
+      const separator = sections[index].content.match(SECTION_SEPARATOR);
+      sections[index] = {
+        heading: sections[index].heading,
+        content: separator ? `${body}\n\n---\n` : `${body}\n`,
+      };
+      return this.joinSections(sections);
+    }
+
+    const insertAt = sections.findIndex((section) =>
+      insertBefore.some((candidate) => this.headingsMatch(section.heading, candidate))
+    );
+    const inserted: PRDSection = { heading, content: `${body}\n\n---\n` };
+
+    if (insertAt >= 0) {
+      sections.splice(insertAt, 0, inserted);
+    } else {
+      sections.push(inserted);
+    }
+    return this.joinSections(sections);
+  }
+
+  private normalizeHeading(heading: string): string {
+    return heading.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  }
+}
+
+export const prdSectionService = new PrdSectionService();
@@ -0,0 +1,354 @@
+import type { Prd, PrdSourceTicket } from '@prisma/client';
+import { prisma } from './database';
+import { jiraService } from './jira';
+import { prdJiraService } from './prd-jira';
+import { prdDiffService } from './prd-diff';
+import { prdSectionService } from './prd-sections';
+import type { ServiceContext } from './service-context';
+import type {
+  JiraTicket,
+  JiraComment,
+  JiraTicketSnapshot,
+  PRDSourceTicket,
+  SourceTicketChange,
+} from '../../../shared/types/jira';
+
+const TICKET_KEY = /^[A-Z][A-Z0-9_]+-\d+$/;
+
+// Regeneration instructions share the section-regenerate limit
+const MAX_INSTRUCTION_LENGTH = 1000;
+
+// Sections sharing fewer keywords than this with a change aren't considered affected by it
+const MIN_KEYWORD_OVERLAP = 2;
+const MAX_AFFECTED_SECTIONS = 3;
+
+const STOPWORDS = new Set([
+  'about', 'also', 'been', 'does', 'each', 'from', 'have', 'into', 'just', 'like', 'more', 'must', 'need',
+  'only', 'should', 'some', 'than', 'that', 'their', 'them', 'then', 'there', 'they', 'this', 'when',
+  'what', 'which', 'will', 'with', 'would', 'were', 'your',
+]);
+
+/**
+ * PRD Source Ticket Service - Keeps a PRD created from Jira linked to its source tickets
+ * Each ticket has a snapshot of what the PRD last reflected; checks compare it with the live ticket
+ */
+export class PrdSourceTicketService {
+  private static instance: PrdSourceTicketService;
+
+  private constructor() {
+    console.log('🔄 PRD Source Ticket Service initialized');
+  }
+
+  static getInstance(): PrdSourceTicketService {
+    if (!PrdSourceTicketService.instance) {
+      PrdSourceTicketService.instance = new PrdSourceTicketService();
+    }
+    return PrdSourceTicketService.instance;
+  }
+
+  /**
+   * Ticket keys in a PRD's sourceId (e.g. "PROJ-1, PROJ-2")
+   */
+  parseTicketKeys(sourceId?: string | null): string[] {
+    const keys = (sourceId || '')
+      .split(/[\s,]+/)
+      .map((key) => key.trim().toUpperCase())
+      .filter((key) => TICKET_KEY.test(key));
+    return Array.from(new Set(keys));
+  }
+
+  /**
+   * Record the source tickets of a newly created PRD
+   * Best effort: if Jira can't be reached now, the first check records the snapshot instead
+   */
+  async linkTickets(ctx: ServiceContext, prd: Prd): Promise<void> {
+    if (prd.source !== 'jira' || this.parseTicketKeys(prd.sourceId).length === 0) {
+      return;
+    }
+
+    try {
+      await this.acknowledge(ctx, prd);
+    } catch (error: any) {
+      console.warn(`⚠️  Could not snapshot source tickets of PRD ${prd.id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Source tickets of a PRD, in sourceId order
+   */
+  async listTickets(ctx: ServiceContext, prd: Prd): Promise<PRDSourceTicket[]> {
+    const rows = await this.ensureRows(prd);
+    return Promise.all(rows.map(async (row) => this.toSourceTicket(row, await jiraService.getIssueUrl(ctx, row.ticketKey))));
+  }
+
+  /**
+   * Compare each source ticket with its snapshot
+   * Tickets without a snapshot (e.g. PRDs created before tickets were tracked) get one recorded as a baseline
+   * sectionHeadings are the PRD template's sections, the candidates for affectedSections
+   */
+  async checkTickets(ctx: ServiceContext, prd: Prd, sectionHeadings: string[]): Promise<SourceTicketChange[]> {
+    const rows = await this.ensureRows(prd);
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const tickets = await jiraService.fetchMultipleTickets(ctx, rows.map((row) => row.ticketKey));
+    const now = new Date();
+
+    const changes = await Promise.all(
+      rows.map(async (row, i): Promise<SourceTicketChange> => {
+        const ticket = tickets[i];
+        const url = await jiraService.getIssueUrl(ctx, row.ticketKey);
+
+        if (!row.snapshot) {
+          await this.saveSnapshot(row.id, ticket, now);
+          return {
+            key: row.ticketKey,
+            url,
+            summary: ticket.summary,
+            updated: ticket.updated,
+            changed: false,
+            baseline: true,
+            newComments: [],
+            editedComments: [],
+            removedComments: [],
+            affectedSections: [],
+          };
+        }
+
+        await prisma.prdSourceTicket.update({ where: { id: row.id }, data: { checkedAt: now } });
+        return this.compare(row.ticketKey, url, JSON.parse(row.snapshot) as JiraTicketSnapshot, ticket, prd, sectionHeadings);
+      })
+    );
+
+    const changedCount = changes.filter((change) => change.changed).length;
+    console.log(`🔄 Checked ${rows.length} source ticket(s) of PRD ${prd.id}: ${changedCount} changed`);
+    return changes;
+  }
+
+  /**
+   * Mark source tickets as reflected in the PRD by snapshotting their current state
+   */
+  async acknowledge(ctx: ServiceContext, prd: Prd, ticketKeys?: string[]): Promise<PRDSourceTicket[]> {
+    const rows = (await this.ensureRows(prd)).filter((row) => !ticketKeys || ticketKeys.includes(row.ticketKey));
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const tickets = await jiraService.fetchMultipleTickets(ctx, rows.map((row) => row.ticketKey));
+    const now = new Date();
+
+    return Promise.all(
+      rows.map(async (row, i) => {
+        const saved = await this.saveSnapshot(row.id, tickets[i], now);
+        return this.toSourceTicket(saved, await jiraService.getIssueUrl(ctx, row.ticketKey));
+      })
+    );
+  }
+
+  /**
+   * Write the PRD link back to each source ticket: into fieldId when given, else as a web link
+   */
+  async linkToJira(ctx: ServiceContext, prd: Prd, fieldId?: string): Promise<{ linked: string[]; errors: string[] }> {
+    const prdUrl = prdJiraService.getPrdUrl(prd.id);
+    const linked: string[] = [];
+    const errors: string[] = [];
+
+    for (const key of this.parseTicketKeys(prd.sourceId)) {
+      try {
+        if (fieldId) {
+          await jiraService.updateIssueField(ctx, key, fieldId, prdUrl);
+        } else {
+          await jiraService.addRemoteLink(ctx, key, prdUrl, `PRD: ${prd.title}`);
+        }
+        linked.push(key);
+      } catch (error: any) {
+        console.error(`Error linking PRD ${prd.id} in ${key}:`, error);
+        errors.push(`${key}: ${error.message}`);
+      }
+    }
+
+    return { linked, errors };
+  }
+
+  /**
+   * Tracked ticket rows for the keys in the PRD's sourceId, creating rows for keys not tracked yet
+   */
+  private async ensureRows(prd: Prd): Promise<PrdSourceTicket[]> {
+    if (prd.source !== 'jira') {
+      return [];
+    }
+
+    const keys = this.parseTicketKeys(prd.sourceId);
+    const existing = await prisma.prdSourceTicket.findMany({ where: { prdId: prd.id } });
+    const byKey = new Map(existing.map((row) => [row.ticketKey, row]));
+
+    const rows: PrdSourceTicket[] = [];
+    for (const ticketKey of keys) {
+      rows.push(byKey.get(ticketKey) || (await prisma.prdSourceTicket.create({ data: { prdId: prd.id, ticketKey } })));
+    }
+    return rows;
+  }
+
+  private saveSnapshot(rowId: string, ticket: JiraTicket, now: Date): Promise<PrdSourceTicket> {
+    const snapshot: JiraTicketSnapshot = {
+      summary: ticket.summary,
+      description: ticket.description,
+      updated: ticket.updated,
+      comments: ticket.comments,
+    };
+
+    return prisma.prdSourceTicket.update({
+      where: { id: rowId },
+      data: { snapshot: JSON.stringify(snapshot), syncedUpdated: ticket.updated, syncedAt: now, checkedAt: now },
+    });
+  }
+
+  private compare(
+    key: string,
+    url: string,
+    before: JiraTicketSnapshot,
+    after: JiraTicket,
+    prd: Prd,
+    sectionHeadings: string[]
+  ): SourceTicketChange {
+    const change: SourceTicketChange = {
+      key,
+      url,
+      summary: after.summary,
+      updated: after.updated,
+      previousUpdated: before.updated,
+      changed: false,
+      newComments: [],
+      editedComments: [],
+      removedComments: [],
+      affectedSections: [],
+    };
+
+    // Jira bumps `updated` on every edit, so an unchanged timestamp means nothing to compare
+    if (before.updated === after.updated) {
+      return change;
+    }
+
+    if (before.summary !== after.summary) {
+      change.summaryChange = { before: before.summary, after: after.summary };
+    }
+
+    if ((before.description || '').trim() !== (after.description || '').trim()) {
+      change.descriptionDiff = prdDiffService.diffText(before.description || '', after.description || '');
+    }
+
+    const commentsBefore = new Map(before.comments.map((comment) => [comment.id, comment]));
+    const commentIdsAfter = new Set(after.comments.map((comment) => comment.id));
+    for (const comment of after.comments) {
+      const previous = commentsBefore.get(comment.id);
+      if (!previous) {
+        change.newComments.push(comment);
+      } else if (previous.body !== comment.body) {
+        change.editedComments.push(comment);
+      }
+    }
+    change.removedComments = before.comments.filter((comment) => !commentIdsAfter.has(comment.id));
+
+    // Other field edits (status, assignee, ...) bump `updated` but don't affect the PRD
+    change.changed = Boolean(
+      change.summaryChange ||
+        change.descriptionDiff ||
+        change.newComments.length ||
+        change.editedComments.length ||
+        change.removedComments.length
+    );
+
+    if (change.changed) {
+      change.affectedSections = this.findAffectedSections(prd.markdown, sectionHeadings, this.changedText(change));
+      change.instruction = this.buildInstruction(change);
+    }
+    return change;
+  }
+
+  private changedText(change: SourceTicketChange): string {
+    return [
+      change.summaryChange?.before,
+      change.summaryChange?.after,
+      ...(change.descriptionDiff || []).filter((line) => line.type !== 'unchanged').map((line) => line.text),
+      ...[...change.newComments, ...change.editedComments, ...change.removedComments].map((comment) => comment.body),
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  /**
+   * Template sections sharing the most keywords with the changed ticket text
+   * Falls back to the problem and solution sections when nothing overlaps enough
+   */
+  private findAffectedSections(markdown: string, sectionHeadings: string[], changedText: string): string[] {
+    const changedWords = this.keywords(changedText);
+
+    const scored = sectionHeadings
+      .map((heading) => {
+        const section = prdSectionService.findSection(markdown, heading);
+        const sectionWords = this.keywords(section?.content || '');
+        const overlap = Array.from(changedWords).filter((word) => sectionWords.has(word)).length;
+        return { heading, overlap };
+      })
+      .filter((section) => section.overlap >= MIN_KEYWORD_OVERLAP)
+      .sort((a, b) => b.overlap - a.overlap)
+      .slice(0, MAX_AFFECTED_SECTIONS);
+
+    if (scored.length > 0) {
+      return scored.map((section) => section.heading);
+    }
+
+    const fallback = sectionHeadings.filter((heading) => /problem|solution/i.test(heading));
+    return fallback.length > 0 ? fallback : sectionHeadings.slice(0, 1);
+  }
+
+  private keywords(text: string): Set<string> {
+    const words = text.toLowerCase().match(/[a-z][a-z0-9-]{3,}/g) || [];
+    return new Set(words.filter((word) => !STOPWORDS.has(word)));
+  }
+
+  /**
+   * Describe the ticket change as a section-regeneration instruction, within the instruction length limit
+   */
+  private buildInstruction(change: SourceTicketChange): string {
+    const intro = `Source Jira ticket ${change.key} changed since this PRD was written.`;
+    const outro = 'Update this section to reflect the changes and keep everything else as is.';
+
+    const details: string[] = [];
+    if (change.summaryChange) {
+      details.push(`Summary is now "${change.summaryChange.after}".`);
+    }
+    const descriptionLines = (change.descriptionDiff || [])
+      .filter((line) => line.type !== 'unchanged' && line.text.trim())
+      .map((line) => `${line.type === 'added' ? '+' : '-'} ${line.text.trim()}`);
+    if (descriptionLines.length > 0) {
+      details.push(`Description changes:\n${descriptionLines.join('\n')}`);
+    }
+    const comments = [...change.newComments, ...change.editedComments].map(
+      (comment: JiraComment) => `- ${comment.author}: ${comment.body.trim().replace(/\s+/g, ' ')}`
+    );
+    if (comments.length > 0) {
+      details.push(`New or edited comments:\n${comments.join('\n')}`);
+    }
+
+    let body = details.join('\n');
+    const room = MAX_INSTRUCTION_LENGTH - intro.length - outro.length - 2;
+    if (body.length > room) {
+      body = body.slice(0, room - 3) + '...';
+    }
+    return `${intro}\n${body}\n${outro}`;
+  }
+
+  private toSourceTicket(row: PrdSourceTicket, url: string): PRDSourceTicket {
+    return {
+      key: row.ticketKey,
+      url,
+      ...(row.syncedUpdated && { syncedUpdated: row.syncedUpdated }),
+      ...(row.syncedAt && { syncedAt: row.syncedAt.toISOString() }),
+      ...(row.checkedAt && { checkedAt: row.checkedAt.toISOString() }),
+    };
+  }
+}
+
+export const prdSourceTicketService = PrdSourceTicketService.getInstance();
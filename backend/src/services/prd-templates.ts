@@ -0,0 +1,158 @@
+import type { PrdTemplate } from '@prisma/client';
+import { prisma } from './database';
+import { PRD_TEMPLATE, getTemplateHeadings } from '../prompts/creator';
+import type {
+  PRDTemplate,
+  PRDTemplateSummary,
+  CreatePRDTemplateRequest,
+  UpdatePRDTemplateRequest,
+} from '../../../shared/types/template';
+
+export const DEFAULT_TEMPLATE_ID = 'default';
+
+type TemplateRow = PrdTemplate & { user?: { username: string } | null };
+
+/**
+ * PRD Template Service - Team template library shared by all users
+ * The built-in template is always available and can't be edited; custom templates can only be
+ * changed by their creator
+ */
+export class PrdTemplateService {
+  private static instance: PrdTemplateService;
+
+  private constructor() {
+    console.log('🧩 PRD Template Service initialized');
+  }
+
+  static getInstance(): PrdTemplateService {
+    if (!PrdTemplateService.instance) {
+      PrdTemplateService.instance = new PrdTemplateService();
+    }
+    return PrdTemplateService.instance;
+  }
+
+  /**
+   * The built-in template, backed by PRD_TEMPLATE
+   */
+  getDefaultTemplate(): PRDTemplate {
+    const markdown = PRD_TEMPLATE.trim() + '\n';
+    return {
+      id: DEFAULT_TEMPLATE_ID,
+      name: 'Default PRD',
+      description: 'The standard PRD structure: problem, metrics, solution, design, analytics, launch',
+      markdown,
+      sections: getTemplateHeadings(markdown),
+      builtIn: true,
+      canEdit: false,
+    };
+  }
+
+  /**
+   * List templates, built-in first, optionally filtered by team
+   */
+  async listTemplates(userId: string, team?: string): Promise<PRDTemplateSummary[]> {
+    const rows = await prisma.prdTemplate.findMany({
+      where: team ? { team } : undefined,
+      orderBy: [{ team: 'asc' }, { name: 'asc' }],
+      include: { user: { select: { username: true } } },
+    });
+
+    const templates = rows.map((row) => this.toTemplate(row, userId));
+    const all = team ? templates : [this.getDefaultTemplate(), ...templates];
+    return all.map(({ markdown, ...summary }) => summary);
+  }
+
+  /**
+   * Get a template by id; a missing id means the built-in template
+   * Returns null if no template has the id
+   */
+  async getTemplate(userId: string, templateId?: string | null): Promise<PRDTemplate | null> {
+    if (!templateId || templateId === DEFAULT_TEMPLATE_ID) {
+      return this.getDefaultTemplate();
+    }
+
+    const row = await prisma.prdTemplate.findUnique({
+      where: { id: templateId },
+      include: { user: { select: { username: true } } },
+    });
+    return row ? this.toTemplate(row, userId) : null;
+  }
+
+  /**
+   * Add a template to the library
+   */
+  async createTemplate(userId: string, data: CreatePRDTemplateRequest): Promise<PRDTemplate> {
+    const row = await prisma.prdTemplate.create({
+      data: {
+        userId,
+        name: data.name.trim(),
+        team: data.team?.trim() || null,
+        description: data.description?.trim() || null,
+        markdown: this.normalizeMarkdown(data.markdown),
+      },
+      include: { user: { select: { username: true } } },
+    });
+
+    console.log(`🧩 Created PRD template "${row.name}" (${row.id})`);
+    return this.toTemplate(row, userId);
+  }
+
+  /**
+   * Update a template created by the user
+   * Returns null if the template doesn't exist or belongs to someone else
+   */
+  async updateTemplate(
+    userId: string,
+    templateId: string,
+    data: UpdatePRDTemplateRequest
+  ): Promise<PRDTemplate | null> {
+    const existing = await prisma.prdTemplate.findFirst({ where: { id: templateId, userId } });
+    if (!existing) {
+      return null;
+    }
+
+    const row = await prisma.prdTemplate.update({
+      where: { id: templateId },
+      data: {
+        ...(data.name !== undefined && { name: data.name.trim() }),
+        ...(data.team !== undefined && { team: data.team.trim() || null }),
+        ...(data.description !== undefined && { description: data.description.trim() || null }),
+        ...(data.markdown !== undefined && { markdown: this.normalizeMarkdown(data.markdown) }),
+      },
+      include: { user: { select: { username: true } } },
+    });
+
+    return this.toTemplate(row, userId);
+  }
+
+  /**
+   * Delete a template created by the user
+   * PRDs generated from it keep their content and fall back to the built-in template
+   */
+  async deleteTemplate(userId: string, templateId: string): Promise<boolean> {
+    const result = await prisma.prdTemplate.deleteMany({ where: { id: templateId, userId } });
+    return result.count > 0;
+  }
+
+  private normalizeMarkdown(markdown: string): string {
+    return markdown.replace(/\r\n/g, '\n').trim() + '\n';
+  }
+
+  private toTemplate(row: TemplateRow, userId: string): PRDTemplate {
+    return {
+      id: row.id,
+      name: row.name,
+      ...(row.team && { team: row.team }),
+      ...(row.description && { description: row.description }),
+      markdown: row.markdown,
+      sections: getTemplateHeadings(row.markdown),
+      builtIn: false,
+      ...(row.user && { createdBy: row.user.username }),
+      canEdit: row.userId === userId,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const prdTemplateService = PrdTemplateService.getInstance();
@@ -0,0 +1,203 @@
+import type { Prd, PrdRevision } from '@prisma/client';
+import { prisma } from './database';
+import type {
+  PRDMetadata,
+  PRDChangeType,
+  PRDRevision,
+  PRDRevisionSummary,
+} from '../../../shared/types/prd';
+
+/**
+ * PRD Service - Per-user PRD storage with immutable revision history
+ * Every save of a PRD writes a new PrdRevision and bumps the PRD's version
+ */
+export class PrdService {
+  private static instance: PrdService;
+
+  private constructor() {
+    console.log('📝 PRD Service initialized');
+  }
+
+  static getInstance(): PrdService {
+    if (!PrdService.instance) {
+      PrdService.instance = new PrdService();
+    }
+    return PrdService.instance;
+  }
+
+  /**
+   * Extract the PRD title from its first top-level heading
+   */
+  extractTitle(markdown: string): string {
+    const titleMatch = markdown.match(/^#\s+(.+)$/m);
+    return titleMatch ? titleMatch[1].trim() : 'Untitled PRD';
+  }
+
+  /**
+   * Map a stored PRD row to the metadata shape returned by the API
+   */
+  toMetadata(prd: Prd): PRDMetadata {
+    return {
+      id: prd.id,
+      title: prd.title,
+      version: prd.version,
+      createdAt: prd.createdAt.toISOString(),
+      updatedAt: prd.updatedAt.toISOString(),
+      source: prd.source as PRDMetadata['source'],
+      ...(prd.sourceId && { sourceId: prd.sourceId }),
+      ...(prd.templateId && { templateId: prd.templateId }),
+    };
+  }
+
+  /**
+   * Get a PRD owned by the user
+   */
+  async getPrd(userId: string, prdId: string): Promise<Prd | null> {
+    return prisma.prd.findFirst({
+      where: { id: prdId, userId },
+    });
+  }
+
+  /**
+   * Create a new PRD together with its first revision
+   */
+  async createPrd(
+    userId: string,
+    data: { markdown: string; source: string; sourceId?: string; templateId?: string }
+  ): Promise<Prd> {
+    const title = this.extractTitle(data.markdown);
+
+    return prisma.prd.create({
+      data: {
+        userId,
+        title,
+        markdown: data.markdown,
+        source: data.source,
+        sourceId: data.sourceId,
+        templateId: data.templateId,
+        version: 1,
+        revisions: {
+          create: {
+            version: 1,
+            title,
+            markdown: data.markdown,
+            changeType: 'create',
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Save new content for an existing PRD as the next revision
+   * Pass templateId when the content was regenerated from a different template (null for the built-in one)
+   * Returns null if the PRD does not exist or is not owned by the user
+   */
+  async saveRevision(
+    userId: string,
+    prdId: string,
+    markdown: string,
+    changeType: PRDChangeType,
+    changeNote?: string,
+    templateId?: string | null
+  ): Promise<Prd | null> {
+    const prd = await this.getPrd(userId, prdId);
+    if (!prd) {
+      return null;
+    }
+
+    const title = this.extractTitle(markdown);
+
+    // Increment in the database so concurrent saves get consecutive versions instead of the same one
+    const updated = await prisma.$transaction(async (tx) => {
+      const next = await tx.prd.update({
+        where: { id: prd.id },
+        data: { title, markdown, version: { increment: 1 }, ...(templateId !== undefined && { templateId }) },
+      });
+
+      await tx.prdRevision.create({
+        data: {
+          prdId: prd.id,
+          version: next.version,
+          title,
+          markdown,
+          changeType,
+          changeNote,
+        },
+      });
+
+      return next;
+    });
+
+    return updated;
+  }
+
+  /**
+   * List a PRD's revisions, newest first
+   */
+  async listRevisions(userId: string, prdId: string): Promise<PRDRevisionSummary[] | null> {
+    const prd = await this.getPrd(userId, prdId);
+    if (!prd) {
+      return null;
+    }
+
+    const revisions = await prisma.prdRevision.findMany({
+      where: { prdId: prd.id },
+      orderBy: { version: 'desc' },
+      select: {
+        id: true,
+        version: true,
+        title: true,
+        changeType: true,
+        changeNote: true,
+        createdAt: true,
+      },
+    });
+
+    return revisions.map((r) => ({
+      id: r.id,
+      version: r.version,
+      title: r.title,
+      changeType: r.changeType as PRDChangeType,
+      changeNote: r.changeNote || undefined,
+      createdAt: r.createdAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Get a single revision of a PRD owned by the user
+   */
+  async getRevision(userId: string, prdId: string, version: number): Promise<PRDRevision | null> {
+    const revision = await prisma.prdRevision.findFirst({
+      where: { version, prd: { id: prdId, userId } },
+    });
+
+    return revision ? this.toRevision(revision) : null;
+  }
+
+  /**
+   * Restore an older revision by saving its content as a new revision
+   */
+  async restoreRevision(userId: string, prdId: string, version: number): Promise<Prd | null> {
+    const revision = await this.getRevision(userId, prdId, version);
+    if (!revision) {
+      return null;
+    }
+
+    return this.saveRevision(userId, prdId, revision.markdown, 'restore', `Restored from version ${version}`);
+  }
+
+  private toRevision(revision: PrdRevision): PRDRevision {
+    return {
+      id: revision.id,
+      version: revision.version,
+      title: revision.title,
+      changeType: revision.changeType as PRDChangeType,
+      changeNote: revision.changeNote || undefined,
+      createdAt: revision.createdAt.toISOString(),
+      markdown: revision.markdown,
+    };
+  }
+}
+
+export const prdService = PrdService.getInstance();
@@ -0,0 +1,265 @@
+import * as crypto from 'crypto';
+import type { OpenEndedAnswers } from './survey-stats';
+import type { AnalysisPhase, AnalysisProgress } from '../../../shared/types/research';
+
+export const SURVEY_ANSWERS_PER_BATCH = 200;
+export const TRANSCRIPT_CHARS_PER_BATCH = 40_000;
+const MAX_TRANSCRIPTS_PER_BATCH = 8;
+
+/** A transcript, or a slice of one too long for a single batch, numbered so findings can cite the interview */
+export interface TranscriptPart {
+  interview: number;
+  part: number;
+  parts: number;
+  text: string;
+}
+
+/** Saved state of a batched analysis: progress plus the findings of every finished batch */
+export interface AnalysisCheckpoint extends AnalysisProgress {
+  fingerprint: string;
+  batches: Record<number, unknown>;
+}
+
+/** Where a run keeps its checkpoint between batches */
+export interface CheckpointStore {
+  load(): Promise<AnalysisCheckpoint | null>;
+  save(checkpoint: AnalysisCheckpoint): Promise<void>;
+}
+
+/** Labels from different batches that name the same finding, by their index in the label list */
+export interface LabelGroup {
+  label: string;
+  members: number[];
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * One batched analysis run
+ * Batches already in a matching checkpoint are skipped, and the checkpoint is saved after each new one
+ */
+export class AnalysisRun {
+  constructor(
+    private checkpoint: AnalysisCheckpoint,
+    private store?: CheckpointStore
+  ) {}
+
+  /**
+   * Extract findings from every batch in order, reusing the ones saved by an earlier attempt
+   */
+  async extract<TBatch, TFindings>(
+    batches: TBatch[],
+    extractBatch: (batch: TBatch, index: number) => Promise<TFindings>
+  ): Promise<TFindings[]> {
+    const findings: TFindings[] = [];
+
+    for (const [index, batch] of batches.entries()) {
+      if (index in this.checkpoint.batches) {
+        findings.push(this.checkpoint.batches[index] as TFindings);
+        continue;
+      }
+
+      const result = await extractBatch(batch, index);
+      findings.push(result);
+      this.checkpoint.batches[index] = result;
+      this.checkpoint.completedBatches = Object.keys(this.checkpoint.batches).length;
+      await this.save();
+      console.log(`📦 Batch ${index + 1}/${batches.length} analyzed`);
+    }
+
+    return findings;
+  }
+
+  async setPhase(phase: AnalysisPhase, error?: string): Promise<void> {
+    this.checkpoint.phase = phase;
+    this.checkpoint.error = error;
+    if (phase === 'completed') {
+      // Nothing left to resume, so drop the findings instead of storing them twice
+      this.checkpoint.batches = {};
+    }
+    await this.save();
+  }
+
+  // Progress is best effort: a failed save shouldn't fail the analysis itself
+  private async save(): Promise<void> {
+    this.checkpoint.updatedAt = new Date().toISOString();
+    try {
+      await this.store?.save(this.checkpoint);
+    } catch (error: any) {
+      console.warn('⚠️  Failed to save analysis progress:', error.message);
+    }
+  }
+}
+
+/**
+ * Research Batch Service - Splits large survey and interview uploads into batches for map-reduce analysis
+ * Each batch's findings cite the responses or interviews behind them, so merged frequencies are
+ * counted from citations instead of being added up by the LLM
+ */
+export class ResearchBatchService {
+  /**
+   * Split open-ended answers into batches of at most SURVEY_ANSWERS_PER_BATCH, keeping them grouped by question
+   */
+  surveyBatches(openEndedAnswers: OpenEndedAnswers[]): OpenEndedAnswers[][] {
+    const batches: OpenEndedAnswers[][] = [];
+    let current: OpenEndedAnswers[] = [];
+    let size = 0;
+
+    for (const question of openEndedAnswers) {
+      let offset = 0;
+      while (offset < question.answers.length) {
+        const answers = question.answers.slice(offset, offset + SURVEY_ANSWERS_PER_BATCH - size);
+        current.push({ ...question, answers });
+        size += answers.length;
+        offset += answers.length;
+
+        if (size >= SURVEY_ANSWERS_PER_BATCH) {
+          batches.push(current);
+          current = [];
+          size = 0;
+        }
+      }
+    }
+
+    if (current.length) batches.push(current);
+    return batches;
+  }
+
+  /**
+   * Split transcripts into batches of at most TRANSCRIPT_CHARS_PER_BATCH characters
+   * A transcript longer than that is cut into parts at paragraph breaks
+   */
+  transcriptBatches(transcripts: string[]): TranscriptPart[][] {
+    const parts = transcripts.flatMap((transcript, i) => {
+      const chunks = this.splitText(transcript, TRANSCRIPT_CHARS_PER_BATCH);
+      return chunks.map((text, p) => ({ interview: i + 1, part: p + 1, parts: chunks.length, text }));
+    });
+
+    const batches: TranscriptPart[][] = [];
+    let current: TranscriptPart[] = [];
+    let size = 0;
+
+    for (const part of parts) {
+      if (current.length && (size + part.text.length > TRANSCRIPT_CHARS_PER_BATCH || current.length >= MAX_TRANSCRIPTS_PER_BATCH)) {
+        batches.push(current);
+        current = [];
+        size = 0;
+      }
+      current.push(part);
+      size += part.text.length;
+    }
+
+    if (current.length) batches.push(current);
+    return batches;
+  }
+
+  /**
+   * Identify an analysis input, so a checkpoint is only resumed for the same data and settings
+   */
+  fingerprint(...inputs: unknown[]): string {
+    return crypto.createHash('sha256').update(JSON.stringify(inputs)).digest('hex');
+  }
+
+  /**
+   * Start a run over `totalBatches`, resuming the stored checkpoint if it is for the same input and unfinished
+   */
+  async startRun(fingerprint: string, totalBatches: number, store?: CheckpointStore): Promise<AnalysisRun> {
+    const saved = await store?.load().catch(() => null);
+    const resumable = saved && saved.fingerprint === fingerprint && saved.phase !== 'completed';
+
+    if (resumable && saved.completedBatches > 0) {
+      console.log(`⏯️  Resuming analysis from batch ${saved.completedBatches + 1}/${totalBatches}`);
+    }
+
+    const run = new AnalysisRun(
+      {
+        phase: 'extracting',
+        completedBatches: resumable ? saved.completedBatches : 0,
+        totalBatches,
+        updatedAt: new Date().toISOString(),
+        fingerprint,
+        batches: resumable ? saved.batches : {},
+      },
+      store
+    );
+    await run.setPhase('extracting');
+    return run;
+  }
+
+  /**
+   * Group labels that are the same after normalizing case and punctuation, keeping the first spelling
+   */
+  groupByName(labels: string[]): LabelGroup[] {
+    const groups = new Map<string, LabelGroup>();
+
+    labels.forEach((label, index) => {
+      const key = normalize(label);
+      if (!key) return;
+      const group = groups.get(key);
+      if (group) {
+        group.members.push(index);
+      } else {
+        groups.set(key, { label: label.trim(), members: [index] });
+      }
+    });
+
+    return [...groups.values()];
+  }
+
+  /**
+   * Combine base groups using the LLM's grouping, whose members are 1-based positions in `base`
+   * Positions that are out of range or already used are ignored, and base groups left out stay on their own
+   */
+  combineGroups(base: LabelGroup[], merged: LabelGroup[]): LabelGroup[] {
+    const used = new Set<number>();
+    const groups: LabelGroup[] = [];
+
+    for (const group of merged) {
+      const positions = [...new Set(group.members || [])].filter(
+        (p) => Number.isInteger(p) && p >= 1 && p <= base.length && !used.has(p)
+      );
+      if (!positions.length) continue;
+
+      positions.forEach((p) => used.add(p));
+      groups.push({
+        label: group.label?.trim() || base[positions[0] - 1].label,
+        members: positions.flatMap((p) => base[p - 1].members),
+      });
+    }
+
+    base.forEach((group, i) => {
+      if (!used.has(i + 1)) groups.push(group);
+    });
+    return groups;
+  }
+
+  /**
+   * Distinct citations of each group's labels, e.g. the interviews or responses mentioning a theme
+   */
+  citations(group: LabelGroup, cited: number[][]): number[] {
+    return [...new Set(group.members.flatMap((i) => cited[i] || []))].sort((a, b) => a - b);
+  }
+
+  // Cut text into chunks of at most maxLength, preferring paragraph, then line, breaks
+  private splitText(text: string, maxLength: number): string[] {
+    const chunks: string[] = [];
+    let rest = text.trim();
+
+    while (rest.length > maxLength) {
+      const window = rest.slice(0, maxLength);
+      const breakAt = [window.lastIndexOf('\n\n'), window.lastIndexOf('\n'), window.lastIndexOf(' ')].find(
+        (i) => i > maxLength / 2
+      );
+      const end = breakAt ?? maxLength;
+      chunks.push(rest.slice(0, end).trim());
+      rest = rest.slice(end).trim();
+    }
+
+    if (rest || !chunks.length) chunks.push(rest);
+    return chunks;
+  }
+}
+
+export const researchBatchService = new ResearchBatchService();
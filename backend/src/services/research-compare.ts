@@ -0,0 +1,141 @@
+import type {
+  AnalysisComparison,
+  ComparisonRow,
+  ComparisonSection,
+  InterviewAnalysis,
+  ResearchAnalysisSummary,
+  SurveyAnalysis,
+} from '../../../shared/types/research';
+
+/** A stored analysis run to compare */
+export interface ComparedAnalysis {
+  summary: ResearchAnalysisSummary;
+  analysis: SurveyAnalysis | InterviewAnalysis;
+}
+
+type Figure = [label: string, value: number | undefined];
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// One row per label across the analyses; labels that only differ in case or punctuation share a row
+function buildSection(title: string, unit: ComparisonSection['unit'], figures: Figure[][]): ComparisonSection | null {
+  const rows = new Map<string, ComparisonRow>();
+
+  figures.forEach((entries, index) => {
+    for (const [label, value] of entries) {
+      const key = normalize(label);
+      if (!key || value === undefined || !Number.isFinite(value)) continue;
+
+      const row = rows.get(key) ?? { label, values: figures.map(() => null), change: null };
+      row.values[index] = round(value);
+      rows.set(key, row);
+    }
+  });
+
+  if (!rows.size) return null;
+
+  return {
+    title,
+    unit,
+    rows: [...rows.values()].map((row) => {
+      const first = row.values[0];
+      const last = row.values[row.values.length - 1];
+      return { ...row, change: first !== null && last !== null ? round(last - first) : null };
+    }),
+  };
+}
+
+/**
+ * Research Comparison Service - Compares analyses of different waves of the same study
+ * Figures come from the stored analyses: survey statistics computed in code, and interview
+ * findings as a share of the interviews each analysis covered
+ */
+export class ResearchComparisonService {
+  /**
+   * Compare a session's analyses, given oldest first
+   */
+  compare(researchType: 'survey' | 'interview', analyses: ComparedAnalysis[]): AnalysisComparison {
+    const counts = analyses.map((a) => a.summary.respondentCount);
+    const sizes = buildSection(
+      researchType === 'survey' ? 'Respondents' : 'Interviews',
+      'count',
+      counts.map((count) => [[researchType === 'survey' ? 'Respondents' : 'Transcripts', count]])
+    );
+
+    const sections =
+      researchType === 'survey'
+        ? this.surveySections(analyses.map((a) => a.analysis as SurveyAnalysis))
+        : this.interviewSections(analyses.map((a) => a.analysis as InterviewAnalysis), counts);
+
+    return {
+      analyses: analyses.map((a) => a.summary),
+      sections: [sizes, ...sections].filter((section): section is ComparisonSection => !!section),
+    };
+  }
+
+  private surveySections(analyses: SurveyAnalysis[]): Array<ComparisonSection | null> {
+    // Analyses made before statistics were computed in code only have their pain points to compare
+    const questions = analyses.map((a) => a.statistics?.questions || []);
+
+    return [
+      buildSection(
+        'Average rating',
+        'mean',
+        questions.map((stats) => stats.map((q): Figure => [q.questionText, q.mean]))
+      ),
+      buildSection(
+        'Net score',
+        'score',
+        questions.map((stats) => stats.map((q): Figure => [q.questionText, q.netScore?.score]))
+      ),
+      buildSection(
+        'Answer share',
+        'percent',
+        questions.map((stats) =>
+          stats
+            .filter((q) => q.type !== 'likert')
+            .flatMap((q) => q.distribution.map((a): Figure => [`${q.questionText}: ${a.answer}`, a.percent]))
+        )
+      ),
+      buildSection(
+        'Pain points (% of respondents)',
+        'percent',
+        analyses.map((a) => (a.topPainPoints || []).map((p): Figure => [p.pain, p.frequency]))
+      ),
+    ];
+  }
+
+  // Frequencies count interviews, so they're compared as a share of each analysis's interviews
+  private interviewSections(analyses: InterviewAnalysis[], counts: number[]): Array<ComparisonSection | null> {
+    const share = (frequency: number, index: number) =>
+      counts[index] ? Math.min((frequency / counts[index]) * 100, 100) : undefined;
+
+    return [
+      buildSection(
+        'Themes (% of interviews)',
+        'percent',
+        analyses.map((a, i) => (a.themes || []).map((t): Figure => [t.theme, share(t.frequency, i)]))
+      ),
+      buildSection(
+        'Objections (% of interviews)',
+        'percent',
+        analyses.map((a, i) => (a.objectionPatterns || []).map((o): Figure => [o.objection, share(o.frequency, i)]))
+      ),
+      buildSection(
+        'Needs (% of interviews)',
+        'percent',
+        analyses.map((a, i) =>
+          Object.entries(a.needFrequency || {}).map(([need, frequency]): Figure => [need, share(frequency, i)])
+        )
+      ),
+    ];
+  }
+}
+
+export const researchComparisonService = new ResearchComparisonService();
@@ -1,5 +1,6 @@
 import * as XLSX from 'xlsx';
 import { documentExportService } from './documentExport';
+import { SAMPLE_RESPONDENT_ID } from './survey-stats';
 import type { SurveyQuestion, InterviewGuide } from '../../../shared/types/research';
 
 /**
@@ -40,7 +41,7 @@ export class ResearchExportService {
 
       // Add a sample row to show format
       const sampleRow = [
-        'SAMPLE-001',
+        SAMPLE_RESPONDENT_ID,
         new Date().toISOString(),
         ...questions.map((q) => {
           if (q.type === 'mcq' && q.options) {
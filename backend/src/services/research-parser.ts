@@ -1,5 +1,13 @@
 import * as XLSX from 'xlsx';
-import type { SurveyQuestion } from '../../../shared/types/research';
+import { surveyStatsService } from './survey-stats';
+import type {
+  ColumnMapping,
+  ColumnMappingEntry,
+  ColumnValidationIssue,
+  SurveyQuestion,
+} from '../../../shared/types/research';
+
+const MAX_ISSUE_EXAMPLES = 5;
 
 /**
  * Research Parser Service - Parse uploaded research data files
@@ -185,6 +193,57 @@ export class ResearchParserService {
     };
   }
 
+  /**
+   * Column mapping for a survey upload, with the answers in each mapped column checked against its question
+   */
+  buildColumnMapping(
+    data: any[],
+    questions: SurveyQuestion[],
+    entries: ColumnMappingEntry[],
+    confirmed: boolean
+  ): ColumnMapping {
+    return {
+      columns: surveyStatsService.headers(data),
+      entries,
+      confirmed,
+      issues: this.validateColumnValues(data, questions, entries),
+    };
+  }
+
+  /**
+   * Check the values in each mapped column against its question's type and options
+   */
+  validateColumnValues(data: any[], questions: SurveyQuestion[], entries: ColumnMappingEntry[]): ColumnValidationIssue[] {
+    const issues: ColumnValidationIssue[] = [];
+
+    for (const entry of entries) {
+      const question = questions.find((q) => q.id === entry.questionId);
+      if (!question || !entry.column || question.type === 'open-ended') continue;
+
+      const invalid = data
+        .map((row) => (row[entry.column!] === undefined || row[entry.column!] === null ? '' : String(row[entry.column!]).trim()))
+        .filter((value) => value && !surveyStatsService.isValidAnswer(question, value));
+      if (invalid.length === 0) continue;
+
+      const expected =
+        question.type === 'likert'
+          ? question.options?.length
+            ? `the scale (${question.options.join(', ')})`
+            : 'a 0-10 scale'
+          : `the options (${question.options!.join(', ')})`;
+
+      issues.push({
+        questionId: question.id,
+        column: entry.column,
+        invalidCount: invalid.length,
+        examples: [...new Set(invalid)].slice(0, MAX_ISSUE_EXAMPLES),
+        message: `${invalid.length} ${invalid.length === 1 ? "answer doesn't" : "answers don't"} match ${expected}`,
+      });
+    }
+
+    return issues;
+  }
+
   /**
    * Validate interview data structure
    */
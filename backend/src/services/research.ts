@@ -1,5 +1,7 @@
-import { GoogleGenerativeAI, SchemaType } from '@google/generative-ai';
-import { configDBService } from './config-db';
+import { createServiceContext } from './service-context';
+import type { LLMProvider } from './llm';
+import { surveyStatsService } from './survey-stats';
+import { researchBatchService, SURVEY_ANSWERS_PER_BATCH, type CheckpointStore, type LabelGroup } from './research-batches';
 import {
   PROBLEM_EVALUATOR_SYSTEM_PROMPT,
   createProblemEvaluationPrompt,
@@ -18,10 +20,20 @@ import {
 import {
   SURVEY_ANALYZER_SYSTEM_PROMPT,
   createSurveyAnalysisPrompt,
-  SURVEY_ANALYSIS_SCHEMA,
+  SURVEY_INTERPRETATION_SCHEMA,
+  type SurveyInterpretation,
   INTERVIEW_ANALYZER_SYSTEM_PROMPT,
   createInterviewAnalysisPrompt,
   INTERVIEW_ANALYSIS_SCHEMA,
+  createSurveyBatchPrompt,
+  SURVEY_BATCH_SCHEMA,
+  type SurveyBatchFindings,
+  createInterviewBatchPrompt,
+  INTERVIEW_BATCH_SCHEMA,
+  type InterviewBatchFindings,
+  LABEL_MERGE_SYSTEM_PROMPT,
+  createLabelMergePrompt,
+  LABEL_MERGE_SCHEMA,
 } from '../prompts/research/research-analyzer';
 import {
   REPORT_GENERATOR_SYSTEM_PROMPT,
@@ -35,9 +47,12 @@ import type {
   InterviewAnalysis,
 } from '../../../shared/types/research';
 
+const MAX_BATCH_INSIGHTS = 40;
+const MAX_MERGED_FINDINGS = 10;
+
 /**
  * Research Service - AI-powered research planning and analysis
- * Uses Gemini API with user-specific API keys for generating research materials
+ * Uses the user's configured LLM provider and API keys for generating research materials
  */
 export class ResearchService {
   private static instance: ResearchService;
@@ -54,99 +69,10 @@ export class ResearchService {
   }
 
   /**
-   * Get Gemini client for a specific user
-   */
-  private async getGeminiClient(userId: string): Promise<GoogleGenerativeAI> {
-    const apiKey = await configDBService.get(userId, 'GEMINI_API_KEY');
-    if (!apiKey) {
-      throw new Error(
-        'GEMINI_API_KEY is required but not configured. Please add your Gemini API key in Settings.'
-      );
-    }
-    return new GoogleGenerativeAI(apiKey);
-  }
-
-  /**
-   * Get the Gemini model name for a user
+   * Get the configured LLM provider for a specific user
    */
-  private async getModelName(userId: string): Promise<string> {
-    const model = await configDBService.get(userId, 'GEMINI_MODEL');
-    // Use stable Gemini Pro model as default (most compatible with v1beta API)
-    return model || 'gemini-pro';
-  }
-
-  /**
-   * Get Gemini model with automatic fallback to compatible models
-   * Tries user's configured model, then gemini-pro (most compatible with v1beta)
-   * Also tries without JSON schema if the primary config fails
-   */
-  private async getModelWithFallback(
-    client: GoogleGenerativeAI,
-    userId: string,
-    config: {
-      systemInstruction?: string;
-      generationConfig?: any;
-    }
-  ): Promise<any> {
-    let modelName = await this.getModelName(userId);
-    // Use gemini-pro as fallback - it's the most stable for v1beta API
-    const fallbackModels = ['gemini-pro', 'gemini-1.5-flash-latest', 'gemini-1.5-pro-latest'];
-
-    // Helper to try a model with config and optionally without responseSchema
-    const tryModel = async (model: string, fullConfig: any): Promise<any> => {
-      try {
-        return client.getGenerativeModel({
-          model,
-          ...fullConfig,
-        });
-      } catch (error: any) {
-        // If error mentions schema/JSON, try without responseSchema
-        if (fullConfig.generationConfig?.responseSchema &&
-            (error.message?.includes('schema') || error.message?.includes('not supported'))) {
-          console.warn(`Schema validation not supported for ${model}, trying without schema...`);
-          const configWithoutSchema = {
-            ...fullConfig,
-            generationConfig: {
-              ...fullConfig.generationConfig,
-              responseSchema: undefined,
-            },
-          };
-          return client.getGenerativeModel({
-            model,
-            ...configWithoutSchema,
-          });
-        }
-        throw error;
-      }
-    };
-
-    // Try primary model
-    try {
-      return await tryModel(modelName, config);
-    } catch (error: any) {
-      // If model not found, try fallbacks
-      if (error.message?.includes('404') || error.message?.includes('not found')) {
-        console.warn(`Model ${modelName} not available, trying fallbacks...`);
-
-        for (const fallback of fallbackModels) {
-          if (fallback === modelName) continue; // Skip if already tried
-
-          try {
-            console.log(`Trying fallback model: ${fallback}`);
-            return await tryModel(fallback, config);
-          } catch (fallbackError: any) {
-            console.warn(`Fallback model ${fallback} also failed:`, fallbackError.message);
-            continue;
-          }
-        }
-
-        throw new Error(
-          `None of the available models (${[modelName, ...fallbackModels].join(', ')}) are accessible. ` +
-          `Please check your Gemini API key permissions or try configuring a different model in Settings.`
-        );
-      }
-      throw error;
-    }
+  private async getProvider(userId: string): Promise<LLMProvider> {
+    return createServiceContext(userId).getLLMProvider();
   }
 
   /**
@@ -162,25 +88,13 @@ export class ResearchService {
     }
   ): Promise<ProblemEvaluation> {
     try {
-      const client = await this.getGeminiClient(userId);
-
-      const model = await this.getModelWithFallback(client, userId, {
-        systemInstruction: PROBLEM_EVALUATOR_SYSTEM_PROMPT,
-        generationConfig: {
-          responseMimeType: 'application/json',
-          responseSchema: PROBLEM_EVALUATION_SCHEMA,
-        },
-      });
+      const provider = await this.getProvider(userId);
 
-      const prompt = createProblemEvaluationPrompt(input);
-      const result = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      return await provider.generateJSON<ProblemEvaluation>({
+        prompt: createProblemEvaluationPrompt(input),
+        systemPrompt: PROBLEM_EVALUATOR_SYSTEM_PROMPT,
+        schema: PROBLEM_EVALUATION_SCHEMA,
       });
-
-      const text = result.response.text();
-      const evaluation: ProblemEvaluation = JSON.parse(text);
-
-      return evaluation;
     } catch (error: any) {
       console.error('Error evaluating problem:', error);
       throw new Error(`Failed to evaluate problem: ${error.message}`);
@@ -204,15 +118,7 @@ export class ResearchService {
     }
   ): Promise<SurveyQuestion[]> {
     try {
-      const client = await this.getGeminiClient(userId);
-
-      const model = await this.getModelWithFallback(client, userId, {
-        systemInstruction: SURVEY_GENERATOR_SYSTEM_PROMPT,
-        generationConfig: {
-          responseMimeType: 'application/json',
-          responseSchema: SURVEY_QUESTIONS_SCHEMA,
-        },
-      });
+      const provider = await this.getProvider(userId);
 
       const prompt = createSurveyGenerationPrompt(
         sessionData.problemStatement,
@@ -222,13 +128,12 @@ export class ResearchService {
         options
       );
 
-      const result = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      const response = await provider.generateJSON<{ questions: SurveyQuestion[] }>({
+        prompt,
+        systemPrompt: SURVEY_GENERATOR_SYSTEM_PROMPT,
+        schema: SURVEY_QUESTIONS_SCHEMA,
       });
 
-      const text = result.response.text();
-      const response = JSON.parse(text);
-
       return response.questions;
     } catch (error: any) {
       console.error('Error generating survey questions:', error);
@@ -253,15 +158,7 @@ export class ResearchService {
     }
   ): Promise<InterviewGuide> {
     try {
-      const client = await this.getGeminiClient(userId);
-
-      const model = await this.getModelWithFallback(client, userId, {
-        systemInstruction: INTERVIEW_GENERATOR_SYSTEM_PROMPT,
-        generationConfig: {
-          responseMimeType: 'application/json',
-          responseSchema: INTERVIEW_GUIDE_SCHEMA,
-        },
-      });
+      const provider = await this.getProvider(userId);
 
       const prompt = createInterviewGenerationPrompt(
         sessionData.problemStatement,
@@ -271,14 +168,11 @@ export class ResearchService {
         options
       );
 
-      const result = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      return await provider.generateJSON<InterviewGuide>({
+        prompt,
+        systemPrompt: INTERVIEW_GENERATOR_SYSTEM_PROMPT,
+        schema: INTERVIEW_GUIDE_SCHEMA,
       });
-
-      const text = result.response.text();
-      const guide: InterviewGuide = JSON.parse(text);
-
-      return guide;
     } catch (error: any) {
       console.error('Error generating interview guide:', error);
       throw new Error(`Failed to generate interview guide: ${error.message}`);
@@ -286,35 +180,105 @@ export class ResearchService {
   }
 
   /**
-   * Step 6: Analyze survey results
+   * Step 6: Analyze survey results, reading each question's answers from its confirmed column
+   * Distributions, scores, cross-tabs and pain point counts are computed from the rows; the LLM only interprets them.
+   * Open-ended answers beyond one prompt's worth are mapped into pain themes batch by batch, then merged.
    */
   async analyzeSurveyResults(
     userId: string,
     questions: SurveyQuestion[],
     responsesData: any[],
-    problemStatement: string
+    columns: Record<string, string>,
+    problemStatement: string,
+    checkpoints?: CheckpointStore
   ): Promise<SurveyAnalysis> {
     try {
-      const client = await this.getGeminiClient(userId);
-
-      const model = await this.getModelWithFallback(client, userId, {
-        systemInstruction: SURVEY_ANALYZER_SYSTEM_PROMPT,
-        generationConfig: {
-          responseMimeType: 'application/json',
-          responseSchema: SURVEY_ANALYSIS_SCHEMA,
-        },
-      });
+      const statistics = surveyStatsService.compute(questions, responsesData, columns);
+      if (!statistics.questions.some((q) => q.column)) {
+        throw new Error('no uploaded columns are mapped to the survey questions');
+      }
 
-      const prompt = createSurveyAnalysisPrompt(questions, responsesData, problemStatement);
+      const openEndedAnswers = surveyStatsService.collectOpenEndedAnswers(questions, responsesData, statistics, Infinity);
+      const answerCount = openEndedAnswers.reduce((sum, q) => sum + q.answers.length, 0);
+      const batches = answerCount > SURVEY_ANSWERS_PER_BATCH ? researchBatchService.surveyBatches(openEndedAnswers) : [];
 
-      const result = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      });
+      const provider = await this.getProvider(userId);
+      const run = await researchBatchService.startRun(
+        researchBatchService.fingerprint('survey', columns, openEndedAnswers, problemStatement),
+        Math.max(batches.length, 1),
+        checkpoints
+      );
 
-      const text = result.response.text();
-      const analysis: SurveyAnalysis = JSON.parse(text);
+      try {
+        let interpretation: SurveyInterpretation;
+        let themes: Array<{ pain: string; responseIds: number[] }>;
+
+        if (!batches.length) {
+          [interpretation] = await run.extract([openEndedAnswers], (answers) =>
+            provider.generateJSON<SurveyInterpretation>({
+              prompt: createSurveyAnalysisPrompt(statistics, answers, problemStatement),
+              systemPrompt: SURVEY_ANALYZER_SYSTEM_PROMPT,
+              schema: SURVEY_INTERPRETATION_SCHEMA,
+            })
+          );
+          themes = interpretation.openEndedPainPoints || [];
+        } else {
+          console.log(`📊 Analyzing ${answerCount} open-ended answers in ${batches.length} batches`);
+
+          const findings = await run.extract(batches, async (batch, index) => {
+            const ids = new Set(batch.flatMap((q) => q.answers.map((a) => a.responseId)));
+            const result = await provider.generateJSON<SurveyBatchFindings>({
+              prompt: createSurveyBatchPrompt(batch, problemStatement, { index, total: batches.length }),
+              systemPrompt: SURVEY_ANALYZER_SYSTEM_PROMPT,
+              schema: SURVEY_BATCH_SCHEMA,
+            });
+            return {
+              painPoints: (result.painPoints || []).map((p) => ({
+                pain: p.pain,
+                responseIds: (p.responseIds || []).filter((id) => ids.has(id)),
+              })),
+              insights: result.insights || [],
+            };
+          });
 
-      return analysis;
+          await run.setPhase('merging');
+          const painPoints = findings.flatMap((f) => f.painPoints);
+          const groups = await this.mergeLabels(provider, 'pain points', painPoints.map((p) => p.pain));
+          const cited = painPoints.map((p) => p.responseIds);
+          themes = groups.map((group) => ({ pain: group.label, responseIds: researchBatchService.citations(group, cited) }));
+
+          await run.setPhase('interpreting');
+          interpretation = await provider.generateJSON<SurveyInterpretation>({
+            prompt: createSurveyAnalysisPrompt(statistics, [], problemStatement, {
+              answerCount,
+              themes: themes
+                .map((t) => ({ pain: t.pain, count: t.responseIds.length }))
+                .sort((a, b) => b.count - a.count),
+              insights: findings.flatMap((f) => f.insights).slice(0, MAX_BATCH_INSIGHTS),
+            }),
+            systemPrompt: SURVEY_ANALYZER_SYSTEM_PROMPT,
+            schema: SURVEY_INTERPRETATION_SCHEMA,
+          });
+        }
+
+        const citableIds = new Set(openEndedAnswers.flatMap((q) => q.answers.map((a) => a.responseId)));
+        const analysis: SurveyAnalysis = {
+          responseDistribution: surveyStatsService.responseDistribution(statistics),
+          keyTrends: interpretation.keyTrends || [],
+          topPainPoints: surveyStatsService.painPoints(statistics, questions, themes, citableIds),
+          segmentDifferences: surveyStatsService.segmentDifferences(statistics),
+          insightClusters: interpretation.insightClusters || [],
+          recommendationSummary: interpretation.recommendationSummary || [],
+          decisionSignals: interpretation.decisionSignals || [],
+          statistics,
+        };
+
+        await run.setPhase('completed');
+        return analysis;
+      } catch (error: any) {
+        await run.setPhase('failed', error.message);
+        throw error;
+      }
     } catch (error: any) {
       console.error('Error analyzing survey results:', error);
       throw new Error(`Failed to analyze survey results: ${error.message}`);
@@ -323,77 +287,157 @@ export class ResearchService {
 
   /**
    * Step 6: Analyze interview transcripts
+   * Transcripts beyond one prompt's worth are analyzed batch by batch, and the findings merged with
+   * frequencies counted from the interviews each batch cites
    */
   async analyzeInterviewResults(
     userId: string,
     guide: InterviewGuide,
     transcriptsData: string[],
-    problemStatement: string
+    problemStatement: string,
+    checkpoints?: CheckpointStore
   ): Promise<InterviewAnalysis> {
-    const client = await this.getGeminiClient(userId);
-    const prompt = createInterviewAnalysisPrompt(guide, transcriptsData, problemStatement);
-
-    console.log('🔄 Starting interview analysis with Gemini...');
-    console.log(`📊 Analyzing ${transcriptsData.length} interview transcripts`);
-
-    // Try with schema first, fallback to without schema if it fails
-    const attemptAnalysis = async (useSchema: boolean): Promise<InterviewAnalysis> => {
-      try {
-        const config: any = {
-          systemInstruction: INTERVIEW_ANALYZER_SYSTEM_PROMPT,
-          generationConfig: {
-            responseMimeType: 'application/json',
-          },
-        };
+    const provider = await this.getProvider(userId);
+    const batches = researchBatchService.transcriptBatches(transcriptsData);
 
-        if (useSchema) {
-          config.generationConfig.responseSchema = INTERVIEW_ANALYSIS_SCHEMA;
-          console.log('  Attempting analysis WITH schema validation...');
-        } else {
-          console.log('  Attempting analysis WITHOUT schema validation...');
-        }
+    console.log(`🔄 Starting interview analysis with ${provider.name} (${provider.model})...`);
+    console.log(`📊 Analyzing ${transcriptsData.length} interview transcripts in ${batches.length} batch(es)`);
 
-        const model = await this.getModelWithFallback(client, userId, config);
+    const run = await researchBatchService.startRun(
+      researchBatchService.fingerprint('interview', guide.questions, transcriptsData, problemStatement),
+      batches.length,
+      checkpoints
+    );
 
-        // Add 60-second timeout to prevent hanging
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          setTimeout(() => reject(new Error('Analysis timeout after 60 seconds')), 60000);
+    try {
+      let analysis: InterviewAnalysis;
+
+      if (batches.length === 1) {
+        // Providers retry without the schema themselves if the model rejects it
+        [analysis] = await run.extract([transcriptsData], (transcripts) =>
+          provider.generateJSON<InterviewAnalysis>({
+            prompt: createInterviewAnalysisPrompt(guide, transcripts, problemStatement),
+            systemPrompt: INTERVIEW_ANALYZER_SYSTEM_PROMPT,
+            schema: INTERVIEW_ANALYSIS_SCHEMA,
+            timeoutMs: 60000, // Prevent hanging on large transcript sets
+          })
+        );
+      } else {
+        const findings = await run.extract(batches, async (parts, index) => {
+          const interviews = new Set(parts.map((p) => p.interview));
+          const cited = (numbers: number[] | undefined) => (numbers || []).filter((n) => interviews.has(n));
+          const result = await provider.generateJSON<InterviewBatchFindings>({
+            prompt: createInterviewBatchPrompt(guide, parts, problemStatement, {
+              index,
+              total: batches.length,
+              interviewCount: transcriptsData.length,
+            }),
+            systemPrompt: INTERVIEW_ANALYZER_SYSTEM_PROMPT,
+            schema: INTERVIEW_BATCH_SCHEMA,
+            timeoutMs: 60000,
+          });
+          return {
+            themes: (result.themes || []).map((t) => ({ ...t, interviews: cited(t.interviews), quotes: t.quotes || [] })),
+            quoteHighlights: result.quoteHighlights || [],
+            objections: (result.objections || []).map((o) => ({ ...o, interviews: cited(o.interviews) })),
+            needs: (result.needs || []).map((n) => ({ ...n, interviews: cited(n.interviews) })),
+            opportunityAreas: result.opportunityAreas || [],
+            productDecisionInputs: result.productDecisionInputs || [],
+          };
         });
 
-        const analysisPromise = model.generateContent({
-          contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        });
+        await run.setPhase('merging');
+        analysis = await this.mergeInterviewFindings(provider, findings);
+      }
 
-        const result = await Promise.race([analysisPromise, timeoutPromise]);
-        const text = result.response.text();
+      await run.setPhase('completed');
+      console.log('✅ Interview analysis completed successfully');
+      return analysis;
+    } catch (error: any) {
+      await run.setPhase('failed', error.message);
+      console.error('❌ Interview analysis failed');
+      console.error('Error details:', {
+        message: error.message,
+        stack: error.stack?.split('\n').slice(0, 3).join('\n'),
+      });
+      throw new Error(`Failed to analyze interview results: ${error.message}`);
+    }
+  }
 
-        console.log('✅ Interview analysis completed successfully');
-        return JSON.parse(text);
-      } catch (error: any) {
-        if (useSchema && (error.message?.includes('schema') || error.message?.includes('properties'))) {
-          console.warn('  Schema validation failed, retrying without schema...');
-          throw error; // Re-throw to trigger fallback
-        }
-        throw error;
-      }
+  /**
+   * Reduce per-batch interview findings: duplicate labels are grouped, and each group's frequency is
+   * the number of distinct interviews its members cite
+   */
+  private async mergeInterviewFindings(
+    provider: LLMProvider,
+    findings: InterviewBatchFindings[]
+  ): Promise<InterviewAnalysis> {
+    const themes = findings.flatMap((f) => f.themes);
+    const objections = findings.flatMap((f) => f.objections);
+    const needs = findings.flatMap((f) => f.needs);
+    const opportunities = findings.flatMap((f) => f.opportunityAreas);
+    const decisionInputs = findings.flatMap((f) => f.productDecisionInputs);
+
+    const themeGroups = await this.mergeLabels(provider, 'themes', themes.map((t) => t.theme));
+    const objectionGroups = await this.mergeLabels(provider, 'objections', objections.map((o) => o.objection));
+    const needGroups = await this.mergeLabels(provider, 'needs', needs.map((n) => n.need));
+    const opportunityGroups = await this.mergeLabels(provider, 'opportunity areas', opportunities);
+    const decisionGroups = await this.mergeLabels(provider, 'product decision inputs', decisionInputs);
+
+    const counted = (groups: LabelGroup[], cited: number[][]) =>
+      groups
+        .map((group) => ({ group, frequency: researchBatchService.citations(group, cited).length }))
+        .sort((a, b) => b.frequency - a.frequency);
+    // Findings without interview numbers are ranked by how many batches came up with them
+    const byMentions = (groups: LabelGroup[]) =>
+      [...groups].sort((a, b) => b.members.length - a.members.length).map((group) => group.label);
+
+    const seenQuotes = new Set<string>();
+    const quoteHighlights = findings
+      .flatMap((f) => f.quoteHighlights)
+      .filter((q) => q.quote && !seenQuotes.has(q.quote.trim()) && seenQuotes.add(q.quote.trim()));
+
+    return {
+      themes: counted(themeGroups, themes.map((t) => t.interviews))
+        .slice(0, MAX_MERGED_FINDINGS)
+        .map(({ group, frequency }) => ({
+          theme: group.label,
+          frequency,
+          quotes: [...new Set(group.members.flatMap((i) => themes[i].quotes))].slice(0, 3),
+        })),
+      quoteHighlights: quoteHighlights.slice(0, 12),
+      objectionPatterns: counted(objectionGroups, objections.map((o) => o.interviews))
+        .slice(0, MAX_MERGED_FINDINGS)
+        .map(({ group, frequency }) => ({ objection: group.label, frequency })),
+      needFrequency: Object.fromEntries(
+        counted(needGroups, needs.map((n) => n.interviews))
+          .slice(0, MAX_MERGED_FINDINGS)
+          .map(({ group, frequency }) => [group.label, frequency])
+      ),
+      opportunityAreas: byMentions(opportunityGroups).slice(0, MAX_MERGED_FINDINGS),
+      productDecisionInputs: byMentions(decisionGroups).slice(0, MAX_MERGED_FINDINGS),
     };
+  }
+
+  /**
+   * Group labels from different batches that name the same finding
+   * Exact duplicates are grouped in code; the LLM groups differently worded ones, falling back to
+   * exact duplicates only if that call fails
+   */
+  private async mergeLabels(provider: LLMProvider, category: string, labels: string[]): Promise<LabelGroup[]> {
+    const exact = researchBatchService.groupByName(labels);
+    if (exact.length < 2) return exact;
 
     try {
-      // Try with schema first
-      return await attemptAnalysis(true);
-    } catch (schemaError: any) {
-      console.warn('⚠️ Schema-based analysis failed:', schemaError.message);
-      try {
-        // Fallback: Try without schema
-        return await attemptAnalysis(false);
-      } catch (fallbackError: any) {
-        console.error('❌ Both analysis attempts failed');
-        console.error('Error details:', {
-          message: fallbackError.message,
-          stack: fallbackError.stack?.split('\n').slice(0, 3).join('\n'),
-        });
-        throw new Error(`Failed to analyze interview results: ${fallbackError.message}`);
-      }
+      const result = await provider.generateJSON<{ groups: LabelGroup[] }>({
+        prompt: createLabelMergePrompt(category, exact.map((group) => group.label)),
+        systemPrompt: LABEL_MERGE_SYSTEM_PROMPT,
+        schema: LABEL_MERGE_SCHEMA,
+      });
+      return researchBatchService.combineGroups(exact, result.groups || []);
+    } catch (error: any) {
+      console.warn(`⚠️  Failed to merge ${category} across batches, keeping exact duplicates only:`, error.message);
+      return exact;
     }
   }
 
@@ -414,11 +458,7 @@ export class ResearchService {
   ): Promise<string> {
     try {
       console.log('🔵 Generating research report...');
-      const client = await this.getGeminiClient(userId);
-
-      const model = await this.getModelWithFallback(client, userId, {
-        systemInstruction: REPORT_GENERATOR_SYSTEM_PROMPT,
-      });
+      const provider = await this.getProvider(userId);
 
       const prompt = createReportGenerationPrompt(
         sessionData.problemStatement,
@@ -430,33 +470,21 @@ export class ResearchService {
         sessionData.respondentCount
       );
 
-      console.log('🔵 Calling Gemini API to generate report...');
-
-      // Create timeout promise (60 seconds)
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          console.error('❌ Report generation timeout after 60 seconds');
-          reject(new Error('Report generation timeout after 60 seconds. Please try again.'));
-        }, 60000);
-      });
+      console.log(`🔵 Calling ${provider.name} to generate report...`);
 
-      // Create generation promise
-      const generationPromise = model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      const markdown = await provider.generateText({
+        prompt,
+        systemPrompt: REPORT_GENERATOR_SYSTEM_PROMPT,
+        timeoutMs: 60000,
       });
 
-      // Race between generation and timeout
-      const result = await Promise.race([generationPromise, timeoutPromise]);
-
-      const markdown = result.response.text();
-
       console.log('✅ Report generated successfully');
       return markdown;
     } catch (error: any) {
       console.error('❌ Error generating report:', error.message);
 
       // Check if it's a timeout error
-      if (error.message?.includes('timeout')) {
+      if (error.name === 'TimeoutError' || error.message?.includes('timeout') || error.message?.includes('aborted')) {
         throw new Error('Report generation took too long and was cancelled. This may be due to large data or API issues. Please try again.');
       }
 
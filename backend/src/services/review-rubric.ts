@@ -0,0 +1,184 @@
+import { Prisma, type ReviewRubric as ReviewRubricRow } from '@prisma/client';
+import { prisma } from './database';
+import { DEFAULT_REVIEW_RUBRIC, rubricCriterionId } from '../prompts/reviewer';
+import type {
+  ReviewRubric,
+  RubricCategory,
+  CategoryScore,
+  CriterionResult,
+  Severity,
+  UpdateReviewRubricRequest,
+} from '../../../shared/types/review';
+
+/**
+ * Pass/fail result for one rubric criterion, as returned by the model
+ */
+export interface RawCriterionResult {
+  criterionId: string;
+  passed: boolean;
+  severity?: string;
+  note?: string;
+}
+
+const SEVERITY_RANK: Record<Severity, number> = {
+  suggestion: 1,
+  important: 2,
+  critical: 3,
+};
+
+type RubricRow = ReviewRubricRow & { user?: { username: string } | null };
+
+// Usernames or emails allowed to change the rubric every review is scored against
+const RUBRIC_EDITORS = (process.env.RUBRIC_EDITORS || 'Admin')
+  .split(',')
+  .map((editor) => editor.trim().toLowerCase())
+  .filter(Boolean);
+
+// Saves racing for the same version number are renumbered after the winner this many times
+const SAVE_ATTEMPTS = 3;
+
+/**
+ * Review Rubric Service - Org-wide scoring rubric for PRD reviews
+ * Saving the rubric adds a new version, so stored scores can always be traced to the rubric that produced them
+ */
+export class ReviewRubricService {
+  private static instance: ReviewRubricService;
+
+  private constructor() {
+    console.log('⚖️  Review Rubric Service initialized');
+  }
+
+  static getInstance(): ReviewRubricService {
+    if (!ReviewRubricService.instance) {
+      ReviewRubricService.instance = new ReviewRubricService();
+    }
+    return ReviewRubricService.instance;
+  }
+
+  /**
+   * The rubric reviews are scored against: the latest saved version, else the built-in rubric
+   */
+  async getActiveRubric(): Promise<ReviewRubric> {
+    const row = await prisma.reviewRubric.findFirst({
+      orderBy: { version: 'desc' },
+      include: { user: { select: { username: true } } },
+    });
+    return row ? this.toRubric(row) : DEFAULT_REVIEW_RUBRIC;
+  }
+
+  /**
+   * All saved rubric versions, newest first
+   */
+  async listRubrics(): Promise<ReviewRubric[]> {
+    const rows = await prisma.reviewRubric.findMany({
+      orderBy: { version: 'desc' },
+      include: { user: { select: { username: true } } },
+    });
+    return rows.map((row) => this.toRubric(row));
+  }
+
+  /**
+   * Whether a user may save rubric versions (listed in RUBRIC_EDITORS)
+   */
+  async canEdit(userId: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { username: true, email: true } });
+    return !!user && [user.username, user.email].some((name) => RUBRIC_EDITORS.includes(name.toLowerCase()));
+  }
+
+  /**
+   * Save a new rubric version, which becomes the active rubric
+   */
+  async saveRubric(userId: string, data: UpdateReviewRubricRequest): Promise<ReviewRubric> {
+    const row = await this.createVersion(userId, data);
+
+    console.log(`⚖️  Saved review rubric v${row.version} (${data.categories.length} categories)`);
+    return this.toRubric(row);
+  }
+
+  /**
+   * Score each rubric category from the model's criterion results and compute the weighted overall score
+   * Criteria the model didn't report on count as failed, so a partial answer can't inflate the score
+   */
+  scoreReview(
+    rubric: ReviewRubric,
+    results: RawCriterionResult[]
+  ): { overallScore: number; categoryScores: CategoryScore[] } {
+    const resultsById = new Map(results.map((result) => [result.criterionId.trim(), result]));
+    const threshold = SEVERITY_RANK[rubric.severityThreshold];
+
+    const categoryScores = rubric.categories.map((category): CategoryScore => {
+      const criteria = category.criteria.map((criterion, i): CriterionResult => {
+        const result = resultsById.get(rubricCriterionId(category.id, i));
+        if (!result) {
+          return { criterion, passed: false, severity: 'important', note: 'Not assessed by the reviewer' };
+        }
+        return {
+          criterion,
+          passed: result.passed === true,
+          ...(result.passed !== true && { severity: this.toSeverity(result.severity) }),
+          ...(result.note && { note: result.note }),
+        };
+      });
+
+      const passedCount = criteria.filter((c) => c.passed).length;
+      return {
+        categoryId: category.id,
+        name: category.name,
+        weight: category.weight,
+        score: criteria.length > 0 ? Math.round((passedCount / criteria.length) * 100) : 100,
+        passed: criteria.every((c) => c.passed || SEVERITY_RANK[c.severity!] < threshold),
+        criteria,
+      };
+    });
+
+    const totalWeight = categoryScores.reduce((sum, category) => sum + category.weight, 0);
+    const weightedSum = categoryScores.reduce((sum, category) => sum + category.score * category.weight, 0);
+
+    return {
+      overallScore: totalWeight > 0 ? Math.round(weightedSum / totalWeight) : 0,
+      categoryScores,
+    };
+  }
+
+  // Number the rubric after the latest version; if a concurrent save takes that number first, try the next one
+  private async createVersion(userId: string, data: UpdateReviewRubricRequest, attempt = 1): Promise<RubricRow> {
+    const latest = await prisma.reviewRubric.findFirst({ orderBy: { version: 'desc' } });
+
+    try {
+      return await prisma.reviewRubric.create({
+        data: {
+          version: (latest?.version ?? DEFAULT_REVIEW_RUBRIC.version) + 1,
+          userId,
+          name: data.name.trim(),
+          categories: JSON.stringify(data.categories),
+          severityThreshold: data.severityThreshold,
+        },
+        include: { user: { select: { username: true } } },
+      });
+    } catch (error) {
+      const taken = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+      if (taken && attempt < SAVE_ATTEMPTS) {
+        return this.createVersion(userId, data, attempt + 1);
+      }
+      throw error;
+    }
+  }
+
+  private toSeverity(value?: string): Severity {
+    const severity = value?.trim().toLowerCase();
+    return severity && severity in SEVERITY_RANK ? (severity as Severity) : 'important';
+  }
+
+  private toRubric(row: RubricRow): ReviewRubric {
+    return {
+      version: row.version,
+      name: row.name,
+      categories: JSON.parse(row.categories) as RubricCategory[],
+      severityThreshold: row.severityThreshold as Severity,
+      ...(row.user && { updatedBy: row.user.username }),
+      createdAt: row.createdAt.toISOString(),
+    };
+  }
+}
+
+export const reviewRubricService = ReviewRubricService.getInstance();
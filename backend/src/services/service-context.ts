@@ -1,4 +1,5 @@
-import { configDBService } from './config-db';
+import { configDBService, type ConfigKey } from './config-db';
+import { createLLMProvider, resolveLLMConfig, type LLMProvider } from './llm';
 
 /**
  * Service context for user-specific operations
@@ -10,15 +11,15 @@ export class ServiceContext {
   /**
    * Get configuration value for the current user
    */
-  async getConfig(key: string): Promise<string | undefined> {
-    return configDBService.get(this.userId, key as any);
+  async getConfig(key: ConfigKey): Promise<string | undefined> {
+    return configDBService.get(this.userId, key);
   }
 
   /**
    * Check if required configuration keys are available
    */
-  async isConfigured(keys: string[]): Promise<boolean> {
-    return configDBService.isConfigured(this.userId, keys as any);
+  async isConfigured(keys: ConfigKey[]): Promise<boolean> {
+    return configDBService.isConfigured(this.userId, keys);
   }
 
   /**
@@ -27,6 +28,20 @@ export class ServiceContext {
   async getSettings() {
     return configDBService.loadUserSettings(this.userId);
   }
+
+  /**
+   * Get the LLM provider, model and API key the user picked in Settings
+   */
+  async getLLMProvider(): Promise<LLMProvider> {
+    return createLLMProvider(await resolveLLMConfig((key) => this.getConfig(key)));
+  }
+
+  /**
+   * Name of the model the user's requests are sent to
+   */
+  async getModelName(): Promise<string> {
+    return (await resolveLLMConfig((key) => this.getConfig(key))).model;
+  }
 }
 
 /**
@@ -0,0 +1,529 @@
+import type {
+  ColumnMappingEntry,
+  ColumnMatchMethod,
+  CrossTab,
+  NetScore,
+  QuestionStatistics,
+  SurveyQuestion,
+  SurveyStatistics,
+} from '../../../shared/types/research';
+
+/** Open-ended answers numbered so the LLM can cite them, e.g. `[R12]` */
+export interface OpenEndedAnswers {
+  questionId: string;
+  questionText: string;
+  objective: SurveyQuestion['objective'];
+  total: number;
+  answers: Array<{ responseId: number; text: string }>;
+}
+
+export type SurveyRow = Record<string, unknown>;
+
+/** Respondent ID of the example row in the survey template, which isn't a real response */
+export const SAMPLE_RESPONDENT_ID = 'SAMPLE-001';
+
+const QUESTION_PREFIX = /^Q(\d+)(\s*[:.)-]|$)/i; // `Q3: How often...` headers from the survey template
+const MULTI_SELECT_SEPARATOR = /\s*[;|,]\s*/;
+const IGNORED_COLUMNS = new Set(['respondent id', 'timestamp']);
+const RESPONDENT_ID_COLUMN = 'Respondent ID';
+const MAX_SEGMENTS = 8; // Screening questions with more distinct answers aren't used for cross-tabs
+const MAX_PAIN_POINTS = 7;
+const FUZZY_MATCH_THRESHOLD = 0.5;
+const STOP_WORDS = new Set(['the', 'and', 'you', 'your', 'for', 'are', 'how', 'what', 'with', 'this', 'that', 'does', 'did']);
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function cellText(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+function percent(count: number, total: number): number {
+  return total ? Math.round((count / total) * 1000) / 10 : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Survey Statistics Service - Exact answer counts computed from uploaded survey rows
+ * Distributions, likert means/medians, NPS-style net scores and cross-tabs by screening answers,
+ * so the analysis prompt never has to produce numbers itself
+ */
+export class SurveyStatsService {
+  /**
+   * Suggest the uploaded column for each question: `Q{n}:` prefixes from the survey template first,
+   * then headers repeating the question text or id, then the best remaining word overlap
+   */
+  suggestColumnMapping(headers: string[], questions: SurveyQuestion[]): ColumnMappingEntry[] {
+    const matches = new Map<string, ColumnMappingEntry>();
+    const taken = new Set<string>();
+    const assign = (question: SurveyQuestion | undefined, header: string, method: ColumnMatchMethod, confidence?: number) => {
+      if (question && !matches.has(question.id) && !taken.has(header)) {
+        matches.set(question.id, { questionId: question.id, column: header, method, ...(confidence !== undefined && { confidence }) });
+        taken.add(header);
+      }
+    };
+
+    for (const header of headers) {
+      const match = header.match(QUESTION_PREFIX);
+      if (match) assign(questions[Number(match[1]) - 1], header, 'prefix');
+    }
+
+    const candidates = headers.filter((h) => !taken.has(h) && !IGNORED_COLUMNS.has(normalize(h)));
+    for (const header of candidates) {
+      const key = normalize(header.replace(/(\.\.\.|…)$/, ''));
+      if (!key) continue;
+      assign(
+        questions.find((q) => {
+          const text = normalize(q.text);
+          return !matches.has(q.id) && (normalize(q.id) === key || text === key || (key.length >= 20 && text.startsWith(key)));
+        }),
+        header,
+        'exact'
+      );
+    }
+
+    // Best pairs first, so a strong match isn't lost to an earlier weak one
+    const pairs = candidates
+      .filter((h) => !taken.has(h))
+      .flatMap((header) =>
+        questions
+          .filter((q) => !matches.has(q.id))
+          .map((question) => ({ header, question, score: this.wordOverlap(header, question.text) }))
+      )
+      .filter((pair) => pair.score >= FUZZY_MATCH_THRESHOLD)
+      .sort((a, b) => b.score - a.score);
+    for (const { header, question, score } of pairs) {
+      assign(question, header, 'fuzzy', Math.round(score * 100) / 100);
+    }
+
+    return questions.map((q) => matches.get(q.id) ?? { questionId: q.id, column: null });
+  }
+
+  /**
+   * Whether an answer fits its question: one of the options (or several, for a multi-select),
+   * or a point on the likert scale. Open-ended answers, and choices without options, always fit.
+   */
+  isValidAnswer(question: SurveyQuestion, answer: string): boolean {
+    if (question.type === 'open-ended') {
+      return true;
+    }
+    if (question.type === 'likert') {
+      const points = this.scalePoints(question.options);
+      const value = this.scaleValue(answer, points);
+      if (value === null) return false;
+      const values = points.length ? points.map((p) => p.value) : [0, 10];
+      return value >= Math.min(...values) && value <= Math.max(...values);
+    }
+    return this.choiceValues(answer, question.options).matched;
+  }
+
+  /**
+   * Column headers across all rows (rows from sheet_to_json omit their empty cells)
+   */
+  headers(rows: SurveyRow[]): string[] {
+    const headers = new Set<string>();
+    for (const row of rows) {
+      Object.keys(row).forEach((key) => headers.add(key));
+    }
+    return [...headers];
+  }
+
+  /**
+   * Merge several uploads of the same survey, each with its own column mapping, into one set of rows
+   * Each question's answers go under the first column mapped to it; a single upload is returned as is
+   */
+  combineUploads(uploads: Array<{ rows: SurveyRow[]; columns: Record<string, string> }>): {
+    rows: SurveyRow[];
+    columns: Record<string, string>;
+  } {
+    if (uploads.length === 1) return uploads[0];
+
+    const columns: Record<string, string> = {};
+    const taken = new Set<string>([RESPONDENT_ID_COLUMN]);
+    for (const upload of uploads) {
+      for (const [questionId, column] of Object.entries(upload.columns)) {
+        if (columns[questionId]) continue;
+        columns[questionId] = taken.has(column) ? questionId : column;
+        taken.add(columns[questionId]);
+      }
+    }
+
+    const rows = uploads.flatMap((upload) => {
+      // Keep respondent ids, so the template's sample row is still skipped
+      const idColumn = this.headers(upload.rows).find((h) => normalize(h) === 'respondent id');
+      return upload.rows.map((row) => {
+        const combined: SurveyRow = idColumn ? { [RESPONDENT_ID_COLUMN]: row[idColumn] } : {};
+        for (const [questionId, column] of Object.entries(upload.columns)) {
+          combined[columns[questionId]] = row[column];
+        }
+        return combined;
+      });
+    });
+
+    return { rows, columns };
+  }
+
+  /**
+   * Compute statistics for every question from its mapped column (question id -> header)
+   * Blank rows and the template's sample row are skipped
+   */
+  compute(questions: SurveyQuestion[], rows: SurveyRow[], columns: Record<string, string>): SurveyStatistics {
+    const respondents = this.respondents(rows).map(({ row }) => row);
+    const stats = questions.map((question) => this.questionStats(question, columns[question.id], respondents));
+    const mapped = new Set(Object.values(columns));
+
+    return {
+      respondentCount: respondents.length,
+      questions: stats,
+      crossTabs: this.crossTabs(questions, stats, respondents),
+      unmappedColumns: this.headers(rows).filter((h) => !mapped.has(h) && !IGNORED_COLUMNS.has(normalize(h))),
+    };
+  }
+
+  /**
+   * Open-ended answers for the analysis prompt, pain-point questions first, capped in count and length
+   */
+  collectOpenEndedAnswers(
+    questions: SurveyQuestion[],
+    rows: SurveyRow[],
+    statistics: SurveyStatistics,
+    maxAnswers = 300,
+    maxLength = 300
+  ): OpenEndedAnswers[] {
+    const respondents = this.respondents(rows);
+    const columns = new Map(statistics.questions.map((q) => [q.questionId, q.column]));
+    const openEnded = questions
+      .filter((q) => q.type === 'open-ended' && columns.get(q.id))
+      .sort((a, b) => Number(b.objective === 'pain-point') - Number(a.objective === 'pain-point'));
+
+    let remaining = maxAnswers;
+    return openEnded.map((question) => {
+      const column = columns.get(question.id)!;
+      const all = respondents
+        .map(({ row, responseId }) => ({ responseId, text: cellText(row[column]) }))
+        .filter((answer) => answer.text);
+      const answers = all.slice(0, Math.max(remaining, 0)).map((answer) => ({
+        responseId: answer.responseId,
+        text: answer.text.length > maxLength ? `${answer.text.slice(0, maxLength)}…` : answer.text,
+      }));
+      remaining -= answers.length;
+
+      return {
+        questionId: question.id,
+        questionText: question.text,
+        objective: question.objective,
+        total: all.length,
+        answers,
+      };
+    });
+  }
+
+  /**
+   * Answer counts per question id, for SurveyAnalysis.responseDistribution
+   */
+  responseDistribution(statistics: SurveyStatistics): Record<string, Record<string, number>> {
+    return Object.fromEntries(
+      statistics.questions
+        .filter((q) => q.distribution.length)
+        .map((q) => [q.questionId, Object.fromEntries(q.distribution.map((a) => [a.answer, a.count]))])
+    );
+  }
+
+  /**
+   * Headline figure per segment and question, for SurveyAnalysis.segmentDifferences
+   */
+  segmentDifferences(statistics: SurveyStatistics): Record<string, Record<string, Record<string, string | number>>> {
+    const differences: Record<string, Record<string, Record<string, string | number>>> = {};
+
+    for (const tab of statistics.crossTabs) {
+      const bySegment = (differences[tab.segmentQuestionText] ??= {});
+      for (const segment of tab.segments) {
+        const entry = (bySegment[segment.segment] ??= { respondents: segment.respondents });
+        const top = [...segment.distribution].sort((a, b) => b.count - a.count)[0];
+        entry[tab.questionText] =
+          segment.mean !== undefined ? `mean ${segment.mean}` : top?.count ? `${top.answer} (${top.percent}%)` : 'no answers';
+      }
+    }
+
+    return differences;
+  }
+
+  /**
+   * Pain points ranked by how many respondents reported them
+   * Closed pain-point questions are counted directly; themes the LLM found in open-ended answers
+   * are counted from the responses it cites, ignoring ids it wasn't shown
+   */
+  painPoints(
+    statistics: SurveyStatistics,
+    questions: SurveyQuestion[],
+    themes: Array<{ pain: string; responseIds: number[] }>,
+    citableIds: Set<number>
+  ): Array<{ pain: string; frequency: number; count: number }> {
+    const painQuestionIds = new Set(questions.filter((q) => q.objective === 'pain-point').map((q) => q.id));
+    const pains: Array<{ pain: string; count: number }> = [];
+
+    for (const stats of statistics.questions) {
+      if (!painQuestionIds.has(stats.questionId) || !stats.distribution.length) continue;
+
+      if (stats.type === 'likert' && stats.scale) {
+        const { max } = stats.scale;
+        const count = stats.distribution
+          .filter((a) => Number.parseFloat(a.answer) >= max - 1)
+          .reduce((sum, a) => sum + a.count, 0);
+        pains.push({ pain: `${stats.questionText} (${max - 1} or ${max} out of ${max})`, count });
+      } else {
+        stats.distribution.forEach((a) => pains.push({ pain: a.answer, count: a.count }));
+      }
+    }
+
+    for (const theme of themes) {
+      const cited = new Set(theme.responseIds.filter((id) => citableIds.has(id)));
+      pains.push({ pain: theme.pain, count: cited.size });
+    }
+
+    return pains
+      .filter((p) => p.count > 0)
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_PAIN_POINTS)
+      .map((p) => ({ ...p, frequency: percent(p.count, statistics.respondentCount) }));
+  }
+
+  // Dice coefficient of the two texts' distinct words, ignoring short filler words
+  private wordOverlap(a: string, b: string): number {
+    const words = (text: string) => new Set(normalize(text).split(' ').filter((w) => w.length > 2 && !STOP_WORDS.has(w)));
+    const left = words(a);
+    const right = words(b);
+    if (!left.size || !right.size) return 0;
+    const shared = [...left].filter((w) => right.has(w)).length;
+    return (2 * shared) / (left.size + right.size);
+  }
+
+  // Rows with an answer, numbered by their position in the upload
+  private respondents(rows: SurveyRow[]): Array<{ row: SurveyRow; responseId: number }> {
+    const idColumn = this.headers(rows).find((h) => normalize(h) === 'respondent id');
+
+    return rows
+      .map((row, index) => ({ row, responseId: index + 1 }))
+      .filter(({ row }) => {
+        if (idColumn && cellText(row[idColumn]) === SAMPLE_RESPONDENT_ID) return false;
+        return Object.values(row).some((value) => cellText(value));
+      });
+  }
+
+  // `scale` pins a likert scale inferred from all rows, so a segment's breakdown uses the same scale points
+  private questionStats(
+    question: SurveyQuestion,
+    column: string | undefined,
+    rows: SurveyRow[],
+    scale?: QuestionStatistics['scale']
+  ): QuestionStatistics {
+    const answers = column ? rows.map((row) => cellText(row[column])).filter(Boolean) : [];
+    const base = {
+      questionId: question.id,
+      questionText: question.text,
+      type: question.type,
+      ...(column && { column }),
+      responses: answers.length,
+      skipped: rows.length - answers.length,
+    };
+
+    if (question.type === 'open-ended') {
+      return { ...base, distribution: [] };
+    }
+    if (question.type === 'likert') {
+      return { ...base, ...this.scaleStats(answers, question.options, scale) };
+    }
+    return { ...base, ...this.choiceStats(answers, question.options) };
+  }
+
+  // MCQ and screening answers, matched to the options case-insensitively; `A; B` counts as a multi-select
+  private choiceValues(answer: string, options?: string[]): { values: string[]; matched: boolean } {
+    if (!options?.length) {
+      return { values: [answer], matched: true };
+    }
+
+    const byKey = new Map(options.map((option) => [normalize(option), option]));
+    const whole = byKey.get(normalize(answer));
+    if (whole) {
+      return { values: [whole], matched: true };
+    }
+
+    const parts = answer.split(MULTI_SELECT_SEPARATOR).filter(Boolean);
+    if (parts.length > 1 && parts.every((part) => byKey.has(normalize(part)))) {
+      return { values: [...new Set(parts.map((part) => byKey.get(normalize(part))!))], matched: true };
+    }
+
+    return { values: [answer], matched: false };
+  }
+
+  private choiceStats(answers: string[], options?: string[]): Pick<QuestionStatistics, 'distribution' | 'unmatchedAnswers'> {
+    // Options first in their own order, then any other answers by count
+    const counts = new Map<string, { answer: string; count: number }>();
+    (options || []).forEach((option) => counts.set(normalize(option), { answer: option, count: 0 }));
+
+    let unmatched = 0;
+    for (const answer of answers) {
+      const { values, matched } = this.choiceValues(answer, options);
+      if (!matched) unmatched++;
+      for (const value of values) {
+        const key = normalize(value);
+        const entry = counts.get(key) ?? { answer: value, count: 0 };
+        entry.count++;
+        counts.set(key, entry);
+      }
+    }
+
+    const optionCount = options?.length ?? 0;
+    const entries = [...counts.values()];
+    const ordered = [...entries.slice(0, optionCount), ...entries.slice(optionCount).sort((a, b) => b.count - a.count)];
+
+    return {
+      distribution: ordered.map((entry) => ({ ...entry, percent: percent(entry.count, answers.length) })),
+      ...(options?.length && { unmatchedAnswers: unmatched }),
+    };
+  }
+
+  // Options like `1 - Strongly disagree` carry their own value; plain labels are numbered from 1
+  private scalePoints(options?: string[]): Array<{ value: number; label: string }> {
+    return (options || []).map((option, i) => {
+      const numeric = option.match(/^\s*(-?\d+(\.\d+)?)\s*[-–:.)]?\s*(.*)$/);
+      return numeric
+        ? { value: Number.parseFloat(numeric[1]), label: numeric[3] || '' }
+        : { value: i + 1, label: option.trim() };
+    });
+  }
+
+  // Likert answers as numbers: `4`, `4 - Agree`, or an option's label
+  private scaleValue(answer: string, scale: Array<{ value: number; label: string }>): number | null {
+    const numeric = answer.match(/^-?\d+(\.\d+)?/);
+    if (numeric) {
+      return Number.parseFloat(numeric[0]);
+    }
+    const key = normalize(answer);
+    return scale.find((point) => normalize(point.label) === key)?.value ?? null;
+  }
+
+  private scaleStats(
+    answers: string[],
+    options?: string[],
+    scale?: QuestionStatistics['scale']
+  ): Pick<QuestionStatistics, 'distribution' | 'unmatchedAnswers' | 'mean' | 'median' | 'scale' | 'netScore'> {
+    const points = this.scalePoints(options);
+    const values = answers.map((answer) => this.scaleValue(answer, points)).filter((v): v is number => v !== null);
+    const unmatchedAnswers = answers.length - values.length;
+    if (!values.length) {
+      return { distribution: [], unmatchedAnswers };
+    }
+
+    // Without options the scale is inferred: 1-5, 1-7 or 0-10
+    const observedMax = Math.max(...values);
+    const inferredMax = observedMax <= 5 ? 5 : observedMax <= 7 ? 7 : 10;
+    const min = scale?.min ?? (points.length ? Math.min(...points.map((p) => p.value)) : inferredMax === 10 ? 0 : Math.min(1, ...values));
+    const max = scale?.max ?? (points.length ? Math.max(...points.map((p) => p.value)) : inferredMax);
+
+    const counts = new Map<number, number>();
+    if (Number.isInteger(min) && Number.isInteger(max)) {
+      for (let v = min; v <= max; v++) counts.set(v, 0);
+    }
+    values.forEach((v) => counts.set(v, (counts.get(v) || 0) + 1));
+
+    const labelFor = (v: number) => {
+      const label = points.find((p) => p.value === v)?.label;
+      return label ? `${v} - ${label}` : String(v);
+    };
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+
+    return {
+      distribution: [...counts.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([v, count]) => ({ answer: labelFor(v), count, percent: percent(count, values.length) })),
+      unmatchedAnswers,
+      mean: round(values.reduce((sum, v) => sum + v, 0) / values.length),
+      median: sorted.length % 2 ? sorted[middle] : round((sorted[middle - 1] + sorted[middle]) / 2),
+      scale: { min, max },
+      ...this.netScore(values, min, max),
+    };
+  }
+
+  private netScore(values: number[], min: number, max: number): { netScore?: NetScore } {
+    let kind: NetScore['kind'];
+    let isPromoter: (v: number) => boolean;
+    let isDetractor: (v: number) => boolean;
+
+    if (min === 0 && max === 10) {
+      kind = 'nps';
+      isPromoter = (v) => v >= 9;
+      isDetractor = (v) => v <= 6;
+    } else if (max - min >= 4) {
+      kind = 'top-2-box';
+      isPromoter = (v) => v >= max - 1;
+      isDetractor = (v) => v <= min + 1;
+    } else {
+      return {};
+    }
+
+    const promoters = values.filter(isPromoter).length;
+    const detractors = values.filter(isDetractor).length;
+    return {
+      netScore: {
+        kind,
+        promoters,
+        passives: values.length - promoters - detractors,
+        detractors,
+        score: Math.round(((promoters - detractors) / values.length) * 100),
+      },
+    };
+  }
+
+  private crossTabs(questions: SurveyQuestion[], stats: QuestionStatistics[], rows: SurveyRow[]): CrossTab[] {
+    const tabs: CrossTab[] = [];
+
+    questions.forEach((segmentQuestion, i) => {
+      const segmentStats = stats[i];
+      const segmentColumn = segmentStats.column;
+      const isScreening = segmentQuestion.type === 'screening' || segmentQuestion.objective === 'screening';
+      const segments = segmentStats.distribution.filter((a) => a.count > 0);
+      if (!isScreening || !segmentColumn || segmentQuestion.type === 'open-ended' || segmentQuestion.type === 'likert') return;
+      if (segments.length < 2 || segments.length > MAX_SEGMENTS) return;
+
+      // Rows per segment; a multi-select answer puts the respondent in several segments
+      const rowsBySegment = segments.map((segment) => ({
+        segment: segment.answer,
+        rows: rows.filter((row) =>
+          this.choiceValues(cellText(row[segmentColumn]), segmentQuestion.options).values.some(
+            (value) => normalize(value) === normalize(segment.answer)
+          )
+        ),
+      }));
+
+      questions.forEach((question, j) => {
+        if (j === i || question.type === 'open-ended' || !stats[j].column) return;
+
+        tabs.push({
+          segmentQuestionId: segmentQuestion.id,
+          segmentQuestionText: segmentQuestion.text,
+          questionId: question.id,
+          questionText: question.text,
+          segments: rowsBySegment.map(({ segment, rows: segmentRows }) => {
+            const breakdown = this.questionStats(question, stats[j].column, segmentRows, stats[j].scale);
+            return {
+              segment,
+              respondents: segmentRows.length,
+              distribution: breakdown.distribution,
+              ...(breakdown.mean !== undefined && { mean: breakdown.mean }),
+            };
+          }),
+        });
+      });
+    });
+
+    return tabs;
+  }
+}
+
+export const surveyStatsService = new SurveyStatsService();
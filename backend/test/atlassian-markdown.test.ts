@@ -0,0 +1,13 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { htmlToMarkdown } from '../src/services/atlassian-markdown';
+
+test('deeply nested HTML is flattened instead of overflowing the stack', () => {
+  assert.equal(htmlToMarkdown(`<p>${'<b>'.repeat(5000)}deep text`), '**deep text**');
+});
+
+test('content past the nesting limit keeps its text and what follows it', () => {
+  const html = `${'<div>'.repeat(300)}<p>a <b>b</b></p>${'</div>'.repeat(300)}<p>after</p>`;
+
+  assert.equal(htmlToMarkdown(html), 'a b\n\nafter');
+});
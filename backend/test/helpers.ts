@@ -0,0 +1,135 @@
+import { mock } from 'node:test';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import { requireAuthDB } from '../src/middleware/auth-db';
+import { authDBService } from '../src/services/auth-db';
+import { configDBService } from '../src/services/config-db';
+import { jobQueue } from '../src/services/job-queue';
+import type { Job, JobProgress, JobType } from '../../shared/types';
+
+/**
+ * Shared setup for route tests: an app serving one router for a signed-in test user, run against the mock
+ * AI provider, with background jobs captured instead of queued so a test can run them in-process
+ */
+
+export const USER_ID = 'user-1';
+
+export interface TestServer {
+  request(method: 'GET' | 'POST' | 'PUT' | 'DELETE', path: string, body?: unknown): Promise<Response>;
+  close(): Promise<void>;
+}
+
+/**
+ * Serve a router at `mountPath` behind the real auth middleware, with every token accepted as the test user
+ */
+export async function startServer(mountPath: string, router: express.Router): Promise<TestServer> {
+  process.env.AI_PROVIDER = 'mock';
+
+  // No saved settings, so the provider comes from AI_PROVIDER
+  mock.method(configDBService, 'loadUserSettings', async () => null);
+  mock.method(authDBService, 'validateToken', async () => ({ valid: true, userId: USER_ID }));
+
+  const app = express();
+  app.use(express.json());
+  app.use(mountPath, requireAuthDB, router);
+
+  const server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}${mountPath}`;
+
+  return {
+    request(method, path, body) {
+      const isForm = body instanceof FormData;
+      return fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          Authorization: 'Bearer test-token',
+          ...(body !== undefined && !isForm && { 'Content-Type': 'application/json' }),
+        },
+        body: isForm ? body : body !== undefined ? JSON.stringify(body) : undefined,
+      });
+    },
+    close() {
+      mock.restoreAll();
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+// ========== Background jobs ==========
+
+export interface QueuedJob<TInput = unknown> {
+  job: Job;
+  input: TInput;
+}
+
+export interface JobRun<TResult> {
+  result: TResult;
+  progress: JobProgress[];
+}
+
+/**
+ * Capture jobs instead of queueing them; the returned list fills up as routes enqueue
+ */
+export function captureJobs(): QueuedJob[] {
+  const queued: QueuedJob[] = [];
+
+  mock.method(jobQueue, 'enqueue', async (userId: string, type: JobType, input: unknown, resourceId?: string) => {
+    const job: Job = {
+      id: `job-${queued.length + 1}`,
+      type,
+      status: 'queued',
+      resourceId,
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    };
+    queued.push({ job, input });
+    return job;
+  });
+
+  return queued;
+}
+
+/**
+ * Run a captured job the way a worker would, keeping its checkpoint in memory
+ */
+export async function runJob<TResult>({ job, input }: QueuedJob): Promise<JobRun<TResult>> {
+  const handler = jobQueue.getHandler(job.type);
+  if (!handler) {
+    throw new Error(`No handler registered for ${job.type}`);
+  }
+
+  const progress: JobProgress[] = [];
+  let checkpoint: string | null = null;
+
+  const result = (await handler({
+    id: job.id,
+    userId: USER_ID,
+    input,
+    reportProgress: async (update) => {
+      progress.push(update);
+    },
+    loadCheckpoint: async <T>() => (checkpoint ? (JSON.parse(checkpoint) as T) : null),
+    saveCheckpoint: async (update) => {
+      checkpoint = JSON.stringify(update);
+    },
+  })) as TResult;
+
+  return { result, progress };
+}
+
+// ========== Responses ==========
+
+export async function readJson<T>(response: Response): Promise<T> {
+  return (await response.json()) as T;
+}
+
+/**
+ * The JSON payload of each `data:` event of a server-sent event stream
+ */
+export async function readEvents<TEvent>(response: Response): Promise<TEvent[]> {
+  return (await response.text())
+    .split('\n\n')
+    .filter((event) => event.startsWith('data: '))
+    .map((event) => JSON.parse(event.slice('data: '.length)) as TEvent);
+}
@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import JSZip from 'jszip';
+import {
+  chunkNotionBlocks,
+  markdownToConfluenceStorage,
+  markdownToHtml,
+  markdownToNotionBlocks,
+  NOTION_MAX_BLOCKS_PER_REQUEST,
+} from '../src/services/markdown';
+import { documentExportService } from '../src/services/documentExport';
+
+/**
+ * Golden-file tests for the markdown export renderers
+ * Each fixture `<name>.md` is rendered and compared with `<name>.<target>`; run with UPDATE_GOLDEN=1 to rewrite them
+ */
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'markdown');
+const UPDATE = process.env.UPDATE_GOLDEN === '1';
+
+type Target = 'confluence.xml' | 'notion.json' | 'docx.xml' | 'html';
+
+const RENDERERS: Record<Target, (markdown: string) => Promise<string>> = {
+  'confluence.xml': async (markdown) => markdownToConfluenceStorage(markdown),
+  html: async (markdown) => markdownToHtml(markdown),
+  // One request batch per array, one block per line, so diffs point at the block that changed
+  'notion.json': async (markdown) => {
+    const batches = chunkNotionBlocks(markdownToNotionBlocks(markdown));
+    return `[\n${batches.map((batch) => `  [\n${batch.map((block) => `    ${JSON.stringify(block)}`).join(',\n')}\n  ]`).join(',\n')}\n]`;
+  },
+  'docx.xml': async (markdown) => docxBody(await documentExportService.exportToDOCX(markdown)),
+};
+
+const CASES: Array<{ name: string; targets: Target[] }> = [
+  { name: 'prd', targets: ['confluence.xml', 'notion.json', 'docx.xml', 'html'] },
+  { name: 'long-document', targets: ['notion.json'] }, // More blocks than one Notion request takes
+];
+
+// The document body of a .docx, one paragraph, table row or cell per line, with link targets in place of relationship ids
+async function docxBody(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const document = await zip.file('word/document.xml')!.async('string');
+  const rels = await zip.file('word/_rels/document.xml.rels')!.async('string');
+
+  const targets = new Map([...rels.matchAll(/Id="([^"]+)"[^>]*Target="([^"]+)"/g)].map((m) => [m[1], m[2]]));
+  const body = document.match(/<w:body>([\s\S]*)<\/w:body>/)![1];
+
+  return body
+    .replace(/r:id="([^"]+)"/g, (_, id) => `r:target="${targets.get(id) ?? id}"`)
+    .replace(/(<w:p>|<w:p |<w:tbl>|<\/w:tbl>|<w:tr>|<w:tr |<w:tc>|<w:sectPr)/g, '\n$1')
+    .trim();
+}
+
+function readFixture(file: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf-8').replace(/\r\n/g, '\n');
+}
+
+for (const { name, targets } of CASES) {
+  for (const target of targets) {
+    test(`${name}.md renders to ${target}`, async () => {
+      const actual = `${(await RENDERERS[target](readFixture(`${name}.md`))).trimEnd()}\n`;
+      const goldenFile = `${name}.${target}`;
+
+      if (UPDATE) {
+        fs.writeFileSync(path.join(FIXTURES_DIR, goldenFile), actual);
+        return;
+      }
+
+      assert.equal(actual, readFixture(goldenFile));
+    });
+  }
+}
+
+test('Notion blocks are sent in batches the API accepts', () => {
+  const blocks = markdownToNotionBlocks(readFixture('long-document.md'));
+  const batches = chunkNotionBlocks(blocks);
+
+  assert.ok(blocks.length > NOTION_MAX_BLOCKS_PER_REQUEST);
+  assert.deepEqual(
+    batches.map((batch) => batch.length),
+    [NOTION_MAX_BLOCKS_PER_REQUEST, blocks.length - NOTION_MAX_BLOCKS_PER_REQUEST]
+  );
+  assert.deepEqual(batches.flat(), blocks);
+});
+
+test('Notion tables longer than one request are split, repeating the header', () => {
+  const tables = markdownToNotionBlocks(readFixture('long-document.md')).filter((block) => block.type === 'table');
+
+  assert.equal(tables.length, 2);
+  for (const table of tables) {
+    const [header] = table.table.children;
+    assert.ok(table.table.children.length <= NOTION_MAX_BLOCKS_PER_REQUEST);
+    assert.equal(header.table_row.cells[0][0].text.content, 'Requirement');
+  }
+});
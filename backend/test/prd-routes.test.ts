@@ -0,0 +1,171 @@
+import { after, before, beforeEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Prd, PrdReview } from '@prisma/client';
+import prdRoutes from '../src/routes/prd';
+import { prdService } from '../src/services/prd';
+import { reviewRubricService } from '../src/services/review-rubric';
+import { prdReviewService } from '../src/services/prd-review';
+import { DEFAULT_REVIEW_RUBRIC } from '../src/prompts/reviewer';
+import { captureJobs, readEvents, readJson, runJob, startServer, USER_ID, type QueuedJob, type TestServer } from './helpers';
+import type {
+  CreatePRDResponse,
+  ReviewJobResult,
+  ReviewPRDResponse,
+  UpdatePRDResponse,
+} from '../../shared/types';
+
+/**
+ * Route tests for PRD creation and review, run against the mock AI provider
+ * Persistence is stubbed out, so these check the request handling and the generated content, not the database
+ */
+
+// Events of POST /create-stream
+type CreateStreamEvent = { chunk: string } | { done: true; id?: string; version?: number } | { error: string };
+
+// What POST /review hands to its background job
+interface ReviewJobInput {
+  content: string;
+  sections: string[];
+  prdId?: string;
+  prdVersion?: number;
+}
+
+let server: TestServer;
+let queued: QueuedJob[];
+let savedPrds: Prd[] = [];
+
+before(async () => {
+  server = await startServer('/api/prd', prdRoutes);
+  queued = captureJobs();
+
+  mock.method(prdService, 'createPrd', async (userId: string, data: { markdown: string; source: string }) => {
+    const now = new Date();
+    const prd: Prd = {
+      id: `00000000-0000-4000-8000-${String(savedPrds.length + 1).padStart(12, '0')}`,
+      userId,
+      title: prdService.extractTitle(data.markdown),
+      markdown: data.markdown,
+      source: data.source,
+      sourceId: null,
+      version: 1,
+      templateId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    savedPrds.push(prd);
+    return prd;
+  });
+
+  mock.method(prdService, 'getPrd', async (userId: string, prdId: string) => {
+    return savedPrds.find((prd) => prd.userId === userId && prd.id === prdId) ?? null;
+  });
+
+  mock.method(reviewRubricService, 'getActiveRubric', async () => DEFAULT_REVIEW_RUBRIC);
+
+  mock.method(prdReviewService, 'saveReview', async (userId: string, data: { review: { overallScore: number } }) => {
+    return { id: 'review-1', userId, overallScore: data.review.overallScore } as PrdReview;
+  });
+});
+
+beforeEach(() => {
+  savedPrds = [];
+  queued.length = 0;
+});
+
+after(() => server.close());
+
+const reviewInput = (index: number) => queued[index].input as ReviewJobInput;
+
+test('POST /create generates and saves a PRD', async () => {
+  const response = await server.request('POST', '/create', { input: 'Let shoppers save cards at checkout' });
+  const body = await readJson<CreatePRDResponse>(response);
+
+  assert.equal(response.status, 200);
+  assert.equal(body.success, true);
+  assert.equal(savedPrds.length, 1);
+  assert.equal(body.markdown, savedPrds[0].markdown);
+  assert.match(body.markdown!, /^# /);
+  assert.equal(body.prd?.metadata.id, savedPrds[0].id);
+  assert.equal(body.prd?.metadata.title, savedPrds[0].title);
+  assert.equal(body.prd?.metadata.source, 'text');
+  assert.ok(body.prd?.document.title);
+});
+
+test('POST /create rejects an empty input', async () => {
+  const response = await server.request('POST', '/create', { input: '' });
+  const body = await readJson<CreatePRDResponse>(response);
+
+  assert.equal(response.status, 400);
+  assert.equal(body.success, false);
+  assert.equal(savedPrds.length, 0);
+});
+
+test('POST /create-stream streams the PRD, then saves it', async () => {
+  const response = await server.request('POST', '/create-stream', { input: 'Let shoppers save cards at checkout' });
+  const events = await readEvents<CreateStreamEvent>(response);
+
+  assert.equal(response.status, 200);
+  assert.match(response.headers.get('content-type') ?? '', /^text\/event-stream/);
+
+  const chunks = events.flatMap((event) => ('chunk' in event ? [event.chunk] : []));
+
+  assert.ok(chunks.length > 0);
+  assert.equal(savedPrds.length, 1);
+  assert.equal(chunks.join(''), savedPrds[0].markdown);
+  assert.deepEqual(events.at(-1), { done: true, id: savedPrds[0].id, version: 1 });
+});
+
+test('POST /review queues a review that scores the PRD against the rubric', async () => {
+  const prdContent = '# Saved Cards\n\n## Problem\n\nShoppers retype their card on every order.';
+  const response = await server.request('POST', '/review', { prdContent });
+  const body = await readJson<ReviewPRDResponse>(response);
+
+  assert.equal(response.status, 202);
+  assert.equal(body.success, true);
+  assert.equal(body.job?.type, 'prd.review');
+  assert.equal(queued.length, 1);
+  assert.equal(reviewInput(0).content, prdContent);
+  assert.ok(reviewInput(0).sections.length > 0);
+
+  const { result, progress } = await runJob<ReviewJobResult>(queued[0]);
+
+  assert.equal(result.reviewId, 'review-1');
+  assert.equal(result.reviewedContent, prdContent);
+  assert.equal(result.review.rubricVersion, DEFAULT_REVIEW_RUBRIC.version);
+  assert.equal(result.review.categoryScores?.length, DEFAULT_REVIEW_RUBRIC.categories.length);
+  assert.ok(result.review.overallScore >= 0 && result.review.overallScore <= 100);
+  assert.ok(result.review.summary);
+  assert.deepEqual(progress, [{ message: 'Reviewing the PRD' }]);
+});
+
+test('POST /review of a saved PRD reviews its stored text', async () => {
+  const prd = await prdService.createPrd(USER_ID, {
+    markdown: '# Saved Cards\n\n## Problem\n\nStored text.',
+    source: 'text',
+  });
+  const response = await server.request('POST', '/review', {
+    prdContent: '# Saved Cards\n\nAn older copy.',
+    prdId: prd.id,
+  });
+
+  assert.equal(response.status, 202);
+  assert.equal(reviewInput(0).content, prd.markdown);
+  assert.equal(reviewInput(0).prdId, prd.id);
+  assert.equal(reviewInput(0).prdVersion, prd.version);
+});
+
+test('POST /review rejects missing content', async () => {
+  const response = await server.request('POST', '/review', { prdContent: '' });
+
+  assert.equal(response.status, 400);
+  assert.equal(queued.length, 0);
+});
+
+test("PUT /:id rejects a PRD that doesn't start with its title", async () => {
+  const prd = await prdService.createPrd(USER_ID, { markdown: '# Saved Cards', source: 'text' });
+  const response = await server.request('PUT', `/${prd.id}`, { markdown: 'Intro first.\n\n# Saved Cards' });
+  const body = await readJson<UpdatePRDResponse>(response);
+
+  assert.equal(response.status, 400);
+  assert.equal(body.success, false);
+});
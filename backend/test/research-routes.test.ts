@@ -0,0 +1,365 @@
+import { after, before, beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import type {
+  ResearchAnalysis,
+  ResearchDataset,
+  ResearchPlan,
+  ResearchResults,
+  ResearchSession,
+} from '@prisma/client';
+import researchRoutes from '../src/routes/research';
+import { prisma } from '../src/services/database';
+import { captureJobs, readJson, runJob, startServer, USER_ID, type QueuedJob, type TestServer } from './helpers';
+import type {
+  AnalyzeResultsJobResult,
+  AnalyzeResultsResponse,
+  CreateResearchSessionResponse,
+  EvaluateProblemJobResult,
+  GenerateQuestionsJobResult,
+  GenerateQuestionsResponse,
+  GetReportResponse,
+  GenerateReportJobResult,
+  ResearchDataset as Dataset,
+  SurveyAnalysis,
+  SurveyQuestion,
+  ColumnMapping,
+} from '../../shared/types/research';
+
+/**
+ * Route tests for a research session from problem statement to report, run against the mock AI provider
+ * The research tables are kept in memory, so these check the routes and their background jobs, not the queries
+ */
+
+const UPLOADER = { id: USER_ID, name: 'Test User', email: 'test@example.com' };
+
+interface Store {
+  sessions: ResearchSession[];
+  plans: ResearchPlan[];
+  datasets: ResearchDataset[];
+  results: ResearchResults[];
+  analyses: ResearchAnalysis[];
+}
+
+let store: Store;
+let server: TestServer;
+let queued: QueuedJob[];
+const restores: Array<() => void> = [];
+
+/**
+ * Replace methods of a Prisma model delegate until the tests finish
+ * Delegates are proxies, so their methods are assigned rather than mocked
+ */
+function stub<T extends object>(delegate: T, methods: Partial<Record<keyof T, unknown>>) {
+  const originals = Object.fromEntries(Object.keys(methods).map((key) => [key, delegate[key as keyof T]]));
+  Object.assign(delegate, methods);
+  restores.push(() => Object.assign(delegate, originals));
+}
+
+function withRelations(session: ResearchSession, datasetId?: string) {
+  const results = store.results.find((r) => r.sessionId === session.id) ?? null;
+  const datasets = store.datasets
+    .filter((d) => d.sessionId === session.id && (!datasetId || d.id === datasetId))
+    .sort((a, b) => a.uploadedAt.getTime() - b.uploadedAt.getTime());
+
+  return {
+    ...session,
+    plan: store.plans.find((p) => p.sessionId === session.id) ?? null,
+    datasets,
+    analyses: store.analyses.filter((a) => a.sessionId === session.id),
+    results: results && {
+      ...results,
+      currentAnalysis: store.analyses.find((a) => a.id === results.currentAnalysisId) ?? null,
+    },
+    _count: { datasets: store.datasets.filter((d) => d.sessionId === session.id).length },
+  };
+}
+
+function update<T extends { id: string }>(rows: T[], id: string, data: Partial<T>): T {
+  const row = rows.find((r) => r.id === id);
+  if (!row) throw new Error(`No row ${id}`);
+  return Object.assign(row, data);
+}
+
+before(async () => {
+  server = await startServer('/api/research', researchRoutes);
+  queued = captureJobs();
+
+  stub(prisma.researchSession, {
+    create: async ({ data }: { data: Omit<ResearchSession, 'id' | 'createdAt' | 'updatedAt' | 'expectedOutcome'> & { expectedOutcome?: string } }) => {
+      const now = new Date();
+      const session: ResearchSession = { ...data, expectedOutcome: data.expectedOutcome ?? null, id: randomUUID(), createdAt: now, updatedAt: now };
+      store.sessions.push(session);
+      return session;
+    },
+    findFirst: async ({ where, include }: { where: { id: string; userId: string }; include?: { datasets?: { where?: { id: string } } } }) => {
+      const session = store.sessions.find((s) => s.id === where.id && s.userId === where.userId);
+      return session ? withRelations(session, include?.datasets?.where?.id) : null;
+    },
+    update: async ({ where, data }: { where: { id: string }; data: Partial<ResearchSession> }) =>
+      update(store.sessions, where.id, data),
+  });
+
+  stub(prisma.researchPlan, {
+    upsert: async ({ where, create, update: changes }: { where: { sessionId: string }; create: ResearchPlan; update: Partial<ResearchPlan> }) => {
+      const plan = store.plans.find((p) => p.sessionId === where.sessionId);
+      if (plan) return Object.assign(plan, changes);
+
+      const now = new Date();
+      const created: ResearchPlan = { ...create, id: randomUUID(), createdAt: now, updatedAt: now };
+      store.plans.push(created);
+      return created;
+    },
+  });
+
+  stub(prisma.researchDataset, {
+    create: async ({ data }: { data: Omit<ResearchDataset, 'id' | 'uploadedAt'> }) => {
+      const dataset: ResearchDataset = { ...data, id: randomUUID(), uploadedAt: new Date() };
+      store.datasets.push(dataset);
+      return { ...dataset, uploadedBy: UPLOADER };
+    },
+    findMany: async ({ where }: { where: { sessionId: string; id: { in: string[] } } }) =>
+      store.datasets.filter((d) => d.sessionId === where.sessionId && where.id.in.includes(d.id)),
+    update: async ({ where, data }: { where: { id: string }; data: Partial<ResearchDataset> }) =>
+      update(store.datasets, where.id, data),
+  });
+
+  stub(prisma.researchResults, {
+    upsert: async ({ where }: { where: { sessionId: string } }) => {
+      const results = store.results.find((r) => r.sessionId === where.sessionId);
+      if (results) return results;
+
+      const now = new Date();
+      const created: ResearchResults = {
+        id: randomUUID(),
+        sessionId: where.sessionId,
+        currentAnalysisId: null,
+        analysisProgress: null,
+        uploadedFileName: null,
+        uploadedFileType: null,
+        uploadedAt: null,
+        parsedData: null,
+        columnMapping: null,
+        analysis: null,
+        reportGenerated: false,
+        reportMarkdown: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      store.results.push(created);
+      return created;
+    },
+    update: async ({ where, data }: { where: { id: string }; data: Partial<ResearchResults> }) =>
+      update(store.results, where.id, data),
+  });
+
+  stub(prisma.researchAnalysis, {
+    create: async ({ data }: { data: Omit<ResearchAnalysis, 'id' | 'createdAt'> }) => {
+      const analysis: ResearchAnalysis = { ...data, id: randomUUID(), createdAt: new Date() };
+      store.analyses.push(analysis);
+      return analysis;
+    },
+  });
+});
+
+beforeEach(() => {
+  store = { sessions: [], plans: [], datasets: [], results: [], analyses: [] };
+  queued.length = 0;
+});
+
+after(async () => {
+  restores.forEach((restore) => restore());
+  await server.close();
+});
+
+/**
+ * Create a session and generate its questions, running both jobs
+ */
+async function createPlannedSession(researchType: 'survey' | 'interview') {
+  const response = await server.request('POST', '/sessions', {
+    problemStatement: 'Shoppers abandon checkout when asked to retype their card',
+    productContext: 'An online grocery store',
+    targetUserSegment: 'Returning shoppers',
+    researchType,
+  });
+  const { session } = await readJson<CreateResearchSessionResponse>(response);
+  await runJob(queued.at(-1)!);
+
+  await server.request('POST', `/sessions/${session!.id}/generate-questions`, { depth: 'quick' });
+  const { result } = await runJob<GenerateQuestionsJobResult>(queued.at(-1)!);
+
+  return { sessionId: session!.id, plan: result.plan };
+}
+
+async function upload(sessionId: string, fileName: string, contents: string) {
+  const form = new FormData();
+  form.append('file', new Blob([contents]), fileName);
+  return server.request('POST', `/sessions/${sessionId}/datasets`, form);
+}
+
+function surveyCsv(questions: SurveyQuestion[]) {
+  const answers = [
+    ['Daily', '4', 'Fewer steps'],
+    ['Weekly', '5', 'Remember my card'],
+    ['Daily', '3', 'Faster checkout'],
+    ['Monthly', '2', ''],
+    ['Daily', '5', 'Remember my card'],
+  ];
+  const header = ['Respondent ID', ...questions.map((q, i) => `Q${i + 1}: ${q.text}`)];
+  return [header, ...answers.map((row, i) => [`R-${i + 1}`, ...row])].map((row) => row.join(',')).join('\n');
+}
+
+test('POST /sessions creates a session and evaluates its problem in the background', async () => {
+  const response = await server.request('POST', '/sessions', {
+    problemStatement: 'Shoppers abandon checkout when asked to retype their card',
+    productContext: 'An online grocery store',
+    targetUserSegment: 'Returning shoppers',
+    researchType: 'survey',
+  });
+  const body = await readJson<CreateResearchSessionResponse>(response);
+
+  assert.equal(response.status, 201);
+  assert.equal(body.session?.status, 'draft');
+  assert.equal(body.job?.type, 'research.evaluate');
+  assert.equal(store.sessions.length, 1);
+
+  const { result, progress } = await runJob<EvaluateProblemJobResult>(queued[0]);
+
+  assert.ok(result.evaluation.clarityScore >= 0);
+  assert.deepEqual(progress, [{ message: 'Evaluating the problem statement' }]);
+});
+
+test('POST /sessions rejects a short problem statement', async () => {
+  const response = await server.request('POST', '/sessions', {
+    problemStatement: 'Too short',
+    productContext: 'An online grocery store',
+    targetUserSegment: 'Returning shoppers',
+    researchType: 'survey',
+  });
+
+  assert.equal(response.status, 400);
+  assert.equal(store.sessions.length, 0);
+  assert.equal(queued.length, 0);
+});
+
+test('POST /sessions/:id/generate-questions saves the survey plan', async () => {
+  const { sessionId, plan } = await createPlannedSession('survey');
+  const saved = store.plans[0];
+
+  assert.equal(saved.sessionId, sessionId);
+  assert.deepEqual(JSON.parse(saved.questions), plan.questions);
+  assert.equal(saved.depth, 'quick');
+  assert.equal(saved.tone, 'exploratory');
+  assert.equal(store.sessions[0].status, 'questions_generated');
+});
+
+test('POST /sessions/:id/generate-questions of an unknown session is not found', async () => {
+  const response = await server.request('POST', `/sessions/${randomUUID()}/generate-questions`, {});
+  const body = await readJson<GenerateQuestionsResponse>(response);
+
+  assert.equal(response.status, 404);
+  assert.equal(body.success, false);
+  assert.equal(queued.length, 0);
+});
+
+test('a survey upload is analyzed once its columns are confirmed, then reported on', async () => {
+  const { sessionId, plan } = await createPlannedSession('survey');
+  const questions = plan.questions as SurveyQuestion[];
+
+  const uploaded = await upload(sessionId, 'responses.csv', surveyCsv(questions));
+  const { dataset } = await readJson<{ dataset: Dataset }>(uploaded);
+
+  assert.equal(uploaded.status, 201);
+  assert.equal(dataset.label, 'Wave 1');
+  assert.equal(dataset.itemCount, 5);
+  assert.equal(dataset.columnMapping?.confirmed, false);
+  assert.deepEqual(
+    dataset.columnMapping?.entries.map((e) => e.column),
+    questions.map((q, i) => `Q${i + 1}: ${q.text}`)
+  );
+
+  const unconfirmed = await server.request('POST', `/sessions/${sessionId}/analyze`, {});
+  assert.equal(unconfirmed.status, 400);
+
+  const mapping = Object.fromEntries(dataset.columnMapping!.entries.map((e) => [e.questionId, e.column]));
+  const confirmed = await server.request('PUT', `/sessions/${sessionId}/datasets/${dataset.id}/column-mapping`, { mapping });
+  const { columnMapping } = await readJson<{ columnMapping: ColumnMapping }>(confirmed);
+
+  assert.equal(confirmed.status, 200);
+  assert.equal(columnMapping.confirmed, true);
+
+  const analyzing = await server.request('POST', `/sessions/${sessionId}/analyze`, {});
+  const analyzeBody = await readJson<AnalyzeResultsResponse>(analyzing);
+
+  assert.equal(analyzing.status, 202);
+  assert.equal(analyzeBody.job?.type, 'research.analyze');
+
+  const analyzed = await runJob<AnalyzeResultsJobResult>(queued.at(-1)!);
+  const analysis = analyzed.result.analysis as SurveyAnalysis;
+
+  assert.equal(analysis.statistics?.respondentCount, 5);
+  assert.equal(analyzed.result.run.respondentCount, 5);
+  assert.deepEqual(analyzed.result.run.datasetIds, [dataset.id]);
+  assert.equal(analyzed.result.run.current, true);
+  assert.equal(store.results[0].currentAnalysisId, analyzed.result.run.id);
+  assert.equal(store.sessions[0].status, 'analyzed');
+  assert.deepEqual(analyzed.progress.at(-1), { message: 'Saving the analysis' });
+
+  const reporting = await server.request('GET', `/sessions/${sessionId}/report`);
+  const reportBody = await readJson<GetReportResponse>(reporting);
+
+  assert.equal(reporting.status, 202);
+  assert.equal(reportBody.job?.type, 'research.report');
+
+  const { result } = await runJob<GenerateReportJobResult>(queued.at(-1)!);
+
+  assert.ok(result.report.markdown);
+  assert.equal(result.report.metadata.respondentCount, 5);
+  assert.equal(store.results[0].reportMarkdown, result.report.markdown);
+  assert.equal(store.sessions[0].status, 'completed');
+
+  // Generated once, then served as saved
+  const saved = await server.request('GET', `/sessions/${sessionId}/report`);
+  const savedBody = await readJson<GetReportResponse>(saved);
+
+  assert.equal(saved.status, 200);
+  assert.equal(savedBody.report?.markdown, result.report.markdown);
+});
+
+test('PUT /sessions/:id/datasets/:datasetId/column-mapping rejects a column that is not in the upload', async () => {
+  const { sessionId, plan } = await createPlannedSession('survey');
+  const uploaded = await upload(sessionId, 'responses.csv', surveyCsv(plan.questions as SurveyQuestion[]));
+  const { dataset } = await readJson<{ dataset: Dataset }>(uploaded);
+
+  const response = await server.request('PUT', `/sessions/${sessionId}/datasets/${dataset.id}/column-mapping`, {
+    mapping: { q1: 'Not a column' },
+  });
+
+  assert.equal(response.status, 400);
+  assert.equal(JSON.parse(store.datasets[0].columnMapping!).confirmed, false);
+});
+
+test('interview transcripts are analyzed one per interview', async () => {
+  const { sessionId } = await createPlannedSession('interview');
+  const transcript = (name: string) =>
+    `Interviewer: Walk me through your last order.\n${name}: I had to find my card and type it in again, which took a while.\n`;
+
+  const uploaded = await upload(
+    sessionId,
+    'interviews.txt',
+    `Interview 1:\n${transcript('Ana')}\nInterview 2:\n${transcript('Ben')}`
+  );
+  const { dataset } = await readJson<{ dataset: Dataset }>(uploaded);
+
+  assert.equal(uploaded.status, 201);
+  assert.equal(dataset.itemCount, 2);
+
+  const analyzing = await server.request('POST', `/sessions/${sessionId}/analyze`, { datasetIds: [dataset.id] });
+  assert.equal(analyzing.status, 202);
+
+  const { result } = await runJob<AnalyzeResultsJobResult>(queued.at(-1)!);
+
+  assert.equal(result.run.respondentCount, 2);
+  assert.ok('themes' in result.analysis);
+  assert.equal(store.analyses.length, 1);
+});
@@ -1,16 +1,20 @@
 import { useState } from 'react';
 import Creator from './pages/Creator';
 import Reviewer from './pages/Reviewer';
+import PrdDetail from './pages/PrdDetail';
 import ResearchPlanner from './pages/ResearchPlanner';
 import { Login } from './pages/Login';
 import { Settings } from './pages/Settings';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { SettingsProvider } from './contexts/SettingsContext';
 
-type Tab = 'create' | 'review' | 'research' | 'settings';
+type Tab = 'create' | 'review' | 'prds' | 'research' | 'settings';
 
 function AppContent() {
-  const [activeTab, setActiveTab] = useState<Tab>('create');
+  // Links back from Jira issues (?prd=<id>) open the PRD list
+  const [activeTab, setActiveTab] = useState<Tab>(() =>
+    new URLSearchParams(window.location.search).has('prd') ? 'prds' : 'create'
+  );
   const { isAuthenticated, loading, logout } = useAuth();
 
   // Show loading spinner while checking auth
@@ -63,6 +67,16 @@ function AppContent() {
               >
                 Review
               </button>
+              <button
+                onClick={() => setActiveTab('prds')}
+                className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                  activeTab === 'prds'
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                📚 My PRDs
+              </button>
               <button
                 onClick={() => setActiveTab('research')}
                 className={`px-4 py-2 rounded-lg font-medium transition-colors ${
@@ -103,6 +117,9 @@ function AppContent() {
         <div style={{ display: activeTab === 'review' ? 'block' : 'none' }}>
           <Reviewer />
         </div>
+        <div style={{ display: activeTab === 'prds' ? 'block' : 'none' }}>
+          <PrdDetail />
+        </div>
         <div style={{ display: activeTab === 'research' ? 'block' : 'none' }}>
           <ResearchPlanner />
         </div>
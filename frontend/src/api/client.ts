@@ -2,10 +2,54 @@ import axios from 'axios';
 import type {
   CreatePRDRequest,
   CreatePRDResponse,
+  GetPRDResponse,
+  ListPRDsResponse,
+  UpdatePRDRequest,
+  UpdatePRDResponse,
+  RegenerateSectionRequest,
+  RegenerateSectionResponse,
+  ListTemplateSectionsResponse,
+  ParsePRDResponse,
+  RenderPRDResponse,
+  GetPRDDocumentResponse,
+  PRDDocument,
+  ListPRDRevisionsResponse,
+  GetPRDRevisionResponse,
+  DiffPRDRevisionsResponse,
+  RestorePRDRevisionResponse,
   ReviewPRDRequest,
   ReviewPRDResponse,
+  ReviseFromReviewRequest,
+  ReviseFromReviewResponse,
+  ListPRDReviewsResponse,
+  GetPRDScoreTrendResponse,
+  ListPRDTemplatesResponse,
+  GetPRDTemplateResponse,
+  CreatePRDTemplateRequest,
+  UpdatePRDTemplateRequest,
+  DeletePRDTemplateResponse,
+  ImportPageRequest,
+  ImportPageResponse,
+  ExportPRDRequest,
+  ExportPRDResponse,
+  ListPRDExportsResponse,
+  GetReviewRubricResponse,
+  ListReviewRubricsResponse,
+  UpdateReviewRubricRequest,
   FetchJiraRequest,
   FetchJiraResponse,
+  JiraSearchRequest,
+  JiraSearchResponse,
+  ProposeJiraIssuesRequest,
+  ProposeJiraIssuesResponse,
+  PushJiraIssuesRequest,
+  PushJiraIssuesResponse,
+  ListPRDJiraIssuesResponse,
+  ListSourceTicketsResponse,
+  CheckSourceTicketsResponse,
+  AcknowledgeSourceTicketsRequest,
+  LinkPRDToJiraRequest,
+  LinkPRDToJiraResponse,
   LoginRequest,
   LoginResponse,
   ValidateResponse,
@@ -18,12 +62,25 @@ import type {
   GenerateQuestionsResponse,
   UpdateQuestionsRequest,
   UpdateQuestionsResponse,
-  UploadResultsResponse,
+  UploadDatasetResponse,
+  DeleteDatasetResponse,
+  UpdateColumnMappingRequest,
+  UpdateColumnMappingResponse,
+  AnalyzeResultsRequest,
   AnalyzeResultsResponse,
+  ListResearchAnalysesResponse,
+  CompareAnalysesResponse,
   GetReportResponse,
   ListResearchSessionsResponse,
   GetResearchSessionResponse,
   DeleteResearchSessionResponse,
+  Job,
+  JobEvent,
+  JobStatus,
+  JobType,
+  GetJobResponse,
+  ListJobsResponse,
+  RetryJobResponse,
 } from '../../../shared/types';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || '/api';
@@ -82,13 +139,120 @@ export const prdApi = {
     return data;
   },
 
-  async list() {
-    const { data } = await apiClient.get('/prd/list');
+  async reviseFromReview(request: ReviseFromReviewRequest): Promise<ReviseFromReviewResponse> {
+    const { data } = await apiClient.post<ReviseFromReviewResponse>('/prd/review/revise', request);
     return data;
   },
 
-  async get(id: string) {
-    const { data } = await apiClient.get(`/prd/${id}`);
+  async list(): Promise<ListPRDsResponse> {
+    const { data } = await apiClient.get<ListPRDsResponse>('/prd/list');
+    return data;
+  },
+
+  async get(id: string): Promise<GetPRDResponse> {
+    const { data } = await apiClient.get<GetPRDResponse>(`/prd/${id}`);
+    return data;
+  },
+
+  async update(id: string, request: UpdatePRDRequest): Promise<UpdatePRDResponse> {
+    const { data } = await apiClient.put<UpdatePRDResponse>(`/prd/${id}`, request);
+    return data;
+  },
+
+  async document(id: string): Promise<GetPRDDocumentResponse> {
+    const { data } = await apiClient.get<GetPRDDocumentResponse>(`/prd/${id}/document`);
+    return data;
+  },
+
+  async parse(markdown: string): Promise<ParsePRDResponse> {
+    const { data } = await apiClient.post<ParsePRDResponse>('/prd/parse', { markdown });
+    return data;
+  },
+
+  async render(document: PRDDocument): Promise<RenderPRDResponse> {
+    const { data } = await apiClient.post<RenderPRDResponse>('/prd/render', { document });
+    return data;
+  },
+
+  async templateSections(templateId?: string): Promise<ListTemplateSectionsResponse> {
+    const { data } = await apiClient.get<ListTemplateSectionsResponse>('/prd/template/sections', {
+      params: templateId ? { templateId } : undefined,
+    });
+    return data;
+  },
+
+  async regenerateSection(id: string, request: RegenerateSectionRequest): Promise<RegenerateSectionResponse> {
+    const { data } = await apiClient.post<RegenerateSectionResponse>(
+      `/prd/${id}/sections/regenerate`,
+      request
+    );
+    return data;
+  },
+
+  async reviews(id: string): Promise<ListPRDReviewsResponse> {
+    const { data } = await apiClient.get<ListPRDReviewsResponse>(`/prd/${id}/reviews`);
+    return data;
+  },
+
+  async reviewTrend(id: string): Promise<GetPRDScoreTrendResponse> {
+    const { data } = await apiClient.get<GetPRDScoreTrendResponse>(`/prd/${id}/reviews/trend`);
+    return data;
+  },
+
+  async jiraIssues(id: string): Promise<ListPRDJiraIssuesResponse> {
+    const { data } = await apiClient.get<ListPRDJiraIssuesResponse>(`/prd/${id}/jira-issues`);
+    return data;
+  },
+
+  async exports(id: string): Promise<ListPRDExportsResponse> {
+    const { data } = await apiClient.get<ListPRDExportsResponse>(`/prd/${id}/exports`);
+    return data;
+  },
+
+  async sourceTickets(id: string): Promise<ListSourceTicketsResponse> {
+    const { data } = await apiClient.get<ListSourceTicketsResponse>(`/prd/${id}/source-tickets`);
+    return data;
+  },
+
+  async checkSourceTickets(id: string): Promise<CheckSourceTicketsResponse> {
+    const { data } = await apiClient.post<CheckSourceTicketsResponse>(`/prd/${id}/source-tickets/check`);
+    return data;
+  },
+
+  async acknowledgeSourceTickets(
+    id: string,
+    request: AcknowledgeSourceTicketsRequest = {}
+  ): Promise<ListSourceTicketsResponse> {
+    const { data } = await apiClient.post<ListSourceTicketsResponse>(`/prd/${id}/source-tickets/acknowledge`, request);
+    return data;
+  },
+
+  async linkToJira(id: string, request: LinkPRDToJiraRequest = {}): Promise<LinkPRDToJiraResponse> {
+    const { data } = await apiClient.post<LinkPRDToJiraResponse>(`/prd/${id}/source-tickets/link`, request);
+    return data;
+  },
+
+  async revisions(id: string): Promise<ListPRDRevisionsResponse> {
+    const { data } = await apiClient.get<ListPRDRevisionsResponse>(`/prd/${id}/revisions`);
+    return data;
+  },
+
+  async revision(id: string, version: number): Promise<GetPRDRevisionResponse> {
+    const { data } = await apiClient.get<GetPRDRevisionResponse>(`/prd/${id}/revisions/${version}`);
+    return data;
+  },
+
+  async diff(id: string, from: number, to: number): Promise<DiffPRDRevisionsResponse> {
+    const { data } = await apiClient.get<DiffPRDRevisionsResponse>(`/prd/${id}/diff`, {
+      params: { from, to },
+    });
+    return data;
+  },
+
+  async restore(id: string, version: number): Promise<RestorePRDRevisionResponse> {
+    const { data } = await apiClient.post<RestorePRDRevisionResponse>(
+      `/prd/${id}/revisions/${version}/restore`
+    );
     return data;
   },
 
@@ -102,6 +266,57 @@ export const prdApi = {
   },
 };
 
+export const templateApi = {
+  async list(team?: string): Promise<ListPRDTemplatesResponse> {
+    const { data } = await apiClient.get<ListPRDTemplatesResponse>('/templates', {
+      params: team ? { team } : undefined,
+    });
+    return data;
+  },
+
+  async get(id: string): Promise<GetPRDTemplateResponse> {
+    const { data } = await apiClient.get<GetPRDTemplateResponse>(`/templates/${id}`);
+    return data;
+  },
+
+  async create(request: CreatePRDTemplateRequest): Promise<GetPRDTemplateResponse> {
+    const { data } = await apiClient.post<GetPRDTemplateResponse>('/templates', request);
+    return data;
+  },
+
+  async update(id: string, request: UpdatePRDTemplateRequest): Promise<GetPRDTemplateResponse> {
+    const { data } = await apiClient.put<GetPRDTemplateResponse>(`/templates/${id}`, request);
+    return data;
+  },
+
+  async delete(id: string): Promise<DeletePRDTemplateResponse> {
+    const { data } = await apiClient.delete<DeletePRDTemplateResponse>(`/templates/${id}`);
+    return data;
+  },
+};
+
+export const reviewRubricApi = {
+  async get(): Promise<GetReviewRubricResponse> {
+    const { data } = await apiClient.get<GetReviewRubricResponse>('/review-rubric');
+    return data;
+  },
+
+  async getDefault(): Promise<GetReviewRubricResponse> {
+    const { data } = await apiClient.get<GetReviewRubricResponse>('/review-rubric/default');
+    return data;
+  },
+
+  async versions(): Promise<ListReviewRubricsResponse> {
+    const { data } = await apiClient.get<ListReviewRubricsResponse>('/review-rubric/versions');
+    return data;
+  },
+
+  async update(request: UpdateReviewRubricRequest): Promise<GetReviewRubricResponse> {
+    const { data } = await apiClient.put<GetReviewRubricResponse>('/review-rubric', request);
+    return data;
+  },
+};
+
 export const jiraApi = {
   async status() {
     const { data } = await apiClient.get('/jira/status');
@@ -113,6 +328,11 @@ export const jiraApi = {
     return data;
   },
 
+  async search(request: JiraSearchRequest): Promise<JiraSearchResponse> {
+    const { data } = await apiClient.post<JiraSearchResponse>('/jira/search', request);
+    return data;
+  },
+
   async transform(request: FetchJiraRequest) {
     const { data } = await apiClient.post('/jira/transform', request);
     return data;
@@ -127,6 +347,16 @@ export const jiraApi = {
     const { data } = await apiClient.post('/jira/attachment', { ticketId, filename, fileData });
     return data;
   },
+
+  async proposeIssues(request: ProposeJiraIssuesRequest): Promise<ProposeJiraIssuesResponse> {
+    const { data } = await apiClient.post<ProposeJiraIssuesResponse>('/jira/propose', request);
+    return data;
+  },
+
+  async pushIssues(request: PushJiraIssuesRequest): Promise<PushJiraIssuesResponse> {
+    const { data } = await apiClient.post<PushJiraIssuesResponse>('/jira/push', request);
+    return data;
+  },
 };
 
 export const exportApi = {
@@ -135,14 +365,15 @@ export const exportApi = {
     return data;
   },
 
-  async export(payload: {
-    platform: 'confluence' | 'notion';
-    title: string;
-    content: string;
-    spaceKey?: string;
-    parentPageId?: string;
-  }) {
-    const { data } = await apiClient.post('/export', payload);
+  async export(payload: ExportPRDRequest): Promise<ExportPRDResponse> {
+    const { data } = await apiClient.post<ExportPRDResponse>('/export', payload);
+    return data;
+  },
+};
+
+export const importApi = {
+  async importPage(request: ImportPageRequest): Promise<ImportPageResponse> {
+    const { data } = await apiClient.post<ImportPageResponse>('/import', request);
     return data;
   },
 };
@@ -240,11 +471,12 @@ export const researchApi = {
     return data;
   },
 
-  async uploadResults(sessionId: string, file: File): Promise<UploadResultsResponse> {
+  async uploadDataset(sessionId: string, file: File, label?: string): Promise<UploadDatasetResponse> {
     const formData = new FormData();
     formData.append('file', file);
-    const { data } = await apiClient.post<UploadResultsResponse>(
-      `/research/sessions/${sessionId}/upload-results`,
+    if (label) formData.append('label', label);
+    const { data } = await apiClient.post<UploadDatasetResponse>(
+      `/research/sessions/${sessionId}/datasets`,
       formData,
       {
         headers: {
@@ -255,8 +487,37 @@ export const researchApi = {
     return data;
   },
 
-  async analyze(sessionId: string): Promise<AnalyzeResultsResponse> {
-    const { data } = await apiClient.post<AnalyzeResultsResponse>(`/research/sessions/${sessionId}/analyze`);
+  async deleteDataset(sessionId: string, datasetId: string): Promise<DeleteDatasetResponse> {
+    const { data } = await apiClient.delete<DeleteDatasetResponse>(`/research/sessions/${sessionId}/datasets/${datasetId}`);
+    return data;
+  },
+
+  async updateColumnMapping(
+    sessionId: string,
+    datasetId: string,
+    request: UpdateColumnMappingRequest
+  ): Promise<UpdateColumnMappingResponse> {
+    const { data } = await apiClient.put<UpdateColumnMappingResponse>(
+      `/research/sessions/${sessionId}/datasets/${datasetId}/column-mapping`,
+      request
+    );
+    return data;
+  },
+
+  async analyze(sessionId: string, request: AnalyzeResultsRequest = {}): Promise<AnalyzeResultsResponse> {
+    const { data } = await apiClient.post<AnalyzeResultsResponse>(`/research/sessions/${sessionId}/analyze`, request);
+    return data;
+  },
+
+  async listAnalyses(sessionId: string): Promise<ListResearchAnalysesResponse> {
+    const { data } = await apiClient.get<ListResearchAnalysesResponse>(`/research/sessions/${sessionId}/analyses`);
+    return data;
+  },
+
+  async compareAnalyses(sessionId: string, analysisIds: string[]): Promise<CompareAnalysesResponse> {
+    const { data } = await apiClient.get<CompareAnalysesResponse>(`/research/sessions/${sessionId}/compare`, {
+      params: { analyses: analysisIds.join(',') },
+    });
     return data;
   },
 
@@ -273,3 +534,97 @@ export const researchApi = {
     return data;
   },
 };
+
+const JOB_POLL_INTERVAL_MS = 2000;
+
+export const isJobFinished = (job: Job) => job.status === 'completed' || job.status === 'failed';
+
+// Read a job's server-sent events until it finishes; returns the last update, or null if the stream couldn't open
+// (fetch rather than EventSource, which can't send the Authorization header)
+async function streamJob<TResult>(
+  jobId: string,
+  onUpdate: (job: Job<TResult>) => void,
+  signal?: AbortSignal
+): Promise<Job<TResult> | null> {
+  const token = localStorage.getItem('authToken');
+  const response = await fetch(`${API_BASE_URL}/jobs/${jobId}/events`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    signal,
+  });
+  if (!response.ok || !response.body) return null;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let last: Job<TResult> | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return last;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+
+    for (const event of events) {
+      const line = event.split('\n').find((l) => l.startsWith('data: '));
+      if (!line) continue; // Heartbeat
+
+      const { job }: JobEvent = JSON.parse(line.slice('data: '.length));
+      last = job as Job<TResult>;
+      onUpdate(last);
+      if (isJobFinished(last)) {
+        await reader.cancel();
+        return last;
+      }
+    }
+  }
+}
+
+export const jobsApi = {
+  async get(id: string): Promise<GetJobResponse> {
+    const { data } = await apiClient.get<GetJobResponse>(`/jobs/${id}`);
+    return data;
+  },
+
+  async list(params?: { resourceId?: string; type?: JobType; status?: JobStatus; limit?: number }): Promise<ListJobsResponse> {
+    const { data } = await apiClient.get<ListJobsResponse>('/jobs', { params });
+    return data;
+  },
+
+  async retry(id: string): Promise<RetryJobResponse> {
+    const { data } = await apiClient.post<RetryJobResponse>(`/jobs/${id}/retry`);
+    return data;
+  },
+
+  /**
+   * Follow a job until it completes or fails, passing each update to onUpdate
+   * Listens to the job's event stream, and polls instead if the stream can't be opened or drops
+   */
+  async waitFor<TResult>(
+    job: Job<TResult>,
+    onUpdate?: (job: Job<TResult>) => void,
+    signal?: AbortSignal
+  ): Promise<Job<TResult>> {
+    onUpdate?.(job);
+    if (isJobFinished(job)) return job;
+
+    try {
+      const last = await streamJob<TResult>(job.id, (update) => onUpdate?.(update), signal);
+      if (last && isJobFinished(last)) return last;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+    }
+
+    while (true) {
+      await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+      if (signal?.aborted) throw new DOMException('Stopped following the job', 'AbortError');
+
+      const { job: current } = await jobsApi.get(job.id);
+      if (!current) throw new Error('Job not found');
+
+      onUpdate?.(current as Job<TResult>);
+      if (isJobFinished(current)) return current as Job<TResult>;
+    }
+  },
+};
@@ -0,0 +1,133 @@
+import { useState, useEffect } from 'react';
+import type { ColumnMapping, ColumnMappingEntry, SurveyQuestion } from '../../../shared/types/research';
+
+interface ColumnMappingEditorProps {
+  questions: SurveyQuestion[];
+  columnMapping: ColumnMapping;
+  saving?: boolean;
+  onConfirm: (mapping: Record<string, string | null>) => void;
+}
+
+const toSelection = (mapping: ColumnMapping) =>
+  Object.fromEntries(mapping.entries.map((entry) => [entry.questionId, entry.column || '']));
+
+const matchLabel = (entry: ColumnMappingEntry | undefined) => {
+  switch (entry?.method) {
+    case 'prefix':
+      return { text: 'Template', className: 'bg-green-100 text-green-800' };
+    case 'exact':
+      return { text: 'Exact', className: 'bg-green-100 text-green-800' };
+    case 'fuzzy':
+      return { text: `Fuzzy ${Math.round((entry.confidence || 0) * 100)}%`, className: 'bg-yellow-100 text-yellow-800' };
+    case 'manual':
+      return { text: 'Manual', className: 'bg-blue-100 text-blue-800' };
+    default:
+      return { text: 'Unmatched', className: 'bg-gray-200 text-gray-700' };
+  }
+};
+
+/**
+ * Review which uploaded column answers each survey question before analysis
+ */
+export default function ColumnMappingEditor({ questions, columnMapping, saving, onConfirm }: ColumnMappingEditorProps) {
+  const [selection, setSelection] = useState<Record<string, string>>(() => toSelection(columnMapping));
+
+  useEffect(() => {
+    setSelection(toSelection(columnMapping));
+  }, [columnMapping]);
+
+  const chosen = Object.values(selection).filter(Boolean);
+  const duplicates = new Set(chosen.filter((column, i) => chosen.indexOf(column) !== i));
+  const isDirty = columnMapping.entries.some((entry) => (entry.column || '') !== (selection[entry.questionId] || ''));
+  const unmatchedCount = questions.filter((q) => !selection[q.id]).length;
+
+  const handleConfirm = () => {
+    onConfirm(Object.fromEntries(questions.map((q) => [q.id, selection[q.id] || null])));
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Check which uploaded column answers each question. Answers are validated against the question's type and options.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border border-gray-200 bg-white">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="px-3 py-2 text-left">Question</th>
+              <th className="px-3 py-2 text-left">Column</th>
+              <th className="px-3 py-2 text-left">Match</th>
+            </tr>
+          </thead>
+          <tbody>
+            {questions.map((question, idx) => {
+              const entry = columnMapping.entries.find((e) => e.questionId === question.id);
+              const column = selection[question.id] || '';
+              const unchanged = (entry?.column || '') === column;
+              const label = unchanged ? matchLabel(entry) : matchLabel({ questionId: question.id, column, method: column ? 'manual' : undefined });
+              const issue = unchanged ? columnMapping.issues.find((i) => i.questionId === question.id) : undefined;
+
+              return (
+                <tr key={question.id} className="border-t border-gray-200 align-top">
+                  <td className="px-3 py-2">
+                    <div className="text-gray-900">
+                      Q{idx + 1}. {question.text}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {question.type}
+                      {question.options?.length ? ` · ${question.options.join(', ')}` : ''}
+                    </div>
+                    {issue && (
+                      <div className="text-xs text-amber-700 mt-1">
+                        ⚠️ {issue.message}, e.g. {issue.examples.map((e) => `"${e}"`).join(', ')}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-3 py-2">
+                    <select
+                      value={column}
+                      onChange={(e) => setSelection({ ...selection, [question.id]: e.target.value })}
+                      className={`input text-sm ${duplicates.has(column) ? 'border-red-500' : ''}`}
+                      aria-label={`Column for question ${idx + 1}`}
+                    >
+                      <option value="">— Not in upload —</option>
+                      {columnMapping.columns.map((header) => (
+                        <option key={header} value={header}>
+                          {header}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2">
+                    <span className={`text-xs px-2 py-1 rounded whitespace-nowrap ${label.className}`}>{label.text}</span>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {duplicates.size > 0 && (
+        <p className="text-sm text-red-600">Each column can only answer one question: {[...duplicates].join(', ')}</p>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleConfirm}
+          disabled={saving || duplicates.size > 0 || (columnMapping.confirmed && !isDirty)}
+          className="btn-primary"
+          aria-busy={saving}
+        >
+          {saving ? 'Saving...' : columnMapping.confirmed && !isDirty ? '✓ Mapping Confirmed' : 'Confirm Mapping'}
+        </button>
+        {unmatchedCount > 0 && (
+          <span className="text-sm text-gray-600">
+            {unmatchedCount} question{unmatchedCount === 1 ? '' : 's'} without a column will be left out of the analysis
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
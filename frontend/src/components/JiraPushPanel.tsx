@@ -0,0 +1,246 @@
+import { useState, useEffect } from 'react';
+import { jiraApi, prdApi } from '../api/client';
+import type { JiraEpicProposal, JiraStoryProposal, PRDJiraIssue } from '../../../shared/types';
+
+interface JiraPushPanelProps {
+  prdId: string;
+}
+
+// Acceptance criteria are edited one per line
+type StoryDraft = Omit<JiraStoryProposal, 'acceptanceCriteria'> & { acceptanceCriteria: string };
+
+const EMPTY_STORY: StoryDraft = { summary: '', description: '', acceptanceCriteria: '' };
+
+function toDrafts(proposal: JiraEpicProposal): StoryDraft[] {
+  return proposal.stories.map((story) => ({ ...story, acceptanceCriteria: story.acceptanceCriteria.join('\n') }));
+}
+
+/**
+ * Push a PRD to Jira: propose an epic with stories, edit the proposal, then create the issues
+ */
+export default function JiraPushPanel({ prdId }: JiraPushPanelProps) {
+  const [issues, setIssues] = useState<PRDJiraIssue[]>([]);
+  const [projectKey, setProjectKey] = useState('');
+  const [epic, setEpic] = useState<JiraEpicProposal['epic'] | null>(null);
+  const [stories, setStories] = useState<StoryDraft[]>([]);
+  const [isProposing, setIsProposing] = useState(false);
+  const [isPushing, setIsPushing] = useState(false);
+  const [error, setError] = useState('');
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  useEffect(() => {
+    setEpic(null);
+    setStories([]);
+    setWarnings([]);
+    loadIssues();
+  }, [prdId]);
+
+  const loadIssues = async () => {
+    try {
+      const response = await prdApi.jiraIssues(prdId);
+      if (response.success && response.issues) {
+        setIssues(response.issues);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to load linked Jira issues');
+    }
+  };
+
+  const handlePropose = async () => {
+    setIsProposing(true);
+    setError('');
+    setWarnings([]);
+
+    try {
+      const response = await jiraApi.proposeIssues({ prdId, projectKey });
+      if (response.success && response.proposal) {
+        setProjectKey(response.proposal.projectKey);
+        setEpic(response.proposal.epic);
+        setStories(toDrafts(response.proposal));
+      } else {
+        setError(response.error || 'Failed to propose Jira issues');
+      }
+    } catch (err: any) {
+      const details = err.response?.data?.details;
+      setError(
+        details?.length
+          ? details.map((d: { message: string }) => d.message).join(', ')
+          : err.response?.data?.error || err.message || 'Failed to propose Jira issues'
+      );
+    } finally {
+      setIsProposing(false);
+    }
+  };
+
+  const updateStory = (index: number, changes: Partial<StoryDraft>) => {
+    setStories(stories.map((story, i) => (i === index ? { ...story, ...changes } : story)));
+  };
+
+  const handlePush = async () => {
+    if (!epic) return;
+
+    setIsPushing(true);
+    setError('');
+    setWarnings([]);
+
+    try {
+      const response = await jiraApi.pushIssues({
+        prdId,
+        proposal: {
+          projectKey,
+          epic,
+          stories: stories.map((story) => ({
+            ...story,
+            acceptanceCriteria: story.acceptanceCriteria
+              .split('\n')
+              .map((line) => line.trim())
+              .filter(Boolean),
+          })),
+        },
+      });
+
+      if (response.success) {
+        setEpic(null);
+        setStories([]);
+        setWarnings(response.errors || []);
+        await loadIssues();
+      } else {
+        setError(response.error || 'Failed to create Jira issues');
+      }
+    } catch (err: any) {
+      const details = err.response?.data?.details;
+      setError(
+        details?.length
+          ? details.map((d: { field: string; message: string }) => `${d.field}: ${d.message}`).join(', ')
+          : err.response?.data?.error || err.message || 'Failed to create Jira issues'
+      );
+    } finally {
+      setIsPushing(false);
+    }
+  };
+
+  return (
+    <div className="card space-y-4">
+      <h3 className="text-lg font-semibold">🎫 Push to Jira</h3>
+
+      {error && <div className="text-sm text-red-700">{error}</div>}
+      {warnings.length > 0 && (
+        <div className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+          <p className="font-medium">Some stories were not created:</p>
+          <ul className="list-disc ml-5">
+            {warnings.map((warning, i) => (
+              <li key={i}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-1">Linked issues</h4>
+          <ul className="text-sm space-y-1">
+            {issues.map((issue) => (
+              <li key={issue.key} className={issue.parentKey ? 'ml-4' : ''}>
+                <a href={issue.url} target="_blank" rel="noreferrer" className="text-blue-600 hover:text-blue-800 font-mono">
+                  {issue.key}
+                </a>{' '}
+                <span className="text-gray-900">{issue.summary}</span>
+                <span className="ml-2 text-xs text-gray-500">
+                  {issue.issueType} · from v{issue.prdVersion}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="Project key (e.g. PROJ)"
+          value={projectKey}
+          onChange={(e) => setProjectKey(e.target.value.toUpperCase())}
+          className="input text-sm w-48 font-mono"
+          disabled={isProposing || isPushing}
+        />
+        <button
+          onClick={handlePropose}
+          className="btn btn-secondary text-sm"
+          disabled={isProposing || isPushing || !projectKey.trim()}
+        >
+          {isProposing ? 'Proposing...' : epic ? 'Propose Again' : 'Propose Epic & Stories'}
+        </button>
+      </div>
+
+      {epic && (
+        <div className="space-y-3">
+          <div className="border border-gray-200 rounded-lg p-3 space-y-2 bg-white">
+            <div className="text-xs font-semibold text-purple-700">EPIC</div>
+            <input
+              type="text"
+              placeholder="Epic summary"
+              value={epic.summary}
+              onChange={(e) => setEpic({ ...epic, summary: e.target.value })}
+              className="input text-sm"
+            />
+            <textarea
+              placeholder="Epic description"
+              value={epic.description}
+              onChange={(e) => setEpic({ ...epic, description: e.target.value })}
+              className="textarea min-h-[70px] text-xs"
+            />
+          </div>
+
+          {stories.map((story, index) => (
+            <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-2 bg-white ml-4">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  placeholder="Story summary"
+                  value={story.summary}
+                  onChange={(e) => updateStory(index, { summary: e.target.value })}
+                  className="input text-sm flex-1"
+                />
+                <button
+                  onClick={() => setStories(stories.filter((_, i) => i !== index))}
+                  className="btn btn-secondary text-xs"
+                  title="Remove story"
+                >
+                  ✕
+                </button>
+              </div>
+              <textarea
+                placeholder="Story description"
+                value={story.description}
+                onChange={(e) => updateStory(index, { description: e.target.value })}
+                className="textarea min-h-[60px] text-xs"
+              />
+              <textarea
+                placeholder="Acceptance criteria, one per line"
+                value={story.acceptanceCriteria}
+                onChange={(e) => updateStory(index, { acceptanceCriteria: e.target.value })}
+                className="textarea min-h-[60px] text-xs"
+              />
+              {story.sourceRequirement && (
+                <p className="text-xs text-gray-500">From the PRD: {story.sourceRequirement}</p>
+              )}
+            </div>
+          ))}
+
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => setStories([...stories, EMPTY_STORY])} className="btn btn-secondary text-sm">
+              + Add Story
+            </button>
+            <button
+              onClick={handlePush}
+              className="btn btn-primary text-sm"
+              disabled={isPushing || !epic.summary.trim() || stories.some((story) => !story.summary.trim())}
+            >
+              {isPushing ? 'Creating...' : `Create Epic + ${stories.length} Stories in Jira`}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
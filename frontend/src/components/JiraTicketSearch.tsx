@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { jiraApi } from '../api/client';
+import type { JiraSearchRequest, JiraSearchResult } from '../../../shared/types';
+
+interface JiraTicketSearchProps {
+  onImport: (ticketKeys: string[]) => void;
+  disabled?: boolean;
+}
+
+type SearchMode = 'jql' | 'epic' | 'sprint';
+
+const PLACEHOLDERS: Record<SearchMode, string> = {
+  jql: 'project = PROJ AND labels = checkout ORDER BY created DESC',
+  epic: 'Epic key, e.g. PROJ-42',
+  sprint: 'Sprint id or name, e.g. 128 or "Checkout Sprint 7"',
+};
+
+/**
+ * Find Jira tickets by JQL, epic or sprint and pick the ones to build a PRD from
+ */
+export default function JiraTicketSearch({ onImport, disabled }: JiraTicketSearchProps) {
+  const [mode, setMode] = useState<SearchMode>('jql');
+  const [query, setQuery] = useState('');
+  const [projectKey, setProjectKey] = useState('');
+  const [results, setResults] = useState<JiraSearchResult[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [nextPageToken, setNextPageToken] = useState<string | undefined>(undefined);
+  const [lastRequest, setLastRequest] = useState<JiraSearchRequest | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState('');
+
+  const buildRequest = (): JiraSearchRequest => {
+    const value = query.trim();
+    const project = projectKey.trim() || undefined;
+    if (mode === 'epic') return { epicKey: value, projectKey: project };
+    if (mode === 'sprint') return { sprint: value.replace(/^"(.*)"$/, '$1'), projectKey: project };
+    return { jql: value };
+  };
+
+  const runSearch = async (request: JiraSearchRequest, append: boolean) => {
+    setIsSearching(true);
+    setError('');
+
+    try {
+      const response = await jiraApi.search(request);
+      if (response.success && response.issues) {
+        setResults(append ? [...results, ...response.issues] : response.issues);
+        setNextPageToken(response.nextPageToken);
+        if (!append) {
+          setSelected([]);
+        }
+      } else {
+        setError(response.error || 'Jira search failed');
+      }
+    } catch (err: any) {
+      const details = err.response?.data?.details;
+      setError(
+        details?.length
+          ? details.map((d: { message: string }) => d.message).join(', ')
+          : err.response?.data?.error || err.message || 'Jira search failed'
+      );
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleSearch = () => {
+    const request = buildRequest();
+    setLastRequest(request);
+    runSearch(request, false);
+  };
+
+  const handleLoadMore = () => {
+    if (lastRequest && nextPageToken) {
+      runSearch({ ...lastRequest, nextPageToken }, true);
+    }
+  };
+
+  const toggle = (key: string) => {
+    setSelected(selected.includes(key) ? selected.filter((k) => k !== key) : [...selected, key]);
+  };
+
+  const allSelected = results.length > 0 && results.every((issue) => selected.includes(issue.key));
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-3">
+      <div className="flex gap-2">
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as SearchMode)}
+          className="input text-sm w-32"
+          disabled={disabled || isSearching}
+        >
+          <option value="jql">JQL</option>
+          <option value="epic">Epic</option>
+          <option value="sprint">Sprint</option>
+        </select>
+        <input
+          type="text"
+          placeholder={PLACEHOLDERS[mode]}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && query.trim() && handleSearch()}
+          className="input text-sm flex-1 font-mono"
+          disabled={disabled || isSearching}
+        />
+        {mode !== 'jql' && (
+          <input
+            type="text"
+            placeholder="Project (optional)"
+            value={projectKey}
+            onChange={(e) => setProjectKey(e.target.value.toUpperCase())}
+            className="input text-sm w-36 font-mono"
+            disabled={disabled || isSearching}
+          />
+        )}
+        <button
+          onClick={handleSearch}
+          className="btn btn-secondary text-sm"
+          disabled={disabled || isSearching || !query.trim()}
+        >
+          {isSearching && !nextPageToken ? 'Searching...' : '🔎 Search'}
+        </button>
+      </div>
+
+      {error && <div className="text-sm text-red-700">{error}</div>}
+
+      {lastRequest && results.length === 0 && !isSearching && !error && (
+        <p className="text-sm text-gray-500">No tickets found.</p>
+      )}
+
+      {results.length > 0 && (
+        <>
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelected(allSelected ? [] : results.map((issue) => issue.key))}
+            />
+            Select all {results.length} loaded
+          </label>
+          <ul className="divide-y divide-gray-200 max-h-[300px] overflow-auto bg-white border border-gray-200 rounded">
+            {results.map((issue) => (
+              <li key={issue.key} className="px-3 py-2">
+                <label className="flex items-start gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(issue.key)}
+                    onChange={() => toggle(issue.key)}
+                    className="mt-1"
+                  />
+                  <div className="flex-1">
+                    <span className="font-medium text-gray-900">{issue.key}:</span>
+                    <span className="text-gray-700 ml-1">{issue.summary}</span>
+                    <div className="text-xs text-gray-500">
+                      {issue.issueType} • {issue.priority} • {issue.status}
+                      {issue.assignee && ` • ${issue.assignee}`}
+                    </div>
+                  </div>
+                </label>
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            {nextPageToken && (
+              <button onClick={handleLoadMore} className="btn btn-secondary text-sm" disabled={isSearching}>
+                {isSearching ? 'Loading...' : 'Load More'}
+              </button>
+            )}
+            <button
+              onClick={() => onImport(selected)}
+              className="btn btn-primary text-sm flex-1"
+              disabled={disabled || selected.length === 0}
+            >
+              Import {selected.length} Ticket{selected.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { useMemo } from 'react';
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+
+interface MarkdownPreviewProps {
+  markdown: string;
+  className?: string;
+}
+
+/**
+ * Render PRD markdown as sanitized HTML (AI output can contain raw HTML)
+ */
+export default function MarkdownPreview({ markdown, className = '' }: MarkdownPreviewProps) {
+  const html = useMemo(
+    () => DOMPurify.sanitize(marked.parse(markdown, { gfm: true, async: false }) as string),
+    [markdown]
+  );
+
+  return <div className={`markdown-preview ${className}`} dangerouslySetInnerHTML={{ __html: html }} />;
+}
@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react';
+import { exportApi, importApi } from '../api/client';
+import type { ImportedPage, PagePlatform } from '../../../shared/types';
+
+interface PageImportProps {
+  onImport: (page: ImportedPage) => void;
+  actionLabel?: string;
+  disabled?: boolean;
+}
+
+const PLACEHOLDERS: Record<PagePlatform, string> = {
+  confluence: 'Page URL or ID, e.g. https://acme.atlassian.net/wiki/spaces/PM/pages/123456/Checkout',
+  notion: 'Page URL or ID, e.g. https://www.notion.so/acme/Checkout-PRD-0123456789abcdef0123456789abcdef',
+};
+
+/**
+ * Fetch a Confluence or Notion page as markdown
+ */
+export default function PageImport({ onImport, actionLabel = '📥 Import', disabled }: PageImportProps) {
+  const [status, setStatus] = useState({ confluence: false, notion: false });
+  const [platform, setPlatform] = useState<PagePlatform>('confluence');
+  const [page, setPage] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [imported, setImported] = useState<ImportedPage | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    exportApi
+      .status()
+      .then((result) => {
+        setStatus(result);
+        if (!result.confluence && result.notion) {
+          setPlatform('notion');
+        }
+      })
+      .catch(() => setStatus({ confluence: false, notion: false }));
+  }, []);
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError('');
+    setImported(null);
+
+    try {
+      const response = await importApi.importPage({ platform, page: page.trim() });
+      if (response.success && response.page) {
+        setImported(response.page);
+        onImport(response.page);
+      } else {
+        setError(response.error || 'Failed to import the page');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to import the page');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (!status.confluence && !status.notion) {
+    return (
+      <p className="text-xs text-gray-500">
+        Configure Confluence or Notion in Settings to import existing pages.
+      </p>
+    );
+  }
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-2">
+      <div className="flex gap-2">
+        <select
+          value={platform}
+          onChange={(e) => setPlatform(e.target.value as PagePlatform)}
+          className="input text-sm w-36"
+          disabled={disabled || isImporting}
+        >
+          <option value="confluence" disabled={!status.confluence}>
+            Confluence
+          </option>
+          <option value="notion" disabled={!status.notion}>
+            Notion
+          </option>
+        </select>
+        <input
+          type="text"
+          placeholder={PLACEHOLDERS[platform]}
+          value={page}
+          onChange={(e) => setPage(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && page.trim() && handleImport()}
+          className="input text-sm flex-1 font-mono"
+          disabled={disabled || isImporting}
+        />
+        <button
+          onClick={handleImport}
+          className="btn btn-secondary text-sm whitespace-nowrap"
+          disabled={disabled || isImporting || !page.trim()}
+        >
+          {isImporting ? 'Importing...' : actionLabel}
+        </button>
+      </div>
+
+      {error && <div className="text-sm text-red-700">{error}</div>}
+      {imported && (
+        <div className="text-xs text-gray-600">
+          Imported{' '}
+          <a href={imported.url} target="_blank" rel="noreferrer" className="text-blue-600 hover:text-blue-800">
+            {imported.title}
+          </a>
+          {imported.lastEdited && ` (last edited ${new Date(imported.lastEdited).toLocaleString()})`}
+        </div>
+      )}
+    </div>
+  );
+}
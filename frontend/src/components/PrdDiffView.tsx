@@ -0,0 +1,54 @@
+import type { PRDDiff } from '../../../shared/types';
+
+interface PrdDiffViewProps {
+  diff: PRDDiff;
+  showUnchanged?: boolean;
+}
+
+/**
+ * Section-by-section PRD diff with added/removed lines highlighted
+ */
+export default function PrdDiffView({ diff, showUnchanged = false }: PrdDiffViewProps) {
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-600">
+        <span className="text-green-700">+{diff.stats.additions}</span>{' '}
+        <span className="text-red-700">-{diff.stats.deletions}</span> in{' '}
+        {diff.stats.sectionsChanged} section{diff.stats.sectionsChanged === 1 ? '' : 's'}
+      </p>
+
+      {diff.sections
+        .filter((section) => showUnchanged || section.status !== 'unchanged')
+        .map((section, index) => (
+          <div key={`${section.heading}-${index}`} className="border border-gray-200 rounded-lg">
+            <div className="flex justify-between items-center bg-gray-50 px-3 py-2 text-sm border-b">
+              <span className="font-medium text-gray-900">{section.heading}</span>
+              <span className="text-xs text-gray-500">
+                {section.status}
+                {section.status !== 'unchanged' && ` (+${section.additions} -${section.deletions})`}
+              </span>
+            </div>
+            {section.lines.length > 0 && (
+              <pre className="text-xs font-mono overflow-auto max-h-[300px]">
+                {section.lines.map((line, i) => (
+                  <div
+                    key={i}
+                    className={`px-3 whitespace-pre-wrap ${
+                      line.type === 'added'
+                        ? 'bg-green-50 text-green-800'
+                        : line.type === 'removed'
+                          ? 'bg-red-50 text-red-800'
+                          : 'text-gray-600'
+                    }`}
+                  >
+                    {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                    {line.text}
+                  </div>
+                ))}
+              </pre>
+            )}
+          </div>
+        ))}
+    </div>
+  );
+}
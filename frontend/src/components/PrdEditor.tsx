@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import { prdApi } from '../api/client';
+import MarkdownPreview from './MarkdownPreview';
+import type { PRDMetadata } from '../../../shared/types';
+
+interface PrdEditorProps {
+  prdId: string;
+  markdown: string;
+  onSaved: (markdown: string, metadata: PRDMetadata) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Split markdown editor with live preview, saves edits as a new PRD revision
+ */
+export default function PrdEditor({ prdId, markdown, onSaved, onCancel }: PrdEditorProps) {
+  const [draft, setDraft] = useState(markdown);
+  const [changeNote, setChangeNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Start over from the latest content if the PRD changes underneath (e.g. a restore)
+  useEffect(() => {
+    setDraft(markdown);
+  }, [markdown]);
+
+  const isDirty = draft !== markdown;
+
+  const handleSave = async () => {
+    if (!draft.trim()) {
+      setError('PRD content cannot be empty');
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+
+    try {
+      const response = await prdApi.update(prdId, {
+        markdown: draft,
+        changeNote: changeNote.trim() || undefined,
+      });
+
+      if (response.success && response.markdown !== undefined && response.metadata) {
+        setChangeNote('');
+        onSaved(response.markdown, response.metadata);
+      } else {
+        setError(response.error || 'Failed to save PRD');
+      }
+    } catch (err: any) {
+      const details = err.response?.data?.details;
+      setError(
+        details?.length
+          ? details.map((d: { message: string }) => d.message).join(', ')
+          : err.response?.data?.error || err.message || 'Failed to save PRD'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = () => {
+    if (isDirty && !confirm('Discard your unsaved changes?')) {
+      return;
+    }
+    setDraft(markdown);
+    onCancel();
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <div className="text-xs font-medium text-gray-500 mb-1">Markdown</div>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="textarea h-[500px] font-mono text-xs"
+            disabled={isSaving}
+          />
+        </div>
+        <div>
+          <div className="text-xs font-medium text-gray-500 mb-1">Preview</div>
+          <MarkdownPreview
+            markdown={draft}
+            className="h-[500px] overflow-auto border border-gray-200 rounded-lg p-4"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          placeholder="What changed? (optional)"
+          value={changeNote}
+          onChange={(e) => setChangeNote(e.target.value)}
+          className="input text-sm flex-1"
+          disabled={isSaving}
+        />
+        <button
+          onClick={handleSave}
+          className="btn btn-primary text-sm"
+          disabled={isSaving || !isDirty}
+        >
+          {isSaving ? 'Saving...' : '💾 Save'}
+        </button>
+        <button onClick={handleCancel} className="btn btn-secondary text-sm" disabled={isSaving}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState, useEffect } from 'react';
+import { prdApi } from '../api/client';
+import PrdDiffView from './PrdDiffView';
+import type { PRDDiff, PRDMetadata, PRDRevisionSummary } from '../../../shared/types';
+
+interface PrdHistoryPanelProps {
+  prdId: string;
+  version?: number; // Current version of the PRD, reloads history when it changes
+  onRestore: (markdown: string, metadata: PRDMetadata) => void;
+}
+
+const CHANGE_LABELS: Record<PRDRevisionSummary['changeType'], string> = {
+  create: '✨ Created',
+  regenerate: '🔄 Regenerated',
+  edit: '✏️ Edited',
+  revise: '🛠️ Revised from review',
+  restore: '↩️ Restored',
+};
+
+export default function PrdHistoryPanel({ prdId, version, onRestore }: PrdHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<PRDRevisionSummary[]>([]);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [diff, setDiff] = useState<PRDDiff | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadRevisions();
+  }, [prdId, version]);
+
+  useEffect(() => {
+    if (fromVersion !== null && toVersion !== null && fromVersion !== toVersion) {
+      loadDiff(fromVersion, toVersion);
+    } else {
+      setDiff(null);
+    }
+  }, [fromVersion, toVersion]);
+
+  const loadRevisions = async () => {
+    try {
+      const response = await prdApi.revisions(prdId);
+      if (response.success && response.revisions) {
+        setRevisions(response.revisions);
+
+        // Default to comparing the latest revision against the one before it
+        const [latest, previous] = response.revisions;
+        setToVersion(latest ? latest.version : null);
+        setFromVersion(previous ? previous.version : latest ? latest.version : null);
+        setError('');
+      } else {
+        setError(response.error || 'Failed to load history');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to load history');
+    }
+  };
+
+  const loadDiff = async (from: number, to: number) => {
+    setIsLoading(true);
+    try {
+      const response = await prdApi.diff(prdId, from, to);
+      if (response.success && response.diff) {
+        setDiff(response.diff);
+        setError('');
+      } else {
+        setError(response.error || 'Failed to load diff');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to load diff');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRestore = async (restoreVersion: number) => {
+    if (!confirm(`Restore version ${restoreVersion}? This is saved as a new version, nothing is lost.`)) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await prdApi.restore(prdId, restoreVersion);
+      if (response.success && response.markdown && response.metadata) {
+        onRestore(response.markdown, response.metadata);
+        setError('');
+      } else {
+        setError(response.error || 'Failed to restore version');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to restore version');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const latestVersion = revisions[0]?.version;
+
+  return (
+    <div className="card space-y-4">
+      <h3 className="text-lg font-semibold">Version History</h3>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Revision list */}
+      <div className="space-y-2 max-h-[240px] overflow-auto">
+        {revisions.map((revision) => (
+          <div
+            key={revision.id}
+            className="flex items-center justify-between border border-gray-200 rounded-lg px-3 py-2 text-sm"
+          >
+            <div>
+              <span className="font-medium text-gray-900">v{revision.version}</span>
+              <span className="ml-2 text-gray-600">{CHANGE_LABELS[revision.changeType]}</span>
+              {revision.changeNote && (
+                <span className="ml-2 text-xs text-gray-500">({revision.changeNote})</span>
+              )}
+              <div className="text-xs text-gray-500">
+                {new Date(revision.createdAt).toLocaleString()}
+              </div>
+            </div>
+            {revision.version !== latestVersion && (
+              <button
+                onClick={() => handleRestore(revision.version)}
+                className="btn btn-secondary text-xs"
+                disabled={isLoading}
+              >
+                Restore
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Version pickers */}
+      {revisions.length > 1 && (
+        <div className="flex items-center space-x-2 text-sm">
+          <span className="text-gray-600">Compare</span>
+          <select
+            value={fromVersion ?? ''}
+            onChange={(e) => setFromVersion(Number(e.target.value))}
+            className="input w-auto py-1"
+          >
+            {revisions.map((r) => (
+              <option key={r.id} value={r.version}>v{r.version}</option>
+            ))}
+          </select>
+          <span className="text-gray-600">→</span>
+          <select
+            value={toVersion ?? ''}
+            onChange={(e) => setToVersion(Number(e.target.value))}
+            className="input w-auto py-1"
+          >
+            {revisions.map((r) => (
+              <option key={r.id} value={r.version}>v{r.version}</option>
+            ))}
+          </select>
+          <label className="flex items-center space-x-1 ml-auto text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={showUnchanged}
+              onChange={(e) => setShowUnchanged(e.target.checked)}
+            />
+            <span>Show unchanged sections</span>
+          </label>
+        </div>
+      )}
+
+      {/* Section diff */}
+      {diff && <PrdDiffView diff={diff} showUnchanged={showUnchanged} />}
+
+      {revisions.length <= 1 && (
+        <p className="text-sm text-gray-500">
+          Only one version so far. Regenerate or edit the PRD to start building history.
+        </p>
+      )}
+    </div>
+  );
+}
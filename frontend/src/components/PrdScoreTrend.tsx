@@ -0,0 +1,137 @@
+import { useState, useEffect } from 'react';
+import { prdApi } from '../api/client';
+import type { PRDScoreTrend, ReviewGapCounts } from '../../../shared/types';
+
+interface PrdScoreTrendProps {
+  prdId: string;
+  refreshKey?: number; // Bump to reload after a new review
+}
+
+const GAP_LABELS: Record<keyof ReviewGapCounts, string> = {
+  missingSections: 'Missing sections',
+  unclearRequirements: 'Unclear requirements',
+  edgeCases: 'Edge cases',
+  technicalRisks: 'Technical risks',
+  complianceGaps: 'Compliance',
+  metricsGaps: 'Metrics',
+  uxGaps: 'UX',
+  goToMarketGaps: 'Go-to-market',
+};
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return 'bg-green-500';
+  if (score >= 60) return 'bg-yellow-500';
+  return 'bg-red-500';
+};
+
+/**
+ * Review score and gap counts across a PRD's reviews
+ */
+export default function PrdScoreTrend({ prdId, refreshKey }: PrdScoreTrendProps) {
+  const [trend, setTrend] = useState<PRDScoreTrend | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadTrend();
+  }, [prdId, refreshKey]);
+
+  const loadTrend = async () => {
+    try {
+      const response = await prdApi.reviewTrend(prdId);
+      if (response.success && response.trend) {
+        setTrend(response.trend);
+        setError('');
+      } else {
+        setError(response.error || 'Failed to load review trend');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to load review trend');
+    }
+  };
+
+  return (
+    <div className="card space-y-4">
+      <h3 className="text-lg font-semibold">📈 Review Score Trend</h3>
+
+      {error && <div className="text-sm text-red-700">{error}</div>}
+
+      {trend && trend.points.length === 0 && (
+        <p className="text-sm text-gray-500">No reviews yet. Run a review to start tracking the score.</p>
+      )}
+
+      {trend && trend.points.length > 0 && (
+        <>
+          {trend.scoreDelta !== undefined && trend.points.length > 1 && (
+            <p className="text-sm text-gray-700">
+              Score went from <span className="font-semibold">{trend.firstScore}</span> to{' '}
+              <span className="font-semibold">{trend.latestScore}</span>{' '}
+              <span className={trend.scoreDelta >= 0 ? 'text-green-700' : 'text-red-700'}>
+                ({trend.scoreDelta >= 0 ? '+' : ''}
+                {trend.scoreDelta})
+              </span>{' '}
+              over {trend.points.length} reviews
+            </p>
+          )}
+
+          {new Set(trend.points.map((point) => point.rubricVersion ?? 'none')).size > 1 && (
+            <p className="text-xs text-gray-500">
+              ⚖️ These reviews were scored with different rubric versions, so their scores aren't directly comparable.
+            </p>
+          )}
+
+          {/* Score per review */}
+          <div className="space-y-2">
+            {trend.points.map((point) => (
+              <div key={point.reviewId} className="flex items-center space-x-3 text-sm">
+                <span className="w-12 text-gray-600">{point.prdVersion ? `v${point.prdVersion}` : '—'}</span>
+                <div className="flex-1 bg-gray-100 rounded h-4">
+                  <div
+                    className={`h-4 rounded ${getScoreColor(point.overallScore)}`}
+                    style={{ width: `${Math.max(0, Math.min(100, point.overallScore))}%` }}
+                  />
+                </div>
+                <span className="w-10 text-right font-medium">{point.overallScore}</span>
+                <span className="w-20 text-right text-xs text-gray-500">{point.totalGaps} gaps</span>
+              </div>
+            ))}
+          </div>
+
+          {/* Gap counts per category: first vs latest review */}
+          {trend.gapDelta && trend.points.length > 1 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="py-1">Category</th>
+                  <th className="py-1 text-right">First</th>
+                  <th className="py-1 text-right">Latest</th>
+                  <th className="py-1 text-right">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(GAP_LABELS) as Array<keyof ReviewGapCounts>).map((category) => {
+                  const delta = trend.gapDelta![category];
+                  return (
+                    <tr key={category} className="border-t border-gray-100">
+                      <td className="py-1 text-gray-700">{GAP_LABELS[category]}</td>
+                      <td className="py-1 text-right">{trend.points[0].gapCounts[category]}</td>
+                      <td className="py-1 text-right">
+                        {trend.points[trend.points.length - 1].gapCounts[category]}
+                      </td>
+                      <td
+                        className={`py-1 text-right ${
+                          delta < 0 ? 'text-green-700' : delta > 0 ? 'text-red-700' : 'text-gray-400'
+                        }`}
+                      >
+                        {delta > 0 ? `+${delta}` : delta}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
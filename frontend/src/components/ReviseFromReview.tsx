@@ -0,0 +1,268 @@
+import { useState, useEffect, useMemo } from 'react';
+import { prdApi } from '../api/client';
+import MarkdownPreview from './MarkdownPreview';
+import PrdDiffView from './PrdDiffView';
+import type {
+  ReviewResult,
+  ReviewFinding,
+  ReviewFindingCategory,
+  ReviseFromReviewResponse,
+} from '../../../shared/types';
+
+interface ReviseFromReviewProps {
+  review: ReviewResult;
+  prdContent: string;
+  onUseRevision: (markdown: string) => void;
+}
+
+const CATEGORY_LABELS: Record<ReviewFindingCategory, string> = {
+  missingSections: '🚫 Missing Sections',
+  unclearRequirements: '❓ Unclear Requirements',
+  edgeCases: '⚠️ Edge Cases',
+  technicalRisks: '🔧 Technical Risks',
+  complianceGaps: '📋 Compliance Gaps',
+  metricsGaps: '📊 Metrics Gaps',
+  uxGaps: '🎨 UX Gaps',
+  goToMarketGaps: '🚀 Go-to-Market Gaps',
+  recommendations: '💡 Recommendations',
+};
+
+/**
+ * Flatten a review into individually selectable findings
+ */
+function toFindings(review: ReviewResult): ReviewFinding[] {
+  const { sections } = review;
+  const list = (category: ReviewFindingCategory, items: string[]): ReviewFinding[] =>
+    items.map((text, i) => ({ id: `${category}-${i}`, category, text }));
+
+  return [
+    ...sections.missingSections.map((section, i): ReviewFinding => ({
+      id: `missingSections-${i}`,
+      category: 'missingSections',
+      text: `Add the missing "${section}" section`,
+      section,
+    })),
+    ...sections.unclearRequirements.map((item, i): ReviewFinding => ({
+      id: `unclearRequirements-${i}`,
+      category: 'unclearRequirements',
+      text: item.issue,
+      section: item.section,
+      severity: item.severity,
+    })),
+    ...sections.edgeCases.map((item, i): ReviewFinding => ({
+      id: `edgeCases-${i}`,
+      category: 'edgeCases',
+      text: `${item.scenario}: ${item.concern}`,
+    })),
+    ...sections.technicalRisks.map((item, i): ReviewFinding => ({
+      id: `technicalRisks-${i}`,
+      category: 'technicalRisks',
+      text: `${item.risk} (impact: ${item.impact})${item.mitigation ? `. Suggested mitigation: ${item.mitigation}` : ''}`,
+    })),
+    ...list('complianceGaps', sections.complianceGaps),
+    ...list('metricsGaps', sections.metricsGaps),
+    ...list('uxGaps', sections.uxGaps),
+    ...list('goToMarketGaps', sections.goToMarketGaps),
+    ...list('recommendations', review.recommendations),
+  ];
+}
+
+export default function ReviseFromReview({ review, prdContent, onUseRevision }: ReviseFromReviewProps) {
+  const findings = useMemo(() => toFindings(review), [review]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [result, setResult] = useState<ReviseFromReviewResponse | null>(null);
+  const [view, setView] = useState<'diff' | 'side-by-side'>('diff');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // A new review starts a fresh selection
+  useEffect(() => {
+    setSelected(new Set());
+    setResult(null);
+  }, [review]);
+
+  const toggle = (id: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleRevise = async () => {
+    setIsLoading(true);
+    setError('');
+    setResult(null);
+
+    try {
+      const response = await prdApi.reviseFromReview({
+        prdContent,
+        findings: findings.filter((f) => selected.has(f.id)),
+      });
+
+      if (response.success && response.revisedMarkdown) {
+        setResult(response);
+      } else {
+        setError(response.error || 'Failed to revise PRD');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to revise PRD');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const findingsById = new Map(findings.map((f) => [f.id, f]));
+  const categories = Array.from(new Set(findings.map((f) => f.category)));
+
+  if (findings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold">🛠️ Revise from Review</h3>
+        <div className="flex gap-2 text-sm">
+          <button
+            onClick={() => setSelected(new Set(findings.map((f) => f.id)))}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            Select all
+          </button>
+          <button onClick={() => setSelected(new Set())} className="text-gray-600 hover:text-gray-800">
+            Clear
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-600">
+        Check the findings you want addressed and we'll produce a revised PRD with a change for each one.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-3 max-h-[400px] overflow-auto">
+        {categories.map((category) => (
+          <div key={category}>
+            <div className="text-sm font-medium text-gray-700 mb-1">{CATEGORY_LABELS[category]}</div>
+            {findings
+              .filter((f) => f.category === category)
+              .map((finding) => (
+                <label key={finding.id} className="flex items-start space-x-2 text-sm py-1 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(finding.id)}
+                    onChange={() => toggle(finding.id)}
+                    className="mt-1"
+                    disabled={isLoading}
+                  />
+                  <span className="text-gray-700">
+                    {finding.section && finding.category !== 'missingSections' && (
+                      <span className="font-medium">{finding.section}: </span>
+                    )}
+                    {finding.text}
+                    {finding.severity && (
+                      <span className="ml-1 text-xs uppercase font-bold text-gray-500">({finding.severity})</span>
+                    )}
+                  </span>
+                </label>
+              ))}
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={handleRevise}
+        className="btn btn-primary w-full"
+        disabled={isLoading || selected.size === 0}
+      >
+        {isLoading
+          ? 'Revising PRD...'
+          : `Revise PRD (${selected.size} finding${selected.size === 1 ? '' : 's'})`}
+      </button>
+
+      {result && result.revisedMarkdown && (
+        <div className="space-y-4 border-t pt-4">
+          {result.summary && <p className="text-sm text-gray-700">{result.summary}</p>}
+
+          {/* Change summary: each finding linked to the edit that addressed it */}
+          {result.changes && result.changes.length > 0 && (
+            <div>
+              <div className="text-sm font-medium text-gray-700 mb-2">Changes</div>
+              <div className="space-y-2">
+                {result.changes.map((change, i) => (
+                  <div key={i} className="border-l-4 border-green-400 pl-3 py-1 text-sm">
+                    <p className="text-gray-500 text-xs">
+                      {findingsById.get(change.findingId)?.text || change.findingId}
+                    </p>
+                    <p className="text-gray-800">
+                      <span className="font-medium">{change.section}:</span> {change.description}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Before / after */}
+          <div className="flex justify-between items-center">
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setView('diff')}
+                className={`btn text-sm ${view === 'diff' ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                Diff
+              </button>
+              <button
+                onClick={() => setView('side-by-side')}
+                className={`btn text-sm ${view === 'side-by-side' ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                Before / After
+              </button>
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => navigator.clipboard.writeText(result.revisedMarkdown!)}
+                className="btn btn-secondary text-sm"
+              >
+                📋 Copy
+              </button>
+              <button onClick={() => onUseRevision(result.revisedMarkdown!)} className="btn btn-primary text-sm">
+                Use Revised PRD
+              </button>
+            </div>
+          </div>
+
+          {view === 'diff' && result.diff ? (
+            <PrdDiffView diff={result.diff} />
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <div className="text-xs font-medium text-gray-500 mb-1">Before</div>
+                <MarkdownPreview
+                  markdown={prdContent}
+                  className="max-h-[500px] overflow-auto border border-gray-200 rounded-lg p-4"
+                />
+              </div>
+              <div>
+                <div className="text-xs font-medium text-gray-500 mb-1">After</div>
+                <MarkdownPreview
+                  markdown={result.revisedMarkdown}
+                  className="max-h-[500px] overflow-auto border border-gray-200 rounded-lg p-4"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
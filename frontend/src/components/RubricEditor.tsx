@@ -0,0 +1,219 @@
+import { useState, useEffect } from 'react';
+import { reviewRubricApi } from '../api/client';
+import type { ReviewRubric, RubricCategory, Severity } from '../../../shared/types';
+
+interface RubricEditorProps {
+  onSaved?: (rubric: ReviewRubric) => void;
+}
+
+// Criteria are edited one per line
+type CategoryDraft = Omit<RubricCategory, 'criteria'> & { criteria: string };
+
+const SEVERITY_OPTIONS: Array<{ value: Severity; label: string }> = [
+  { value: 'critical', label: 'Critical only' },
+  { value: 'important', label: 'Important and above' },
+  { value: 'suggestion', label: 'Any failed criterion' },
+];
+
+function toDrafts(rubric: ReviewRubric): CategoryDraft[] {
+  return rubric.categories.map((category) => ({ ...category, criteria: category.criteria.join('\n') }));
+}
+
+/**
+ * Edit the org-wide review rubric: categories, weights, pass/fail criteria and the severity threshold
+ */
+export default function RubricEditor({ onSaved }: RubricEditorProps) {
+  const [rubric, setRubric] = useState<ReviewRubric | null>(null);
+  const [name, setName] = useState('');
+  const [categories, setCategories] = useState<CategoryDraft[]>([]);
+  const [severityThreshold, setSeverityThreshold] = useState<Severity>('important');
+  const [canEdit, setCanEdit] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    loadRubric();
+  }, []);
+
+  const applyRubric = (loaded: ReviewRubric) => {
+    setName(loaded.name);
+    setCategories(toDrafts(loaded));
+    setSeverityThreshold(loaded.severityThreshold);
+  };
+
+  const loadRubric = async () => {
+    try {
+      const response = await reviewRubricApi.get();
+      if (response.success && response.rubric) {
+        setRubric(response.rubric);
+        setCanEdit(!!response.canEdit);
+        applyRubric(response.rubric);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to load the review rubric');
+    }
+  };
+
+  const handleResetToDefault = async () => {
+    try {
+      const response = await reviewRubricApi.getDefault();
+      if (response.success && response.rubric) {
+        applyRubric(response.rubric);
+        setMessage('Loaded the built-in rubric. Save to make it active.');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to load the built-in rubric');
+    }
+  };
+
+  const updateCategory = (index: number, changes: Partial<CategoryDraft>) => {
+    setCategories(categories.map((category, i) => (i === index ? { ...category, ...changes } : category)));
+  };
+
+  const totalWeight = categories.reduce((sum, category) => sum + (category.weight || 0), 0);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const response = await reviewRubricApi.update({
+        name,
+        severityThreshold,
+        categories: categories.map((category) => ({
+          ...category,
+          criteria: category.criteria
+            .split('\n')
+            .map((line) => line.trim())
+            .filter(Boolean),
+        })),
+      });
+
+      if (response.success && response.rubric) {
+        setRubric(response.rubric);
+        applyRubric(response.rubric);
+        setMessage(`Saved rubric v${response.rubric.version}. New reviews are scored with it.`);
+        onSaved?.(response.rubric);
+      } else {
+        setError(response.error || 'Failed to save the review rubric');
+      }
+    } catch (err: any) {
+      const details = err.response?.data?.details;
+      setError(
+        details?.length
+          ? details.map((d: { field: string; message: string }) => `${d.field}: ${d.message}`).join(', ')
+          : err.response?.data?.error || err.message || 'Failed to save the review rubric'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!rubric) {
+    return error ? <div className="text-sm text-red-700">{error}</div> : null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">
+        {rubric.version === 0 ? 'Built-in rubric' : `Version ${rubric.version}`}
+        {rubric.updatedBy && ` · saved by ${rubric.updatedBy}`}. Each category is scored by the share of its criteria
+        the PRD passes; the overall score is the weighted average.
+      </p>
+
+      {!canEdit && (
+        <div className="text-sm text-gray-600">The rubric applies to everyone's reviews, so only rubric editors can change it.</div>
+      )}
+      {error && <div className="text-sm text-red-700">{error}</div>}
+      {message && <div className="text-sm text-green-700">{message}</div>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <input
+          type="text"
+          placeholder="Rubric name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="input text-sm"
+        />
+        <select
+          value={severityThreshold}
+          onChange={(e) => setSeverityThreshold(e.target.value as Severity)}
+          className="input text-sm"
+          title="Which failed criteria make a category fail"
+        >
+          {SEVERITY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              Fail a category on: {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-3">
+        {categories.map((category, index) => (
+          <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-2 bg-white">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                placeholder="Name"
+                value={category.name}
+                onChange={(e) => updateCategory(index, { name: e.target.value })}
+                className="input text-sm flex-1"
+              />
+              <input
+                type="text"
+                placeholder="id"
+                value={category.id}
+                onChange={(e) => updateCategory(index, { id: e.target.value })}
+                className="input text-sm w-36 font-mono"
+                title="Stable id used in stored scores, e.g. data-retention"
+              />
+              <input
+                type="number"
+                min={0.1}
+                step={0.5}
+                value={category.weight}
+                onChange={(e) => updateCategory(index, { weight: Number(e.target.value) })}
+                className="input text-sm w-20"
+                title="Weight"
+              />
+              <button
+                onClick={() => setCategories(categories.filter((_, i) => i !== index))}
+                className="btn btn-secondary text-xs"
+                title="Remove category"
+              >
+                ✕
+              </button>
+            </div>
+            <textarea
+              placeholder="Pass/fail criteria, one per line"
+              value={category.criteria}
+              onChange={(e) => updateCategory(index, { criteria: e.target.value })}
+              className="textarea min-h-[70px] text-xs"
+            />
+            <div className="text-xs text-gray-500">
+              {totalWeight > 0 ? Math.round(((category.weight || 0) / totalWeight) * 100) : 0}% of the overall score
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => setCategories([...categories, { id: '', name: '', weight: 1, criteria: '' }])}
+          className="btn btn-secondary text-sm"
+        >
+          + Add Category
+        </button>
+        <button onClick={handleResetToDefault} className="btn btn-secondary text-sm">
+          Load Built-in Rubric
+        </button>
+        <button onClick={handleSave} className="btn btn-primary text-sm" disabled={!canEdit || isSaving || categories.length === 0}>
+          {isSaving ? 'Saving...' : 'Save Rubric'}
+        </button>
+      </div>
+    </div>
+  );
+}
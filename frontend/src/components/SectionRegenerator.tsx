@@ -0,0 +1,99 @@
+import { useState, useEffect } from 'react';
+import { prdApi } from '../api/client';
+import type { PRDMetadata } from '../../../shared/types';
+
+interface SectionRegeneratorProps {
+  prdId: string;
+  templateId?: string; // Template the PRD was generated from (built-in when omitted)
+  onRegenerated: (markdown: string, metadata: PRDMetadata) => void;
+}
+
+/**
+ * Regenerate a single PRD section with an optional instruction
+ */
+export default function SectionRegenerator({ prdId, templateId, onRegenerated }: SectionRegeneratorProps) {
+  const [sections, setSections] = useState<string[]>([]);
+  const [heading, setHeading] = useState('');
+  const [instruction, setInstruction] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadSections();
+  }, [templateId]);
+
+  const loadSections = async () => {
+    try {
+      const response = await prdApi.templateSections(templateId);
+      if (response.success && response.sections) {
+        setSections(response.sections);
+        setHeading(response.sections[0] || '');
+      }
+    } catch (err) {
+      console.error('Error loading template sections:', err);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!heading) return;
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await prdApi.regenerateSection(prdId, {
+        heading,
+        instruction: instruction.trim() || undefined,
+      });
+
+      if (response.success && response.markdown && response.metadata) {
+        setInstruction('');
+        onRegenerated(response.markdown, response.metadata);
+      } else {
+        setError(response.error || 'Failed to regenerate section');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to regenerate section');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (sections.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-2">
+      <div className="text-sm font-medium text-gray-700">🔁 Regenerate a section</div>
+      {error && <div className="text-sm text-red-700">{error}</div>}
+      <div className="flex flex-col md:flex-row gap-2">
+        <select
+          value={heading}
+          onChange={(e) => setHeading(e.target.value)}
+          className="input text-sm md:w-1/3"
+          disabled={isLoading}
+        >
+          {sections.map((section) => (
+            <option key={section} value={section}>{section}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          placeholder='Instruction (optional), e.g. "make metrics quantitative"'
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          className="input text-sm flex-1"
+          disabled={isLoading}
+        />
+        <button
+          onClick={handleRegenerate}
+          className="btn btn-secondary text-sm whitespace-nowrap"
+          disabled={isLoading || !heading}
+        >
+          {isLoading ? 'Regenerating...' : 'Regenerate'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+import { useState, useEffect } from 'react';
+import { prdApi } from '../api/client';
+import type { PRDMetadata, PRDSourceTicket, SourceTicketChange } from '../../../shared/types';
+
+interface SourceTicketsPanelProps {
+  prdId: string;
+  onRegenerated: (markdown: string, metadata: PRDMetadata) => void;
+}
+
+/**
+ * Source Jira tickets of a PRD: check them for changes, regenerate the affected sections, and link the PRD back
+ */
+export default function SourceTicketsPanel({ prdId, onRegenerated }: SourceTicketsPanelProps) {
+  const [tickets, setTickets] = useState<PRDSourceTicket[]>([]);
+  const [changes, setChanges] = useState<SourceTicketChange[] | null>(null);
+  const [selectedSections, setSelectedSections] = useState<Record<string, string[]>>({}); // By ticket key
+  const [busyKey, setBusyKey] = useState(''); // Ticket being regenerated or dismissed
+  const [isChecking, setIsChecking] = useState(false);
+  const [fieldId, setFieldId] = useState('');
+  const [isLinking, setIsLinking] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    setChanges(null);
+    setMessage('');
+    loadTickets();
+  }, [prdId]);
+
+  const loadTickets = async () => {
+    try {
+      const response = await prdApi.sourceTickets(prdId);
+      if (response.success && response.tickets) {
+        setTickets(response.tickets);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to load source tickets');
+    }
+  };
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const response = await prdApi.checkSourceTickets(prdId);
+      if (response.success && response.tickets) {
+        setChanges(response.tickets);
+        setSelectedSections(
+          Object.fromEntries(response.tickets.map((ticket) => [ticket.key, ticket.affectedSections]))
+        );
+        if (!response.tickets.some((ticket) => ticket.changed)) {
+          setMessage('The PRD is up to date with its source tickets.');
+        }
+        await loadTickets();
+      } else {
+        setError(response.error || 'Failed to check source tickets');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to check source tickets');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const toggleSection = (key: string, heading: string) => {
+    const current = selectedSections[key] || [];
+    setSelectedSections({
+      ...selectedSections,
+      [key]: current.includes(heading) ? current.filter((h) => h !== heading) : [...current, heading],
+    });
+  };
+
+  // Mark the ticket as reflected in the PRD and drop it from the change list
+  const acknowledge = async (key: string) => {
+    await prdApi.acknowledgeSourceTickets(prdId, { ticketKeys: [key] });
+    setChanges((current) => current && current.filter((ticket) => ticket.key !== key));
+    await loadTickets();
+  };
+
+  const handleRegenerate = async (change: SourceTicketChange) => {
+    setBusyKey(change.key);
+    setError('');
+    setMessage('');
+
+    try {
+      // One section at a time, each building on the previous revision
+      for (const heading of selectedSections[change.key] || []) {
+        const response = await prdApi.regenerateSection(prdId, { heading, instruction: change.instruction });
+        if (!response.success || !response.markdown || !response.metadata) {
+          throw new Error(response.error || `Failed to regenerate "${heading}"`);
+        }
+        onRegenerated(response.markdown, response.metadata);
+      }
+
+      await acknowledge(change.key);
+      setMessage(`Updated the PRD for ${change.key}.`);
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to regenerate sections');
+    } finally {
+      setBusyKey('');
+    }
+  };
+
+  const handleDismiss = async (key: string) => {
+    setBusyKey(key);
+    setError('');
+
+    try {
+      await acknowledge(key);
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to dismiss changes');
+    } finally {
+      setBusyKey('');
+    }
+  };
+
+  const handleLink = async () => {
+    setIsLinking(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const response = await prdApi.linkToJira(prdId, fieldId.trim() ? { fieldId: fieldId.trim() } : {});
+      if (response.linked?.length) {
+        setMessage(`Linked the PRD in ${response.linked.join(', ')}.`);
+      }
+      if (response.errors?.length) {
+        setError(response.errors.join('; '));
+      }
+    } catch (err: any) {
+      const details = err.response?.data?.details;
+      setError(
+        details?.length
+          ? details.map((d: { message: string }) => d.message).join(', ')
+          : err.response?.data?.error || err.message || 'Failed to link the PRD in Jira'
+      );
+    } finally {
+      setIsLinking(false);
+    }
+  };
+
+  const changed = (changes || []).filter((ticket) => ticket.changed);
+  const baselines = (changes || []).filter((ticket) => ticket.baseline);
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold">🔄 Source Tickets</h3>
+        <button onClick={handleCheck} className="btn btn-secondary text-sm" disabled={isChecking || !!busyKey}>
+          {isChecking ? 'Checking...' : 'Check for Changes'}
+        </button>
+      </div>
+
+      {error && <div className="text-sm text-red-700">{error}</div>}
+      {message && <div className="text-sm text-green-700">{message}</div>}
+
+      {tickets.length === 0 ? (
+        <p className="text-sm text-gray-500">This PRD has no source tickets.</p>
+      ) : (
+        <ul className="text-sm space-y-1">
+          {tickets.map((ticket) => (
+            <li key={ticket.key}>
+              <a href={ticket.url} target="_blank" rel="noreferrer" className="text-blue-600 hover:text-blue-800 font-mono">
+                {ticket.key}
+              </a>
+              <span className="ml-2 text-xs text-gray-500">
+                {ticket.syncedAt ? `synced ${new Date(ticket.syncedAt).toLocaleString()}` : 'not synced yet'}
+                {ticket.checkedAt && ` · checked ${new Date(ticket.checkedAt).toLocaleString()}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {baselines.length > 0 && (
+        <p className="text-xs text-gray-500">
+          Started tracking {baselines.map((ticket) => ticket.key).join(', ')}. Later changes will show up here.
+        </p>
+      )}
+
+      {changed.map((change) => (
+        <div key={change.key} className="border border-yellow-200 bg-yellow-50 rounded-lg p-3 space-y-3">
+          <div className="text-sm">
+            <span className="font-mono font-medium">{change.key}</span> changed
+            {change.previousUpdated && (
+              <span className="text-xs text-gray-500">
+                {' '}
+                ({new Date(change.previousUpdated).toLocaleString()} → {new Date(change.updated).toLocaleString()})
+              </span>
+            )}
+          </div>
+
+          {change.summaryChange && (
+            <div className="text-sm">
+              <div className="font-medium text-gray-700">Summary</div>
+              <div className="text-red-800 line-through">{change.summaryChange.before}</div>
+              <div className="text-green-800">{change.summaryChange.after}</div>
+            </div>
+          )}
+
+          {change.descriptionDiff && (
+            <div className="text-sm">
+              <div className="font-medium text-gray-700">Description</div>
+              <pre className="text-xs font-mono overflow-auto max-h-[200px] bg-white border border-gray-200 rounded">
+                {change.descriptionDiff
+                  .filter((line) => line.type !== 'unchanged')
+                  .map((line, i) => (
+                    <div
+                      key={i}
+                      className={`px-2 whitespace-pre-wrap ${
+                        line.type === 'added' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+                      }`}
+                    >
+                      {line.type === 'added' ? '+ ' : '- '}
+                      {line.text}
+                    </div>
+                  ))}
+              </pre>
+            </div>
+          )}
+
+          {(change.newComments.length > 0 || change.editedComments.length > 0 || change.removedComments.length > 0) && (
+            <div className="text-sm space-y-1">
+              <div className="font-medium text-gray-700">Comments</div>
+              {change.newComments.map((comment) => (
+                <div key={comment.id} className="text-xs">
+                  <span className="text-green-700">New</span> · <strong>{comment.author}</strong>: {comment.body}
+                </div>
+              ))}
+              {change.editedComments.map((comment) => (
+                <div key={comment.id} className="text-xs">
+                  <span className="text-yellow-700">Edited</span> · <strong>{comment.author}</strong>: {comment.body}
+                </div>
+              ))}
+              {change.removedComments.map((comment) => (
+                <div key={comment.id} className="text-xs text-gray-500 line-through">
+                  <strong>{comment.author}</strong>: {comment.body}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="text-sm">
+            <div className="font-medium text-gray-700 mb-1">Sections to regenerate</div>
+            <div className="flex flex-wrap gap-3">
+              {change.affectedSections.map((heading) => (
+                <label key={heading} className="flex items-center gap-1 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={(selectedSections[change.key] || []).includes(heading)}
+                    onChange={() => toggleSection(change.key, heading)}
+                  />
+                  {heading}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleRegenerate(change)}
+              className="btn btn-primary text-sm"
+              disabled={!!busyKey || (selectedSections[change.key] || []).length === 0}
+            >
+              {busyKey === change.key ? 'Updating...' : 'Regenerate Selected Sections'}
+            </button>
+            <button onClick={() => handleDismiss(change.key)} className="btn btn-secondary text-sm" disabled={!!busyKey}>
+              Dismiss
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {tickets.length > 0 && (
+        <div className="flex gap-2 items-center">
+          <input
+            type="text"
+            placeholder="Jira field id (optional, e.g. customfield_10050)"
+            value={fieldId}
+            onChange={(e) => setFieldId(e.target.value)}
+            className="input text-sm flex-1 font-mono"
+            title="Leave empty to add the PRD as a web link instead"
+          />
+          <button onClick={handleLink} className="btn btn-secondary text-sm whitespace-nowrap" disabled={isLinking}>
+            {isLinking ? 'Linking...' : '🔗 Link PRD in Jira'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
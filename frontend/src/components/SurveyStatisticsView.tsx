@@ -0,0 +1,129 @@
+import type { CrossTab, QuestionStatistics, SurveyStatistics } from '../../../shared/types/research';
+
+interface SurveyStatisticsViewProps {
+  statistics: SurveyStatistics;
+}
+
+const formatNetScore = (stats: QuestionStatistics) => {
+  if (!stats.netScore) return null;
+  const { kind, promoters, passives, detractors, score } = stats.netScore;
+  return kind === 'nps'
+    ? `NPS ${score} · ${promoters} promoters, ${passives} passives, ${detractors} detractors`
+    : `Net score ${score} · top-2-box ${promoters}, bottom-2-box ${detractors}`;
+};
+
+function QuestionCard({ stats, index }: { stats: QuestionStatistics; index: number }) {
+  return (
+    <div className="bg-white rounded-lg p-4 border border-gray-300">
+      <div className="flex justify-between items-start gap-4 mb-2">
+        <h4 className="font-medium text-gray-900">
+          Q{index + 1}. {stats.questionText}
+        </h4>
+        <span className="text-xs text-gray-500 whitespace-nowrap">
+          {stats.column ? `${stats.responses} answered · ${stats.skipped} skipped` : 'No matching column'}
+        </span>
+      </div>
+
+      {stats.distribution.length > 0 && (
+        <div className="space-y-1">
+          {stats.distribution.map((answer) => (
+            <div key={answer.answer} className="flex items-center gap-2 text-sm">
+              <span className="w-40 truncate text-gray-700" title={answer.answer}>
+                {answer.answer}
+              </span>
+              <div className="flex-1 bg-gray-100 rounded h-3">
+                <div className="bg-blue-500 h-3 rounded" style={{ width: `${answer.percent}%` }} />
+              </div>
+              <span className="w-24 text-right text-gray-600">
+                {answer.count} ({answer.percent}%)
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(stats.mean !== undefined || stats.netScore || !!stats.unmatchedAnswers) && (
+        <p className="text-sm text-gray-600 mt-2">
+          {stats.mean !== undefined && `Mean ${stats.mean} · median ${stats.median}`}
+          {stats.netScore && ` · ${formatNetScore(stats)}`}
+          {!!stats.unmatchedAnswers && ` · ${stats.unmatchedAnswers} answers outside the options`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function CrossTabTable({ tab }: { tab: CrossTab }) {
+  const answers = [...new Set(tab.segments.flatMap((segment) => segment.distribution.map((a) => a.answer)))];
+  const hasMean = tab.segments.some((segment) => segment.mean !== undefined);
+
+  return (
+    <div className="overflow-x-auto">
+      <p className="text-sm font-medium text-gray-900 mb-1">
+        {tab.questionText} <span className="text-gray-500 font-normal">by {tab.segmentQuestionText}</span>
+      </p>
+      <table className="text-sm border border-gray-200 bg-white">
+        <thead className="bg-gray-100">
+          <tr>
+            <th className="px-2 py-1 text-left">Segment</th>
+            <th className="px-2 py-1 text-right">n</th>
+            {answers.map((answer) => (
+              <th key={answer} className="px-2 py-1 text-right">
+                {answer}
+              </th>
+            ))}
+            {hasMean && <th className="px-2 py-1 text-right">Mean</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {tab.segments.map((segment) => {
+            const byAnswer = new Map(segment.distribution.map((a) => [a.answer, a.percent]));
+            return (
+              <tr key={segment.segment} className="border-t border-gray-200">
+                <td className="px-2 py-1">{segment.segment}</td>
+                <td className="px-2 py-1 text-right">{segment.respondents}</td>
+                {answers.map((answer) => (
+                  <td key={answer} className="px-2 py-1 text-right">
+                    {byAnswer.get(answer) ?? 0}%
+                  </td>
+                ))}
+                {hasMean && <td className="px-2 py-1 text-right">{segment.mean ?? '–'}</td>}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Answer distributions, scores and cross-tabs computed from every survey response
+ */
+export default function SurveyStatisticsView({ statistics }: SurveyStatisticsViewProps) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Computed from {statistics.respondentCount} responses
+        {statistics.unmappedColumns.length > 0 && ` · columns not matched to a question: ${statistics.unmappedColumns.join(', ')}`}
+      </p>
+
+      {statistics.questions.map((stats, idx) => (
+        <QuestionCard key={stats.questionId} stats={stats} index={idx} />
+      ))}
+
+      {statistics.crossTabs.length > 0 && (
+        <details className="bg-white rounded-lg p-4 border border-gray-300">
+          <summary className="cursor-pointer font-medium text-gray-900">
+            Cross-tabs by screening answers ({statistics.crossTabs.length})
+          </summary>
+          <div className="space-y-4 mt-3">
+            {statistics.crossTabs.map((tab) => (
+              <CrossTabTable key={`${tab.segmentQuestionId}-${tab.questionId}`} tab={tab} />
+            ))}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState, useEffect } from 'react';
+import { templateApi } from '../api/client';
+import type { PRDTemplateSummary } from '../../../shared/types';
+
+interface TemplateLibraryProps {
+  selectedId: string;
+  onSelect: (templateId: string) => void;
+  disabled?: boolean;
+}
+
+interface TemplateDraft {
+  id?: string; // Set when editing an existing template
+  name: string;
+  team: string;
+  description: string;
+  markdown: string;
+}
+
+const EMPTY_DRAFT: TemplateDraft = { name: '', team: '', description: '', markdown: '' };
+
+/**
+ * PRD template picker, with a manager for adding, editing and deleting team templates
+ */
+export default function TemplateLibrary({ selectedId, onSelect, disabled }: TemplateLibraryProps) {
+  const [templates, setTemplates] = useState<PRDTemplateSummary[]>([]);
+  const [isManaging, setIsManaging] = useState(false);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      const response = await templateApi.list();
+      if (response.success && response.templates) {
+        setTemplates(response.templates);
+      }
+    } catch (err) {
+      console.error('Error loading PRD templates:', err);
+    }
+  };
+
+  const selected = templates.find((t) => t.id === selectedId);
+
+  // Group the picker options by team; the built-in template has no team
+  const teams = Array.from(new Set(templates.map((t) => t.team || '')));
+
+  const startEdit = async (template?: PRDTemplateSummary, copy = false) => {
+    setError('');
+    if (!template) {
+      setDraft(EMPTY_DRAFT);
+      return;
+    }
+
+    try {
+      const response = await templateApi.get(template.id);
+      if (response.success && response.template) {
+        const { id, name, team, description, markdown } = response.template;
+        setDraft({
+          ...(!copy && { id }),
+          name: copy ? `${name} (copy)` : name,
+          team: team || '',
+          description: description || '',
+          markdown,
+        });
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to load template');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    setError('');
+
+    try {
+      const request = {
+        name: draft.name,
+        team: draft.team,
+        description: draft.description,
+        markdown: draft.markdown,
+      };
+      const response = draft.id
+        ? await templateApi.update(draft.id, request)
+        : await templateApi.create(request);
+
+      if (response.success && response.template) {
+        setDraft(null);
+        await loadTemplates();
+        onSelect(response.template.id);
+      } else {
+        setError(response.error || 'Failed to save template');
+      }
+    } catch (err: any) {
+      const details = err.response?.data?.details;
+      setError(
+        details?.length
+          ? details.map((d: { message: string }) => d.message).join(', ')
+          : err.response?.data?.error || err.message || 'Failed to save template'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: PRDTemplateSummary) => {
+    if (!confirm(`Delete the "${template.name}" template? PRDs created from it are kept.`)) {
+      return;
+    }
+
+    try {
+      await templateApi.delete(template.id);
+      if (selectedId === template.id) {
+        onSelect('default');
+      }
+      await loadTemplates();
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to delete template');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedId}
+          onChange={(e) => onSelect(e.target.value)}
+          className="input text-sm flex-1"
+          disabled={disabled}
+        >
+          {teams.map((team) => (
+            <optgroup key={team || 'general'} label={team || 'General'}>
+              {templates
+                .filter((t) => (t.team || '') === team)
+                .map((t) => (
+                  <option key={t.id} value={t.id}>{t.name}</option>
+                ))}
+            </optgroup>
+          ))}
+        </select>
+        <button
+          onClick={() => setIsManaging(!isManaging)}
+          className={`btn text-sm whitespace-nowrap ${isManaging ? 'btn-primary' : 'btn-secondary'}`}
+          disabled={disabled}
+        >
+          🧩 Manage
+        </button>
+      </div>
+
+      {selected && (
+        <p className="text-xs text-gray-500">
+          {selected.description && `${selected.description} · `}
+          {selected.sections.length} sections
+        </p>
+      )}
+
+      {isManaging && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-3">
+          {error && <div className="text-sm text-red-700">{error}</div>}
+
+          {draft ? (
+            <div className="space-y-2">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <input
+                  type="text"
+                  placeholder="Template name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className="input text-sm"
+                />
+                <input
+                  type="text"
+                  placeholder="Team (e.g. platform, growth, ML)"
+                  value={draft.team}
+                  onChange={(e) => setDraft({ ...draft, team: e.target.value })}
+                  className="input text-sm"
+                />
+              </div>
+              <input
+                type="text"
+                placeholder="Description (optional)"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                className="input text-sm"
+              />
+              <textarea
+                placeholder={'# [PRD Title]\n\n## Problem\n\n[Describe the problem]\n\n---\n\n## Rollout plan\n\n[Phases, flags, rollback]'}
+                value={draft.markdown}
+                onChange={(e) => setDraft({ ...draft, markdown: e.target.value })}
+                className="textarea min-h-[240px] font-mono text-xs"
+              />
+              <p className="text-xs text-gray-500">
+                Each <code>## Heading</code> becomes a required PRD section. Text in brackets guides the AI.
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleSave}
+                  className="btn btn-primary text-sm"
+                  disabled={isSaving || !draft.name.trim() || !draft.markdown.trim()}
+                >
+                  {isSaving ? 'Saving...' : draft.id ? 'Save Template' : 'Add Template'}
+                </button>
+                <button onClick={() => setDraft(null)} className="btn btn-secondary text-sm" disabled={isSaving}>
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <ul className="divide-y divide-gray-200 text-sm">
+                {templates.map((template) => (
+                  <li key={template.id} className="py-2 flex items-center justify-between gap-2">
+                    <div>
+                      <span className="font-medium text-gray-900">{template.name}</span>
+                      {template.team && <span className="ml-2 text-xs text-gray-500">{template.team}</span>}
+                      {template.builtIn && <span className="ml-2 text-xs text-gray-500">built-in</span>}
+                      {template.createdBy && !template.canEdit && (
+                        <span className="ml-2 text-xs text-gray-400">by {template.createdBy}</span>
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      <button onClick={() => startEdit(template, true)} className="btn btn-secondary text-xs">
+                        Duplicate
+                      </button>
+                      {template.canEdit && (
+                        <>
+                          <button onClick={() => startEdit(template)} className="btn btn-secondary text-xs">
+                            Edit
+                          </button>
+                          <button onClick={() => handleDelete(template)} className="btn btn-secondary text-xs">
+                            Delete
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <button onClick={() => startEdit()} className="btn btn-secondary text-sm">
+                + New Template
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react';
+import { researchApi } from '../api/client';
+import type { AnalysisComparison, ComparisonSection, ResearchAnalysisSummary } from '../../../shared/types/research';
+
+interface WaveComparisonProps {
+  sessionId: string;
+  refreshKey?: string; // Current analysis id, to reload after a new analysis
+}
+
+const runLabel = (run: ResearchAnalysisSummary) => run.datasetLabels.join(' + ');
+
+const formatValue = (value: number | null, unit: ComparisonSection['unit']) => {
+  if (value === null) return '—';
+  return unit === 'percent' ? `${value}%` : String(value);
+};
+
+const formatChange = (change: number | null, unit: ComparisonSection['unit']) => {
+  if (change === null) return '';
+  const sign = change > 0 ? '+' : '';
+  return unit === 'percent' ? `${sign}${change} pts` : `${sign}${change}`;
+};
+
+/**
+ * Side-by-side figures of a session's analyses, e.g. the pilot against the main wave
+ */
+export default function WaveComparison({ sessionId, refreshKey }: WaveComparisonProps) {
+  const [runs, setRuns] = useState<ResearchAnalysisSummary[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<AnalysisComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadRuns();
+  }, [sessionId, refreshKey]);
+
+  const loadRuns = async () => {
+    try {
+      const response = await researchApi.listAnalyses(sessionId);
+      if (response.success && response.analyses) {
+        setRuns(response.analyses);
+        setSelected((current) => current.filter((id) => response.analyses!.some((run) => run.id === id)));
+        setError('');
+      } else {
+        setError(response.error || 'Failed to load analyses');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to load analyses');
+    }
+  };
+
+  const toggle = (id: string) => {
+    setSelected((current) => (current.includes(id) ? current.filter((s) => s !== id) : [...current, id]));
+    setComparison(null);
+  };
+
+  const handleCompare = async () => {
+    setComparing(true);
+    setError('');
+
+    try {
+      const response = await researchApi.compareAnalyses(sessionId, selected);
+      if (response.success && response.comparison) {
+        setComparison(response.comparison);
+      } else {
+        setError(response.error || 'Failed to compare analyses');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to compare analyses');
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  return (
+    <div className="analysis-section">
+      <h3>Compare Waves</h3>
+
+      {error && <div className="text-sm text-red-700">{error}</div>}
+
+      {runs.length < 2 ? (
+        <p className="text-sm text-gray-500">
+          To compare waves, analyze each one on its own by including only its dataset in Step 5. Every analysis is kept
+          and listed here.
+        </p>
+      ) : (
+        <>
+          <ul className="space-y-1 text-sm">
+            {runs.map((run) => (
+              <li key={run.id}>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={selected.includes(run.id)} onChange={() => toggle(run.id)} />
+                  <span className="font-medium">{runLabel(run)}</span>
+                  <span className="text-gray-500">
+                    {run.respondentCount} respondents · analyzed {new Date(run.createdAt).toLocaleString()}
+                  </span>
+                  {run.current && <span className="text-xs text-blue-700">(shown above)</span>}
+                </label>
+              </li>
+            ))}
+          </ul>
+
+          <button
+            onClick={handleCompare}
+            disabled={selected.length < 2 || comparing}
+            className="btn-secondary mt-2"
+            type="button"
+          >
+            {comparing ? 'Comparing...' : `Compare ${selected.length || ''} Selected`}
+          </button>
+        </>
+      )}
+
+      {comparison && (
+        <div className="mt-4 space-y-4">
+          {comparison.sections.map((section) => (
+            <div key={section.title} className="overflow-x-auto">
+              <h4 className="font-semibold">{section.title}</h4>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600">
+                    <th className="pr-4 py-1"></th>
+                    {comparison.analyses.map((run) => (
+                      <th key={run.id} className="pr-4 py-1">
+                        {runLabel(run)}
+                      </th>
+                    ))}
+                    <th className="py-1">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {section.rows.map((row) => (
+                    <tr key={row.label} className="border-t">
+                      <td className="pr-4 py-1">{row.label}</td>
+                      {row.values.map((value, i) => (
+                        <td key={i} className="pr-4 py-1">
+                          {formatValue(value, section.unit)}
+                        </td>
+                      ))}
+                      <td
+                        className={`py-1 ${row.change !== null && row.change < 0 ? 'text-red-700' : 'text-green-700'}`}
+                      >
+                        {formatChange(row.change, section.unit)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">
+            Change is the last analysis minus the first, oldest first. Interview themes are matched by name across
+            analyses.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,12 @@
 import { useState, useEffect } from 'react';
 import { prdApi, jiraApi, exportApi } from '../api/client';
+import PrdHistoryPanel from '../components/PrdHistoryPanel';
+import PrdEditor from '../components/PrdEditor';
+import SectionRegenerator from '../components/SectionRegenerator';
+import TemplateLibrary from '../components/TemplateLibrary';
+import JiraTicketSearch from '../components/JiraTicketSearch';
+import PageImport from '../components/PageImport';
+import type { PRDExternalPage } from '../../../shared/types';
 
 export default function Creator() {
   const [inputType, setInputType] = useState<'text' | 'jira'>('text');
@@ -7,9 +14,16 @@ export default function Creator() {
   const [jiraTicketId, setJiraTicketId] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [prdResult, setPrdResult] = useState<string>('');
+  const [prdId, setPrdId] = useState<string>('');
+  const [prdVersion, setPrdVersion] = useState<number | undefined>(undefined);
+  const [templateId, setTemplateId] = useState('default');
+  const [prdTemplateId, setPrdTemplateId] = useState<string | undefined>(undefined); // Template of the generated PRD
+  const [showHistory, setShowHistory] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
   const [error, setError] = useState<string>('');
   const [jiraConfigured, setJiraConfigured] = useState(false);
   const [exportStatus, setExportStatus] = useState({ confluence: false, notion: false });
+  const [exportedPages, setExportedPages] = useState<PRDExternalPage[]>([]); // Pages re-exports update
 
   // New state for improved Jira flow
   const [jiraSummary, setJiraSummary] = useState<string>('');
@@ -24,6 +38,24 @@ export default function Creator() {
     checkIntegrations();
   }, []);
 
+  useEffect(() => {
+    setExportedPages([]);
+    if (prdId) {
+      loadExportedPages();
+    }
+  }, [prdId]);
+
+  const loadExportedPages = async () => {
+    try {
+      const response = await prdApi.exports(prdId);
+      if (response.success && response.pages) {
+        setExportedPages(response.pages);
+      }
+    } catch (err) {
+      console.error('Error loading exported pages:', err);
+    }
+  };
+
   const checkIntegrations = async () => {
     try {
       const [jiraStatus, exportStatusData] = await Promise.all([
@@ -37,8 +69,9 @@ export default function Creator() {
     }
   };
 
-  const handleFetchJira = async () => {
-    if (!jiraTicketId.trim()) {
+  // Tickets picked in the search are passed in and always imported as a set
+  const handleFetchJira = async (selectedTicketIds?: string[]) => {
+    if (!selectedTicketIds && !jiraTicketId.trim()) {
       setError('Please enter a Jira ticket ID');
       return;
     }
@@ -49,7 +82,7 @@ export default function Creator() {
 
     try {
       // Parse ticket IDs (support comma-separated)
-      const ticketIds = jiraTicketId
+      const ticketIds = selectedTicketIds || jiraTicketId
         .split(',')
         .map(id => id.trim())
         .filter(id => id.length > 0);
@@ -61,7 +94,7 @@ export default function Creator() {
       }
 
       // Send single string if one ticket, array if multiple
-      const ticketIdParam = ticketIds.length === 1 ? ticketIds[0] : ticketIds;
+      const ticketIdParam = ticketIds.length === 1 && !selectedTicketIds ? ticketIds[0] : ticketIds;
 
       const response = await jiraApi.transform({ ticketId: ticketIdParam });
       if (response.success) {
@@ -101,7 +134,7 @@ export default function Creator() {
     setTimeout(() => handleGenerate(), 100);
   };
 
-  const handleGenerate = async () => {
+  const handleGenerate = async (regenerate = false) => {
     if (!input.trim()) {
       setError('Please enter some input or fetch a Jira ticket first');
       return;
@@ -109,16 +142,29 @@ export default function Creator() {
 
     setIsLoading(true);
     setError('');
-    setPrdResult('');
+    setIsEditing(false);
+    if (!regenerate) {
+      setPrdResult('');
+    }
 
     try {
       const response = await prdApi.create({
         input: input.trim(),
         inputType,
+        templateId,
+        // Source tickets are tracked so the PRD can be synced when they change
+        ...(inputType === 'jira' && jiraTicketsData.length > 0 && {
+          sourceId: jiraTicketsData.map((ticket) => ticket.key).join(', '),
+        }),
+        // Regenerating saves a new version of the current PRD instead of creating another one
+        ...(regenerate && prdId && { prdId }),
       });
 
       if (response.success && response.markdown) {
         setPrdResult(response.markdown);
+        setPrdId(response.prd?.metadata.id || '');
+        setPrdVersion(response.prd?.metadata.version);
+        setPrdTemplateId(response.prd?.metadata.templateId);
         setError('');
       } else {
         setError(response.error || 'Failed to generate PRD');
@@ -130,7 +176,7 @@ export default function Creator() {
     }
   };
 
-  const handleExport = async (platform: 'confluence' | 'notion') => {
+  const handleExport = async (platform: 'confluence' | 'notion', force = false) => {
     if (!prdResult) {
       setError('No PRD to export');
       return;
@@ -142,33 +188,53 @@ export default function Creator() {
     let spaceKey = '';
     let parentPageId = '';
 
-    if (platform === 'confluence') {
-      spaceKey = prompt('Enter Confluence space key (e.g., PROJ):') || '';
-      if (!spaceKey) return;
-      parentPageId = prompt('Enter parent page ID (optional):') || '';
-    } else {
-      parentPageId = prompt('Enter Notion parent page ID:') || '';
-      if (!parentPageId) return;
+    // A PRD exported before updates its page, so there is nothing to ask
+    if (!exportedPages.some((page) => page.platform === platform)) {
+      if (platform === 'confluence') {
+        spaceKey = prompt('Enter Confluence space key (e.g., PROJ):') || '';
+        if (!spaceKey) return;
+        parentPageId = prompt('Enter parent page ID (optional):') || '';
+      } else {
+        parentPageId = prompt('Enter Notion parent page ID:') || '';
+        if (!parentPageId) return;
+      }
     }
 
+    let overwrite = false;
     setIsLoading(true);
     try {
       const response = await exportApi.export({
         platform,
         title,
         content: prdResult,
-        ...(platform === 'confluence' && { spaceKey }),
+        spaceKey: spaceKey || undefined,
         parentPageId: parentPageId || undefined,
+        ...(prdId && { prdId }),
+        ...(force && { force }),
       });
 
       if (response.success) {
-        alert(`Successfully exported to ${platform}!\n\nURL: ${response.url}`);
+        alert(`Successfully ${response.updated ? 'updated the page in' : 'exported to'} ${platform}!\n\nURL: ${response.url}`);
+        await loadExportedPages();
       }
     } catch (err: any) {
-      setError(err.response?.data?.error || err.message || `Failed to export to ${platform}`);
+      const conflict = err.response?.status === 409 ? err.response.data?.conflict : undefined;
+      if (conflict) {
+        const editedBy = conflict.editedBy ? ` by ${conflict.editedBy}` : '';
+        const editedAt = conflict.lastEdited ? ` on ${new Date(conflict.lastEdited).toLocaleString()}` : '';
+        overwrite = confirm(
+          `⚠️ The ${platform} page was edited${editedBy}${editedAt} since the last export.\n\nOverwrite those changes with this PRD?`
+        );
+      } else {
+        setError(err.response?.data?.error || err.message || `Failed to export to ${platform}`);
+      }
     } finally {
       setIsLoading(false);
     }
+
+    if (overwrite) {
+      await handleExport(platform, true);
+    }
   };
 
   const handleExportDocument = async (format: 'pdf' | 'docx') => {
@@ -302,6 +368,12 @@ export default function Creator() {
           <div className="card">
             <h3 className="text-lg font-semibold mb-4">Input</h3>
 
+            {/* Template Picker */}
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">PRD Template</label>
+              <TemplateLibrary selectedId={templateId} onSelect={setTemplateId} disabled={isLoading} />
+            </div>
+
             {/* Input Type Selector */}
             <div className="flex space-x-2 mb-4">
               <button
@@ -342,12 +414,22 @@ export default function Creator() {
                   </p>
                 </div>
                 <button
-                  onClick={handleFetchJira}
+                  onClick={() => handleFetchJira()}
                   className="btn btn-secondary w-full"
                   disabled={isLoading || !jiraTicketId.trim()}
                 >
                   {isLoading ? 'Fetching...' : 'Fetch Jira Ticket(s)'}
                 </button>
+                <div>
+                  <p className="text-xs text-gray-500 mb-1">Don't know the keys? Search by JQL, epic or sprint:</p>
+                  <JiraTicketSearch
+                    onImport={(ticketKeys) => {
+                      setJiraTicketId(ticketKeys.join(', '));
+                      handleFetchJira(ticketKeys);
+                    }}
+                    disabled={isLoading}
+                  />
+                </div>
               </div>
             )}
 
@@ -417,6 +499,30 @@ export default function Creator() {
                           <span className="ml-2 text-gray-900">{jiraTicketData.comments.length}</span>
                         </div>
                       )}
+                      {jiraTicketData.parent && (
+                        <div>
+                          <span className="font-medium text-gray-600">Parent:</span>
+                          <span className="ml-2 text-gray-900">{jiraTicketData.parent.key}</span>
+                        </div>
+                      )}
+                      {jiraTicketData.linkedIssues && jiraTicketData.linkedIssues.length > 0 && (
+                        <div>
+                          <span className="font-medium text-gray-600">Linked Issues:</span>
+                          <span className="ml-2 text-gray-900">{jiraTicketData.linkedIssues.length}</span>
+                        </div>
+                      )}
+                      {jiraTicketData.subtasks && jiraTicketData.subtasks.length > 0 && (
+                        <div>
+                          <span className="font-medium text-gray-600">Subtasks:</span>
+                          <span className="ml-2 text-gray-900">{jiraTicketData.subtasks.length}</span>
+                        </div>
+                      )}
+                      {jiraTicketData.attachments && jiraTicketData.attachments.length > 0 && (
+                        <div>
+                          <span className="font-medium text-gray-600">Attachments:</span>
+                          <span className="ml-2 text-gray-900">{jiraTicketData.attachments.length}</span>
+                        </div>
+                      )}
                     </div>
                   </div>
                 )}
@@ -485,6 +591,13 @@ export default function Creator() {
             {/* Text Input */}
             {inputType === 'text' && (
               <>
+                {/* Start from an existing Confluence or Notion page */}
+                <div className="mb-3">
+                  <PageImport
+                    onImport={(page) => setInput(`# ${page.title}\n\n${page.markdown}`)}
+                    disabled={isLoading}
+                  />
+                </div>
                 <textarea
                   placeholder="Enter your rough notes, feature idea, or problem statement here...
 
@@ -499,12 +612,22 @@ Example:
                 />
 
                 <button
-                  onClick={handleGenerate}
+                  onClick={() => handleGenerate()}
                   className="btn btn-primary w-full mt-4"
                   disabled={isLoading || !input.trim()}
                 >
                   {isLoading ? 'Generating PRD...' : 'Generate PRD'}
                 </button>
+                {prdId && (
+                  <button
+                    onClick={() => handleGenerate(true)}
+                    className="btn btn-secondary w-full mt-2"
+                    disabled={isLoading || !input.trim()}
+                    title="Regenerate into the current PRD as a new version"
+                  >
+                    🔄 Regenerate as New Version
+                  </button>
+                )}
               </>
             )}
           </div>
@@ -515,7 +638,7 @@ Example:
           <div className="card">
             <div className="flex justify-between items-center mb-4">
               <h3 className="text-lg font-semibold">Generated PRD</h3>
-              {prdResult && (
+              {prdResult && !isEditing && (
                 <div className="flex flex-wrap gap-2">
                   <button
                     onClick={() => navigator.clipboard.writeText(prdResult)}
@@ -523,6 +646,23 @@ Example:
                   >
                     📋 Copy
                   </button>
+                  {prdId && (
+                    <button
+                      onClick={() => setIsEditing(true)}
+                      className="btn btn-secondary text-sm"
+                      disabled={isLoading}
+                    >
+                      ✏️ Edit
+                    </button>
+                  )}
+                  {prdId && (
+                    <button
+                      onClick={() => setShowHistory(!showHistory)}
+                      className={`btn text-sm ${showHistory ? 'btn-primary' : 'btn-secondary'}`}
+                    >
+                      🕘 History{prdVersion ? ` (v${prdVersion})` : ''}
+                    </button>
+                  )}
                   <button
                     onClick={() => handleExportDocument('pdf')}
                     className="btn btn-secondary text-sm"
@@ -561,7 +701,7 @@ Example:
                       className="btn btn-secondary text-sm"
                       disabled={isLoading}
                     >
-                      → Confluence
+                      {exportedPages.some((page) => page.platform === 'confluence') ? '↻ Update Confluence' : '→ Confluence'}
                     </button>
                   )}
                   {exportStatus.notion && (
@@ -570,15 +710,38 @@ Example:
                       className="btn btn-secondary text-sm"
                       disabled={isLoading}
                     >
-                      → Notion
+                      {exportedPages.some((page) => page.platform === 'notion') ? '↻ Update Notion' : '→ Notion'}
                     </button>
                   )}
                 </div>
               )}
             </div>
 
-            {prdResult ? (
+            {isEditing && prdId ? (
+              <PrdEditor
+                prdId={prdId}
+                markdown={prdResult}
+                onSaved={(markdown, metadata) => {
+                  setPrdResult(markdown);
+                  setPrdVersion(metadata.version);
+                  setIsEditing(false);
+                }}
+                onCancel={() => setIsEditing(false)}
+              />
+            ) : prdResult ? (
               <div className="prose prose-sm max-w-none">
+                {prdId && (
+                  <div className="mb-4">
+                    <SectionRegenerator
+                      prdId={prdId}
+                      templateId={prdTemplateId}
+                      onRegenerated={(markdown, metadata) => {
+                        setPrdResult(markdown);
+                        setPrdVersion(metadata.version);
+                      }}
+                    />
+                  </div>
+                )}
                 <pre className="whitespace-pre-wrap font-mono text-xs bg-gray-50 p-4 rounded border overflow-auto max-h-[500px]">
                   {prdResult}
                 </pre>
@@ -590,6 +753,17 @@ Example:
               </div>
             )}
           </div>
+
+          {showHistory && prdId && (
+            <PrdHistoryPanel
+              prdId={prdId}
+              version={prdVersion}
+              onRestore={(markdown, metadata) => {
+                setPrdResult(markdown);
+                setPrdVersion(metadata.version);
+              }}
+            />
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,268 @@
+import { useState, useEffect } from 'react';
+import { jobsApi, prdApi } from '../api/client';
+import MarkdownPreview from '../components/MarkdownPreview';
+import PrdEditor from '../components/PrdEditor';
+import PrdHistoryPanel from '../components/PrdHistoryPanel';
+import SectionRegenerator from '../components/SectionRegenerator';
+import PrdScoreTrend from '../components/PrdScoreTrend';
+import JiraPushPanel from '../components/JiraPushPanel';
+import SourceTicketsPanel from '../components/SourceTicketsPanel';
+import type { PRDMetadata } from '../../../shared/types';
+
+type PRDListItem = PRDMetadata & { title: string };
+
+export default function PrdDetail() {
+  const [prds, setPrds] = useState<PRDListItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [metadata, setMetadata] = useState<PRDMetadata | null>(null);
+  const [markdown, setMarkdown] = useState<string>('');
+  const [isEditing, setIsEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showScores, setShowScores] = useState(false);
+  const [showJira, setShowJira] = useState(false);
+  const [showSync, setShowSync] = useState(false);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [reviewCount, setReviewCount] = useState(0); // Reloads the score trend after a review
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    loadPrds();
+
+    // Links back from Jira issues open the PRD directly (?prd=<id>)
+    const linkedId = new URLSearchParams(window.location.search).get('prd');
+    if (linkedId) {
+      handleSelect(linkedId);
+    }
+  }, []);
+
+  const loadPrds = async () => {
+    try {
+      const response = await prdApi.list();
+      if (response.success && response.prds) {
+        setPrds(response.prds);
+      } else {
+        setError(response.error || 'Failed to load PRDs');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to load PRDs');
+    }
+  };
+
+  const handleSelect = async (id: string) => {
+    setSelectedId(id);
+    setIsEditing(false);
+    setShowHistory(false);
+    setShowScores(false);
+    setShowJira(false);
+    setShowSync(false);
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await prdApi.get(id);
+      if (response.success && response.prd) {
+        setMetadata(response.prd.metadata);
+        setMarkdown(response.prd.markdown);
+      } else {
+        setError(response.error || 'Failed to load PRD');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to load PRD');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Review the current version; the result is stored and shows up in the score trend
+  const handleReview = async () => {
+    if (!metadata) return;
+
+    setIsReviewing(true);
+    setError('');
+
+    try {
+      const response = await prdApi.review({ prdContent: markdown, prdId: metadata.id });
+      const job = response.job && (await jobsApi.waitFor(response.job));
+      if (job?.status === 'completed') {
+        setReviewCount((count) => count + 1);
+        setShowScores(true);
+      } else {
+        setError(job?.error || response.error || 'Failed to review PRD');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to review PRD');
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  // Keep the detail view and the list in sync after an edit or restore
+  const handleUpdated = (updatedMarkdown: string, updatedMetadata: PRDMetadata) => {
+    setMarkdown(updatedMarkdown);
+    setMetadata(updatedMetadata);
+    setPrds((current) =>
+      current.map((prd) =>
+        prd.id === updatedMetadata.id
+          ? { ...prd, ...updatedMetadata, title: updatedMetadata.title || prd.title }
+          : prd
+      )
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">My PRDs</h2>
+        <p className="text-gray-600">Open a saved PRD to read, polish, or roll it back</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* PRD List */}
+        <div className="card lg:col-span-1 p-4">
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="text-lg font-semibold">Saved</h3>
+            <button onClick={loadPrds} className="text-sm text-blue-600 hover:text-blue-800">
+              Refresh
+            </button>
+          </div>
+          {prds.length === 0 ? (
+            <p className="text-sm text-gray-500">No PRDs yet. Generate one from the Create tab.</p>
+          ) : (
+            <div className="space-y-1 max-h-[600px] overflow-auto">
+              {prds.map((prd) => (
+                <button
+                  key={prd.id}
+                  onClick={() => handleSelect(prd.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                    prd.id === selectedId ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100'
+                  }`}
+                >
+                  <div className="font-medium truncate">{prd.title}</div>
+                  <div className="text-xs text-gray-500">
+                    v{prd.version ?? 1} • {new Date(prd.updatedAt).toLocaleDateString()}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* PRD Detail */}
+        <div className="lg:col-span-3 space-y-4">
+          <div className="card">
+            {isLoading ? (
+              <div className="text-center py-12 text-gray-400">
+                <span className="spinner"></span>
+              </div>
+            ) : metadata ? (
+              <>
+                <div className="flex justify-between items-start mb-4">
+                  <div>
+                    <h3 className="text-lg font-semibold">{metadata.title}</h3>
+                    <p className="text-xs text-gray-500">
+                      Version {metadata.version} • Updated {new Date(metadata.updatedAt).toLocaleString()}
+                      {metadata.sourceId && ` • Source: ${metadata.sourceId}`}
+                    </p>
+                  </div>
+                  {!isEditing && (
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        onClick={() => navigator.clipboard.writeText(markdown)}
+                        className="btn btn-secondary text-sm"
+                      >
+                        📋 Copy
+                      </button>
+                      <button onClick={() => setIsEditing(true)} className="btn btn-secondary text-sm">
+                        ✏️ Edit
+                      </button>
+                      <button
+                        onClick={() => setShowHistory(!showHistory)}
+                        className={`btn text-sm ${showHistory ? 'btn-primary' : 'btn-secondary'}`}
+                      >
+                        🕘 History
+                      </button>
+                      <button
+                        onClick={handleReview}
+                        className="btn btn-secondary text-sm"
+                        disabled={isReviewing}
+                      >
+                        {isReviewing ? 'Reviewing...' : '🔍 Review'}
+                      </button>
+                      <button
+                        onClick={() => setShowScores(!showScores)}
+                        className={`btn text-sm ${showScores ? 'btn-primary' : 'btn-secondary'}`}
+                      >
+                        📈 Scores
+                      </button>
+                      <button
+                        onClick={() => setShowJira(!showJira)}
+                        className={`btn text-sm ${showJira ? 'btn-primary' : 'btn-secondary'}`}
+                      >
+                        🎫 Jira
+                      </button>
+                      {metadata.source === 'jira' && (
+                        <button
+                          onClick={() => setShowSync(!showSync)}
+                          className={`btn text-sm ${showSync ? 'btn-primary' : 'btn-secondary'}`}
+                        >
+                          🔄 Sync
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {isEditing ? (
+                  <PrdEditor
+                    prdId={metadata.id}
+                    markdown={markdown}
+                    onSaved={(updatedMarkdown, updatedMetadata) => {
+                      handleUpdated(updatedMarkdown, updatedMetadata);
+                      setIsEditing(false);
+                    }}
+                    onCancel={() => setIsEditing(false)}
+                  />
+                ) : (
+                  <div className="space-y-4">
+                    <SectionRegenerator
+                      prdId={metadata.id}
+                      templateId={metadata.templateId}
+                      onRegenerated={handleUpdated}
+                    />
+                    <MarkdownPreview markdown={markdown} className="max-h-[700px] overflow-auto" />
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="text-center py-12 text-gray-400">
+                <div className="text-4xl mb-2">📚</div>
+                <p>Select a PRD to view it</p>
+              </div>
+            )}
+          </div>
+
+          {showScores && metadata && !isEditing && (
+            <PrdScoreTrend prdId={metadata.id} refreshKey={reviewCount} />
+          )}
+
+          {showSync && metadata && !isEditing && (
+            <SourceTicketsPanel prdId={metadata.id} onRegenerated={handleUpdated} />
+          )}
+
+          {showJira && metadata && !isEditing && <JiraPushPanel prdId={metadata.id} />}
+
+          {showHistory && metadata && !isEditing && (
+            <PrdHistoryPanel prdId={metadata.id} version={metadata.version} onRestore={handleUpdated} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
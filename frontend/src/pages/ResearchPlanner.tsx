@@ -1,6 +1,11 @@
-import React, { useState, useEffect } from 'react';
-import { researchApi } from '../api/client';
+import React, { useState, useEffect, useRef } from 'react';
+import { isJobFinished, jobsApi, researchApi } from '../api/client';
+import SurveyStatisticsView from '../components/SurveyStatisticsView';
+import ColumnMappingEditor from '../components/ColumnMappingEditor';
+import WaveComparison from '../components/WaveComparison';
+import type { Job, JobType } from '../../../shared/types/jobs';
 import type {
+  AnalyzeResultsJobResult,
   CreateResearchSessionRequest,
   ProblemEvaluation,
   SurveyQuestion,
@@ -8,6 +13,11 @@ import type {
   SurveyAnalysis,
   InterviewAnalysis,
   ResearchReport,
+  EvaluateProblemJobResult,
+  GenerateQuestionsJobResult,
+  GenerateReportJobResult,
+  ResearchAnalysisSummary,
+  ResearchDataset,
 } from '../../../shared/types/research';
 
 type ResearchType = 'survey' | 'interview';
@@ -26,6 +36,13 @@ interface ResearchSession {
 
 const STORAGE_KEY = 'research_session_id';
 
+const JOB_LABELS: Partial<Record<JobType, string>> = {
+  'research.evaluate': 'problem evaluation',
+  'research.generate-questions': 'question generation',
+  'research.analyze': 'analysis',
+  'research.report': 'report generation',
+};
+
 export default function ResearchPlanner() {
   // Step management
   const [currentStep, setCurrentStep] = useState(1);
@@ -36,6 +53,7 @@ export default function ResearchPlanner() {
   const [questions, setQuestions] = useState<SurveyQuestion[] | InterviewGuide | null>(null);
   const [analysis, setAnalysis] = useState<SurveyAnalysis | InterviewAnalysis | null>(null);
   const [report, setReport] = useState<ResearchReport | null>(null);
+  const [analysisRun, setAnalysisRun] = useState<ResearchAnalysisSummary | null>(null);
 
   // Form inputs
   const [problemStatement, setProblemStatement] = useState('');
@@ -48,14 +66,23 @@ export default function ResearchPlanner() {
   const [tone, setTone] = useState<ResearchTone>('exploratory');
   const [depth, setDepth] = useState<ResearchDepth>('standard');
 
-  // File upload
+  // File upload; each upload is a dataset (wave) of the session
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
-  const [uploadPreview, setUploadPreview] = useState<any>(null);
+  const [datasetLabel, setDatasetLabel] = useState('');
+  const [uploadPreview, setUploadPreview] = useState<any[] | null>(null);
+  const [datasets, setDatasets] = useState<ResearchDataset[]>([]);
+  const [selectedDatasetIds, setSelectedDatasetIds] = useState<string[]>([]);
+  const [mappingDatasetId, setMappingDatasetId] = useState<string | null>(null);
+  const [savingMapping, setSavingMapping] = useState(false);
 
   // Loading & error states
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Background job for the current AI step; it keeps running on the server if the page is left
+  const [activeJob, setActiveJob] = useState<Job | null>(null);
+  const following = useRef<AbortController | null>(null);
+
   // Session resumption
   const [isResuming, setIsResuming] = useState(true);
   const [hasExistingSession, setHasExistingSession] = useState(false);
@@ -77,22 +104,97 @@ export default function ResearchPlanner() {
     console.log('🗑️ Session cleared from localStorage');
 
     // Reset all state
+    following.current?.abort();
+    setActiveJob(null);
+    setLoading(false);
     setCurrentStep(1);
     setSession(null);
     setEvaluation(null);
     setQuestions(null);
     setAnalysis(null);
     setReport(null);
+    setAnalysisRun(null);
     setProblemStatement('');
     setProductContext('');
     setTargetSegment('');
     setExpectedOutcome('');
     setUploadedFile(null);
+    setDatasetLabel('');
     setUploadPreview(null);
+    setDatasets([]);
+    setSelectedDatasetIds([]);
+    setMappingDatasetId(null);
     setError(null);
     setHasExistingSession(false);
   };
 
+  // Show what a finished job produced
+  const applyJobResult = (job: Job) => {
+    switch (job.type) {
+      case 'research.evaluate':
+        setEvaluation((job.result as EvaluateProblemJobResult).evaluation);
+        setCurrentStep(2);
+        break;
+      case 'research.generate-questions':
+        setQuestions((job.result as GenerateQuestionsJobResult).plan.questions);
+        setCurrentStep(4);
+        break;
+      case 'research.analyze': {
+        const { analysis: newAnalysis, run } = job.result as AnalyzeResultsJobResult;
+        setAnalysis(newAnalysis);
+        setAnalysisRun(run);
+        setReport(null); // The report is regenerated from the new analysis
+        setCurrentStep(6); // Go to Step 6 to display analysis results
+        break;
+      }
+      case 'research.report':
+        setReport((job.result as GenerateReportJobResult).report);
+        break;
+    }
+  };
+
+  // Follow a job until it finishes, showing its progress
+  const followJob = async (job: Job) => {
+    following.current?.abort();
+    const controller = new AbortController();
+    following.current = controller;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const finished = await jobsApi.waitFor(job, setActiveJob, controller.signal);
+      if (finished.status === 'completed') {
+        applyJobResult(finished);
+        setActiveJob(null);
+      } else {
+        setError(finished.error || `The ${JOB_LABELS[finished.type] || 'job'} failed`);
+      }
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      setError(err.response?.data?.error || 'Network error. Please try again.');
+    } finally {
+      if (!controller.signal.aborted) setLoading(false);
+    }
+  };
+
+  const handleRetryJob = async () => {
+    if (!activeJob) return;
+
+    try {
+      const response = await jobsApi.retry(activeJob.id);
+      if (response.success && response.job) {
+        await followJob(response.job);
+      } else {
+        setError(response.error || 'Failed to retry');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Network error. Please try again.');
+    }
+  };
+
+  // Stop following jobs when leaving the page
+  useEffect(() => () => following.current?.abort(), []);
+
   // Load existing session on mount
   useEffect(() => {
     const loadSession = async () => {
@@ -107,7 +209,7 @@ export default function ResearchPlanner() {
         const response = await researchApi.getSession(sessionId);
 
         if (response.success && response.session) {
-          const { session: loadedSession, plan, results } = response;
+          const { session: loadedSession, plan, datasets: loadedDatasets = [], results } = response;
 
           // Restore session data
           setSession(loadedSession);
@@ -128,14 +230,18 @@ export default function ResearchPlanner() {
             setDepth(plan.depth as ResearchDepth);
           }
 
+          // Restore uploaded datasets, selecting the ones the current analysis covered
+          setDatasets(loadedDatasets);
+          const coveredIds = results?.analysisRun?.datasetIds;
+          setSelectedDatasetIds(
+            loadedDatasets.map((d) => d.id).filter((id) => !coveredIds || coveredIds.includes(id))
+          );
+
           // Restore results data
           if (results) {
-            const parsedData = typeof results.parsedData === 'string' ? JSON.parse(results.parsedData) : results.parsedData;
-            setUploadPreview(parsedData);
-
             if (results.analysis) {
-              const analysisData = typeof results.analysis === 'string' ? JSON.parse(results.analysis) : results.analysis;
-              setAnalysis(analysisData);
+              setAnalysis(results.analysis);
+              setAnalysisRun(results.analysisRun || null);
             }
 
             if (results.reportMarkdown) {
@@ -146,22 +252,29 @@ export default function ResearchPlanner() {
                   title: loadedSession.problemStatement.substring(0, 50),
                   researchType: loadedSession.researchType,
                   conductedDate: loadedSession.createdAt,
-                  respondentCount: parsedData?.rowCount || parsedData?.transcriptCount || 0,
+                  respondentCount: results.analysisRun?.respondentCount || 0,
                 },
               });
             }
           }
 
+          // The evaluation is only kept with its job until questions are generated
+          const { jobs = [] } = await jobsApi.list({ resourceId: loadedSession.id }).catch(() => ({ jobs: [] as Job[] }));
+          const evaluated = jobs.find((job) => job.type === 'research.evaluate' && job.status === 'completed');
+          if (!plan && evaluated) {
+            setEvaluation((evaluated.result as EvaluateProblemJobResult).evaluation);
+          }
+
           // Determine current step based on progress
           if (results?.reportMarkdown) {
             setCurrentStep(7);
           } else if (results?.analysis) {
             setCurrentStep(6);
-          } else if (results?.parsedData) {
-            setCurrentStep(6); // Ready to analyze
+          } else if (loadedDatasets.length) {
+            setCurrentStep(5); // Data uploaded, choose what to analyze
           } else if (plan?.questions) {
             setCurrentStep(4); // Questions generated, ready for export
-          } else if (plan?.evaluation) {
+          } else if (plan?.evaluation || evaluated) {
             setCurrentStep(2); // Evaluation complete
           } else {
             setCurrentStep(1);
@@ -169,6 +282,15 @@ export default function ResearchPlanner() {
 
           console.log('✅ Session resumed successfully');
           setHasExistingSession(true); // Mark that we have an existing session
+
+          // Pick up the latest job: follow it if it's still running, or offer a retry if it failed
+          const [latest] = jobs;
+          if (latest && !isJobFinished(latest)) {
+            followJob(latest);
+          } else if (latest?.status === 'failed') {
+            setActiveJob(latest);
+            setError(latest.error || `The ${JOB_LABELS[latest.type] || 'job'} failed`);
+          }
         } else {
           // Session not found or error, clear storage
           localStorage.removeItem(STORAGE_KEY);
@@ -212,10 +334,8 @@ export default function ResearchPlanner() {
       };
 
       const response = await researchApi.createSession(request);
-      if (response.success && response.session && response.evaluation) {
+      if (response.success && response.session && response.job) {
         setSession(response.session);
-        setEvaluation(response.evaluation);
-        setCurrentStep(2);
 
         // Save session ID to localStorage for persistence
         localStorage.setItem(STORAGE_KEY, response.session.id);
@@ -223,12 +343,14 @@ export default function ResearchPlanner() {
 
         // Mark that we now have an existing session
         setHasExistingSession(true);
+
+        await followJob(response.job);
       } else {
         setError(response.error || 'Failed to create research session');
+        setLoading(false);
       }
     } catch (err: any) {
       setError(err.response?.data?.error || 'Network error. Please try again.');
-    } finally {
       setLoading(false);
     }
   };
@@ -242,15 +364,14 @@ export default function ResearchPlanner() {
 
     try {
       const response = await researchApi.generateQuestions(session.id, { tone, depth });
-      if (response.success && response.plan) {
-        setQuestions(response.plan.questions);
-        setCurrentStep(4);
+      if (response.success && response.job) {
+        await followJob(response.job);
       } else {
         setError(response.error || 'Failed to generate questions');
+        setLoading(false);
       }
     } catch (err: any) {
       setError(err.response?.data?.error || 'Network error. Please try again.');
-    } finally {
       setLoading(false);
     }
   };
@@ -279,7 +400,7 @@ export default function ResearchPlanner() {
     }
   };
 
-  // Step 5: Upload results
+  // Step 5: Upload a dataset; earlier uploads are kept as separate waves
   const handleUploadResults = async () => {
     if (!session || !uploadedFile) return;
 
@@ -287,10 +408,16 @@ export default function ResearchPlanner() {
     setError(null);
 
     try {
-      const response = await researchApi.uploadResults(session.id, uploadedFile);
-      if (response.success && response.parsedData) {
-        setUploadPreview(response.parsedData);
-        setCurrentStep(6);
+      const response = await researchApi.uploadDataset(session.id, uploadedFile, datasetLabel.trim() || undefined);
+      if (response.success && response.dataset) {
+        const dataset = response.dataset;
+        setDatasets((current) => [...current, dataset]);
+        setSelectedDatasetIds((current) => [...current, dataset.id]);
+        setUploadPreview(response.preview || null);
+        setUploadedFile(null);
+        setDatasetLabel('');
+        // Surveys need their column mapping confirmed before analysis
+        setMappingDatasetId(dataset.columnMapping ? dataset.id : null);
       } else {
         setError(response.error || 'Failed to upload results');
       }
@@ -301,7 +428,65 @@ export default function ResearchPlanner() {
     }
   };
 
-  // Step 6: Analyze results
+  // Step 5: Remove an uploaded dataset
+  const handleDeleteDataset = async (dataset: ResearchDataset) => {
+    if (!session) return;
+    if (!window.confirm(`Delete "${dataset.label}" (${dataset.fileName})? Earlier analyses that used it are kept.`)) {
+      return;
+    }
+
+    setError(null);
+
+    try {
+      const response = await researchApi.deleteDataset(session.id, dataset.id);
+      if (response.success) {
+        setDatasets((current) => current.filter((d) => d.id !== dataset.id));
+        setSelectedDatasetIds((current) => current.filter((id) => id !== dataset.id));
+        if (mappingDatasetId === dataset.id) setMappingDatasetId(null);
+      } else {
+        setError(response.error || 'Failed to delete dataset');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Network error. Please try again.');
+    }
+  };
+
+  const toggleDataset = (datasetId: string) => {
+    setSelectedDatasetIds((current) =>
+      current.includes(datasetId) ? current.filter((id) => id !== datasetId) : [...current, datasetId]
+    );
+  };
+
+  // Step 5: Confirm which column answers each survey question in a dataset
+  const handleConfirmMapping = async (datasetId: string, mapping: Record<string, string | null>) => {
+    if (!session) return;
+
+    setSavingMapping(true);
+    setError(null);
+
+    try {
+      const response = await researchApi.updateColumnMapping(session.id, datasetId, { mapping });
+      if (response.success && response.columnMapping) {
+        const columnMapping = response.columnMapping;
+        setDatasets((current) => current.map((d) => (d.id === datasetId ? { ...d, columnMapping } : d)));
+        setMappingDatasetId(null);
+        // The current analysis used the old mapping if it covered this dataset
+        if (analysisRun?.datasetIds.includes(datasetId)) {
+          setAnalysis(null);
+          setAnalysisRun(null);
+          setReport(null);
+        }
+      } else {
+        setError(response.error || 'Failed to save column mapping');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Network error. Please try again.');
+    } finally {
+      setSavingMapping(false);
+    }
+  };
+
+  // Step 6: Analyze the selected datasets
   const handleAnalyze = async () => {
     if (!session) return;
 
@@ -309,16 +494,15 @@ export default function ResearchPlanner() {
     setError(null);
 
     try {
-      const response = await researchApi.analyze(session.id);
-      if (response.success && response.analysis) {
-        setAnalysis(response.analysis);
-        setCurrentStep(6); // Go to Step 6 to display analysis results
+      const response = await researchApi.analyze(session.id, { datasetIds: selectedDatasetIds });
+      if (response.success && response.job) {
+        await followJob(response.job);
       } else {
         setError(response.error || 'Failed to analyze results');
+        setLoading(false);
       }
     } catch (err: any) {
       setError(err.response?.data?.error || 'Network error. Please try again.');
-    } finally {
       setLoading(false);
     }
   };
@@ -334,12 +518,15 @@ export default function ResearchPlanner() {
       const response = await researchApi.getReport(session.id);
       if (response.success && response.report) {
         setReport(response.report);
+        setLoading(false);
+      } else if (response.success && response.job) {
+        await followJob(response.job);
       } else {
         setError(response.error || 'Failed to generate report');
+        setLoading(false);
       }
     } catch (err: any) {
       setError(err.response?.data?.error || 'Network error. Please try again.');
-    } finally {
       setLoading(false);
     }
   };
@@ -386,10 +573,16 @@ export default function ResearchPlanner() {
         return;
       }
       setUploadedFile(file);
+      setUploadPreview(null);
       setError(null);
     }
   };
 
+  // Surveys can only be analyzed once every included dataset's columns are matched to questions
+  const selectedDatasets = datasets.filter((d) => selectedDatasetIds.includes(d.id));
+  const unconfirmedDataset =
+    researchType === 'survey' ? selectedDatasets.find((d) => !d.columnMapping?.confirmed) : undefined;
+
   // Stepper UI
   const steps = [
     { number: 1, label: 'Problem Input' },
@@ -477,6 +670,26 @@ export default function ResearchPlanner() {
           </div>
         )}
 
+        {/* Background Job Status */}
+        {activeJob && (loading || activeJob.status === 'failed') && (
+          <div className="flex items-center justify-between gap-4 mb-4 p-3 rounded border border-blue-200 bg-blue-50 text-sm text-blue-900" role="status" aria-live="polite">
+            {activeJob.status === 'failed' ? (
+              <>
+                <span>The {JOB_LABELS[activeJob.type] || 'job'} didn't finish.</span>
+                <button onClick={handleRetryJob} className="btn-secondary" type="button">
+                  Retry
+                </button>
+              </>
+            ) : (
+              <span>
+                <span aria-hidden="true">⏳</span>{' '}
+                {activeJob.status === 'queued' ? 'Waiting for a free worker...' : `${activeJob.progress?.message || 'Working'}...`}{' '}
+                You can leave this page; it keeps running and the result is here when you come back.
+              </span>
+            )}
+          </div>
+        )}
+
         {/* Step 1: Problem Input */}
         {currentStep === 1 && (
           <div className="step-content card">
@@ -830,7 +1043,59 @@ export default function ResearchPlanner() {
         {currentStep === 5 && (
           <div className="step-content card">
             <h2>Step 5: Upload Research Results</h2>
-            <p>Upload your completed {researchType === 'survey' ? 'survey responses' : 'interview transcripts'}.</p>
+            <p>
+              Upload your completed {researchType === 'survey' ? 'survey responses' : 'interview transcripts'}. Each
+              upload is kept as its own dataset, so a pilot, the main batch and a follow-up can be analyzed together or
+              one at a time.
+            </p>
+
+            {datasets.length > 0 && (
+              <div className="analysis-section">
+                <h3>Uploaded Datasets</h3>
+                <ul className="space-y-2">
+                  {datasets.map((dataset) => (
+                    <li key={dataset.id} className="flex flex-wrap items-center gap-3 text-sm">
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={selectedDatasetIds.includes(dataset.id)}
+                          onChange={() => toggleDataset(dataset.id)}
+                          aria-label={`Include ${dataset.label} in the analysis`}
+                        />
+                        <span className="font-medium">{dataset.label}</span>
+                      </label>
+                      <span className="text-gray-600">
+                        {dataset.fileName} · {dataset.itemCount} {researchType === 'survey' ? 'rows' : 'transcripts'} ·
+                        uploaded by {dataset.uploadedBy.name || dataset.uploadedBy.email} on{' '}
+                        {new Date(dataset.uploadedAt).toLocaleDateString()}
+                      </span>
+                      {researchType === 'survey' && (
+                        <span className={dataset.columnMapping?.confirmed ? 'text-green-700' : 'text-yellow-700'}>
+                          {dataset.columnMapping?.confirmed ? '✓ Columns matched' : 'Columns to confirm'}
+                        </span>
+                      )}
+                      {researchType === 'survey' && dataset.columnMapping && (
+                        <button
+                          onClick={() => setMappingDatasetId(mappingDatasetId === dataset.id ? null : dataset.id)}
+                          className="btn-secondary"
+                          type="button"
+                        >
+                          {mappingDatasetId === dataset.id ? 'Hide Columns' : 'Match Columns'}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDeleteDataset(dataset)}
+                        className="btn-secondary"
+                        type="button"
+                        aria-label={`Delete ${dataset.label}`}
+                      >
+                        Delete
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
 
             <div className="upload-zone">
               <input
@@ -861,7 +1126,22 @@ export default function ResearchPlanner() {
               </label>
             </div>
 
-            {uploadedFile && !uploadPreview && (
+            {uploadedFile && (
+              <div className="form-group">
+                <label htmlFor="datasetLabel">Dataset Label (Optional)</label>
+                <input
+                  id="datasetLabel"
+                  type="text"
+                  value={datasetLabel}
+                  onChange={(e) => setDatasetLabel(e.target.value)}
+                  placeholder={`e.g., 'Pilot' or 'Main wave' (defaults to 'Wave ${datasets.length + 1}')`}
+                  className="input"
+                  maxLength={100}
+                />
+              </div>
+            )}
+
+            {uploadedFile && (
               <button
                 onClick={handleUploadResults}
                 disabled={loading}
@@ -876,24 +1156,53 @@ export default function ResearchPlanner() {
             {uploadPreview && (
               <div className="upload-success">
                 <h3>✓ File Uploaded Successfully</h3>
-                <p><strong>Row Count:</strong> {uploadPreview.rowCount || uploadPreview.transcriptCount || 'N/A'}</p>
-                {uploadPreview.preview && (
-                  <div className="data-preview">
-                    <h4>Data Preview:</h4>
-                    <pre>{JSON.stringify(uploadPreview.preview, null, 2)}</pre>
-                  </div>
-                )}
+                <p>
+                  <strong>{datasets[datasets.length - 1]?.label}:</strong> {datasets[datasets.length - 1]?.itemCount}{' '}
+                  {researchType === 'survey' ? 'rows' : 'transcripts'}
+                </p>
+                <div className="data-preview">
+                  <h4>Data Preview:</h4>
+                  <pre>{JSON.stringify(uploadPreview, null, 2)}</pre>
+                </div>
               </div>
             )}
 
+            {researchType === 'survey' && Array.isArray(questions) && datasets.map((dataset) =>
+              dataset.id === mappingDatasetId && dataset.columnMapping ? (
+                <div key={dataset.id} className="analysis-section mt-4">
+                  <h3>Match Columns to Questions: {dataset.label}</h3>
+                  <ColumnMappingEditor
+                    questions={questions}
+                    columnMapping={dataset.columnMapping}
+                    saving={savingMapping}
+                    onConfirm={(mapping) => handleConfirmMapping(dataset.id, mapping)}
+                  />
+                </div>
+              ) : null
+            )}
+
             <div className="button-group">
               <button onClick={() => setCurrentStep(4)} className="btn-secondary">
                 ← Back
               </button>
-              {uploadPreview && (
-                <button onClick={handleAnalyze} disabled={loading} className="btn-primary" aria-busy={loading}>
+              {datasets.length > 0 && (
+                <button
+                  onClick={handleAnalyze}
+                  disabled={loading || selectedDatasets.length === 0 || !!unconfirmedDataset}
+                  className="btn-primary"
+                  aria-busy={loading}
+                  title={
+                    selectedDatasets.length === 0
+                      ? 'Include at least one dataset'
+                      : unconfirmedDataset
+                        ? `Confirm the column mapping of "${unconfirmedDataset.label}" first`
+                        : undefined
+                  }
+                >
                   {loading && <span className="spinner mr-2" aria-hidden="true"></span>}
-                  {loading ? 'Analyzing...' : 'Analyze Results →'}
+                  {loading
+                    ? 'Analyzing...'
+                    : `Analyze ${selectedDatasets.length === datasets.length ? 'All' : selectedDatasets.length} ${selectedDatasets.length === 1 ? 'Dataset' : 'Datasets'} →`}
                 </button>
               )}
             </div>
@@ -923,6 +1232,13 @@ export default function ResearchPlanner() {
           <div className="step-content card">
             <h2>Step 6: Research Analysis</h2>
             <p>AI-powered insights from your {researchType === 'survey' ? 'survey data' : 'interview transcripts'}.</p>
+            {analysisRun && (
+              <p className="text-sm text-gray-600">
+                Covers {analysisRun.datasetLabels.join(', ')} ({analysisRun.respondentCount}{' '}
+                {researchType === 'survey' ? 'respondents' : 'interviews'}), analyzed{' '}
+                {new Date(analysisRun.createdAt).toLocaleString()}
+              </p>
+            )}
 
             {researchType === 'survey' && 'keyTrends' in analysis && (
               <div className="analysis-display">
@@ -945,7 +1261,9 @@ export default function ResearchPlanner() {
                         <div key={idx} className="pain-point-card">
                           <div className="pain-header">
                             <span className="pain-rank">#{idx + 1}</span>
-                            <span className="pain-frequency">{pp.frequency}% mentioned</span>
+                            <span className="pain-frequency">
+                              {pp.frequency}% {pp.count !== undefined ? `of respondents (${pp.count})` : 'mentioned'}
+                            </span>
                           </div>
                           <p>{pp.pain}</p>
                         </div>
@@ -954,6 +1272,13 @@ export default function ResearchPlanner() {
                   </div>
                 )}
 
+                {(analysis as SurveyAnalysis).statistics && (
+                  <div className="analysis-section">
+                    <h3>Response Statistics</h3>
+                    <SurveyStatisticsView statistics={(analysis as SurveyAnalysis).statistics!} />
+                  </div>
+                )}
+
                 {(analysis as SurveyAnalysis).recommendationSummary && (
                   <div className="analysis-section">
                     <h3>Recommendations</h3>
@@ -1011,6 +1336,8 @@ export default function ResearchPlanner() {
               </div>
             )}
 
+            {session && <WaveComparison sessionId={session.id} refreshKey={analysisRun?.id} />}
+
             <div className="button-group">
               <button onClick={() => setCurrentStep(5)} className="btn-secondary" type="button">
                 ← Back
@@ -1,14 +1,79 @@
-import { useState } from 'react';
-import { prdApi } from '../api/client';
-import type { ReviewResult } from '../../../shared/types/review';
+import { useEffect, useRef, useState } from 'react';
+import { jobsApi, prdApi } from '../api/client';
+import ReviseFromReview from '../components/ReviseFromReview';
+import TemplateLibrary from '../components/TemplateLibrary';
+import RubricEditor from '../components/RubricEditor';
+import PageImport from '../components/PageImport';
+import type { ReviewJobResult, ReviewResult } from '../../../shared/types/review';
+import type { ImportedPage, Job } from '../../../shared/types';
+
+// The review job in progress, so coming back to the page picks it up again
+const REVIEW_JOB_KEY = 'reviewJobId';
 
 export default function Reviewer() {
-  const [inputMethod, setInputMethod] = useState<'text' | 'file'>('text');
+  const [inputMethod, setInputMethod] = useState<'text' | 'file' | 'page'>('text');
   const [prdContent, setPrdContent] = useState('');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [templateId, setTemplateId] = useState('default'); // Template whose sections the PRD must have
+  const [showRubric, setShowRubric] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [review, setReview] = useState<ReviewResult | null>(null);
+  const [reviewedContent, setReviewedContent] = useState<string>(''); // PRD text the review was run on
   const [error, setError] = useState<string>('');
+  const [job, setJob] = useState<Job<ReviewJobResult> | null>(null);
+  const following = useRef<AbortController | null>(null);
+
+  // Follow a review job until it finishes; it keeps running on the server if the page is left
+  const followReview = async (started: Job<ReviewJobResult>) => {
+    following.current?.abort();
+    const controller = new AbortController();
+    following.current = controller;
+    localStorage.setItem(REVIEW_JOB_KEY, started.id);
+    setIsLoading(true);
+    setError('');
+    setReview(null);
+
+    try {
+      const finished = await jobsApi.waitFor(started, setJob, controller.signal);
+      localStorage.removeItem(REVIEW_JOB_KEY);
+
+      if (finished.status === 'completed' && finished.result) {
+        setReview(finished.result.review);
+        setReviewedContent(finished.result.reviewedContent);
+      } else {
+        setError(finished.error || 'Failed to review PRD');
+      }
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      setError(err.response?.data?.error || err.message || 'Failed to review PRD');
+    } finally {
+      if (!controller.signal.aborted) setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const jobId = localStorage.getItem(REVIEW_JOB_KEY);
+    if (jobId) {
+      jobsApi
+        .get(jobId)
+        .then((response) => {
+          if (response.job) followReview(response.job as Job<ReviewJobResult>);
+          else localStorage.removeItem(REVIEW_JOB_KEY);
+        })
+        .catch(() => localStorage.removeItem(REVIEW_JOB_KEY));
+    }
+    return () => following.current?.abort();
+  }, []);
+
+  const handleRetry = async () => {
+    if (!job) return;
+    try {
+      const response = await jobsApi.retry(job.id);
+      if (response.job) await followReview(response.job as Job<ReviewJobResult>);
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to retry the review');
+    }
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -33,33 +98,37 @@ export default function Reviewer() {
     }
   };
 
+  const reviewText = async (content: string) => {
+    setIsLoading(true);
+    setError('');
+    setReview(null);
+
+    try {
+      const response = await prdApi.review({
+        prdContent: content,
+        templateId,
+      });
+
+      if (response.success && response.job) {
+        await followReview(response.job);
+      } else {
+        setError(response.error || 'Failed to review PRD');
+        setIsLoading(false);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to review PRD');
+      setIsLoading(false);
+    }
+  };
+
   const handleReview = async () => {
-    if (inputMethod === 'text') {
+    if (inputMethod !== 'file') {
       if (!prdContent.trim()) {
         setError('Please enter or paste a PRD to review');
         return;
       }
 
-      setIsLoading(true);
-      setError('');
-      setReview(null);
-
-      try {
-        const response = await prdApi.review({
-          prdContent: prdContent.trim(),
-        });
-
-        if (response.success && response.review) {
-          setReview(response.review);
-          setError('');
-        } else {
-          setError(response.error || 'Failed to review PRD');
-        }
-      } catch (err: any) {
-        setError(err.response?.data?.error || err.message || 'Failed to review PRD');
-      } finally {
-        setIsLoading(false);
-      }
+      await reviewText(prdContent.trim());
     } else {
       // File upload review
       if (!selectedFile) {
@@ -74,23 +143,39 @@ export default function Reviewer() {
       try {
         const formData = new FormData();
         formData.append('document', selectedFile);
+        formData.append('templateId', templateId);
 
         const response = await prdApi.reviewDocument(formData);
 
-        if (response.success && response.review) {
-          setReview(response.review);
-          setError('');
+        if (response.success && response.job) {
+          await followReview(response.job);
         } else {
           setError(response.error || 'Failed to review document');
+          setIsLoading(false);
         }
       } catch (err: any) {
         setError(err.response?.data?.error || err.message || 'Failed to review document');
-      } finally {
         setIsLoading(false);
       }
     }
   };
 
+  // Review an imported Confluence or Notion page right away, keeping it editable for another pass
+  const handleImportPage = (page: ImportedPage) => {
+    const content = `# ${page.title}\n\n${page.markdown}`.trim();
+    setInputMethod('text');
+    setPrdContent(content);
+    reviewText(content);
+  };
+
+  // Load the revised PRD back into the editor so it can be reviewed again
+  const handleUseRevision = (markdown: string) => {
+    setInputMethod('text');
+    setPrdContent(markdown);
+    setSelectedFile(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   const getSeverityColor = (severity: 'critical' | 'important' | 'suggestion') => {
     switch (severity) {
       case 'critical':
@@ -129,6 +214,12 @@ export default function Reviewer() {
           <div className="card">
             <h3 className="text-lg font-semibold mb-4">PRD to Review</h3>
 
+            {/* Template the PRD is checked against for missing sections */}
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">PRD Template</label>
+              <TemplateLibrary selectedId={templateId} onSelect={setTemplateId} disabled={isLoading} />
+            </div>
+
             {/* Input Method Selector */}
             <div className="flex space-x-2 mb-4">
               <button
@@ -147,8 +238,21 @@ export default function Reviewer() {
               >
                 Upload Document
               </button>
+              <button
+                onClick={() => setInputMethod('page')}
+                className={`btn ${
+                  inputMethod === 'page' ? 'btn-primary' : 'btn-secondary'
+                }`}
+              >
+                Confluence / Notion
+              </button>
             </div>
 
+            {/* Page Import */}
+            {inputMethod === 'page' && (
+              <PageImport onImport={handleImportPage} actionLabel="📥 Import & Review" disabled={isLoading} />
+            )}
+
             {/* Text Input */}
             {inputMethod === 'text' && (
               <textarea
@@ -238,12 +342,40 @@ The review will check for:
               className="btn btn-primary w-full mt-4"
               disabled={
                 isLoading ||
-                (inputMethod === 'text' && !prdContent.trim()) ||
+                (inputMethod !== 'file' && !prdContent.trim()) ||
                 (inputMethod === 'file' && !selectedFile)
               }
             >
               {isLoading ? 'Reviewing PRD...' : 'Review PRD'}
             </button>
+
+            {isLoading && job && (
+              <p className="text-sm text-gray-500 mt-2">
+                {job.status === 'queued' ? 'Waiting for a free worker...' : job.progress?.message || 'Reviewing...'} You can
+                leave this page; the review keeps running and shows up here when you come back.
+              </p>
+            )}
+
+            {!isLoading && job?.status === 'failed' && (
+              <button onClick={handleRetry} className="btn btn-secondary w-full mt-2">
+                Retry Review
+              </button>
+            )}
+          </div>
+
+          {/* Org-wide scoring rubric */}
+          <div className="card">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-semibold">⚖️ Review Rubric</h3>
+              <button onClick={() => setShowRubric(!showRubric)} className="btn btn-secondary text-sm">
+                {showRubric ? 'Hide' : 'Edit Rubric'}
+              </button>
+            </div>
+            {showRubric && (
+              <div className="mt-4">
+                <RubricEditor />
+              </div>
+            )}
           </div>
         </div>
 
@@ -263,6 +395,47 @@ The review will check for:
                 <p className="text-gray-600 mt-2">{review.summary}</p>
               </div>
 
+              {/* Rubric Category Scores */}
+              {review.categoryScores && review.categoryScores.length > 0 && (
+                <div className="card">
+                  <h3 className="text-lg font-semibold mb-3 flex items-center">
+                    <span className="mr-2">⚖️</span>
+                    Rubric Scores
+                    {review.rubricVersion !== undefined && (
+                      <span className="ml-2 text-xs font-normal text-gray-500">
+                        {review.rubricVersion === 0 ? 'built-in rubric' : `rubric v${review.rubricVersion}`}
+                      </span>
+                    )}
+                  </h3>
+                  <div className="space-y-3">
+                    {review.categoryScores.map((category) => (
+                      <details key={category.categoryId} className="text-sm">
+                        <summary className="flex items-center justify-between cursor-pointer">
+                          <span className="text-gray-800">
+                            {category.passed ? '✅' : '❌'} {category.name}
+                            <span className="ml-2 text-xs text-gray-500">weight {category.weight}</span>
+                          </span>
+                          <span className={`font-semibold ${getScoreColor(category.score)}`}>{category.score}</span>
+                        </summary>
+                        <ul className="mt-2 ml-6 space-y-1">
+                          {category.criteria.map((criterion, i) => (
+                            <li key={i} className="text-gray-700">
+                              {criterion.passed ? '✓' : '✗'} {criterion.criterion}
+                              {criterion.severity && (
+                                <span className={`ml-2 px-1.5 py-0.5 rounded text-xs border ${getSeverityColor(criterion.severity)}`}>
+                                  {criterion.severity}
+                                </span>
+                              )}
+                              {criterion.note && <div className="text-xs text-gray-500 ml-4">{criterion.note}</div>}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Missing Sections */}
               {review.sections.missingSections.length > 0 && (
                 <div className="card">
@@ -443,6 +616,11 @@ The review will check for:
           )}
         </div>
       </div>
+
+      {/* Revise from Review (full width for the before/after comparison) */}
+      {review && reviewedContent && (
+        <ReviseFromReview review={review} prdContent={reviewedContent} onUseRevision={handleUseRevision} />
+      )}
     </div>
   );
 }
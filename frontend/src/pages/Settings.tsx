@@ -1,13 +1,29 @@
 import React, { useState, useEffect } from 'react';
 import { useSettings } from '../contexts/SettingsContext';
-import type { UserSettings } from '../../../shared/types';
+import type { UserSettings, AIProvider } from '../../../shared/types';
+
+const AI_PROVIDER_OPTIONS: Array<{ value: AIProvider; label: string }> = [
+  { value: 'gemini', label: 'Google Gemini' },
+  { value: 'anthropic', label: 'Anthropic' },
+  { value: 'openai', label: 'OpenAI / OpenAI-compatible' },
+  { value: 'ollama', label: 'Ollama (local)' },
+  { value: 'mock', label: 'Mock (offline fixtures, for development)' },
+];
 
 export const Settings: React.FC = () => {
   const { settings, saving, saveSettings, testConnection } = useSettings();
 
   // Form state
+  const [aiProvider, setAiProvider] = useState<AIProvider>('gemini');
   const [geminiModel, setGeminiModel] = useState('gemini-2.5-pro');
   const [geminiApiKey, setGeminiApiKey] = useState('');
+  const [anthropicModel, setAnthropicModel] = useState('claude-sonnet-4-5');
+  const [anthropicApiKey, setAnthropicApiKey] = useState('');
+  const [openaiModel, setOpenaiModel] = useState('gpt-4o');
+  const [openaiBaseUrl, setOpenaiBaseUrl] = useState('');
+  const [openaiApiKey, setOpenaiApiKey] = useState('');
+  const [ollamaModel, setOllamaModel] = useState('llama3.1');
+  const [ollamaBaseUrl, setOllamaBaseUrl] = useState('http://localhost:11434');
   const [jiraBaseUrl, setJiraBaseUrl] = useState('');
   const [jiraEmail, setJiraEmail] = useState('');
   const [jiraApiToken, setJiraApiToken] = useState('');
@@ -16,7 +32,7 @@ export const Settings: React.FC = () => {
   const [notionApiKey, setNotionApiKey] = useState('');
 
   // Test states
-  const [testingGemini, setTestingGemini] = useState(false);
+  const [testingAI, setTestingAI] = useState(false);
   const [testingJira, setTestingJira] = useState(false);
   const [testingConfluence, setTestingConfluence] = useState(false);
   const [testingNotion, setTestingNotion] = useState(false);
@@ -27,7 +43,11 @@ export const Settings: React.FC = () => {
   // Load settings into form on mount
   useEffect(() => {
     if (settings) {
+      setAiProvider(settings.aiProvider || 'gemini');
       setGeminiModel(settings.geminiModel || 'gemini-2.5-pro');
+      if (settings.anthropicModel) setAnthropicModel(settings.anthropicModel);
+      if (settings.openaiModel) setOpenaiModel(settings.openaiModel);
+      if (settings.ollamaModel) setOllamaModel(settings.ollamaModel);
       // API keys are masked, so only update if they exist (user can leave them as is)
       if (settings.apiKeys?.jira) {
         setJiraEmail(settings.apiKeys.jira.email || '');
@@ -36,17 +56,45 @@ export const Settings: React.FC = () => {
       if (settings.apiKeys?.confluence) {
         setConfluenceBaseUrl(settings.apiKeys.confluence.baseUrl || '');
       }
+      if (settings.apiKeys?.openai) {
+        setOpenaiBaseUrl(settings.apiKeys.openai.baseUrl || '');
+      }
+      if (settings.apiKeys?.ollama) {
+        setOllamaBaseUrl(settings.apiKeys.ollama.baseUrl || '');
+      }
     }
   }, [settings]);
 
+  /**
+   * AI fields for the selected provider
+   */
+  const buildAISettings = (): UserSettings => ({
+    aiProvider,
+    geminiModel,
+    anthropicModel,
+    openaiModel,
+    ollamaModel,
+    apiKeys: {
+      ...(geminiApiKey && { gemini: geminiApiKey }),
+      ...(anthropicApiKey && { anthropic: anthropicApiKey }),
+      ...((openaiApiKey || openaiBaseUrl) && {
+        openai: {
+          ...(openaiApiKey && { apiKey: openaiApiKey }),
+          ...(openaiBaseUrl && { baseUrl: openaiBaseUrl }),
+        },
+      }),
+      ...(ollamaBaseUrl && { ollama: { baseUrl: ollamaBaseUrl } }),
+    },
+  });
+
   const handleSave = async () => {
     setMessage(null);
 
+    const aiSettings = buildAISettings();
     const newSettings: UserSettings = {
-      aiProvider: 'gemini',
-      geminiModel,
+      ...aiSettings,
       apiKeys: {
-        ...(geminiApiKey && { gemini: geminiApiKey }),
+        ...aiSettings.apiKeys,
         ...(jiraEmail && jiraApiToken && jiraBaseUrl && {
           jira: {
             email: jiraEmail,
@@ -74,6 +122,8 @@ export const Settings: React.FC = () => {
       setMessage({ type: 'success', text: 'Settings saved successfully!' });
       // Clear password fields after save
       setGeminiApiKey('');
+      setAnthropicApiKey('');
+      setOpenaiApiKey('');
       setJiraApiToken('');
       setConfluenceApiToken('');
       setNotionApiKey('');
@@ -82,17 +132,13 @@ export const Settings: React.FC = () => {
     }
   };
 
-  const handleTestGemini = async () => {
+  const handleTestAI = async () => {
     setMessage(null);
-    setTestingGemini(true);
+    setTestingAI(true);
 
-    const result = await testConnection('gemini', {
-      aiProvider: 'gemini',
-      geminiModel,
-      apiKeys: { gemini: geminiApiKey },
-    });
+    const result = await testConnection(aiProvider, buildAISettings());
 
-    setTestingGemini(false);
+    setTestingAI(false);
 
     if (result.success) {
       setMessage({ type: 'success', text: result.message });
@@ -197,37 +243,167 @@ export const Settings: React.FC = () => {
         <div className="space-y-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              AI Model
+              AI Provider
             </label>
             <select
-              value={geminiModel}
-              onChange={(e) => setGeminiModel(e.target.value)}
+              value={aiProvider}
+              onChange={(e) => setAiProvider(e.target.value as AIProvider)}
               className="input w-full"
             >
-              <option value="gemini-2.5-pro">Gemini 2.5 Pro (Recommended)</option>
-              <option value="gemini-2.5-flash">Gemini 2.5 Flash (Faster)</option>
+              {AI_PROVIDER_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
             </select>
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Gemini API Key
-            </label>
-            <input
-              type="password"
-              value={geminiApiKey}
-              onChange={(e) => setGeminiApiKey(e.target.value)}
-              className="input w-full"
-              placeholder="Enter new API key or leave blank to keep existing"
-            />
-          </div>
+          {aiProvider === 'gemini' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  AI Model
+                </label>
+                <select
+                  value={geminiModel}
+                  onChange={(e) => setGeminiModel(e.target.value)}
+                  className="input w-full"
+                >
+                  <option value="gemini-2.5-pro">Gemini 2.5 Pro (Recommended)</option>
+                  <option value="gemini-2.5-flash">Gemini 2.5 Flash (Faster)</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Gemini API Key
+                </label>
+                <input
+                  type="password"
+                  value={geminiApiKey}
+                  onChange={(e) => setGeminiApiKey(e.target.value)}
+                  className="input w-full"
+                  placeholder="Enter new API key or leave blank to keep existing"
+                />
+              </div>
+            </>
+          )}
+
+          {aiProvider === 'anthropic' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Model
+                </label>
+                <input
+                  type="text"
+                  value={anthropicModel}
+                  onChange={(e) => setAnthropicModel(e.target.value)}
+                  className="input w-full"
+                  placeholder="claude-sonnet-4-5"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Anthropic API Key
+                </label>
+                <input
+                  type="password"
+                  value={anthropicApiKey}
+                  onChange={(e) => setAnthropicApiKey(e.target.value)}
+                  className="input w-full"
+                  placeholder="Enter new API key or leave blank to keep existing"
+                />
+              </div>
+            </>
+          )}
+
+          {aiProvider === 'openai' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Model
+                </label>
+                <input
+                  type="text"
+                  value={openaiModel}
+                  onChange={(e) => setOpenaiModel(e.target.value)}
+                  className="input w-full"
+                  placeholder="gpt-4o"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Base URL
+                </label>
+                <input
+                  type="url"
+                  value={openaiBaseUrl}
+                  onChange={(e) => setOpenaiBaseUrl(e.target.value)}
+                  className="input w-full"
+                  placeholder="https://api.openai.com/v1 (leave blank for OpenAI)"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  API Key
+                </label>
+                <input
+                  type="password"
+                  value={openaiApiKey}
+                  onChange={(e) => setOpenaiApiKey(e.target.value)}
+                  className="input w-full"
+                  placeholder="Enter new API key or leave blank to keep existing"
+                />
+              </div>
+            </>
+          )}
+
+          {aiProvider === 'ollama' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Model
+                </label>
+                <input
+                  type="text"
+                  value={ollamaModel}
+                  onChange={(e) => setOllamaModel(e.target.value)}
+                  className="input w-full"
+                  placeholder="llama3.1"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Server URL
+                </label>
+                <input
+                  type="url"
+                  value={ollamaBaseUrl}
+                  onChange={(e) => setOllamaBaseUrl(e.target.value)}
+                  className="input w-full"
+                  placeholder="http://localhost:11434"
+                />
+              </div>
+            </>
+          )}
+
+          {aiProvider === 'mock' && (
+            <p className="text-sm text-gray-500">
+              Returns fixed sample responses without calling any AI service. Useful for local development and tests.
+            </p>
+          )}
 
           <button
-            onClick={handleTestGemini}
-            disabled={!geminiApiKey || testingGemini}
+            onClick={handleTestAI}
+            disabled={testingAI}
             className="btn btn-secondary text-sm"
           >
-            {testingGemini ? 'Testing...' : 'Test Connection'}
+            {testingAI ? 'Testing...' : 'Test Connection'}
           </button>
         </div>
       </div>
@@ -4,3 +4,6 @@ export * from './jira';
 export * from './auth';
 export * from './settings';
 export * from './research';
+export * from './template';
+export * from './pages';
+export * from './jobs';
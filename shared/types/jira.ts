@@ -1,8 +1,10 @@
+import type { PRDDiffLine } from './prd';
+
 export interface JiraTicket {
   id: string;
   key: string;
   summary: string;
-  description: string;
+  description: string; // Markdown
   issueType: string;
   status: string;
   priority: string;
@@ -11,13 +13,38 @@ export interface JiraTicket {
   created: string;
   updated: string;
   comments: JiraComment[];
+  parent?: JiraIssueRef; // Epic or parent issue
+  linkedIssues?: JiraLinkedIssue[];
+  subtasks?: JiraIssueRef[];
+  attachments?: JiraAttachment[];
   customFields?: Record<string, any>;
 }
 
+export interface JiraIssueRef {
+  key: string;
+  summary: string;
+  issueType?: string;
+  status?: string;
+}
+
+export interface JiraLinkedIssue extends JiraIssueRef {
+  relationship: string; // How this ticket relates to the linked issue, e.g. "blocks", "is blocked by"
+}
+
+export interface JiraAttachment {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number; // Bytes
+  url: string;
+  author?: string;
+  created?: string;
+}
+
 export interface JiraComment {
   id: string;
   author: string;
-  body: string;
+  body: string; // Markdown
   created: string;
 }
 
@@ -35,3 +62,152 @@ export interface FetchJiraResponse {
   count?: number;
   error?: string;
 }
+
+// Ticket search: a JQL query, or an epic / sprint shortcut that is turned into JQL
+export interface JiraSearchRequest {
+  jql?: string;
+  epicKey?: string; // Child issues of an epic
+  sprint?: string; // Sprint id or name
+  projectKey?: string; // Narrows the epic and sprint shortcuts
+  nextPageToken?: string; // From the previous page
+  maxResults?: number;
+}
+
+export interface JiraSearchResult {
+  key: string;
+  summary: string;
+  issueType: string;
+  status: string;
+  priority: string;
+  assignee?: string;
+  updated: string;
+}
+
+export interface JiraSearchResponse {
+  success: boolean;
+  jql?: string; // The query that was run
+  issues?: JiraSearchResult[];
+  nextPageToken?: string; // Missing on the last page
+  error?: string;
+}
+
+// Push to Jira: an epic with child stories proposed from a PRD
+
+export interface JiraStoryProposal {
+  summary: string;
+  description: string;
+  acceptanceCriteria: string[];
+  sourceRequirement?: string; // PRD user story or requirement the story was derived from
+}
+
+export interface JiraEpicProposal {
+  projectKey: string;
+  epic: {
+    summary: string;
+    description: string;
+  };
+  stories: JiraStoryProposal[];
+}
+
+export interface ProposeJiraIssuesRequest {
+  prdId: string;
+  projectKey: string;
+}
+
+export interface ProposeJiraIssuesResponse {
+  success: boolean;
+  proposal?: JiraEpicProposal;
+  error?: string;
+}
+
+export interface PushJiraIssuesRequest {
+  prdId: string;
+  proposal: JiraEpicProposal; // As edited by the user
+}
+
+// A Jira issue created from a PRD
+export interface PRDJiraIssue {
+  key: string;
+  url: string;
+  issueType: string; // Epic | Story
+  summary: string;
+  parentKey?: string; // Epic key, for stories
+  prdVersion: number; // PRD revision the issue was created from
+  createdAt: string;
+}
+
+export interface PushJiraIssuesResponse {
+  success: boolean;
+  epic?: PRDJiraIssue;
+  stories?: PRDJiraIssue[];
+  errors?: string[]; // Stories that could not be created; the rest were kept
+  error?: string;
+}
+
+export interface ListPRDJiraIssuesResponse {
+  success: boolean;
+  issues?: PRDJiraIssue[];
+  error?: string;
+}
+
+// Source ticket sync: a PRD created from Jira tracks its tickets and flags changes
+
+// What the PRD last reflected of a source ticket
+export interface JiraTicketSnapshot {
+  summary: string;
+  description: string;
+  updated: string; // Jira `updated` timestamp
+  comments: JiraComment[];
+}
+
+export interface PRDSourceTicket {
+  key: string;
+  url?: string;
+  syncedUpdated?: string; // `updated` timestamp of the snapshot (missing until the first check)
+  syncedAt?: string;
+  checkedAt?: string;
+}
+
+export interface SourceTicketChange {
+  key: string;
+  url: string;
+  summary: string; // Current summary
+  updated: string;
+  previousUpdated?: string;
+  changed: boolean;
+  baseline?: boolean; // No snapshot existed yet; the current ticket was recorded and nothing is compared
+  summaryChange?: { before: string; after: string };
+  descriptionDiff?: PRDDiffLine[];
+  newComments: JiraComment[];
+  editedComments: JiraComment[];
+  removedComments: JiraComment[];
+  affectedSections: string[]; // Template sections that most likely need to reflect the change
+  instruction?: string; // Regeneration instruction describing the change
+}
+
+export interface CheckSourceTicketsResponse {
+  success: boolean;
+  tickets?: SourceTicketChange[];
+  error?: string;
+}
+
+export interface ListSourceTicketsResponse {
+  success: boolean;
+  tickets?: PRDSourceTicket[];
+  error?: string;
+}
+
+export interface AcknowledgeSourceTicketsRequest {
+  ticketKeys?: string[]; // Defaults to all source tickets
+}
+
+export interface LinkPRDToJiraRequest {
+  fieldId?: string; // e.g. customfield_10050 (URL or single-line text field); adds a web link when omitted
+}
+
+export interface LinkPRDToJiraResponse {
+  success: boolean;
+  linked?: string[];
+  errors?: string[];
+  error?: string;
+}
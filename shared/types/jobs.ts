@@ -0,0 +1,57 @@
+// ========== Background Jobs ==========
+
+export type JobType =
+  | 'research.evaluate'
+  | 'research.generate-questions'
+  | 'research.analyze'
+  | 'research.report'
+  | 'prd.review'
+  | 'prd.review-document';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface JobProgress {
+  message: string;
+  completed?: number;
+  total?: number;
+}
+
+/**
+ * A long-running AI operation that keeps going on the server when the page that started it is closed
+ */
+export interface Job<TResult = unknown> {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  resourceId?: string; // Research session or PRD the job works on
+  progress?: JobProgress;
+  result?: TResult; // Set once completed
+  error?: string; // Set once failed
+  attempts: number;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface GetJobResponse {
+  success: boolean;
+  job?: Job;
+  error?: string;
+}
+
+export interface ListJobsResponse {
+  success: boolean;
+  jobs?: Job[];
+  error?: string;
+}
+
+export interface RetryJobResponse {
+  success: boolean;
+  job?: Job;
+  error?: string;
+}
+
+/** Payload of each `data:` line of GET /api/jobs/:id/events */
+export interface JobEvent {
+  job: Job;
+}
@@ -0,0 +1,61 @@
+export type PagePlatform = 'confluence' | 'notion';
+
+export interface ImportedPage {
+  platform: PagePlatform;
+  id: string;
+  title: string;
+  url: string;
+  markdown: string; // Page body converted to markdown
+  version?: number; // Confluence page version
+  lastEdited?: string; // ISO timestamp of the last edit
+}
+
+export interface ImportPageRequest {
+  platform: PagePlatform;
+  page: string; // Page id or URL
+}
+
+export interface ImportPageResponse {
+  success: boolean;
+  page?: ImportedPage;
+  error?: string;
+}
+
+export interface PRDExternalPage {
+  platform: PagePlatform;
+  pageId: string;
+  url: string;
+  prdVersion: number; // PRD revision last exported
+  exportedAt: string;
+}
+
+export interface ExportPRDRequest {
+  platform: PagePlatform;
+  title: string;
+  content: string;
+  spaceKey?: string; // Confluence space for a new page
+  parentPageId?: string;
+  prdId?: string; // Update the page the PRD was last exported to, instead of creating another one
+  force?: boolean; // Overwrite the page even if it was edited since the last export
+}
+
+export interface ExportConflict {
+  lastEdited?: string;
+  editedBy?: string;
+}
+
+export interface ExportPRDResponse {
+  success: boolean;
+  platform?: PagePlatform;
+  pageId?: string;
+  url?: string;
+  updated?: boolean; // True when an existing page was updated in place
+  conflict?: ExportConflict; // Set with a 409 when the page was edited outside the app since the last export
+  error?: string;
+}
+
+export interface ListPRDExportsResponse {
+  success: boolean;
+  pages?: PRDExternalPage[];
+  error?: string;
+}
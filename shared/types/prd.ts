@@ -27,6 +27,7 @@ export interface PRDDocument {
   appendix: {
     meetingNotes: string[];
   };
+  otherSections?: Array<{ heading: string; content: string }>; // `##` sections the template doesn't have (e.g. from team templates)
 }
 
 export interface PRDMetadata {
@@ -35,6 +36,9 @@ export interface PRDMetadata {
   updatedAt: string;
   source: 'text' | 'jira' | 'file';
   sourceId?: string; // Jira ticket ID, etc.
+  title?: string;
+  version?: number; // Latest revision number
+  templateId?: string; // PRD template the PRD was generated from (omitted for the default template)
 }
 
 export interface PRDWithMetadata {
@@ -46,6 +50,8 @@ export interface CreatePRDRequest {
   input: string;
   inputType: 'text' | 'jira';
   sourceId?: string;
+  prdId?: string; // Regenerate into an existing PRD as a new revision
+  templateId?: string; // PRD template to follow (defaults to the built-in template)
 }
 
 export interface CreatePRDResponse {
@@ -54,3 +60,143 @@ export interface CreatePRDResponse {
   markdown?: string;
   error?: string;
 }
+
+export interface GetPRDResponse {
+  success: boolean;
+  prd?: {
+    metadata: PRDMetadata;
+    markdown: string;
+  };
+  error?: string;
+}
+
+export interface ListPRDsResponse {
+  success: boolean;
+  prds?: Array<PRDMetadata & { title: string }>;
+  error?: string;
+}
+
+export interface UpdatePRDRequest {
+  markdown: string;
+  changeNote?: string;
+}
+
+export interface UpdatePRDResponse {
+  success: boolean;
+  metadata?: PRDMetadata;
+  markdown?: string;
+  unchanged?: boolean; // True when the markdown matched the latest version and no revision was saved
+  error?: string;
+}
+
+export interface RegenerateSectionRequest {
+  heading: string; // `##` heading from the PRD's template
+  instruction?: string; // e.g. "make metrics quantitative"
+}
+
+export interface RegenerateSectionResponse {
+  success: boolean;
+  metadata?: PRDMetadata;
+  markdown?: string;
+  section?: string; // The regenerated section markdown
+  error?: string;
+}
+
+export interface ParsePRDRequest {
+  markdown: string;
+}
+
+export interface ParsePRDResponse {
+  success: boolean;
+  document?: PRDDocument;
+  error?: string;
+}
+
+export interface GetPRDDocumentResponse {
+  success: boolean;
+  metadata?: PRDMetadata;
+  document?: PRDDocument;
+  error?: string;
+}
+
+export interface RenderPRDRequest {
+  document: PRDDocument;
+}
+
+export interface RenderPRDResponse {
+  success: boolean;
+  markdown?: string;
+  error?: string;
+}
+
+export interface ListTemplateSectionsResponse {
+  success: boolean;
+  sections?: string[];
+  error?: string;
+}
+
+// ========== Revision History ==========
+
+export type PRDChangeType = 'create' | 'regenerate' | 'edit' | 'revise' | 'restore';
+
+export interface PRDRevisionSummary {
+  id: string;
+  version: number;
+  title: string;
+  changeType: PRDChangeType;
+  changeNote?: string;
+  createdAt: string;
+}
+
+export interface PRDRevision extends PRDRevisionSummary {
+  markdown: string;
+}
+
+export interface PRDDiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+export interface PRDSectionDiff {
+  heading: string; // `##` heading text, or '(Title)' for content before the first section
+  status: 'added' | 'removed' | 'modified' | 'unchanged';
+  additions: number;
+  deletions: number;
+  lines: PRDDiffLine[]; // Empty for unchanged sections
+}
+
+export interface PRDDiff {
+  fromVersion: number;
+  toVersion: number;
+  sections: PRDSectionDiff[];
+  stats: {
+    additions: number;
+    deletions: number;
+    sectionsChanged: number;
+  };
+}
+
+export interface ListPRDRevisionsResponse {
+  success: boolean;
+  revisions?: PRDRevisionSummary[];
+  error?: string;
+}
+
+export interface GetPRDRevisionResponse {
+  success: boolean;
+  revision?: PRDRevision;
+  error?: string;
+}
+
+export interface DiffPRDRevisionsResponse {
+  success: boolean;
+  diff?: PRDDiff;
+  error?: string;
+}
+
+export interface RestorePRDRevisionResponse {
+  success: boolean;
+  metadata?: PRDMetadata;
+  markdown?: string;
+  error?: string;
+}
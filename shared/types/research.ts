@@ -1,5 +1,7 @@
 // Research Planner Types
 
+import type { Job } from './jobs';
+
 // ========== Step 1 & 2: Problem Evaluation ==========
 
 export interface CreateResearchSessionRequest {
@@ -42,10 +44,14 @@ export interface CreateResearchSessionResponse {
     expectedOutcome?: string;
     researchType: 'survey' | 'interview';
   };
-  evaluation?: ProblemEvaluation;
+  job?: Job<EvaluateProblemJobResult>; // Evaluates the problem in the background
   error?: string;
 }
 
+export interface EvaluateProblemJobResult {
+  evaluation: ProblemEvaluation;
+}
+
 // ========== Step 3: Question Generation ==========
 
 export interface SurveyQuestion {
@@ -72,14 +78,18 @@ export interface GenerateQuestionsRequest {
   depth?: 'quick' | 'standard' | 'comprehensive';
 }
 
-export interface GenerateQuestionsResponse {
-  success: boolean;
-  plan?: {
+export interface GenerateQuestionsJobResult {
+  plan: {
     questions: SurveyQuestion[] | InterviewGuide;
     evaluation: ProblemEvaluation;
     tone: string;
     depth: string;
   };
+}
+
+export interface GenerateQuestionsResponse {
+  success: boolean;
+  job?: Job<GenerateQuestionsJobResult>;
   error?: string;
 }
 
@@ -98,26 +108,134 @@ export interface UpdateQuestionsResponse {
 
 // ========== Step 5: Upload Results ==========
 
-export interface UploadResultsResponse {
+// Survey uploads are matched column-to-question, and the user confirms the match before analysis
+
+export type ColumnMatchMethod = 'prefix' | 'exact' | 'fuzzy' | 'manual';
+
+export interface ColumnMappingEntry {
+  questionId: string;
+  column: string | null; // null when no uploaded column answers the question
+  method?: ColumnMatchMethod;
+  confidence?: number; // 0-1 word overlap, for fuzzy matches
+}
+
+/** Answers in a mapped column that don't fit its question's type or options */
+export interface ColumnValidationIssue {
+  questionId: string;
+  column: string;
+  invalidCount: number;
+  examples: string[];
+  message: string;
+}
+
+export interface ColumnMapping {
+  columns: string[]; // Every uploaded column header
+  entries: ColumnMappingEntry[]; // One per question, in question order
+  confirmed: boolean;
+  issues: ColumnValidationIssue[];
+}
+
+// A session can hold several uploads, e.g. a pilot, the main batch and a follow-up; each is a dataset
+
+/** One uploaded file of responses or transcripts, with where it came from */
+export interface ResearchDataset {
+  id: string;
+  label: string; // Wave name, e.g. "Pilot"
+  fileName: string;
+  fileType: string;
+  itemCount: number; // Survey rows or interview transcripts
+  uploadedBy: { id: string; name?: string; email: string };
+  uploadedAt: string;
+  columnMapping?: ColumnMapping; // Surveys only; suggested on upload, confirmed before analysis
+}
+
+export interface UploadDatasetResponse {
+  success: boolean;
+  dataset?: ResearchDataset;
+  preview?: any[];
+  error?: string;
+}
+
+export interface DeleteDatasetResponse {
   success: boolean;
-  parsedData?: {
-    rowCount: number;
-    preview: any[];
-    dataType: 'survey' | 'interview';
-  };
+  error?: string;
+}
+
+export interface UpdateColumnMappingRequest {
+  mapping: Record<string, string | null>; // Question id -> column header
+}
+
+export interface UpdateColumnMappingResponse {
+  success: boolean;
+  columnMapping?: ColumnMapping;
   error?: string;
 }
 
 // ========== Step 6: Analysis ==========
 
+// Survey statistics are computed from the uploaded rows in code; the LLM only interprets them
+
+export interface AnswerCount {
+  answer: string;
+  count: number;
+  percent: number; // Of respondents who gave a countable answer to the question
+}
+
+export interface NetScore {
+  kind: 'nps' | 'top-2-box'; // NPS on 0-10 scales, top-2-box minus bottom-2-box on shorter scales
+  promoters: number;
+  passives: number;
+  detractors: number;
+  score: number; // -100 to 100
+}
+
+export interface QuestionStatistics {
+  questionId: string;
+  questionText: string;
+  type: SurveyQuestion['type'];
+  column?: string; // Uploaded column the answers came from; unset when no column matched
+  responses: number;
+  skipped: number;
+  distribution: AnswerCount[]; // Empty for open-ended questions
+  unmatchedAnswers?: number; // Answers that aren't one of the question's options or scale points
+  mean?: number;
+  median?: number;
+  scale?: { min: number; max: number };
+  netScore?: NetScore;
+}
+
+export interface CrossTabSegment {
+  segment: string;
+  respondents: number; // Everyone in the segment, whether or not they answered the question
+  distribution: AnswerCount[];
+  mean?: number;
+}
+
+/** A question's answers broken down by the answers to a screening question */
+export interface CrossTab {
+  segmentQuestionId: string;
+  segmentQuestionText: string;
+  questionId: string;
+  questionText: string;
+  segments: CrossTabSegment[];
+}
+
+export interface SurveyStatistics {
+  respondentCount: number;
+  questions: QuestionStatistics[];
+  crossTabs: CrossTab[];
+  unmappedColumns: string[];
+}
+
 export interface SurveyAnalysis {
   responseDistribution: Record<string, any>;
   keyTrends: string[];
-  topPainPoints: Array<{ pain: string; frequency: number }>;
+  topPainPoints: Array<{ pain: string; frequency: number; count?: number }>; // frequency: % of respondents
   segmentDifferences: Record<string, any>;
   insightClusters: Array<{ theme: string; insights: string[] }>;
   recommendationSummary: string[];
   decisionSignals: string[];
+  statistics?: SurveyStatistics; // Absent on analyses made before statistics were computed in code
 }
 
 export interface InterviewAnalysis {
@@ -129,9 +247,75 @@ export interface InterviewAnalysis {
   productDecisionInputs: string[];
 }
 
+export interface AnalyzeResultsRequest {
+  datasetIds?: string[]; // Datasets to include; all of the session's datasets if omitted
+}
+
+export interface AnalyzeResultsJobResult {
+  analysis: SurveyAnalysis | InterviewAnalysis;
+  run: ResearchAnalysisSummary;
+}
+
+/** A finished analysis run and the datasets it covered */
+export interface ResearchAnalysisSummary {
+  id: string;
+  datasetIds: string[];
+  datasetLabels: string[];
+  respondentCount: number; // Survey respondents or interview transcripts
+  createdAt: string;
+  current: boolean; // The analysis shown in Step 6 and used for the report
+}
+
+export interface ListResearchAnalysesResponse {
+  success: boolean;
+  analyses?: ResearchAnalysisSummary[];
+  error?: string;
+}
+
+// Waves are compared figure by figure from their stored analyses, without another AI call
+
+/** One figure across the compared analyses, in their order; null where an analysis doesn't have it */
+export interface ComparisonRow {
+  label: string;
+  values: Array<number | null>;
+  change: number | null; // Last value minus the first, when both are set
+}
+
+export interface ComparisonSection {
+  title: string;
+  unit: 'count' | 'percent' | 'mean' | 'score';
+  rows: ComparisonRow[];
+}
+
+export interface AnalysisComparison {
+  analyses: ResearchAnalysisSummary[]; // Oldest first
+  sections: ComparisonSection[];
+}
+
+export interface CompareAnalysesResponse {
+  success: boolean;
+  comparison?: AnalysisComparison;
+  error?: string;
+}
+
 export interface AnalyzeResultsResponse {
   success: boolean;
-  analysis?: SurveyAnalysis | InterviewAnalysis;
+  job?: Job<AnalyzeResultsJobResult>;
+  error?: string;
+}
+
+/**
+ * Progress of a batched analysis run
+ * Large uploads are analyzed in batches whose findings are saved as they finish, so a failed
+ * or interrupted run resumes from the last finished batch
+ */
+export type AnalysisPhase = 'extracting' | 'merging' | 'interpreting' | 'completed' | 'failed';
+
+export interface AnalysisProgress {
+  phase: AnalysisPhase;
+  completedBatches: number;
+  totalBatches: number;
+  updatedAt: string;
   error?: string;
 }
 
@@ -148,9 +332,14 @@ export interface ResearchReport {
   };
 }
 
+export interface GenerateReportJobResult {
+  report: ResearchReport;
+}
+
 export interface GetReportResponse {
   success: boolean;
-  report?: ResearchReport;
+  report?: ResearchReport; // Set if the report was already generated
+  job?: Job<GenerateReportJobResult>; // Otherwise the job generating it
   error?: string;
 }
 
@@ -184,13 +373,11 @@ export interface GetResearchSessionResponse {
     depth: string;
     isEdited: boolean;
   };
+  datasets?: ResearchDataset[]; // Oldest first
   results?: {
     id: string;
-    uploadedFileName?: string;
-    uploadedFileType?: string;
-    uploadedAt?: string;
-    parsedData?: any; // Stored as JSON string in DB, parsed on retrieval
-    analysis?: SurveyAnalysis | InterviewAnalysis;
+    analysis?: SurveyAnalysis | InterviewAnalysis; // The current analysis
+    analysisRun?: ResearchAnalysisSummary;
     reportGenerated: boolean;
     reportMarkdown?: string;
   };
@@ -1,3 +1,6 @@
+import type { PRDDiff, PRDMetadata } from './prd';
+import type { Job } from './jobs';
+
 export type Severity = 'critical' | 'important' | 'suggestion';
 
 export interface UnclearRequirement {
@@ -29,19 +32,176 @@ export interface ReviewSections {
 }
 
 export interface ReviewResult {
-  overallScore: number; // 0-100
+  overallScore: number; // 0-100, weighted average of categoryScores
   sections: ReviewSections;
   recommendations: string[];
   summary: string;
+  categoryScores?: CategoryScore[]; // Missing on reviews stored before rubrics existed
+  rubricVersion?: number; // Rubric the review was scored against
+}
+
+// ========== Review Rubric ==========
+
+export interface RubricCategory {
+  id: string; // Stable key, e.g. "security"
+  name: string;
+  weight: number; // Relative weight in overallScore
+  criteria: string[]; // Pass/fail checks applied to the PRD
+}
+
+export interface ReviewRubric {
+  version: number; // 0 for the built-in rubric
+  name: string;
+  categories: RubricCategory[];
+  severityThreshold: Severity; // A failed criterion at or above this severity fails its category
+  updatedBy?: string; // Username of whoever saved this version
+  createdAt?: string;
+}
+
+export interface CriterionResult {
+  criterion: string;
+  passed: boolean;
+  severity?: Severity; // How serious the failure is (failed criteria only)
+  note?: string; // Evidence from the PRD, or what is missing
+}
+
+export interface CategoryScore {
+  categoryId: string;
+  name: string;
+  weight: number;
+  score: number; // 0-100, share of criteria passed
+  passed: boolean; // No failed criterion at or above the rubric's severity threshold
+  criteria: CriterionResult[];
+}
+
+export interface UpdateReviewRubricRequest {
+  name: string;
+  categories: RubricCategory[];
+  severityThreshold: Severity;
+}
+
+export interface GetReviewRubricResponse {
+  success: boolean;
+  rubric?: ReviewRubric;
+  canEdit?: boolean; // Whether the current user may save a new version (GET /api/review-rubric only)
+  error?: string;
+}
+
+export interface ListReviewRubricsResponse {
+  success: boolean;
+  rubrics?: ReviewRubric[]; // Newest first
+  error?: string;
 }
 
 export interface ReviewPRDRequest {
-  prdContent: string;
+  prdContent: string; // Ignored when prdId is set: the PRD's stored text is reviewed
   format?: 'markdown' | 'json';
+  prdId?: string; // Link the stored review to a saved PRD (its current version)
+  templateId?: string; // Template whose sections are required (defaults to the PRD's template, then the built-in one)
+}
+
+export interface ReviewJobResult {
+  review: ReviewResult;
+  reviewId: string;
+  reviewedContent: string; // PRD text the review was run on, e.g. the full text extracted from an uploaded document
+  filename?: string;
 }
 
 export interface ReviewPRDResponse {
   success: boolean;
-  review?: ReviewResult;
+  job?: Job<ReviewJobResult>; // Reviews the PRD in the background
+  error?: string;
+}
+
+// ========== Revise From Review ==========
+
+export type ReviewFindingCategory = keyof ReviewSections | 'recommendations';
+
+export interface ReviewFinding {
+  id: string; // Stable within one review, e.g. "edgeCases-2"
+  category: ReviewFindingCategory;
+  text: string;
+  section?: string; // PRD section the finding points at, when known
+  severity?: Severity;
+}
+
+export interface ReviewChange {
+  findingId: string;
+  section: string; // PRD section that was edited
+  description: string; // What was changed to address the finding
+}
+
+export interface ReviseFromReviewRequest {
+  prdContent: string; // Ignored when prdId is set: the PRD's stored text is revised
+  findings: ReviewFinding[];
+  prdId?: string; // Save the revision to this PRD's history
+}
+
+export interface ReviseFromReviewResponse {
+  success: boolean;
+  revisedMarkdown?: string;
+  summary?: string;
+  changes?: ReviewChange[];
+  diff?: PRDDiff;
+  metadata?: PRDMetadata; // Present when the revision was saved to a PRD
+  error?: string;
+}
+
+// ========== Stored Reviews & Score Trend ==========
+
+export type ReviewGapCounts = Record<keyof ReviewSections, number>;
+
+export interface PRDReviewSummary {
+  id: string;
+  prdId?: string;
+  prdVersion?: number;
+  source: 'text' | 'document';
+  overallScore: number;
+  model: string;
+  promptVersion: string;
+  rubricVersion?: number;
+  createdAt: string;
+}
+
+export interface PRDReviewRecord extends PRDReviewSummary {
+  review: ReviewResult;
+}
+
+export interface PRDScoreTrendPoint {
+  reviewId: string;
+  prdVersion?: number;
+  overallScore: number;
+  gapCounts: ReviewGapCounts;
+  totalGaps: number;
+  model: string;
+  promptVersion: string;
+  rubricVersion?: number; // Scores are only comparable between points with the same rubric version
+  createdAt: string;
+}
+
+export interface PRDScoreTrend {
+  prdId: string;
+  points: PRDScoreTrendPoint[]; // Oldest first
+  firstScore?: number;
+  latestScore?: number;
+  scoreDelta?: number; // latestScore - firstScore
+  gapDelta?: ReviewGapCounts; // Latest minus first, per category (negative = fewer gaps)
+}
+
+export interface ListPRDReviewsResponse {
+  success: boolean;
+  reviews?: PRDReviewSummary[];
+  error?: string;
+}
+
+export interface GetPRDReviewResponse {
+  success: boolean;
+  review?: PRDReviewRecord;
+  error?: string;
+}
+
+export interface GetPRDScoreTrendResponse {
+  success: boolean;
+  trend?: PRDScoreTrend;
   error?: string;
 }
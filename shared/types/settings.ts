@@ -1,8 +1,21 @@
+export type AIProvider = 'gemini' | 'anthropic' | 'openai' | 'ollama' | 'mock'; // 'mock' returns offline fixtures
+
 export interface UserSettings {
-  aiProvider: 'gemini'; // Future: 'gemini' | 'claude'
+  aiProvider: AIProvider;
   geminiModel: string; // e.g., 'gemini-2.5-pro', 'gemini-2.5-flash'
+  anthropicModel?: string; // e.g., 'claude-sonnet-4-5'
+  openaiModel?: string; // e.g., 'gpt-4o' or any model on an OpenAI-compatible server
+  ollamaModel?: string; // e.g., 'llama3.1'
   apiKeys: {
     gemini?: string;
+    anthropic?: string;
+    openai?: {
+      apiKey?: string; // Optional for local OpenAI-compatible servers
+      baseUrl?: string; // Defaults to https://api.openai.com/v1
+    };
+    ollama?: {
+      baseUrl: string; // e.g., http://localhost:11434
+    };
     jira?: {
       email: string;
       apiToken: string;
@@ -0,0 +1,41 @@
+export interface PRDTemplate {
+  id: string; // 'default' for the built-in template
+  name: string;
+  team?: string; // e.g. platform, growth, ML
+  description?: string;
+  markdown: string;
+  sections: string[]; // `##` headings, in template order
+  builtIn: boolean; // The built-in template can't be edited or deleted
+  createdBy?: string; // Username of the creator
+  canEdit: boolean; // True when the current user created the template
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type PRDTemplateSummary = Omit<PRDTemplate, 'markdown'>;
+
+export interface CreatePRDTemplateRequest {
+  name: string;
+  team?: string;
+  description?: string;
+  markdown: string;
+}
+
+export type UpdatePRDTemplateRequest = Partial<CreatePRDTemplateRequest>;
+
+export interface ListPRDTemplatesResponse {
+  success: boolean;
+  templates?: PRDTemplateSummary[];
+  error?: string;
+}
+
+export interface GetPRDTemplateResponse {
+  success: boolean;
+  template?: PRDTemplate;
+  error?: string;
+}
+
+export interface DeletePRDTemplateResponse {
+  success: boolean;
+  error?: string;
+}